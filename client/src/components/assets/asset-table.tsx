@@ -62,6 +62,14 @@ interface AssetTableProps {
   pageSize?: number;
   currentPage?: number;
   onPageChange?: (page: number) => void;
+  // Set when the parent pages on the server; assets is then just the current page
+  totalCount?: number;
+  onListParamsChange?: (params: AssetListParams) => void;
+}
+
+export interface AssetListParams {
+  sort?: string;
+  filters: Record<string, string>;
 }
 
 type SortField = 'assetTag' | 'name' | 'serialNumber' | 'status' | 'condition' | 'category' | 'assignedTo' | 'knoxId' ;
@@ -78,7 +86,8 @@ interface ColumnFilter {
   knoxId: string;
 }
 
-export default function AssetTable({ assets, isLoading, onEdit, onDelete, limit, onView, onFilteredAssetsChange, pageSize: propPageSize, currentPage, onPageChange }: AssetTableProps) {
+export default function AssetTable({ assets, isLoading, onEdit, onDelete, limit, onView, onFilteredAssetsChange, pageSize: propPageSize, currentPage, onPageChange, totalCount, onListParamsChange }: AssetTableProps) {
+  const serverSide = totalCount !== undefined;
   const [page, setPage] = useState(currentPage || 1);
   const [conditionFilter, setConditionFilter] = useState("all");
   const [assetToDelete, setAssetToDelete] = useState<Asset | null>(null);
@@ -279,8 +288,8 @@ export default function AssetTable({ assets, isLoading, onEdit, onDelete, limit,
     setPage(1);
   };
 
-  // Filter and sort assets
-  const filteredAndSortedAssets = assets
+  // Filter and sort assets (already done by the API when paging server-side)
+  const filteredAndSortedAssets = serverSide ? assets : assets
     .filter(asset => {
       const assignedInfo = getAssignedInfo(asset);
       return (
@@ -347,8 +356,11 @@ export default function AssetTable({ assets, isLoading, onEdit, onDelete, limit,
       return 0;
     });
 
-  const totalPages = Math.ceil(filteredAndSortedAssets.length / pageSize);
-  const displayedAssets = limit ? filteredAndSortedAssets.slice(0, limit) : filteredAndSortedAssets.slice((page - 1) * pageSize, page * pageSize);
+  const totalAssets = totalCount ?? filteredAndSortedAssets.length;
+  const totalPages = Math.ceil(totalAssets / pageSize);
+  const displayedAssets = limit
+    ? filteredAndSortedAssets.slice(0, limit)
+    : serverSide ? filteredAndSortedAssets : filteredAndSortedAssets.slice((page - 1) * pageSize, page * pageSize);
 
   // Get unique values for filter dropdowns
   const uniqueStatuses = [...new Set(assets.map(asset => asset.status))];
@@ -368,6 +380,37 @@ export default function AssetTable({ assets, isLoading, onEdit, onDelete, limit,
     return <ArrowUpDownIcon className="h-4 w-4" />;
   };
 
+  useEffect(() => {
+    if (currentPage) setPage(currentPage);
+  }, [currentPage]);
+
+  useEffect(() => {
+    if (propPageSize) setPageSize(propPageSize);
+  }, [propPageSize]);
+
+  // Server-side paging: hand the column filters and sort to the parent's API query.
+  // "Assigned to" shows the Knox ID first, so it filters and sorts on knoxId.
+  useEffect(() => {
+    if (!serverSide || !onListParamsChange) return;
+
+    const filters: Record<string, string> = {};
+    for (const field of ['assetTag', 'name', 'serialNumber', 'knoxId'] as const) {
+      if (columnFilters[field]) filters[field] = `~${columnFilters[field]}`;
+    }
+    for (const field of ['status', 'condition', 'category'] as const) {
+      if (columnFilters[field]) filters[field] = columnFilters[field];
+    }
+    if (columnFilters.assignedTo && !filters.knoxId) {
+      filters.knoxId = `~${columnFilters.assignedTo}`;
+    }
+
+    const sortColumn = sortField === 'assignedTo' ? 'knoxId' : sortField;
+    onListParamsChange({
+      sort: sortColumn && sortDirection ? `${sortDirection === 'desc' ? '-' : ''}${sortColumn}` : undefined,
+      filters,
+    });
+  }, [serverSide, columnFilters, sortField, sortDirection]);
+
     useEffect(() => {
       if (onFilteredAssetsChange) {
         onFilteredAssetsChange(filteredAndSortedAssets);
@@ -768,8 +811,10 @@ export default function AssetTable({ assets, isLoading, onEdit, onDelete, limit,
             {!limit && totalPages > 1 && (
               <div className="flex flex-col sm:flex-row items-center justify-between mt-4 gap-4">
                 <div className="text-sm text-gray-500">
-                  Showing {(page - 1) * pageSize + 1} to {Math.min(page * pageSize, filteredAndSortedAssets.length)} of {filteredAndSortedAssets.length} assets
+                  Showing {(page - 1) * pageSize + 1} to {Math.min(page * pageSize, totalAssets)} of {totalAssets} assets
                 </div>
+                {/* The parent owns the page size when paging server-side */}
+                {!serverSide && (
                                 <Select value={pageSize.toString()} onValueChange={(value) => {
                                         setPageSize(parseInt(value));
                                         setPage(1);
@@ -785,6 +830,7 @@ export default function AssetTable({ assets, isLoading, onEdit, onDelete, limit,
                                                 ))}
                                         </SelectContent>
                                 </Select>
+                )}
                 <Pagination>
                   <PaginationContent>
                     <PaginationItem>
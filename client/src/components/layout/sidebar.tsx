@@ -215,6 +215,12 @@ const adminMenuItems = [
     href: "/admin/jira-settings",
     badge: null
   },
+  { 
+    title: "Sessions", 
+    icon: Key, 
+    href: "/admin/sessions",
+    badge: null
+  },
 ];
 
 const helpMenuItems = [
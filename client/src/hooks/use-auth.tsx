@@ -10,6 +10,7 @@ interface User {
   department?: string
   isAdmin?: boolean
   roleId?: number | null
+  passwordExpired?: boolean
   permissions?: {
     [key: string]: {
       view: boolean;
@@ -110,4 +111,11 @@ export function useAuth(): AuthContextType {
     throw new Error('useAuth must be used within an AuthProvider')
   }
   return context
-}
\ No newline at end of file
+}
+
+// Mirrors checkPermission on the server: admins can do everything, everyone else needs the role flag
+export function useHasPermission(resource: string, action: 'view' | 'edit' | 'add' | 'delete'): boolean {
+  const { user } = useAuth();
+  if (!user) return false;
+  return user.isAdmin === true || user.permissions?.[resource]?.[action] === true;
+}
@@ -83,6 +83,8 @@ export function getStatusColor(status: string) {
       return 'bg-yellow-100 text-yellow-800';
     case 'Reserved':
       return 'bg-red-100 text-red-800';
+    case 'overdue':
+      return 'bg-orange-100 text-orange-800';
     default:
       return 'bg-gray-100 text-gray-800';
   }
@@ -47,12 +47,14 @@ import Profile from '@/pages/profile';
 import ReportIssue from '@/pages/report-issue';
 import JiraSettings from './pages/admin/jira-settings';
 import JiraDashboard from './pages/jira-dashboard';
+import ChangePassword from './pages/change-password';
 import MonitoringPage from "@/pages/monitoring";
 import Notifications from '@/pages/notifications';
 import MonitorInventory from '@/pages/monitor-inventory';
 
 // Admin pages
 import SystemSetup from '@/pages/admin/system-setup';
+import Sessions from '@/pages/admin/sessions';
 import UserPermissions from '@/pages/admin/user-permissions';
 import Database from '@/pages/admin/database';
 
@@ -93,6 +95,10 @@ function AppContent() {
     );
   }
 
+  if (user.passwordExpired) {
+    return <ChangePassword />;
+  }
+
   return <AppLayout />;
 }
 
@@ -186,6 +192,14 @@ function AppLayout() {
                   <SystemSetup />
                 </ProtectedRoute>
               </Route>
+              <Route path="/admin/sessions">
+                <ProtectedRoute
+                  requireAdmin={true}
+                  requiredPermission={{ resource: 'admin', action: 'view' }}
+                >
+                  <Sessions />
+                </ProtectedRoute>
+              </Route>
               <Route path="/profile">
                 <ProtectedRoute allowedRoles={['admin', 'user']}>
                   <Profile />
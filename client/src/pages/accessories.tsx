@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
+import { useHasPermission } from "@/hooks/use-auth";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -14,7 +15,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { Table, TableBody, TableCaption, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { Search, Plus, Filter, Pencil, Trash2, Eye, Upload, Download } from "lucide-react";
+import { Search, Plus, Filter, Pencil, Trash2, Eye, Upload, Download, LogOut, LogIn } from "lucide-react";
 
 import { AccessoryStatus } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -72,8 +73,11 @@ export default function Accessories() {
   const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
   const [accessoryToDelete, setAccessoryToDelete] = useState<Accessory | null>(null);
   const [isConfirmDeleteOpen, setIsConfirmDeleteOpen] = useState(false);
+  const [accessoryToCheckout, setAccessoryToCheckout] = useState<Accessory | null>(null);
+  const [checkoutData, setCheckoutData] = useState({ knoxId: "", quantity: 1, notes: "" });
 
   const { toast } = useToast();
+  const canDelete = useHasPermission('accessories', 'delete');
 
   const form = useForm<AccessoryFormValues>({
     resolver: zodResolver(accessorySchema),
@@ -183,6 +187,60 @@ export default function Accessories() {
     },
   });
 
+  // Checkout / return mutations
+  const checkoutAccessoryMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: typeof checkoutData }) => {
+      return apiRequest('POST', `/api/accessories/${id}/checkout`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/accessories'] });
+      setAccessoryToCheckout(null);
+      toast({
+        title: "Success",
+        description: "Accessory checked out successfully",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to check out accessory",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const returnAccessoryMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest('POST', `/api/accessories/${id}/return`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/accessories'] });
+      toast({
+        title: "Success",
+        description: "Accessory returned successfully",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to return accessory",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCheckoutClick = (accessory: Accessory) => {
+    setCheckoutData({ knoxId: "", quantity: 1, notes: "" });
+    setAccessoryToCheckout(accessory);
+  };
+
+  const handleCheckoutSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (accessoryToCheckout) {
+      checkoutAccessoryMutation.mutate({ id: accessoryToCheckout.id, data: checkoutData });
+    }
+  };
+
   const onSubmit = (data: AccessoryFormValues) => {
     addAccessoryMutation.mutate(data);
   };
@@ -478,6 +536,26 @@ export default function Accessories() {
                           >
                             <Eye className="h-4 w-4" />
                           </Button>
+                          {accessory.status === AccessoryStatus.BORROWED ? (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Return"
+                              disabled={returnAccessoryMutation.isPending}
+                              onClick={() => returnAccessoryMutation.mutate(accessory.id)}
+                            >
+                              <LogIn className="h-4 w-4" />
+                            </Button>
+                          ) : (accessory.status === AccessoryStatus.AVAILABLE || accessory.status === AccessoryStatus.RETURNED) && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Check out"
+                              onClick={() => handleCheckoutClick(accessory)}
+                            >
+                              <LogOut className="h-4 w-4" />
+                            </Button>
+                          )}
                           <Button
                             variant="ghost"
                             size="icon"
@@ -485,13 +563,15 @@ export default function Accessories() {
                           >
                             <Pencil className="h-4 w-4" />
                           </Button>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={() => handleDeleteClick(accessory)}
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
+                          {canDelete && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleDeleteClick(accessory)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -503,6 +583,57 @@ export default function Accessories() {
         </CardContent>
       </Card>
 
+      {/* Checkout Accessory Dialog */}
+      <Dialog open={!!accessoryToCheckout} onOpenChange={(open) => !open && setAccessoryToCheckout(null)}>
+        <DialogContent className="w-[95%] max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>Check Out Accessory</DialogTitle>
+            <DialogDescription>
+              {accessoryToCheckout && `${accessoryToCheckout.name} - ${accessoryToCheckout.quantity} in stock`}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleCheckoutSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="checkout-knox-id">Knox ID</Label>
+              <Input
+                id="checkout-knox-id"
+                value={checkoutData.knoxId}
+                onChange={(e) => setCheckoutData({ ...checkoutData, knoxId: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="checkout-quantity">Quantity</Label>
+              <Input
+                id="checkout-quantity"
+                type="number"
+                min={1}
+                max={accessoryToCheckout?.quantity}
+                value={checkoutData.quantity}
+                onChange={(e) => setCheckoutData({ ...checkoutData, quantity: parseInt(e.target.value) || 1 })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="checkout-notes">Notes</Label>
+              <Textarea
+                id="checkout-notes"
+                value={checkoutData.notes}
+                onChange={(e) => setCheckoutData({ ...checkoutData, notes: e.target.value })}
+                rows={2}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setAccessoryToCheckout(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={checkoutAccessoryMutation.isPending}>
+                Check Out
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
       {/* View Accessory Dialog */}
       <Dialog open={isViewDialogOpen} onOpenChange={setIsViewDialogOpen}>
         <DialogContent className="w-[95%] max-w-[600px] max-h-[90vh] overflow-y-auto">
@@ -1,7 +1,7 @@
 
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
 import { useState } from "react";
-import { Activity, User, Asset } from "@shared/schema";
+import { Activity, User, Asset, type PaginatedResult } from "@shared/schema";
 import { getTimeSince } from "@/lib/utils";
 import { Link } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -44,15 +44,25 @@ export default function Activities() {
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage] = useState(20);
 
-  // Query all activities
-  const { data: activities = [], isLoading } = useQuery({
-    queryKey: ['/api/activities'],
+  // Query one page of activities, newest first, filtered on the server
+  const listParams = new URLSearchParams({ page: String(currentPage), pageSize: String(itemsPerPage), sort: '-timestamp,-id' });
+  if (searchTerm) listParams.set('q', searchTerm);
+  if (actionFilter !== "all") listParams.set('filter[action]', actionFilter);
+  if (itemTypeFilter !== "all") listParams.set('filter[itemType]', itemTypeFilter);
+  if (userFilter !== "all") listParams.set('filter[userId]', userFilter);
+
+  const { data: activityPage, isLoading } = useQuery<PaginatedResult<Activity>>({
+    queryKey: ['/api/activities', listParams.toString()],
     queryFn: async () => {
-      const response = await fetch('/api/activities');
+      const response = await fetch(`/api/activities?${listParams}`);
       if (!response.ok) throw new Error('Failed to fetch activities');
       return response.json();
     },
+    placeholderData: keepPreviousData,
   });
+  const activities = activityPage?.data ?? [];
+  const totalActivities = activityPage?.total ?? 0;
+  const hasFilters = searchTerm !== "" || actionFilter !== "all" || itemTypeFilter !== "all" || userFilter !== "all";
 
   // Query all users to map IDs to names
   const { data: users = [] } = useQuery<User[]>({
@@ -160,24 +170,11 @@ export default function Activities() {
     }
   };
 
-  // Filter activities based on search and filters
-  const filteredActivities = activities.filter(activity => {
-    const matchesSearch = searchTerm === "" || 
-      activity.notes.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      getUserName(activity.userId).toLowerCase().includes(searchTerm.toLowerCase());
-    
-    const matchesAction = actionFilter === "all" || activity.action === actionFilter;
-    const matchesItemType = itemTypeFilter === "all" || activity.itemType === itemTypeFilter;
-    const matchesUser = userFilter === "all" || activity.userId?.toString() === userFilter;
-
-    return matchesSearch && matchesAction && matchesItemType && matchesUser;
-  });
-
   // Pagination logic
-  const totalPages = Math.ceil(filteredActivities.length / itemsPerPage);
+  const totalPages = activityPage?.totalPages ?? 0;
   const startIndex = (currentPage - 1) * itemsPerPage;
   const endIndex = startIndex + itemsPerPage;
-  const paginatedActivities = filteredActivities.slice(startIndex, endIndex);
+  const paginatedActivities = activities;
 
   // Reset to page 1 when filters change
   const resetPagination = () => {
@@ -187,7 +184,7 @@ export default function Activities() {
   // Get unique values for filters
   const uniqueActions = [...new Set(activities.map(a => a.action))];
   const uniqueItemTypes = [...new Set(activities.map(a => a.itemType))];
-  const uniqueUsers = [...new Set(activities.map(a => a.userId).filter(Boolean))];
+  const uniqueUsers = users.map(u => u.id);
 
   return (
     <div className="space-y-6">
@@ -207,7 +204,7 @@ export default function Activities() {
         <div className="flex items-center gap-2">
           <CalendarIcon className="h-5 w-5 text-muted-foreground" />
           <span className="text-sm text-muted-foreground">
-            Showing {startIndex + 1}-{Math.min(endIndex, filteredActivities.length)} of {filteredActivities.length} activities
+            Showing {Math.min(startIndex + 1, totalActivities)}-{Math.min(endIndex, totalActivities)} of {totalActivities} activities
           </span>
         </div>
       </div>
@@ -423,9 +420,9 @@ export default function Activities() {
             <div className="text-center py-12">
               <HistoryIcon className="h-12 w-12 text-gray-300 mx-auto mb-4" />
               <p className="text-gray-500 mb-2">
-                {activities.length === 0 ? "No activity has been recorded yet" : "No activities match your filters"}
+                {!hasFilters ? "No activity has been recorded yet" : "No activities match your filters"}
               </p>
-              {activities.length > 0 && filteredActivities.length === 0 && (
+              {hasFilters && (
                 <Button 
                   variant="outline" 
                   onClick={() => {
@@ -442,7 +439,7 @@ export default function Activities() {
           )}
           
           {/* Pagination */}
-          {filteredActivities.length > itemsPerPage && (
+          {totalActivities > itemsPerPage && (
             <div className="mt-6 flex justify-center">
               <Pagination>
                 <PaginationContent>
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { 
   Card, 
@@ -22,6 +22,7 @@ import {
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { 
@@ -50,10 +51,55 @@ interface DatabaseTable {
 }
 
 interface DatabaseBackup {
-  filename: string;
-  path: string;
+  id: string;
+  createdAt: string;
+  schemaVersion: string;
+  tables: Record<string, number>;
+  checksum: string;
+  sizeBytes: number;
   size: string;
-  created: string;
+  rowCount: number;
+}
+
+interface RestoreReport {
+  id: string;
+  dryRun: boolean;
+  tables: { table: string; currentRows: number; backupRows: number; changed?: boolean }[];
+  durationMs: number;
+}
+
+interface BackupRun {
+  id: number;
+  trigger: 'scheduled' | 'manual';
+  status: 'running' | 'success' | 'failed';
+  filename: string | null;
+  sizeBytes: number | null;
+  durationMs: number | null;
+  prunedCount: number | null;
+  error: string | null;
+  startedAt: string;
+  completedAt: string | null;
+}
+
+interface BackupSchedule {
+  automaticBackups: boolean;
+  backupFrequency: 'daily' | 'weekly' | 'monthly';
+  backupTime: string;
+  backupRetention: number;
+  nextRun: string | null;
+}
+
+function formatFileSize(bytes: number | null) {
+  if (bytes === null || bytes === undefined) return '-';
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
 }
 
 interface DatabaseStatus {
@@ -74,18 +120,48 @@ export default function DatabaseManagementPage() {
   const [isRestoreAllDialogOpen, setIsRestoreAllDialogOpen] = useState(false);
   const [selectedTables, setSelectedTables] = useState<string[]>([]);
   const [backupProgress, setBackupProgress] = useState(0);
-  const [backupFilename, setBackupFilename] = useState(`backup-${new Date().toISOString().split('T')[0]}.sql`);
   const [restoreFile, setRestoreFile] = useState<File | null>(null);
   const [restoreAllFile, setRestoreAllFile] = useState<File | null>(null);
   const [restoreConfirmation, setRestoreConfirmation] = useState('');
   const [restoreAllConfirmation, setRestoreAllConfirmation] = useState('');
-  const [selectedBackupPath, setSelectedBackupPath] = useState('');
-  const [selectedBackupFilename, setSelectedBackupFilename] = useState('');
+  const [selectedBackupId, setSelectedBackupId] = useState('');
+  const [restorePreview, setRestorePreview] = useState<RestoreReport | null>(null);
 
   const [autoBackup, setAutoBackup] = useState(false);
   const [autoOptimize, setAutoOptimize] = useState(false);
+  const [backupFrequency, setBackupFrequency] = useState<BackupSchedule['backupFrequency']>('daily');
+  const [backupTime, setBackupTime] = useState('03:00');
+  const [retentionDays, setRetentionDays] = useState(30);
   const { toast } = useToast();
 
+  // Fetch saved automatic backup schedule
+  const { data: backupSchedule } = useQuery<BackupSchedule>({
+    queryKey: ['/api/database/schedule'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/database/schedule');
+      return await response.json();
+    }
+  });
+
+  useEffect(() => {
+    if (backupSchedule) {
+      setAutoBackup(backupSchedule.automaticBackups);
+      setBackupFrequency(backupSchedule.backupFrequency);
+      setBackupTime(backupSchedule.backupTime);
+      setRetentionDays(backupSchedule.backupRetention);
+    }
+  }, [backupSchedule]);
+
+  // Fetch backup run history
+  const { data: backupRunsData, isLoading: isBackupRunsLoading } = useQuery<{ runs: BackupRun[]; nextRun: string | null }>({
+    queryKey: ['/api/database/backup-runs'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/database/backup-runs');
+      return await response.json();
+    },
+    refetchInterval: 60000
+  });
+
   // Fetch database status
   const { data: databaseStatus, isLoading: isStatusLoading, error: statusError } = useQuery({
     queryKey: ['/api/database/status'],
@@ -163,10 +239,7 @@ export default function DatabaseManagementPage() {
       try {
         // Perform the backup
         const response = await apiRequest('POST', '/api/database/backup', {
-          filename: backupFilename,
-          tables: selectedTables.length > 0 ? selectedTables : undefined,
-          includeData: true,
-          compress: true
+          tables: selectedTables.length > 0 ? selectedTables : undefined
         });
 
         // Complete the progress
@@ -181,21 +254,6 @@ export default function DatabaseManagementPage() {
         // Clear selected tables
         setSelectedTables([]);
 
-        // Handle file download if response contains file data
-        if (response.headers.get('content-type')?.includes('application/sql') || 
-            response.headers.get('content-disposition')?.includes('attachment')) {
-          const blob = await response.blob();
-          const url = window.URL.createObjectURL(blob);
-          const a = document.createElement('a');
-          a.href = url;
-          a.download = backupFilename;
-          document.body.appendChild(a);
-          a.click();
-          window.URL.revokeObjectURL(url);
-          document.body.removeChild(a);
-          return { success: true, message: 'Backup downloaded successfully' };
-        }
-
         // Return the response
         return await response.json();
       } catch (error) {
@@ -207,10 +265,11 @@ export default function DatabaseManagementPage() {
     onSuccess: (data) => {
       toast({
         title: "Backup created",
-        description: `Database backup "${backupFilename}" has been created successfully.`,
+        description: `Database backup "${data.id}" has been created successfully.`,
       });
       setIsBackupDialogOpen(false);
       refetchBackups();
+      queryClient.invalidateQueries({ queryKey: ['/api/database/backup-runs'] });
       // Reset progress after a short delay
       setTimeout(() => setBackupProgress(0), 1000);
     },
@@ -218,7 +277,7 @@ export default function DatabaseManagementPage() {
       setBackupProgress(0);
       toast({
         title: "Backup failed",
-        description: "There was an error creating the database backup.",
+        description: error.message || "There was an error creating the database backup.",
         variant: "destructive",
       });
     }
@@ -226,10 +285,8 @@ export default function DatabaseManagementPage() {
 
   // Restore backup mutation
   const restoreBackupMutation = useMutation({
-    mutationFn: async (backupPath: string) => {
-      const response = await apiRequest('POST', '/api/database/restore', {
-        backupPath
-      });
+    mutationFn: async ({ id, dryRun }: { id: string; dryRun: boolean }): Promise<RestoreReport> => {
+      const response = await apiRequest('POST', '/api/database/restore', { id, dryRun });
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({ message: 'Restore failed' }));
@@ -239,9 +296,15 @@ export default function DatabaseManagementPage() {
       return await response.json();
     },
     onSuccess: (data) => {
+      // A dry run changes nothing; show what the restore would do and keep the dialog open
+      if (data.dryRun) {
+        setRestorePreview(data);
+        return;
+      }
+
       toast({
         title: "Backup restored",
-        description: `Database has been restored from backup successfully. File: ${data.filename || 'backup file'}`,
+        description: `Database has been restored from backup ${data.id} successfully.`,
       });
       setIsRestoreDialogOpen(false);
       refetchStatus();
@@ -289,9 +352,10 @@ export default function DatabaseManagementPage() {
     mutationFn: async (settings: { autoBackup: boolean; autoOptimize: boolean }) => {
       const response = await apiRequest('POST', '/api/database/schedule', {
         ...settings,
-        backupTime: '03:00', // 3:00 AM daily
+        backupFrequency,
+        backupTime,
         optimizeTime: '04:00', // 4:00 AM weekly
-        retentionDays: 30, // Keep backups for 30 days
+        retentionDays,
         emailNotifications: true
       });
 
@@ -305,8 +369,12 @@ export default function DatabaseManagementPage() {
     onSuccess: (data) => {
       toast({
         title: "Automatic backup scheduled",
-        description: `Daily automatic backup ${autoBackup ? 'enabled' : 'disabled'} at 3:00 AM. Weekly optimization ${autoOptimize ? 'enabled' : 'disabled'} at 4:00 AM.`,
+        description: data.nextRun
+          ? `Next ${backupFrequency} backup runs ${new Date(data.nextRun).toLocaleString()}. Weekly optimization ${autoOptimize ? 'enabled' : 'disabled'} at 4:00 AM.`
+          : `Automatic backups disabled. Weekly optimization ${autoOptimize ? 'enabled' : 'disabled'} at 4:00 AM.`,
       });
+      queryClient.invalidateQueries({ queryKey: ['/api/database/schedule'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/database/backup-runs'] });
     },
     onError: (error) => {
       toast({
@@ -371,28 +439,20 @@ export default function DatabaseManagementPage() {
         throw new Error('File too large. Please select a file smaller than 50MB');
       }
 
-      // For JSON restore, validate content
-      if (file.name.toLowerCase().endsWith('.json')) {
-        const fileContent = await file.text();
-
-        try {
-          JSON.parse(fileContent);
-        } catch (parseError) {
-          // Check if it's HTML content (common issue)
-          if (fileContent.trim().toLowerCase().startsWith('<!doctype') || 
-              fileContent.trim().toLowerCase().startsWith('<html')) {
-            throw new Error('Invalid file format: HTML content detected. Please select a valid JSON backup file.');
-          }
-          throw new Error('Invalid JSON format: Please select a valid JSON backup file.');
+      const fileContent = await file.text();
+      let data: unknown;
+      try {
+        data = JSON.parse(fileContent);
+      } catch (parseError) {
+        // Check if it's HTML content (common issue)
+        if (fileContent.trim().toLowerCase().startsWith('<!doctype') || 
+            fileContent.trim().toLowerCase().startsWith('<html')) {
+          throw new Error('Invalid file format: HTML content detected. Please select a valid JSON backup file.');
         }
+        throw new Error('Invalid JSON format: Please select a valid JSON backup file.');
       }
 
-      const formData = new FormData();
-      formData.append('backup', file);
-
-      const response = await apiRequest('POST', '/api/database/restore-all', formData, {
-        headers: {}, // Let browser set Content-Type for FormData
-      });
+      const response = await apiRequest('POST', '/api/database/restore-all', { data });
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({ message: 'Restore all failed' }));
@@ -401,14 +461,19 @@ export default function DatabaseManagementPage() {
 
       return await response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result: { tables: Record<string, { imported: number; matched: number; skipped: number }>; unsupported: string[] }) => {
+      const counts = Object.values(result.tables);
+      const imported = counts.reduce((sum, table) => sum + table.imported, 0);
+      const skipped = counts.reduce((sum, table) => sum + table.skipped, 0);
       toast({
-        title: "Data restored",
-        description: "All data has been restored successfully.",
+        title: "Data imported",
+        description: `${imported} records imported${skipped ? `, ${skipped} skipped with missing references` : ''}.` +
+          (result.unsupported.length ? ` Not kept by this storage: ${result.unsupported.join(', ')}.` : ''),
       });
       setIsRestoreAllDialogOpen(false);
       setRestoreAllFile(null);
       refetchStatus();
+      queryClient.invalidateQueries();
     },
     onError: (error) => {
       toast({
@@ -740,12 +805,12 @@ export default function DatabaseManagementPage() {
               <CardHeader>
                 <CardTitle>Backup All Data</CardTitle>
                 <CardDescription>
-                  Export all data from in-memory storage including the latest tables.
+                  Export every table as a portable, versioned JSON file.
                 </CardDescription>
               </CardHeader>
               <CardContent>
                 <p className="text-sm text-muted-foreground mb-4">
-                  Creates a complete backup of all tables and data from in-memory storage.
+                  Credentials are left out; BitLocker recovery keys stay encrypted.
                 </p>
                 <Button 
                   onClick={() => backupAllDataMutation.mutate()}
@@ -766,12 +831,12 @@ export default function DatabaseManagementPage() {
               <CardHeader>
                 <CardTitle>Restore All Data</CardTitle>
                 <CardDescription>
-                  Restore all data to in-memory storage from a complete backup.
+                  Import a JSON export from this or another instance.
                 </CardDescription>
               </CardHeader>
               <CardContent>
                 <p className="text-sm text-muted-foreground mb-4">
-                  Completely replaces all in-memory data with the backup data.
+                  Records are added under new IDs with their links preserved.
                 </p>
                 <Button 
                   onClick={() => setIsRestoreAllDialogOpen(true)}
@@ -811,7 +876,9 @@ export default function DatabaseManagementPage() {
                   <table className="w-full text-sm">
                     <thead>
                       <tr className="border-b bg-muted/50">
-                        <th className="h-10 px-4 text-left font-medium">Filename</th>
+                        <th className="h-10 px-4 text-left font-medium">Backup</th>
+                        <th className="h-10 px-4 text-left font-medium">Tables</th>
+                        <th className="h-10 px-4 text-left font-medium">Rows</th>
                         <th className="h-10 px-4 text-left font-medium">Size</th>
                         <th className="h-10 px-4 text-left font-medium">Created</th>
                         <th className="h-10 px-4 text-left font-medium">Actions</th>
@@ -819,19 +886,20 @@ export default function DatabaseManagementPage() {
                     </thead>
                     <tbody>
                       {backups.map((backup) => (
-                        <tr key={backup.path} className="border-b">
-                          <td className="p-4 align-middle">{backup.filename}</td>
+                        <tr key={backup.id} className="border-b">
+                          <td className="p-4 align-middle font-mono text-xs">{backup.id}</td>
+                          <td className="p-4 align-middle">{Object.keys(backup.tables).length}</td>
+                          <td className="p-4 align-middle">{backup.rowCount.toLocaleString()}</td>
                           <td className="p-4 align-middle">{backup.size}</td>
-                          <td className="p-4 align-middle">{new Date(backup.created).toLocaleString()}</td>
+                          <td className="p-4 align-middle">{new Date(backup.createdAt).toLocaleString()}</td>
                           <td className="p-4 align-middle">
                             <div className="flex gap-2">
                               <Button
                                 variant="outline"
                                 size="sm"
                                 onClick={() => {
-                                  // Store the backup path for restoration
-                                  setSelectedBackupPath(backup.path);
-                                  setSelectedBackupFilename(backup.filename);
+                                  setSelectedBackupId(backup.id);
+                                  setRestorePreview(null);
                                   setRestoreConfirmation('');
                                   setIsRestoreDialogOpen(true);
                                 }}
@@ -849,10 +917,9 @@ export default function DatabaseManagementPage() {
                                 variant="ghost"
                                 size="sm"
                                 onClick={() => {
-                                  // Create download link for backup file
                                   const link = document.createElement('a');
-                                  link.href = `/backups/${backup.filename}`;
-                                  link.download = backup.filename;
+                                  link.href = `/api/database/backups/${backup.id}/download`;
+                                  link.download = `${backup.id}.ndjson`;
                                   document.body.appendChild(link);
                                   link.click();
                                   document.body.removeChild(link);
@@ -889,6 +956,66 @@ export default function DatabaseManagementPage() {
               </CardContent>
             </Card>
           )}
+
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle>Backup Runs</CardTitle>
+              <CardDescription>
+                Recent manual and scheduled backup runs.
+                {backupRunsData?.nextRun
+                  ? ` Next scheduled backup: ${new Date(backupRunsData.nextRun).toLocaleString()}.`
+                  : ' Automatic backups are not scheduled.'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isBackupRunsLoading ? (
+                <div className="flex items-center justify-center py-4">
+                  <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                </div>
+              ) : backupRunsData?.runs && backupRunsData.runs.length > 0 ? (
+                <div className="rounded-md border overflow-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b bg-muted/50">
+                        <th className="h-10 px-4 text-left font-medium">Started</th>
+                        <th className="h-10 px-4 text-left font-medium">Trigger</th>
+                        <th className="h-10 px-4 text-left font-medium">Status</th>
+                        <th className="h-10 px-4 text-left font-medium">File</th>
+                        <th className="h-10 px-4 text-left font-medium">Size</th>
+                        <th className="h-10 px-4 text-left font-medium">Duration</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {backupRunsData.runs.map((run) => (
+                        <tr key={run.id} className="border-b">
+                          <td className="p-4 align-middle">{new Date(run.startedAt).toLocaleString()}</td>
+                          <td className="p-4 align-middle capitalize">{run.trigger}</td>
+                          <td className="p-4 align-middle">
+                            <span
+                              className={
+                                run.status === 'success' ? 'text-green-600' :
+                                run.status === 'failed' ? 'text-red-600' : 'text-muted-foreground'
+                              }
+                              title={run.error || undefined}
+                            >
+                              {run.status}
+                            </span>
+                          </td>
+                          <td className="p-4 align-middle">{run.filename || '-'}</td>
+                          <td className="p-4 align-middle">{formatFileSize(run.sizeBytes)}</td>
+                          <td className="p-4 align-middle">
+                            {run.durationMs !== null ? `${(run.durationMs / 1000).toFixed(1)}s` : '-'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No backup runs recorded yet.</p>
+              )}
+            </CardContent>
+          </Card>
         </TabsContent>
 
         <TabsContent value="maintenance">
@@ -939,10 +1066,51 @@ export default function DatabaseManagementPage() {
                         htmlFor="auto-backup"
                         className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
                       >
-                        Enable automatic daily backups at 3:00 AM
+                        Enable automatic backups
                       </label>
                     </div>
 
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                      <div className="space-y-1">
+                        <Label htmlFor="backup-frequency">Frequency</Label>
+                        <Select
+                          value={backupFrequency}
+                          onValueChange={(value) => setBackupFrequency(value as BackupSchedule['backupFrequency'])}
+                          disabled={!autoBackup || databaseStatus?.connectionError}
+                        >
+                          <SelectTrigger id="backup-frequency">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="daily">Daily</SelectItem>
+                            <SelectItem value="weekly">Weekly (Sunday)</SelectItem>
+                            <SelectItem value="monthly">Monthly (1st)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="backup-time">Time</Label>
+                        <Input
+                          id="backup-time"
+                          type="time"
+                          value={backupTime}
+                          onChange={(e) => setBackupTime(e.target.value)}
+                          disabled={!autoBackup || databaseStatus?.connectionError}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="backup-retention">Keep (days)</Label>
+                        <Input
+                          id="backup-retention"
+                          type="number"
+                          min={0}
+                          value={retentionDays}
+                          onChange={(e) => setRetentionDays(Math.max(0, parseInt(e.target.value) || 0))}
+                          disabled={!autoBackup || databaseStatus?.connectionError}
+                        />
+                      </div>
+                    </div>
+
                     <div className="flex items-center space-x-2">
                       <Checkbox 
                         id="auto-optimize" 
@@ -962,8 +1130,13 @@ export default function DatabaseManagementPage() {
 
                     <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-md">
                       <p className="text-sm text-blue-800">
-                        <strong>Backup Retention:</strong> All backups will be retained indefinitely. 
-                        You can manually delete old backups from the backup history below if needed.
+                        <strong>Next automatic backup:</strong>{' '}
+                        {backupSchedule?.nextRun ? new Date(backupSchedule.nextRun).toLocaleString() : 'Not scheduled'}
+                        <br />
+                        <strong>Backup Retention:</strong>{' '}
+                        {retentionDays > 0
+                          ? `Backup files older than ${retentionDays} days are deleted after each scheduled backup.`
+                          : 'All backups are retained indefinitely.'}
                       </p>
                     </div>
 
@@ -990,10 +1163,7 @@ export default function DatabaseManagementPage() {
 
                     <Button 
                       variant="outline"
-                      onClick={() => {
-                        setBackupFilename(`backup-${new Date().toISOString().split('T')[0]}.sql`);
-                        setIsBackupDialogOpen(true);
-                      }}
+                      onClick={() => setIsBackupDialogOpen(true)}
                     >
                       <FileDown className="mr-2 h-4 w-4" />
                       Manual Backup Now
@@ -1017,15 +1187,6 @@ export default function DatabaseManagementPage() {
           </DialogHeader>
 
           <div className="space-y-4 py-4">
-            <div className="space-y-2">
-              <Label htmlFor="backup-filename">Backup Filename</Label>
-              <Input
-                id="backup-filename"
-                value={backupFilename}
-                onChange={(e) => setBackupFilename(e.target.value)}
-              />
-            </div>
-
             {databaseStatus && databaseStatus.tables && (
               <div className="space-y-2">
                 <div className="flex justify-between items-center">
@@ -1114,15 +1275,15 @@ export default function DatabaseManagementPage() {
         setIsRestoreDialogOpen(open);
         if (!open) {
           setRestoreConfirmation('');
-          setSelectedBackupPath('');
-          setSelectedBackupFilename('');
+          setSelectedBackupId('');
+          setRestorePreview(null);
         }
       }}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle>Restore Database from Backup</DialogTitle>
             <DialogDescription>
-              You are about to restore from backup: {selectedBackupFilename}
+              You are about to restore from backup: {selectedBackupId}
             </DialogDescription>
           </DialogHeader>
 
@@ -1131,11 +1292,40 @@ export default function DatabaseManagementPage() {
               <AlertTriangle className="h-4 w-4" />
               <AlertTitle>Critical Warning</AlertTitle>
               <AlertDescription>
-                Restoring this backup will completely replace ALL current data in your database. 
-                This action is IRREVERSIBLE and cannot be undone.
+                Restoring this backup will completely replace ALL current data in the backed-up tables. 
+                This action is IRREVERSIBLE and cannot be undone. Preview the restore first to see what would change.
               </AlertDescription>
             </Alert>
 
+            {restorePreview && (
+              <div className="rounded-md border max-h-60 overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b bg-muted/50">
+                      <th className="h-8 px-3 text-left font-medium">Table</th>
+                      <th className="h-8 px-3 text-right font-medium">Current rows</th>
+                      <th className="h-8 px-3 text-right font-medium">After restore</th>
+                      <th className="h-8 px-3 text-right font-medium">Contents</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {restorePreview.tables.map((table) => (
+                      <tr key={table.table} className="border-b">
+                        <td className="px-3 py-1 font-mono text-xs">{table.table}</td>
+                        <td className="px-3 py-1 text-right">{table.currentRows.toLocaleString()}</td>
+                        <td className={`px-3 py-1 text-right ${table.currentRows !== table.backupRows ? 'font-semibold text-amber-700' : ''}`}>
+                          {table.backupRows.toLocaleString()}
+                        </td>
+                        <td className={`px-3 py-1 text-right ${table.changed ? 'font-semibold text-amber-700' : 'text-muted-foreground'}`}>
+                          {table.changed ? 'Changes' : 'Unchanged'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="restore-confirmation">
                 Type <strong>RESTORE</strong> in all capital letters to confirm this action:
@@ -1153,10 +1343,10 @@ export default function DatabaseManagementPage() {
               </p>
             </div>
 
-            {selectedBackupFilename && (
+            {selectedBackupId && (
               <div className="p-3 bg-blue-50 border border-blue-200 rounded-md">
                 <p className="text-sm text-blue-800">
-                  <strong>Backup to restore:</strong> {selectedBackupFilename}
+                  <strong>Backup to restore:</strong> {selectedBackupId}
                 </p>
               </div>
             )}
@@ -1170,12 +1360,18 @@ export default function DatabaseManagementPage() {
             >
               Cancel
             </Button>
+            <Button
+              variant="outline"
+              onClick={() => restoreBackupMutation.mutate({ id: selectedBackupId, dryRun: true })}
+              disabled={!selectedBackupId || restoreBackupMutation.isPending}
+            >
+              Preview Changes
+            </Button>
             <Button 
               variant="destructive"
               onClick={() => {
-                if (selectedBackupPath) {
-                  restoreBackupMutation.mutate(selectedBackupPath);
-                  setIsRestoreDialogOpen(false);
+                if (selectedBackupId) {
+                  restoreBackupMutation.mutate({ id: selectedBackupId, dryRun: false });
                 } else {
                   toast({
                     title: "No backup selected",
@@ -1184,7 +1380,7 @@ export default function DatabaseManagementPage() {
                   });
                 }
               }}
-              disabled={restoreConfirmation !== 'RESTORE' || !selectedBackupPath || restoreBackupMutation.isPending}
+              disabled={restoreConfirmation !== 'RESTORE' || !selectedBackupId || restoreBackupMutation.isPending}
             >
               {restoreBackupMutation.isPending ? (
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -1209,7 +1405,7 @@ export default function DatabaseManagementPage() {
           <DialogHeader>
             <DialogTitle>Restore All Data</DialogTitle>
             <DialogDescription>
-              Upload a complete backup file to restore all data to in-memory storage.
+              Import a file created with "Backup All Data" into this instance.
             </DialogDescription>
           </DialogHeader>
 
@@ -1218,8 +1414,8 @@ export default function DatabaseManagementPage() {
               <AlertTriangle className="h-4 w-4" />
               <AlertTitle>Critical Warning</AlertTitle>
               <AlertDescription>
-                This will completely replace ALL data in memory with the backup data. 
-                All current data will be permanently lost and cannot be recovered.
+                The file's records are added to the current data under new IDs. Users, roles and assets 
+                that already exist (same username, name or asset tag) are reused instead of duplicated.
               </AlertDescription>
             </Alert>
 
@@ -1228,14 +1424,14 @@ export default function DatabaseManagementPage() {
               <Input
                 id="restore-all-file"
                 type="file"
-                accept=".json,.sql,.backup"
+                accept=".json"
                 onChange={(e) => {
                   const files = e.target.files;
                   if (files && files.length > 0) {
                     const file = files[0];
 
                     // Validate file extension
-                    const allowedExtensions = ['.json', '.sql', '.backup'];
+                    const allowedExtensions = ['.json'];
                     const hasValidExtension = allowedExtensions.some(ext => 
                       file.name.toLowerCase().endsWith(ext)
                     );
@@ -1243,7 +1439,7 @@ export default function DatabaseManagementPage() {
                     if (!hasValidExtension) {
                       toast({
                         title: "Invalid file type",
-                        description: "Please select a JSON, SQL, or BACKUP file",
+                        description: "Please select a JSON export file",
                         variant: "destructive",
                       });
                       e.target.value = ''; // Clear the input
@@ -1266,7 +1462,7 @@ export default function DatabaseManagementPage() {
                 }}
               />
               <p className="text-sm text-muted-foreground">
-                Select a backup file created with "Backup All Data". Accepts .json, .sql, or .backup files.
+                Select a JSON file created with "Backup All Data" on this or another instance.
               </p>
               {restoreAllFile && (
                 <p className="text-sm text-green-600">
@@ -521,6 +521,9 @@ export default function JiraSettings() {
                             <FormControl>
                               <Input type="password" placeholder="••••••••" {...field} disabled={!isEnabled}/>
                             </FormControl>
+                            <FormDescription>
+                              Stored encrypted. Leave as is to keep the saved password.
+                            </FormDescription>
                             <FormMessage />
                           </FormItem>
                         )}
@@ -556,7 +559,7 @@ export default function JiraSettings() {
                               <Input type="password" placeholder="Your JIRA API token" {...field} disabled={!isEnabled}/>
                             </FormControl>
                             <FormDescription>
-                              Generate an API token from your JIRA profile settings.
+                              Generate an API token from your JIRA profile settings. The saved token is kept unless you enter a new one.
                             </FormDescription>
                             <FormMessage />
                           </FormItem>
@@ -0,0 +1,193 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2, LogOut, MonitorSmartphone, RefreshCw, Search } from "lucide-react";
+import { apiRequestWithJson } from "@/lib/queryClient";
+
+interface ActiveSession {
+  id: string;
+  userId: number;
+  username: string | null;
+  fullName: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: string | null;
+  current: boolean;
+}
+
+interface SessionsResponse {
+  persistent: boolean;
+  sessions: ActiveSession[];
+}
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+export default function Sessions() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState("");
+
+  const { data, isLoading, refetch, isFetching } = useQuery<SessionsResponse>({
+    queryKey: ['/api/admin/sessions'],
+    queryFn: () => apiRequestWithJson<SessionsResponse>('GET', '/api/admin/sessions'),
+    refetchInterval: 60 * 1000,
+  });
+
+  const revokeSessionMutation = useMutation({
+    mutationFn: (id: string) => apiRequestWithJson('DELETE', `/api/admin/sessions/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/sessions'] });
+      toast({ title: "Session Revoked", description: "The session has been signed out." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Revoke Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeUserMutation = useMutation({
+    mutationFn: (userId: number) => apiRequestWithJson<{ message: string }>('DELETE', `/api/admin/users/${userId}/sessions`),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/sessions'] });
+      toast({ title: "Sessions Revoked", description: result.message });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Revoke Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const term = search.trim().toLowerCase();
+  const sessions = (data?.sessions || []).filter(session =>
+    !term ||
+    session.username?.toLowerCase().includes(term) ||
+    session.fullName?.toLowerCase().includes(term) ||
+    session.ip?.toLowerCase().includes(term)
+  );
+
+  // Group by user so each user's sessions can be revoked together
+  const byUser = new Map<number, ActiveSession[]>();
+  sessions.forEach(session => {
+    byUser.set(session.userId, [...(byUser.get(session.userId) || []), session]);
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Active Sessions</h1>
+          <p className="text-muted-foreground">Signed-in sessions per user, with the address and browser they came from</p>
+        </div>
+        <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {data && !data.persistent && (
+        <Alert>
+          <AlertDescription>
+            Sessions are kept in memory because PostgreSQL is not connected. Everyone will be signed out when the server restarts.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="relative max-w-sm">
+        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Search by user or IP..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="pl-8"
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : byUser.size === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">No active sessions</CardContent>
+        </Card>
+      ) : (
+        Array.from(byUser.entries()).map(([userId, userSessions]) => {
+          const first = userSessions[0];
+          const onlyCurrent = userSessions.every(session => session.current);
+          return (
+            <Card key={userId}>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <div>
+                  <CardTitle className="flex items-center gap-2 text-lg">
+                    <MonitorSmartphone className="h-5 w-5" />
+                    {first.fullName || first.username || `User ${userId}`}
+                  </CardTitle>
+                  <CardDescription>
+                    {first.username} · {userSessions.length} session{userSessions.length === 1 ? '' : 's'}
+                  </CardDescription>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={onlyCurrent || revokeUserMutation.isPending}
+                  onClick={() => revokeUserMutation.mutate(userId)}
+                >
+                  <LogOut className="h-4 w-4 mr-2" />
+                  Sign Out Everywhere
+                </Button>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>IP Address</TableHead>
+                      <TableHead>User Agent</TableHead>
+                      <TableHead>Signed In</TableHead>
+                      <TableHead>Last Seen</TableHead>
+                      <TableHead>Expires</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {userSessions.map(session => (
+                      <TableRow key={session.id}>
+                        <TableCell className="font-mono text-sm">
+                          {session.ip || "—"}
+                          {session.current && <Badge variant="secondary" className="ml-2">This session</Badge>}
+                        </TableCell>
+                        <TableCell className="max-w-xs truncate text-sm" title={session.userAgent || undefined}>
+                          {session.userAgent || "—"}
+                        </TableCell>
+                        <TableCell className="text-sm">{formatDate(session.createdAt)}</TableCell>
+                        <TableCell className="text-sm">{formatDate(session.lastSeenAt)}</TableCell>
+                        <TableCell className="text-sm">{formatDate(session.expiresAt)}</TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={session.current || revokeSessionMutation.isPending}
+                            onClick={() => revokeSessionMutation.mutate(session.id)}
+                          >
+                            Revoke
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+}
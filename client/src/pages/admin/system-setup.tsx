@@ -80,6 +80,10 @@ const systemSettingsSchema = z.object({
   notifyOnCheckout: z.boolean().default(true),
   notifyOnExpiration: z.boolean().default(true),
   expirationLeadTime: z.string(),
+  vmReminderIntervalDays: z.string(),
+  vmOwnerEmailDomain: z.string().optional(),
+  iamNoticeSubject: z.string().optional(),
+  iamNoticeTemplate: z.string().optional(),
 });
 
 type SystemSettingsFormValues = z.infer<typeof systemSettingsSchema>;
@@ -152,6 +156,10 @@ export default function SystemSetupPage() {
     notifyOnCheckout: true,
     notifyOnExpiration: true,
     expirationLeadTime: "30",
+    vmReminderIntervalDays: "7",
+    vmOwnerEmailDomain: "",
+    iamNoticeSubject: "",
+    iamNoticeTemplate: "",
   };
   
   // Set up the form with react-hook-form and zod validation
@@ -210,6 +218,10 @@ export default function SystemSetupPage() {
         notifyOnCheckout: settings.notifyOnCheckout || defaultValues.notifyOnCheckout,
         notifyOnExpiration: settings.notifyOnOverdue || defaultValues.notifyOnExpiration,
         expirationLeadTime: "30",
+        vmReminderIntervalDays: settings.vmReminderIntervalDays?.toString() || defaultValues.vmReminderIntervalDays,
+        vmOwnerEmailDomain: settings.vmOwnerEmailDomain || defaultValues.vmOwnerEmailDomain,
+        iamNoticeSubject: settings.iamNoticeSubject || defaultValues.iamNoticeSubject,
+        iamNoticeTemplate: settings.iamNoticeTemplate || defaultValues.iamNoticeTemplate,
       };
       
       console.log('Updating form with settings:', formData);
@@ -256,6 +268,10 @@ export default function SystemSetupPage() {
         notifyOnCheckin: data.notifyOnCheckin,
         notifyOnCheckout: data.notifyOnCheckout,
         notifyOnOverdue: data.notifyOnExpiration,
+        vmReminderIntervalDays: parseInt(data.vmReminderIntervalDays),
+        vmOwnerEmailDomain: data.vmOwnerEmailDomain || "",
+        iamNoticeSubject: data.iamNoticeSubject || null,
+        iamNoticeTemplate: data.iamNoticeTemplate || null,
         
         automaticBackups: true,
         backupFrequency: "daily",
@@ -737,6 +753,9 @@ export default function SystemSetupPage() {
                           <FormControl>
                             <Input type="password" {...field} />
                           </FormControl>
+                          <FormDescription>
+                            Stored encrypted. Leave as is to keep the saved password.
+                          </FormDescription>
                           <FormMessage />
                         </FormItem>
                       )}
@@ -1153,6 +1172,71 @@ export default function SystemSetupPage() {
                       </FormItem>
                     )}
                   />
+
+                  <FormField
+                    control={form.control}
+                    name="vmReminderIntervalDays"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>VM Expiry Reminder Interval (days)</FormLabel>
+                        <FormControl>
+                          <Input {...field} type="number" min="0" />
+                        </FormControl>
+                        <FormDescription>
+                          How often VM owners are reminded after their VM passes its end date. Use 0 to send a single notice.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="vmOwnerEmailDomain"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Owner Email Domain</FormLabel>
+                        <FormControl>
+                          <Input {...field} placeholder="example.com" />
+                        </FormControl>
+                        <FormDescription>
+                          Used to build a VM owner's or IAM requestor's address from their Knox ID when no matching user account is found.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="iamNoticeSubject"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>IAM Expiry Notice Subject</FormLabel>
+                        <FormControl>
+                          <Input {...field} placeholder="Your {{cloudPlatform}} IAM access has expired" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="iamNoticeTemplate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>IAM Expiry Notice Template</FormLabel>
+                        <FormControl>
+                          <Textarea {...field} rows={6} placeholder="Leave empty to use the built-in notice" />
+                        </FormControl>
+                        <FormDescription>
+                          Placeholders: {"{{requestor}}"}, {"{{knoxId}}"}, {"{{permission}}"}, {"{{cloudPlatform}}"}, {"{{projectAccounts}}"}, {"{{approvalId}}"}, {"{{startDate}}"}, {"{{endDate}}"}, {"{{siteName}}"}.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 </CardContent>
                 <CardFooter>
                   <Button 
@@ -36,14 +36,18 @@ const pageCategories = [
       { key: "accessories", label: "Accessories", description: "Accessory items management" },
       { key: "consumables", label: "Consumables", description: "Consumable items tracking" },
       { key: "licenses", label: "Licenses", description: "Software license management" },
+      { key: "itEquipment", label: "IT Equipment", description: "Shared IT equipment and assignments" },
+      { key: "monitorInventory", label: "Monitor Inventory", description: "Monitors by seat" },
     ]
   },
   {
     name: "Monitoring",
     pages: [
       { key: "vmMonitoring", label: "VM Monitoring", description: "Virtual machine monitoring" },
+      { key: "vmInventory", label: "VM Inventory", description: "Virtual machine records and lifecycle" },
       { key: "networkDiscovery", label: "Network Discovery", description: "Network device discovery" },
       { key: "bitlockerKeys", label: "BitLocker Keys", description: "BitLocker recovery key management" },
+      { key: "iamAccounts", label: "IAM Accounts", description: "IAM account requests and expiry" },
     ]
   },
   {
@@ -51,6 +55,7 @@ const pageCategories = [
     pages: [
       { key: "users", label: "User Management", description: "User account management" },
       { key: "reports", label: "Reports", description: "System reports and analytics" },
+      { key: "database", label: "Database", description: "Backups, restores and maintenance" },
       { key: "admin", label: "Admin Settings", description: "System administration" },
     ]
   }
@@ -150,17 +155,22 @@ export default function UserPermissionsEnhanced() {
   };
 
   const getDefaultPermissions = (): UserPermissions => ({
-    assets: { view: true, edit: false, add: false },
-    components: { view: true, edit: false, add: false },
-    accessories: { view: true, edit: false, add: false },
-    consumables: { view: true, edit: false, add: false },
-    licenses: { view: true, edit: false, add: false },
-    users: { view: false, edit: false, add: false },
-    reports: { view: true, edit: false, add: false },
-    vmMonitoring: { view: true, edit: false, add: false },
-    networkDiscovery: { view: true, edit: false, add: false },
-    bitlockerKeys: { view: false, edit: false, add: false },
-    admin: { view: false, edit: false, add: false }
+    assets: { view: true, edit: false, add: false, delete: false },
+    components: { view: true, edit: false, add: false, delete: false },
+    accessories: { view: true, edit: false, add: false, delete: false },
+    consumables: { view: true, edit: false, add: false, delete: false },
+    licenses: { view: true, edit: false, add: false, delete: false },
+    users: { view: false, edit: false, add: false, delete: false },
+    reports: { view: true, edit: false, add: false, delete: false },
+    vmMonitoring: { view: true, edit: false, add: false, delete: false },
+    networkDiscovery: { view: true, edit: false, add: false, delete: false },
+    bitlockerKeys: { view: false, edit: false, add: false, delete: false },
+    vmInventory: { view: true, edit: false, add: false, delete: false },
+    iamAccounts: { view: false, edit: false, add: false, delete: false },
+    itEquipment: { view: true, edit: false, add: false, delete: false },
+    monitorInventory: { view: true, edit: false, add: false, delete: false },
+    database: { view: false, edit: false, add: false, delete: false },
+    admin: { view: false, edit: false, add: false, delete: false }
   });
 
   const setPresetPermissions = (preset: 'viewer' | 'editor' | 'manager' | 'admin') => {
@@ -171,62 +181,82 @@ export default function UserPermissionsEnhanced() {
     switch (preset) {
       case 'viewer':
         permissions = {
-          assets: { view: true, edit: false, add: false },
-          components: { view: true, edit: false, add: false },
-          accessories: { view: true, edit: false, add: false },
-          consumables: { view: true, edit: false, add: false },
-          licenses: { view: true, edit: false, add: false },
-          users: { view: false, edit: false, add: false },
-          reports: { view: true, edit: false, add: false },
-          vmMonitoring: { view: true, edit: false, add: false },
-          networkDiscovery: { view: true, edit: false, add: false },
-          bitlockerKeys: { view: false, edit: false, add: false },
-          admin: { view: false, edit: false, add: false }
+          assets: { view: true, edit: false, add: false, delete: false },
+          components: { view: true, edit: false, add: false, delete: false },
+          accessories: { view: true, edit: false, add: false, delete: false },
+          consumables: { view: true, edit: false, add: false, delete: false },
+          licenses: { view: true, edit: false, add: false, delete: false },
+          users: { view: false, edit: false, add: false, delete: false },
+          reports: { view: true, edit: false, add: false, delete: false },
+          vmMonitoring: { view: true, edit: false, add: false, delete: false },
+          networkDiscovery: { view: true, edit: false, add: false, delete: false },
+          bitlockerKeys: { view: false, edit: false, add: false, delete: false },
+          vmInventory: { view: true, edit: false, add: false, delete: false },
+          iamAccounts: { view: false, edit: false, add: false, delete: false },
+          itEquipment: { view: true, edit: false, add: false, delete: false },
+          monitorInventory: { view: true, edit: false, add: false, delete: false },
+          database: { view: false, edit: false, add: false, delete: false },
+          admin: { view: false, edit: false, add: false, delete: false }
         };
         break;
       case 'editor':
         permissions = {
-          assets: { view: true, edit: true, add: false },
-          components: { view: true, edit: true, add: false },
-          accessories: { view: true, edit: true, add: false },
-          consumables: { view: true, edit: true, add: false },
-          licenses: { view: true, edit: true, add: false },
-          users: { view: false, edit: false, add: false },
-          reports: { view: true, edit: false, add: false },
-          vmMonitoring: { view: true, edit: false, add: false },
-          networkDiscovery: { view: true, edit: false, add: false },
-          bitlockerKeys: { view: false, edit: false, add: false },
-          admin: { view: false, edit: false, add: false }
+          assets: { view: true, edit: true, add: false, delete: false },
+          components: { view: true, edit: true, add: false, delete: false },
+          accessories: { view: true, edit: true, add: false, delete: false },
+          consumables: { view: true, edit: true, add: false, delete: false },
+          licenses: { view: true, edit: true, add: false, delete: false },
+          users: { view: false, edit: false, add: false, delete: false },
+          reports: { view: true, edit: false, add: false, delete: false },
+          vmMonitoring: { view: true, edit: false, add: false, delete: false },
+          networkDiscovery: { view: true, edit: false, add: false, delete: false },
+          bitlockerKeys: { view: false, edit: false, add: false, delete: false },
+          vmInventory: { view: true, edit: false, add: false, delete: false },
+          iamAccounts: { view: false, edit: false, add: false, delete: false },
+          itEquipment: { view: true, edit: true, add: false, delete: false },
+          monitorInventory: { view: true, edit: true, add: false, delete: false },
+          database: { view: false, edit: false, add: false, delete: false },
+          admin: { view: false, edit: false, add: false, delete: false }
         };
         break;
       case 'manager':
         permissions = {
-          assets: { view: true, edit: true, add: true },
-          components: { view: true, edit: true, add: true },
-          accessories: { view: true, edit: true, add: true },
-          consumables: { view: true, edit: true, add: true },
-          licenses: { view: true, edit: true, add: true },
-          users: { view: true, edit: false, add: false },
-          reports: { view: true, edit: true, add: false },
-          vmMonitoring: { view: true, edit: true, add: false },
-          networkDiscovery: { view: true, edit: true, add: false },
-          bitlockerKeys: { view: true, edit: false, add: false },
-          admin: { view: false, edit: false, add: false }
+          assets: { view: true, edit: true, add: true, delete: false },
+          components: { view: true, edit: true, add: true, delete: false },
+          accessories: { view: true, edit: true, add: true, delete: false },
+          consumables: { view: true, edit: true, add: true, delete: false },
+          licenses: { view: true, edit: true, add: true, delete: false },
+          users: { view: true, edit: false, add: false, delete: false },
+          reports: { view: true, edit: true, add: false, delete: false },
+          vmMonitoring: { view: true, edit: true, add: false, delete: false },
+          networkDiscovery: { view: true, edit: true, add: false, delete: false },
+          bitlockerKeys: { view: true, edit: false, add: false, delete: false },
+          vmInventory: { view: true, edit: true, add: false, delete: false },
+          iamAccounts: { view: false, edit: false, add: false, delete: false },
+          itEquipment: { view: true, edit: true, add: true, delete: false },
+          monitorInventory: { view: true, edit: true, add: true, delete: false },
+          database: { view: false, edit: false, add: false, delete: false },
+          admin: { view: false, edit: false, add: false, delete: false }
         };
         break;
       case 'admin':
         permissions = {
-          assets: { view: true, edit: true, add: true },
-          components: { view: true, edit: true, add: true },
-          accessories: { view: true, edit: true, add: true },
-          consumables: { view: true, edit: true, add: true },
-          licenses: { view: true, edit: true, add: true },
-          users: { view: true, edit: true, add: true },
-          reports: { view: true, edit: true, add: true },
-          vmMonitoring: { view: true, edit: true, add: true },
-          networkDiscovery: { view: true, edit: true, add: true },
-          bitlockerKeys: { view: true, edit: true, add: true },
-          admin: { view: true, edit: true, add: true }
+          assets: { view: true, edit: true, add: true, delete: true },
+          components: { view: true, edit: true, add: true, delete: true },
+          accessories: { view: true, edit: true, add: true, delete: true },
+          consumables: { view: true, edit: true, add: true, delete: true },
+          licenses: { view: true, edit: true, add: true, delete: true },
+          users: { view: true, edit: true, add: true, delete: true },
+          reports: { view: true, edit: true, add: true, delete: true },
+          vmMonitoring: { view: true, edit: true, add: true, delete: true },
+          networkDiscovery: { view: true, edit: true, add: true, delete: true },
+          bitlockerKeys: { view: true, edit: true, add: true, delete: true },
+          vmInventory: { view: true, edit: true, add: true, delete: true },
+          iamAccounts: { view: true, edit: true, add: true, delete: true },
+          itEquipment: { view: true, edit: true, add: true, delete: true },
+          monitorInventory: { view: true, edit: true, add: true, delete: true },
+          database: { view: true, edit: true, add: true, delete: true },
+          admin: { view: true, edit: true, add: true, delete: true }
         };
         break;
     }
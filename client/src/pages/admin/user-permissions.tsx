@@ -15,26 +15,26 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Loader2, Plus, Search, UserCog } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { PagePermission, RolePermissions } from "@shared/schema";
 
 // Permission types
+type PermissionAction = keyof PagePermission;
+
 interface Permission {
-  id: string;
+  id: string; // "<resource>.<action>"
+  resource: string;
+  action: PermissionAction;
   name: string;
   description: string;
   category: string;
 }
 
-interface UserPermission {
-  userId: number;
-  permissionId: string;
-  granted: boolean;
-}
-
 interface Role {
   id: number;
   name: string;
   description: string;
-  permissions: string[]; // Permission IDs
+  permissions: RolePermissions;
+  isSystem?: boolean;
 }
 
 interface UserWithRole {
@@ -48,84 +48,60 @@ interface UserWithRole {
   department: string | null;
 }
 
-// Sample permissions data
-const availablePermissions: Permission[] = [
-  { id: "assets.view", name: "View Assets", description: "Can view asset details", category: "Assets" },
-  { id: "assets.create", name: "Create Assets", description: "Can create new assets", category: "Assets" },
-  { id: "assets.edit", name: "Edit Assets", description: "Can modify asset information", category: "Assets" },
-  { id: "assets.delete", name: "Delete Assets", description: "Can remove assets from the system", category: "Assets" },
-  { id: "assets.checkout", name: "Checkout Assets", description: "Can assign assets to users", category: "Assets" },
-  { id: "assets.checkin", name: "Checkin Assets", description: "Can return assets from users", category: "Assets" },
-
-  { id: "users.view", name: "View Users", description: "Can view user details", category: "Users" },
-  { id: "users.create", name: "Create Users", description: "Can create new users", category: "Users" },
-  { id: "users.edit", name: "Edit Users", description: "Can modify user information", category: "Users" },
-  { id: "users.delete", name: "Delete Users", description: "Can remove users from the system", category: "Users" },
-
-  { id: "licenses.view", name: "View Licenses", description: "Can view license details", category: "Licenses" },
-  { id: "licenses.create", name: "Create Licenses", description: "Can create new licenses", category: "Licenses" },
-  { id: "licenses.edit", name: "Edit Licenses", description: "Can modify license information", category: "Licenses" },
-  { id: "licenses.delete", name: "Delete Licenses", description: "Can remove licenses from the system", category: "Licenses" },
-  { id: "licenses.assign", name: "Assign Licenses", description: "Can assign licenses to users", category: "Licenses" },
-
-  { id: "components.view", name: "View Components", description: "Can view component details", category: "Components" },
-  { id: "components.create", name: "Create Components", description: "Can create new components", category: "Components" },
-  { id: "components.edit", name: "Edit Components", description: "Can modify component information", category: "Components" },
-  { id: "components.delete", name: "Delete Components", description: "Can remove components from the system", category: "Components" },
-
-  { id: "accessories.view", name: "View Accessories", description: "Can view accessory details", category: "Accessories" },
-  { id: "accessories.create", name: "Create Accessories", description: "Can create new accessories", category: "Accessories" },
-  { id: "accessories.edit", name: "Edit Accessories", description: "Can modify accessory information", category: "Accessories" },
-  { id: "accessories.delete", name: "Delete Accessories", description: "Can remove accessories from the system", category: "Accessories" },
-
-  { id: "reports.view", name: "View Reports", description: "Can view reports", category: "Reports" },
-  { id: "reports.export", name: "Export Reports", description: "Can export reports", category: "Reports" },
-
-  { id: "admin.settings", name: "Manage Settings", description: "Can modify system settings", category: "Administration" },
-  { id: "admin.backups", name: "Manage Backups", description: "Can create and restore backups", category: "Administration" },
-  { id: "admin.permissions", name: "Manage Permissions", description: "Can assign permissions to users and roles", category: "Administration" },
+// Resources checked by checkPermission on the server
+const permissionResources = [
+  { key: "assets", label: "Assets" },
+  { key: "components", label: "Components" },
+  { key: "accessories", label: "Accessories" },
+  { key: "consumables", label: "Consumables" },
+  { key: "licenses", label: "Licenses" },
+  { key: "users", label: "Users" },
+  { key: "reports", label: "Reports" },
+  { key: "itEquipment", label: "IT Equipment" },
+  { key: "monitorInventory", label: "Monitor Inventory" },
+  { key: "vmInventory", label: "VM Inventory" },
+  { key: "vmMonitoring", label: "VM Monitoring" },
+  { key: "networkDiscovery", label: "Network Discovery" },
+  { key: "bitlockerKeys", label: "BitLocker Keys" },
+  { key: "iamAccounts", label: "IAM Accounts" },
+  { key: "database", label: "Database" },
+  { key: "admin", label: "Administration" },
 ];
 
-// Sample roles
-const predefinedRoles: Role[] = [
-  { 
-    id: 1, 
-    name: "Administrator", 
-    description: "Full access to all system features", 
-    permissions: availablePermissions.map(p => p.id)
-  },
-  { 
-    id: 2, 
-    name: "Asset Manager", 
-    description: "Can manage all assets but has limited administrative access", 
-    permissions: [
-      "assets.view", "assets.create", "assets.edit", "assets.delete", "assets.checkout", "assets.checkin",
-      "components.view", "components.create", "components.edit", 
-      "accessories.view", "accessories.create", "accessories.edit",
-      "licenses.view", "licenses.create", "licenses.edit", "licenses.assign",
-      "reports.view", "reports.export"
-    ]
-  },
-  { 
-    id: 3, 
-    name: "User Manager", 
-    description: "Can manage users and assign assets", 
-    permissions: [
-      "users.view", "users.create", "users.edit",
-      "assets.view", "assets.checkout", "assets.checkin",
-      "reports.view"
-    ]
-  },
-  { 
-    id: 4, 
-    name: "Read Only", 
-    description: "Can only view information but not make changes", 
-    permissions: [
-      "assets.view", "users.view", "licenses.view", "components.view", "accessories.view", "reports.view"
-    ]
-  }
+const permissionActions: { key: PermissionAction; verb: string; description: string }[] = [
+  { key: "view", verb: "View", description: "Can view" },
+  { key: "add", verb: "Create", description: "Can create new" },
+  { key: "edit", verb: "Edit", description: "Can modify" },
+  { key: "delete", verb: "Delete", description: "Can permanently remove" },
 ];
 
+const availablePermissions: Permission[] = permissionResources.flatMap(resource =>
+  permissionActions.map(action => ({
+    id: `${resource.key}.${action.key}`,
+    resource: resource.key,
+    action: action.key,
+    name: `${action.verb} ${resource.label}`,
+    description: `${action.description} ${resource.label.toLowerCase()}`,
+    category: resource.label,
+  }))
+);
+
+// Permission IDs granted by a role's { resource: { view, edit, add, delete } } map
+function grantedPermissionIds(permissions: RolePermissions | undefined): string[] {
+  return availablePermissions
+    .filter(permission => permissions?.[permission.resource]?.[permission.action] === true)
+    .map(permission => permission.id);
+}
+
+function toRolePermissions(permissionIds: string[]): RolePermissions {
+  return Object.fromEntries(permissionResources.map(resource => [
+    resource.key,
+    Object.fromEntries(permissionActions.map(action =>
+      [action.key, permissionIds.includes(`${resource.key}.${action.key}`)]
+    )) as PagePermission,
+  ]));
+}
+
 export default function UserPermissionsPage() {
   const [activeTab, setActiveTab] = useState("users");
   const [searchQuery, setSearchQuery] = useState("");
@@ -210,13 +186,11 @@ export default function UserPermissionsPage() {
     }
   });
 
-  // Create new role mutation (simulated)
+  // Create new role mutation
   const createRoleMutation = useMutation({
-    mutationFn: async (role: { name: string, description: string, permissions: string[] }) => {
-      // This would typically be an API call to create a role
-      // For this implementation, we're simulating success
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      return { ...role, id: Math.floor(Math.random() * 1000) + 10 };
+    mutationFn: async (role: { name: string, description: string, permissions: RolePermissions }) => {
+      const res = await apiRequest('POST', '/api/roles', role);
+      return await res.json();
     },
     onSuccess: () => {
       toast({
@@ -261,7 +235,7 @@ export default function UserPermissionsPage() {
     createRoleMutation.mutate({
       name: newRoleName,
       description: newRoleDescription,
-      permissions: newRolePermissions
+      permissions: toRolePermissions(newRolePermissions)
     });
   };
 
@@ -375,14 +349,14 @@ export default function UserPermissionsPage() {
                                     {user.isAdmin 
                                       ? "Administrator"
                                       : user.roleId 
-                                        ? (serverRoles || predefinedRoles).find(r => r.id === user.roleId)?.name || "No Role" 
+                                        ? (serverRoles || []).find(r => r.id === user.roleId)?.name || "No Role" 
                                         : "No Role"}
                                   </SelectValue>
                                 </SelectTrigger>
                                 <SelectContent>
                                   <SelectItem value="none">No Role</SelectItem>
                                   <SelectItem value="admin">Administrator</SelectItem>
-                                  {(serverRoles || predefinedRoles).map((role) => (
+                                  {(serverRoles || []).map((role) => (
                                     <SelectItem key={role.id} value={role.id.toString()}>
                                       {role.name}
                                     </SelectItem>
@@ -504,95 +478,98 @@ export default function UserPermissionsPage() {
             </CardHeader>
             <CardContent>
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {(serverRoles || predefinedRoles).map((role) => (
-                  <Card key={role.id} className="overflow-hidden">
-                    <CardHeader className="pb-2">
-                      <CardTitle className="text-lg">{role.name}</CardTitle>
-                      <CardDescription>{role.description}</CardDescription>
-                    </CardHeader>
-                    <CardContent className="pb-4">
-                      <div className="space-y-1">
-                        <h4 className="text-sm font-medium">Permissions:</h4>
-                        <div className="flex flex-wrap gap-1">
-                          {role.permissions.length > 5 ? (
-                            <>
-                              {role.permissions.slice(0, 5).map((permId) => {
+                {(serverRoles || []).map((role) => {
+                  const rolePermissionIds = grantedPermissionIds(role.permissions);
+                  return (
+                    <Card key={role.id} className="overflow-hidden">
+                      <CardHeader className="pb-2">
+                        <CardTitle className="text-lg">{role.name}</CardTitle>
+                        <CardDescription>{role.description}</CardDescription>
+                      </CardHeader>
+                      <CardContent className="pb-4">
+                        <div className="space-y-1">
+                          <h4 className="text-sm font-medium">Permissions:</h4>
+                          <div className="flex flex-wrap gap-1">
+                            {rolePermissionIds.length > 5 ? (
+                              <>
+                                {rolePermissionIds.slice(0, 5).map((permId) => {
+                                  const perm = availablePermissions.find(p => p.id === permId);
+                                  return perm ? (
+                                    <Badge key={permId} variant="outline" className="text-xs">
+                                      {perm.name}
+                                    </Badge>
+                                  ) : null;
+                                })}
+                                <Badge variant="outline" className="text-xs">
+                                  +{rolePermissionIds.length - 5} more
+                                </Badge>
+                              </>
+                            ) : (
+                              rolePermissionIds.map((permId) => {
                                 const perm = availablePermissions.find(p => p.id === permId);
                                 return perm ? (
                                   <Badge key={permId} variant="outline" className="text-xs">
                                     {perm.name}
                                   </Badge>
                                 ) : null;
-                              })}
-                              <Badge variant="outline" className="text-xs">
-                                +{role.permissions.length - 5} more
-                              </Badge>
-                            </>
-                          ) : (
-                            role.permissions.map((permId) => {
-                              const perm = availablePermissions.find(p => p.id === permId);
-                              return perm ? (
-                                <Badge key={permId} variant="outline" className="text-xs">
-                                  {perm.name}
-                                </Badge>
-                              ) : null;
-                            })
-                          )}
+                              })
+                            )}
+                          </div>
                         </div>
-                      </div>
-                    </CardContent>
-                    <div className="bg-muted/50 px-6 py-3 flex justify-between items-center">
-                      <Dialog>
-                        <DialogTrigger asChild>
-                          <Button variant="secondary" size="sm">
-                            <Plus className="mr-1 h-3 w-3" />
-                            Add User
-                          </Button>
-                        </DialogTrigger>
-                        <DialogContent>
-                          <DialogHeader>
-                            <DialogTitle>Assign User to {role.name}</DialogTitle>
-                          </DialogHeader>
-                          <div className="space-y-4">
-                            <div className="space-y-2">
-                              <label className="text-sm font-medium">Select User</label>
-                              <Select onValueChange={(userId) => {
-                                const numericUserId = parseInt(userId);
-                                if (!isNaN(numericUserId)) {
-                                  updateUserRoleMutation.mutate({
-                                    userId: numericUserId,
-                                    roleId: role.id
-                                  });
-                                }
-                              }}>
-                                <SelectTrigger>
-                                  <SelectValue placeholder="Choose a user..." />
-                                </SelectTrigger>
-                                <SelectContent>
-                                  {filteredUsers?.filter(user => !user.isAdmin && user.roleId !== role.id).map((user) => (
-                                    <SelectItem key={user.id} value={user.id.toString()}>
-                                      {user.username} - {user.firstName} {user.lastName}
-                                    </SelectItem>
-                                  ))}
-                                </SelectContent>
-                              </Select>
+                      </CardContent>
+                      <div className="bg-muted/50 px-6 py-3 flex justify-between items-center">
+                        <Dialog>
+                          <DialogTrigger asChild>
+                            <Button variant="secondary" size="sm">
+                              <Plus className="mr-1 h-3 w-3" />
+                              Add User
+                            </Button>
+                          </DialogTrigger>
+                          <DialogContent>
+                            <DialogHeader>
+                              <DialogTitle>Assign User to {role.name}</DialogTitle>
+                            </DialogHeader>
+                            <div className="space-y-4">
+                              <div className="space-y-2">
+                                <label className="text-sm font-medium">Select User</label>
+                                <Select onValueChange={(userId) => {
+                                  const numericUserId = parseInt(userId);
+                                  if (!isNaN(numericUserId)) {
+                                    updateUserRoleMutation.mutate({
+                                      userId: numericUserId,
+                                      roleId: role.id
+                                    });
+                                  }
+                                }}>
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Choose a user..." />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {filteredUsers?.filter(user => !user.isAdmin && user.roleId !== role.id).map((user) => (
+                                      <SelectItem key={user.id} value={user.id.toString()}>
+                                        {user.username} - {user.firstName} {user.lastName}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </div>
                             </div>
-                          </div>
-                        </DialogContent>
-                      </Dialog>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => {
-                          setSelectedRole(role);
-                          setIsRoleDetailsOpen(true);
-                        }}
-                      >
-                        View Details
-                      </Button>
-                    </div>
-                  </Card>
-                ))}
+                          </DialogContent>
+                        </Dialog>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            setSelectedRole(role);
+                            setIsRoleDetailsOpen(true);
+                          }}
+                        >
+                          View Details
+                        </Button>
+                      </div>
+                    </Card>
+                  );
+                })}
               </div>
             </CardContent>
           </Card>
@@ -620,7 +597,7 @@ export default function UserPermissionsPage() {
                 {Object.entries(permissionsByCategory).map(([category, permissions]) => {
                   // Filter permissions that belong to this role
                   const categoryPermissions = permissions.filter(
-                    permission => selectedRole.permissions.includes(permission.id)
+                    permission => grantedPermissionIds(selectedRole.permissions).includes(permission.id)
                   );
 
                   // Only show categories that have permissions for this role
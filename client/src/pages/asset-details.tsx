@@ -34,6 +34,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, Di
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { formatDate, getStatusColor } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
+import { useHasPermission } from "@/hooks/use-auth";
 import { DeleteConfirmationDialog } from "@/components/ui/delete-confirmation-dialog";
 import { Asset, User, AssetStatus } from "@shared/schema";
 import AssetForm from "@/components/assets/asset-form";
@@ -45,6 +46,7 @@ export default function AssetDetails() {
   const { id } = useParams();
   const [, navigate] = useLocation();
   const { toast } = useToast();
+  const canDelete = useHasPermission('assets', 'delete');
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [isCheckoutDialogOpen, setIsCheckoutDialogOpen] = useState(false);
@@ -318,10 +320,12 @@ export default function AssetDetails() {
             <Edit2Icon className="mr-2 h-4 w-4" />
             Edit
           </Button>
-          <Button variant="outline" className="text-red-500 hover:bg-red-50 hover:text-red-600" onClick={() => setIsDeleteDialogOpen(true)}>
-            <TrashIcon className="mr-2 h-4 w-4" />
-            Delete
-          </Button>
+          {canDelete && (
+            <Button variant="outline" className="text-red-500 hover:bg-red-50 hover:text-red-600" onClick={() => setIsDeleteDialogOpen(true)}>
+              <TrashIcon className="mr-2 h-4 w-4" />
+              Delete
+            </Button>
+          )}
         </div>
       </div>
 
@@ -1,6 +1,6 @@
 import { useState, useRef, useEffect } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
-import AssetTable from "@/components/assets/asset-table";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
+import AssetTable, { type AssetListParams } from "@/components/assets/asset-table";
 import AssetForm from "@/components/assets/asset-form";
 import CSVImport from '@/components/assets/csv-import';
 import {
@@ -34,13 +34,15 @@ import {
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { downloadCSV } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
-import { Asset, AssetCategories, AssetStatus } from "@shared/schema";
+import { useHasPermission } from "@/hooks/use-auth";
+import { Asset, AssetCategories, AssetStatus, type PaginatedResult } from "@shared/schema";
 import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
 import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
 export default function Assets() {
   const { toast } = useToast();
+  const canDelete = useHasPermission('assets', 'delete');
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
@@ -59,7 +61,7 @@ export default function Assets() {
     errors: string[];
   } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [tableFilteredAssets, setTableFilteredAssets] = useState<Asset[]>([]);
+  const [tableListParams, setTableListParams] = useState<AssetListParams>({ filters: {} });
   const [isConfirmDeleteOpen, setIsConfirmDeleteOpen] = useState(false);
   const [conditionFilter, setConditionFilter] = useState("all");
   const [pageSize, setPageSize] = useState(10);
@@ -102,11 +104,29 @@ export default function Assets() {
     }
   }, []);
 
-  // ✅ Add the missing queryFn to fetch data
-  const { data: assets = [], isLoading, error } = useQuery<Asset[]>({
-    queryKey: ['/api/assets'],
+  // Search, filters and sorting are applied by the server, one page at a time
+  const buildListParams = (pageNumber: number, size: number) => {
+    const params = new URLSearchParams({ page: String(pageNumber), pageSize: String(size) });
+    if (searchTerm) params.set('q', searchTerm);
+    if (categoryFilter !== 'all') params.set('filter[category]', categoryFilter);
+    if (statusFilter !== 'all') params.set('filter[status]', statusFilter);
+    if (departmentFilter !== 'all') params.set('filter[department]', departmentFilter);
+    if (conditionFilter !== 'all') params.set('filter[condition]', conditionFilter);
+    Object.entries(tableListParams.filters).forEach(([field, value]) => params.set(`filter[${field}]`, value));
+    if (tableListParams.sort) params.set('sort', tableListParams.sort);
+    return params.toString();
+  };
+
+  const listParams = buildListParams(page, pageSize);
+
+  useEffect(() => {
+    setPage(1);
+  }, [searchTerm, categoryFilter, statusFilter, departmentFilter, conditionFilter, tableListParams]);
+
+  const { data: assetPage, isLoading, error } = useQuery<PaginatedResult<Asset>>({
+    queryKey: ['/api/assets', listParams],
     queryFn: async () => {
-      const res = await fetch('/api/assets', {
+      const res = await fetch(`/api/assets?${listParams}`, {
         credentials: 'include',
         headers: {
           'Content-Type': 'application/json',
@@ -116,13 +136,13 @@ export default function Assets() {
         const errorText = await res.text();
         throw new Error(`Failed to fetch assets: ${res.status} ${errorText}`);
       }
-      const data = await res.json();
-      console.log('Fetched assets:', data);
-      return data;
+      return res.json();
     },
+    placeholderData: keepPreviousData,
     retry: 1,
     staleTime: 30000,
   });
+  const assets = assetPage?.data ?? [];
 
   const createAssetMutation = useMutation({
     mutationFn: async (data: any) => {
@@ -271,32 +291,31 @@ export default function Assets() {
   const uniqueDepartments = [...new Set(assets.map(asset => asset.department).filter(Boolean))] as string[];
   const uniqueCategories = [...new Set(assets.map(asset => asset.category).filter(Boolean))] as string[];
 
-  const filteredAssets = assets.filter(asset => {
-    const matchesSearch = !searchTerm || 
-      asset.name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      asset.assetTag?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      asset.category?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      asset.serialNumber?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      asset.department?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      asset.knoxId?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      (asset.assignedTo && asset.assignedTo.toString().toLowerCase().includes(searchTerm.toLowerCase()));
-
-    const matchesCategory = categoryFilter === "all" || asset.category === categoryFilter;
-    const matchesStatus = statusFilter === "all" || asset.status === statusFilter;
-    const matchesDepartment = departmentFilter === "all" || asset.department === departmentFilter;
-    const matchesCondition = conditionFilter === "all" || asset.condition === conditionFilter;
-
-    return matchesSearch && matchesCategory && matchesStatus && matchesDepartment && matchesCondition;
-  });
-
   // Count assets assigned to the same Knox ID when searching by Knox ID
   const getKnoxIdCount = (knoxId: string) => {
     if (!knoxId) return 0;
     return assets.filter(asset => asset.knoxId?.toLowerCase() === knoxId.toLowerCase()).length;
   };
 
-  const handleExport = () => {
-    const assetsToExport = tableFilteredAssets.length > 0 ? tableFilteredAssets : filteredAssets;
+  // Export every asset matching the current search and filters, not just the visible page
+  const handleExport = async () => {
+    const assetsToExport: Asset[] = [];
+    try {
+      for (let exportPage = 1; ; exportPage++) {
+        const res = await fetch(`/api/assets?${buildListParams(exportPage, 500)}`, { credentials: 'include' });
+        if (!res.ok) throw new Error(`Failed to fetch assets: ${res.status}`);
+        const result: PaginatedResult<Asset> = await res.json();
+        assetsToExport.push(...result.data);
+        if (exportPage >= result.totalPages) break;
+      }
+    } catch (err: any) {
+      toast({
+        title: "Export failed",
+        description: err.message,
+        variant: "destructive",
+      });
+      return;
+    }
 
     if (assetsToExport.length === 0) {
       toast({
@@ -485,14 +504,15 @@ export default function Assets() {
       )}
 
       <AssetTable
-        assets={filteredAssets}
+        assets={assets}
         isLoading={isLoading}
         onEdit={setAssetToEdit}
-        onDelete={setAssetToDelete}
-        onFilteredAssetsChange={setTableFilteredAssets}
+        onDelete={canDelete ? setAssetToDelete : undefined}
         pageSize={pageSize}
         currentPage={page}
         onPageChange={setPage}
+        totalCount={assetPage?.total ?? 0}
+        onListParamsChange={setTableListParams}
       />
 
       {/* Add Asset Dialog */}
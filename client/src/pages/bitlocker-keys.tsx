@@ -1,7 +1,8 @@
 import React, { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
-import { BitlockerKey } from "@shared/schema";
+import { useHasPermission } from "@/hooks/use-auth";
+import { BitlockerKey, BitlockerKeyAccessLog } from "@shared/schema";
 import { queryClient } from "@/lib/queryClient";
 
 // API request helper function
@@ -64,10 +65,11 @@ import {
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
-import { Loader2, Plus, Search, TrashIcon, Edit, Eye } from "lucide-react";
+import { Loader2, Plus, Search, TrashIcon, Edit, Eye, KeyRound } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 // Import the page header component we created
 import PageHeader from "../components/page-header";
@@ -89,8 +91,20 @@ const formSchema = z.object({
   notes: z.string().optional(),
 });
 
+// The server only returns masked recovery keys, so editing leaves the key alone unless a new one is typed
+const editFormSchema = formSchema.extend({
+  recoveryKey: z.string().max(255, "Recovery key is too long").optional(),
+});
+
+interface RevealedKey {
+  id: number;
+  recoveryKey: string;
+  revealedAt: string;
+}
+
 export default function BitlockerKeysPage() {
   const { toast } = useToast();
+  const canDelete = useHasPermission('bitlockerKeys', 'delete');
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
@@ -99,6 +113,9 @@ export default function BitlockerKeysPage() {
   const [searchType, setSearchType] = useState<"serial" | "identifier">("serial");
   const [searchQuery, setSearchQuery] = useState("");
   const [deleteConfirmationOpen, setDeleteConfirmationOpen] = useState(false);
+  const [revealReason, setRevealReason] = useState("");
+  const [revealPassword, setRevealPassword] = useState("");
+  const [revealedKey, setRevealedKey] = useState<RevealedKey | null>(null);
 
   // Form for adding a new Bitlocker key
   const addForm = useForm<z.infer<typeof formSchema>>({
@@ -112,8 +129,8 @@ export default function BitlockerKeysPage() {
   });
 
   // Form for editing a Bitlocker key
-  const editForm = useForm<z.infer<typeof formSchema>>({
-    resolver: zodResolver(formSchema),
+  const editForm = useForm<z.infer<typeof editFormSchema>>({
+    resolver: zodResolver(editFormSchema),
     defaultValues: {
       serialNumber: "",
       identifier: "",
@@ -163,6 +180,18 @@ export default function BitlockerKeysPage() {
     enabled: searchType === "identifier" && searchQuery !== "",
   });
 
+  // Who revealed which recovery key and when
+  const {
+    data: accessLog = [],
+    isLoading: isLoadingAccessLog,
+  } = useQuery<BitlockerKeyAccessLog[]>({
+    queryKey: ["/api/bitlocker-keys/access-log"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/bitlocker-keys/access-log");
+      return await res.json();
+    },
+  });
+
   // Combine all data sources based on search state
   const displayedKeys = searchQuery !== "" 
     ? (searchType === "serial" ? searchResultsSerial : searchResultsIdentifier) || []
@@ -194,7 +223,7 @@ export default function BitlockerKeysPage() {
 
   // Mutation for updating a Bitlocker key
   const updateKeyMutation = useMutation({
-    mutationFn: async (data: { id: number; formData: z.infer<typeof formSchema> }) => {
+    mutationFn: async (data: { id: number; formData: z.infer<typeof editFormSchema> }) => {
       const res = await apiRequest("PATCH", `/api/bitlocker-keys/${data.id}`, data.formData);
       return await res.json();
     },
@@ -246,15 +275,39 @@ export default function BitlockerKeysPage() {
     },
   });
 
+  // Every reveal is recorded server-side in the access log
+  const revealKeyMutation = useMutation({
+    mutationFn: async (data: { id: number; reason: string; password?: string }) => {
+      const res = await apiRequest("POST", `/api/bitlocker-keys/${data.id}/reveal`, {
+        reason: data.reason,
+        ...(data.password ? { password: data.password } : {}),
+      });
+      return await res.json() as RevealedKey;
+    },
+    onSuccess: (result) => {
+      setRevealedKey(result);
+      setRevealPassword("");
+      queryClient.invalidateQueries({ queryKey: ["/api/bitlocker-keys/access-log"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reveal Bitlocker key",
+        variant: "destructive",
+      });
+    },
+  });
+
   const onAddSubmit = (data: z.infer<typeof formSchema>) => {
     addKeyMutation.mutate(data);
   };
 
-  const onEditSubmit = (data: z.infer<typeof formSchema>) => {
+  const onEditSubmit = (data: z.infer<typeof editFormSchema>) => {
     if (selectedKey) {
+      const { recoveryKey, ...rest } = data;
       updateKeyMutation.mutate({
         id: selectedKey.id,
-        formData: data,
+        formData: recoveryKey ? data : rest,
       });
     }
   };
@@ -264,7 +317,7 @@ export default function BitlockerKeysPage() {
     editForm.reset({
       serialNumber: key.serialNumber,
       identifier: key.identifier,
-      recoveryKey: key.recoveryKey,
+      recoveryKey: "",
       notes: key.notes || "",
     });
     setIsEditDialogOpen(true);
@@ -272,9 +325,28 @@ export default function BitlockerKeysPage() {
 
   const handleViewClick = (key: BitlockerKey) => {
     setSelectedKey(key);
+    setRevealReason("");
+    setRevealPassword("");
+    setRevealedKey(null);
     setIsViewDialogOpen(true);
   };
 
+  const handleViewDialogChange = (open: boolean) => {
+    setIsViewDialogOpen(open);
+    if (!open) {
+      // Don't keep a revealed key around once the dialog is closed
+      setRevealedKey(null);
+      setRevealPassword("");
+    }
+  };
+
+  const handleReveal = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selectedKey && revealReason.trim()) {
+      revealKeyMutation.mutate({ id: selectedKey.id, reason: revealReason.trim(), password: revealPassword });
+    }
+  };
+
   const handleDeleteClick = (key: BitlockerKey) => {
     setSelectedKey(key);
     setDeleteConfirmationOpen(true);
@@ -344,85 +416,138 @@ export default function BitlockerKeysPage() {
         </Button>
       </div>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Bitlocker Recovery Keys</CardTitle>
-          <CardDescription>
-            {searchQuery ? `Search results for "${searchQuery}" (${displayedKeys.length} keys found)` : `All Bitlocker keys (${displayedKeys.length} total)`}
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          {(isLoading_All || isLoading_Search) ? (
-            <div className="flex justify-center items-center h-40">
-              <Loader2 className="h-8 w-8 animate-spin" />
-            </div>
-          ) : error ? (
-            <div className="text-center text-red-500 my-4">
-              Error loading Bitlocker keys: {error instanceof Error ? error.message : "Unknown error"}
-            </div>
-          ) : displayedKeys.length === 0 ? (
-            <div className="text-center my-4 text-gray-500">
-              {searchQuery ? "No Bitlocker keys match your search criteria" : "No Bitlocker keys available. Add a new key to get started."}
-            </div>
-          ) : (
-            <div className="overflow-x-auto">
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>Serial Number</TableHead>
-                    <TableHead>Identifier</TableHead>
-                    <TableHead>Recovery Key</TableHead>
-                    <TableHead>Notes</TableHead>
-                    <TableHead>Date Added</TableHead>
-                    <TableHead className="text-right">Actions</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {displayedKeys.map((key) => (
-                    <TableRow key={key.id}>
-                      <TableCell>{key.serialNumber}</TableCell>
-                      <TableCell>{key.identifier}</TableCell>
-                      <TableCell>
-                        {/* Show only first 5 and last 5 characters for security */}
-                        {key.recoveryKey.length > 10 
-                          ? `${key.recoveryKey.substring(0, 5)}...${key.recoveryKey.substring(key.recoveryKey.length - 5)}`
-                          : key.recoveryKey}
-                      </TableCell>
-                      <TableCell>{key.notes || "-"}</TableCell>
-                      <TableCell>
-                        {key.dateAdded ? new Date(key.dateAdded).toLocaleDateString() : "N/A"}
-                      </TableCell>
-                      <TableCell className="text-right flex justify-end gap-2">
-                        <Button 
-                          variant="ghost" 
-                          size="icon" 
-                          onClick={() => handleViewClick(key)}
-                        >
-                          <Eye className="h-4 w-4" />
-                        </Button>
-                        <Button 
-                          variant="ghost" 
-                          size="icon" 
-                          onClick={() => handleEditClick(key)}
-                        >
-                          <Edit className="h-4 w-4" />
-                        </Button>
-                        <Button 
-                          variant="ghost" 
-                          size="icon" 
-                          onClick={() => handleDeleteClick(key)}
-                        >
-                          <TrashIcon className="h-4 w-4" />
-                        </Button>
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            </div>
-          )}
-        </CardContent>
-      </Card>
+      <Tabs defaultValue="keys">
+        <TabsList>
+          <TabsTrigger value="keys">Keys</TabsTrigger>
+          <TabsTrigger value="access-log">Access Log</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="keys">
+          <Card>
+            <CardHeader>
+              <CardTitle>Bitlocker Recovery Keys</CardTitle>
+              <CardDescription>
+                {searchQuery ? `Search results for "${searchQuery}" (${displayedKeys.length} keys found)` : `All Bitlocker keys (${displayedKeys.length} total)`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {(isLoading_All || isLoading_Search) ? (
+                <div className="flex justify-center items-center h-40">
+                  <Loader2 className="h-8 w-8 animate-spin" />
+                </div>
+              ) : error ? (
+                <div className="text-center text-red-500 my-4">
+                  Error loading Bitlocker keys: {error instanceof Error ? error.message : "Unknown error"}
+                </div>
+              ) : displayedKeys.length === 0 ? (
+                <div className="text-center my-4 text-gray-500">
+                  {searchQuery ? "No Bitlocker keys match your search criteria" : "No Bitlocker keys available. Add a new key to get started."}
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Serial Number</TableHead>
+                        <TableHead>Identifier</TableHead>
+                        <TableHead>Recovery Key</TableHead>
+                        <TableHead>Notes</TableHead>
+                        <TableHead>Date Added</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {displayedKeys.map((key) => (
+                        <TableRow key={key.id}>
+                          <TableCell>{key.serialNumber}</TableCell>
+                          <TableCell>{key.identifier}</TableCell>
+                          <TableCell className="font-mono text-sm">{key.recoveryKey}</TableCell>
+                          <TableCell>{key.notes || "-"}</TableCell>
+                          <TableCell>
+                            {key.dateAdded ? new Date(key.dateAdded).toLocaleDateString() : "N/A"}
+                          </TableCell>
+                          <TableCell className="text-right flex justify-end gap-2">
+                            <Button 
+                              variant="ghost" 
+                              size="icon" 
+                              onClick={() => handleViewClick(key)}
+                            >
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                            <Button 
+                              variant="ghost" 
+                              size="icon" 
+                              onClick={() => handleEditClick(key)}
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            {canDelete && (
+                              <Button 
+                                variant="ghost" 
+                                size="icon" 
+                                onClick={() => handleDeleteClick(key)}
+                              >
+                                <TrashIcon className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="access-log">
+          <Card>
+            <CardHeader>
+              <CardTitle>Recovery Key Access Log</CardTitle>
+              <CardDescription>
+                Every time a recovery key was revealed, by whom and why. Entries cannot be edited or removed.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoadingAccessLog ? (
+                <div className="flex justify-center items-center h-40">
+                  <Loader2 className="h-8 w-8 animate-spin" />
+                </div>
+              ) : accessLog.length === 0 ? (
+                <div className="text-center my-4 text-gray-500">No recovery keys have been revealed yet</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Revealed At</TableHead>
+                        <TableHead>Serial Number</TableHead>
+                        <TableHead>Identifier</TableHead>
+                        <TableHead>User</TableHead>
+                        <TableHead>Reason</TableHead>
+                        <TableHead>IP Address</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {accessLog.map((entry) => (
+                        <TableRow key={entry.id}>
+                          <TableCell>{new Date(entry.revealedAt).toLocaleString()}</TableCell>
+                          <TableCell>{entry.serialNumber}</TableCell>
+                          <TableCell>{entry.identifier || "-"}</TableCell>
+                          <TableCell>{entry.username}</TableCell>
+                          <TableCell className="max-w-xs whitespace-pre-wrap">{entry.reason}</TableCell>
+                          <TableCell className="font-mono text-sm">{entry.ipAddress || "-"}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
 
       {/* Add Key Dialog */}
       <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
@@ -569,10 +694,10 @@ export default function BitlockerKeysPage() {
                   <FormItem>
                     <FormLabel>Recovery Key</FormLabel>
                     <FormControl>
-                      <Input placeholder="Enter recovery key" {...field} />
+                      <Input placeholder="Leave blank to keep the current key" {...field} />
                     </FormControl>
                     <FormDescription>
-                      The Bitlocker recovery key
+                      Only enter a value to replace the stored recovery key
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
@@ -615,7 +740,7 @@ export default function BitlockerKeysPage() {
       </Dialog>
 
       {/* View Key Dialog */}
-      <Dialog open={isViewDialogOpen} onOpenChange={setIsViewDialogOpen}>
+      <Dialog open={isViewDialogOpen} onOpenChange={handleViewDialogChange}>
         <DialogContent className="sm:max-w-[500px]">
           <DialogHeader>
             <DialogTitle>View Bitlocker Key</DialogTitle>
@@ -635,9 +760,53 @@ export default function BitlockerKeysPage() {
               </div>
               <div>
                 <h4 className="text-sm font-medium">Recovery Key</h4>
-                <p className="text-sm font-mono bg-gray-100 dark:bg-gray-800 p-2 rounded select-all overflow-x-auto">
-                  {selectedKey.recoveryKey}
-                </p>
+                {revealedKey && revealedKey.id === selectedKey.id ? (
+                  <>
+                    <p className="text-sm font-mono bg-gray-100 dark:bg-gray-800 p-2 rounded select-all overflow-x-auto">
+                      {revealedKey.recoveryKey}
+                    </p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Revealed at {new Date(revealedKey.revealedAt).toLocaleString()} and recorded in the access log
+                    </p>
+                  </>
+                ) : (
+                  <>
+                    <p className="text-sm font-mono bg-gray-100 dark:bg-gray-800 p-2 rounded overflow-x-auto">
+                      {selectedKey.recoveryKey}
+                    </p>
+                    <form onSubmit={handleReveal} className="space-y-2 mt-3">
+                      <div className="space-y-1">
+                        <Label htmlFor="revealReason">Reason</Label>
+                        <Textarea
+                          id="revealReason"
+                          placeholder="Why is this recovery key needed? (e.g. ticket number)"
+                          value={revealReason}
+                          onChange={(e) => setRevealReason(e.target.value)}
+                          maxLength={500}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="revealPassword">Your Password</Label>
+                        <Input
+                          id="revealPassword"
+                          type="password"
+                          autoComplete="current-password"
+                          placeholder="Required if your administrator asks for it"
+                          value={revealPassword}
+                          onChange={(e) => setRevealPassword(e.target.value)}
+                        />
+                      </div>
+                      <Button type="submit" size="sm" disabled={!revealReason.trim() || revealKeyMutation.isPending}>
+                        {revealKeyMutation.isPending ? (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        ) : (
+                          <KeyRound className="mr-2 h-4 w-4" />
+                        )}
+                        Reveal Key
+                      </Button>
+                    </form>
+                  </>
+                )}
               </div>
               {selectedKey.notes && (
                 <div>
@@ -670,7 +839,7 @@ export default function BitlockerKeysPage() {
           <DialogFooter>
             <Button 
               type="button" 
-              onClick={() => setIsViewDialogOpen(false)}
+              onClick={() => handleViewDialogChange(false)}
             >
               Close
             </Button>
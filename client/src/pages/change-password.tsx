@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { KeyRound } from "lucide-react";
+
+interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireNumber: boolean;
+  requireSpecialChar: boolean;
+  expiryDays: number;
+}
+
+// Shown instead of the app while the signed-in user's password is past passwordExpiryDays
+export default function ChangePassword() {
+  const { user, logout } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [passwords, setPasswords] = useState({ currentPassword: "", newPassword: "", confirmPassword: "" });
+  const [violations, setViolations] = useState<string[]>([]);
+
+  const { data: policy } = useQuery<PasswordPolicy>({
+    queryKey: ['/api/password-policy'],
+    queryFn: async () => {
+      const response = await fetch('/api/password-policy');
+      if (!response.ok) {
+        throw new Error('Failed to load password policy');
+      }
+      return response.json();
+    },
+  });
+
+  const changePasswordMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/user/password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          currentPassword: passwords.currentPassword,
+          newPassword: passwords.newPassword,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setViolations(data.violations || []);
+        throw new Error(data.message || 'Failed to change password');
+      }
+      return data;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Password Changed",
+        description: "Your password has been updated.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Password Not Changed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setViolations([]);
+    if (passwords.newPassword !== passwords.confirmPassword) {
+      toast({
+        title: "Password Not Changed",
+        description: "The new passwords do not match",
+        variant: "destructive",
+      });
+      return;
+    }
+    changePasswordMutation.mutate();
+  };
+
+  const requirements = policy ? [
+    `At least ${policy.minLength} characters`,
+    ...(policy.requireUppercase ? ["An uppercase letter"] : []),
+    ...(policy.requireNumber ? ["A number"] : []),
+    ...(policy.requireSpecialChar ? ["A special character"] : []),
+  ] : [];
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Password Expired
+          </CardTitle>
+          <CardDescription>
+            {user?.username ? `${user.username}, your` : "Your"} password is older than
+            {policy ? ` ${policy.expiryDays} days` : " the allowed age"} and must be changed before you continue.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="currentPassword">Current Password</Label>
+              <Input
+                id="currentPassword"
+                type="password"
+                autoComplete="current-password"
+                value={passwords.currentPassword}
+                onChange={(e) => setPasswords({ ...passwords, currentPassword: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="newPassword">New Password</Label>
+              <Input
+                id="newPassword"
+                type="password"
+                autoComplete="new-password"
+                value={passwords.newPassword}
+                onChange={(e) => setPasswords({ ...passwords, newPassword: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirmPassword">Confirm New Password</Label>
+              <Input
+                id="confirmPassword"
+                type="password"
+                autoComplete="new-password"
+                value={passwords.confirmPassword}
+                onChange={(e) => setPasswords({ ...passwords, confirmPassword: e.target.value })}
+                required
+              />
+            </div>
+
+            {requirements.length > 0 && (
+              <div className="text-sm text-muted-foreground">
+                <p className="font-medium">The new password needs:</p>
+                <ul className="list-disc pl-5">
+                  {requirements.map(requirement => <li key={requirement}>{requirement}</li>)}
+                </ul>
+              </div>
+            )}
+
+            {violations.length > 0 && (
+              <ul className="text-sm text-destructive list-disc pl-5">
+                {violations.map(violation => <li key={violation}>Password {violation}</li>)}
+              </ul>
+            )}
+
+            <div className="flex gap-2">
+              <Button type="submit" className="flex-1" disabled={changePasswordMutation.isPending}>
+                {changePasswordMutation.isPending ? "Changing..." : "Change Password"}
+              </Button>
+              <Button type="button" variant="outline" onClick={logout}>
+                Sign Out
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
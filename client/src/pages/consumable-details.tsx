@@ -11,6 +11,7 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { ArrowLeftIcon, EditIcon, TrashIcon, UserPlusIcon, PackageIcon, AlertCircleIcon } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useHasPermission } from "@/hooks/use-auth";
 import { formatDate } from "@/lib/utils";
 import { queryClient } from "@/lib/queryClient";
 import ConsumableForm from "@/components/consumables/consumable-form";
@@ -20,6 +21,7 @@ export default function ConsumableDetails() {
   const { id } = useParams();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const canDelete = useHasPermission('consumables', 'delete');
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isAssignDialogOpen, setIsAssignDialogOpen] = useState(false);
   const [assignData, setAssignData] = useState({
@@ -263,14 +265,16 @@ export default function ConsumableDetails() {
               </DialogContent>
             </Dialog>
 
-            <Button
-              variant="destructive"
-              onClick={() => deleteMutation.mutate()}
-              disabled={deleteMutation.isPending}
-            >
-              <TrashIcon className="mr-2 h-4 w-4" />
-              {deleteMutation.isPending ? 'Deleting...' : 'Delete'}
-            </Button>
+            {canDelete && (
+              <Button
+                variant="destructive"
+                onClick={() => deleteMutation.mutate()}
+                disabled={deleteMutation.isPending}
+              >
+                <TrashIcon className="mr-2 h-4 w-4" />
+                {deleteMutation.isPending ? 'Deleting...' : 'Delete'}
+              </Button>
+            )}
           </div>
         </div>
 
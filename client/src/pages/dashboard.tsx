@@ -14,6 +14,7 @@ import {
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, LineChart, Line, PieChart as RechartsPieChart, Pie, Cell, AreaChart, Area } from "recharts";
 import { useAuth } from "@/hooks/use-auth";
 import { format } from "date-fns";
+import type { AssetStats } from "@shared/schema";
 
 export default function Dashboard() {
   const { user } = useAuth();
@@ -24,8 +25,9 @@ export default function Dashboard() {
     return () => clearInterval(timer);
   }, []);
 
-  const { data: stats } = useQuery({
-    queryKey: ["stats"],
+  // Counts are aggregated server-side; the lists below are only fetched where rows are shown
+  const { data: stats } = useQuery<AssetStats>({
+    queryKey: ["/api/stats"],
     queryFn: async () => {
       const response = await fetch("/api/stats", {
         credentials: "include",
@@ -35,17 +37,6 @@ export default function Dashboard() {
     },
   });
 
-  const { data: assets } = useQuery({
-    queryKey: ["assets"],
-    queryFn: async () => {
-      const response = await fetch("/api/assets", {
-        credentials: "include",
-      });
-      if (!response.ok) throw new Error("Failed to fetch assets");
-      return response.json();
-    },
-  });
-
   const { data: activities } = useQuery({
     queryKey: ["activities"],
     queryFn: async () => {
@@ -68,97 +59,33 @@ export default function Dashboard() {
     },
   });
 
-  const { data: licenses } = useQuery({
-    queryKey: ["licenses"],
-    queryFn: async () => {
-      const response = await fetch("/api/licenses", {
-        credentials: "include",
-      });
-      if (!response.ok) throw new Error("Failed to fetch licenses");
-      return response.json();
-    },
-  });
-
-  const { data: iamAccounts } = useQuery({
-    queryKey: ["iam-accounts"],
-    queryFn: async () => {
-      const response = await fetch("/api/iam-accounts", {
-        credentials: "include",
-      });
-      if (!response.ok) throw new Error("Failed to fetch IAM accounts");
-      return response.json();
-    },
-  });
-
-  const { data: vmInventory } = useQuery({
-    queryKey: ["vm-inventory"],
-    queryFn: async () => {
-      const response = await fetch("/api/vm-inventory", {
-        credentials: "include",
-      });
-      if (!response.ok) throw new Error("Failed to fetch VM inventory");
-      return response.json();
-    },
-  });
-
   // Calculate contextual IT metrics
-  const totalAssets = assets?.length || 0;
-  const activeAssets = assets?.filter((asset: any) => asset.status === 'Deployed').length || 0;
-  const pendingAssets = assets?.filter((asset: any) => asset.status === 'pending').length || 0;
-  const maintenanceAssets = assets?.filter((asset: any) => asset.condition === 'Bad').length || 0;
-  const retiredAssets = assets?.filter((asset: any) => asset.status === 'retired' || asset.status === 'disposed').length || 0;
-
-  const totalLicenses = licenses?.length || 0;
-  const expiringSoon = licenses?.filter((license: any) => {
-    if (!license.expiryDate) return false;
-    const expiryDate = new Date(license.expiryDate);
-    const thirtyDaysFromNow = new Date();
-    thirtyDaysFromNow.setDate(thirtyDaysFromNow.getDate() + 30);
-    return expiryDate <= thirtyDaysFromNow;
-  }).length || 0;
+  const assetsByStatus = stats?.byStatus || {};
+  const totalAssets = stats?.total || 0;
+  const activeAssets = stats?.checkedOut || 0;
+  const pendingAssets = stats?.pending || 0;
+  const maintenanceAssets = stats?.byCondition?.Bad || 0;
+  const retiredAssets = (assetsByStatus.retired || 0) + (assetsByStatus.disposed || 0);
+  const overdueAssets = stats?.overdue || 0;
+
+  const totalLicenses = stats?.licenses.total || 0;
+  const expiringSoon = stats?.licenses.expiringSoon || 0;
 
   // IAM Account status calculations
-  const totalIamAccounts = iamAccounts?.length || 0;
-  const activeIamAccounts = iamAccounts?.filter((account: any) => account.status === 'active').length || 0;
-  const extendedIamAccounts = iamAccounts?.filter((account: any) => account.status === 'extended').length || 0;
-  const expiredIamAccounts = iamAccounts?.filter((account: any) => 
-    account.status === 'expired' || 
-    account.status === 'expired_not_notified' || 
-    account.status === 'expired_notified'
-  ).length || 0;
-  const accessRemovedIamAccounts = iamAccounts?.filter((account: any) => account.status === 'access_removed').length || 0;
+  const iamByStatus = stats?.iamAccounts.byStatus || {};
+  const totalIamAccounts = stats?.iamAccounts.total || 0;
+  const activeIamAccounts = iamByStatus.active || 0;
+  const extendedIamAccounts = iamByStatus.extended || 0;
+  const expiredIamAccounts = (iamByStatus.expired || 0) +
+    (iamByStatus.expired_not_notified || 0) +
+    (iamByStatus.expired_notified || 0);
+  const accessRemovedIamAccounts = iamByStatus.access_removed || 0;
 
   const runningVMs = vmData?.filter((vm: any) => vm.status === 'running').length || 0;
   const totalVMs = vmData?.length || 0;
 
-  // Function to calculate VM status based on dates
-  const calculateVMStatus = (startDate: string, endDate: string, currentStatus: string) => {
-    if (currentStatus === "Overdue - Notified" || currentStatus === "Decommissioned") {
-      return currentStatus; // Manual statuses should not be auto-changed
-    }
-
-    if (!startDate || !endDate) {
-      return "Active"; // Default if no dates
-    }
-
-    const today = new Date();
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-
-    if (today >= start && today <= end) {
-      return "Active";
-    } else if (today > end) {
-      return "Overdue - Not Notified";
-    } else {
-      return "Active"; // Future start date
-    }
-  };
-
-  // Process VMs with calculated status
-  const processedVMs = vmInventory?.map(vm => ({
-    ...vm,
-    vmStatus: calculateVMStatus(vm.startDate, vm.endDate, vm.vmStatus)
-  })) || [];
+  // vmStatus is kept current by the server-side lifecycle sweep
+  const vmsByStatus = stats?.vmInventory.byStatus || {};
 
   const utilizationRate = totalAssets > 0 ? Math.round((activeAssets / totalAssets) * 100) : 0;
   const availabilityRate = totalAssets > 0 ? Math.round((pendingAssets / totalAssets) * 100) : 0;
@@ -166,20 +93,15 @@ export default function Dashboard() {
   // Asset distribution data for charts
   const assetStatusData = [
     { name: 'Deployed', value: activeAssets, color: '#10B981' },
+    { name: 'Overdue', value: overdueAssets, color: '#EF4444' },
     { name: 'Pending', value: pendingAssets, color: '#3B82F6' },
     { name: 'Bad Condition', value: maintenanceAssets, color: '#F59E0B' },
     { name: 'Retired/Disposed', value: retiredAssets, color: '#6B7280' }
   ].filter(item => item.value > 0); // Only show categories that have assets
 
-  const categoryData = assets?.reduce((acc: any, asset: any) => {
-    const category = asset.category || 'Other';
-    acc[category] = (acc[category] || 0) + 1;
-    return acc;
-  }, {}) || {};
-
-  const categoryChartData = Object.entries(categoryData).map(([name, value]) => ({
+  const categoryChartData = Object.entries(stats?.byCategory || {}).map(([name, value]) => ({
     name,
-    value: value as number
+    value
   }));
 
   // Recent critical activities
@@ -272,7 +194,7 @@ export default function Dashboard() {
         </div>
 
         {/* Operational Status Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
           <Card className="border-l-4 border-l-blue-500 cursor-pointer transition-transform hover:scale-105" onClick={() => window.location.href = '/assets?statusFilter=pending'}>
             <CardHeader className="pb-3">
               <div className="flex items-center justify-between">
@@ -311,6 +233,25 @@ export default function Dashboard() {
             </CardContent>
           </Card>
 
+          <Card className="border-l-4 border-l-red-500 cursor-pointer transition-transform hover:scale-105" onClick={() => window.location.href = '/assets?statusFilter=overdue'}>
+            <CardHeader className="pb-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="text-lg text-red-700">Overdue Checkouts</CardTitle>
+                  <CardDescription>Past their expected check-in date</CardDescription>
+                </div>
+                <Clock className="h-8 w-8 text-red-500" />
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-red-700 mb-2 hover:underline">{overdueAssets}</div>
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                <AlertTriangle className="h-4 w-4" />
+                <span>{overdueAssets > 0 ? 'Follow up with assignees' : 'All checkouts on time'}</span>
+              </div>
+            </CardContent>
+          </Card>
+
           <Card className="border-l-4 border-l-blue-500 cursor-pointer transition-transform hover:scale-105" onClick={() => window.location.href = '/assets?statusFilter=Deployed'}>
             <CardHeader className="pb-3">
               <div className="flex items-center justify-between">
@@ -528,7 +469,7 @@ export default function Dashboard() {
                 <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-3">
                   <Server className="h-6 w-6 text-blue-600" />
                 </div>
-                <div className="text-2xl font-bold text-blue-600 mb-1 hover:underline">{processedVMs.length}</div>
+                <div className="text-2xl font-bold text-blue-600 mb-1 hover:underline">{stats?.vmInventory.total || 0}</div>
                 <p className="text-sm text-gray-600">Total VMs</p>
               </div>
 
@@ -536,7 +477,7 @@ export default function Dashboard() {
                 <div className="w-12 h-12 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-3">
                   <CheckCircle className="h-6 w-6 text-green-600" />
                 </div>
-                <div className="text-2xl font-bold text-green-600 mb-1 hover:underline">{processedVMs.filter(vm => vm.vmStatus === "Active").length}</div>
+                <div className="text-2xl font-bold text-green-600 mb-1 hover:underline">{vmsByStatus['Active'] || 0}</div>
                 <p className="text-sm text-gray-600">Active</p>
               </div>
 
@@ -544,7 +485,7 @@ export default function Dashboard() {
                 <div className="w-12 h-12 bg-orange-100 rounded-full flex items-center justify-center mx-auto mb-3">
                   <AlertTriangle className="h-6 w-6 text-orange-600" />
                 </div>
-                <div className="text-2xl font-bold text-orange-600 mb-1 hover:underline">{processedVMs.filter(vm => vm.vmStatus === "Overdue - Notified").length}</div>
+                <div className="text-2xl font-bold text-orange-600 mb-1 hover:underline">{vmsByStatus['Overdue - Notified'] || 0}</div>
                 <p className="text-sm text-gray-600">Overdue - Notified</p>
               </div>
 
@@ -552,7 +493,7 @@ export default function Dashboard() {
                 <div className="w-12 h-12 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-3">
                   <XCircle className="h-6 w-6 text-red-600" />
                 </div>
-                <div className="text-2xl font-bold text-red-600 mb-1 hover:underline">{processedVMs.filter(vm => vm.vmStatus === "Overdue - Not Notified").length}</div>
+                <div className="text-2xl font-bold text-red-600 mb-1 hover:underline">{vmsByStatus['Overdue - Not Notified'] || 0}</div>
                 <p className="text-sm text-gray-600">Overdue - Not Notified</p>
               </div>
 
@@ -560,7 +501,7 @@ export default function Dashboard() {
                 <div className="w-12 h-12 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-3">
                   <Database className="h-6 w-6 text-gray-600" />
                 </div>
-                <div className="text-2xl font-bold text-gray-600 mb-1 hover:underline">{processedVMs.filter(vm => vm.vmStatus === "Decommissioned").length}</div>
+                <div className="text-2xl font-bold text-gray-600 mb-1 hover:underline">{vmsByStatus['Decommissioned'] || 0}</div>
                 <p className="text-sm text-gray-600">Decommissioned</p>
               </div>
             </div>
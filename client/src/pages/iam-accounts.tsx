@@ -54,6 +54,7 @@ import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useHasPermission } from "@/hooks/use-auth";
 import { cn } from "@/lib/utils";
 import { Textarea } from "@/components/ui/textarea";
 import {
@@ -80,10 +81,41 @@ interface IAMAccount {
   approvalId: string | null;
   remarks?: string | null;
   status: 'active' | 'expired' | 'expired_not_notified' | 'expired_notified' | 'extended' | 'access_removed';
+  lastNotifiedAt?: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+interface IAMAccountExtension {
+  id: number;
+  iamAccountId: number;
+  oldApprovalId: string | null;
+  newApprovalId: string;
+  oldEndDate: string | null;
+  newEndDate: string;
+  reason: string | null;
+  requestedBy: number | null;
+  createdAt: string;
+}
+
+interface AccessRemovalWorklist {
+  generatedAt: string;
+  total: number;
+  platforms: {
+    cloudPlatform: string;
+    accounts: {
+      id: number;
+      requestor: string | null;
+      knoxId: string | null;
+      permission: string | null;
+      projectAccounts: string | null;
+      durationEndDate: string | null;
+      daysExpired: number;
+      notifiedAt: string | null;
+    }[];
+  }[];
+}
+
 const cloudPlatforms = ["AWS", "Azure", "Google Cloud", "Oracle Cloud"];
 // Updated status types to include new expired statuses
 const statusTypes = ["active", "expired", "expired_not_notified", "expired_notified", "extended", "access_removed"];
@@ -103,6 +135,7 @@ interface ColumnFilter {
 
 export default function IAMAccounts() {
   const { toast } = useToast();
+  const canDelete = useHasPermission('iamAccounts', 'delete');
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
@@ -157,36 +190,6 @@ export default function IAMAccounts() {
   });
 
   // Function to calculate automatic status based on dates
-  const calculateStatus = (account: IAMAccount): IAMAccount => {
-    const now = new Date();
-    const startDate = account.durationStartDate ? new Date(account.durationStartDate) : null;
-    const endDate = account.durationEndDate ? new Date(account.durationEndDate) : null;
-
-    let calculatedStatus = account.status;
-
-    // Auto-calculate status based on dates
-    if (startDate && endDate) {
-      if (now >= startDate && now <= endDate) {
-        calculatedStatus = 'active';
-      } else if (now > endDate) {
-        // If expired and not manually set to notified, default to expired_not_notified
-        calculatedStatus = account.status === 'expired_notified' ? 'expired_notified' : 'expired_not_notified';
-      }
-    } else if (endDate && now > endDate) {
-      // If only end date exists and it's past
-      calculatedStatus = account.status === 'expired_notified' ? 'expired_notified' : 'expired_not_notified';
-    }
-
-    // Handle manual status updates for extended/access_removed
-    if (account.status === 'extended') {
-      calculatedStatus = 'extended';
-    } else if (account.status === 'access_removed') {
-      calculatedStatus = 'access_removed';
-    }
-
-    return { ...account, status: calculatedStatus };
-  };
-
   // Fetch IAM accounts from API
   const { data: rawIamAccounts = [], isLoading, error } = useQuery({
     queryKey: ['/api/iam-accounts'],
@@ -222,8 +225,25 @@ export default function IAMAccounts() {
     staleTime: 0 // Always refetch to ensure fresh data
   });
 
-  // Apply automatic status calculation
-  const iamAccounts = rawIamAccounts.map(calculateStatus);
+  // Expiry and notification statuses are set by the server-side lifecycle sweep
+  const iamAccounts: IAMAccount[] = rawIamAccounts;
+
+  // Extension dialog state
+  const [accountToExtend, setAccountToExtend] = useState<IAMAccount | null>(null);
+  const [extensionForm, setExtensionForm] = useState({ approvalId: "", endDate: "", reason: "" });
+
+  const { data: worklist } = useQuery<AccessRemovalWorklist>({
+    queryKey: ['/api/iam-accounts/worklist'],
+  });
+
+  const { data: extensionHistory = [] } = useQuery<IAMAccountExtension[]>({
+    queryKey: ['/api/iam-accounts', accountToExtend?.id, 'extensions'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/iam-accounts/${accountToExtend!.id}/extensions`);
+      return response.json();
+    },
+    enabled: !!accountToExtend,
+  });
 
   // Create mutation
   const createMutation = useMutation({
@@ -289,6 +309,42 @@ export default function IAMAccounts() {
     }
   });
 
+  // Extension mutation
+  const extendMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: typeof extensionForm }) => {
+      const response = await apiRequest('POST', `/api/iam-accounts/${id}/extend`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/iam-accounts'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/iam-accounts/worklist'] });
+      toast({
+        title: "Account Extended",
+        description: "The new approval ID and end date have been recorded"
+      });
+      setAccountToExtend(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Extension failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const openExtendDialog = (account: IAMAccount) => {
+    setExtensionForm({ approvalId: "", endDate: "", reason: "" });
+    setAccountToExtend(account);
+  };
+
+  const handleExtendSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (accountToExtend) {
+      extendMutation.mutate({ id: accountToExtend.id, data: extensionForm });
+    }
+  };
+
   // Get unique values from actual data for filters
   const uniquePlatforms = [...new Set(iamAccounts.map(account => account.cloudPlatform).filter(Boolean))].sort();
   const uniqueStatuses = [...new Set(iamAccounts.map(account => account.status).filter(Boolean))].sort();
@@ -503,8 +559,8 @@ export default function IAMAccounts() {
   };
 
   const getDurationDisplay = (account: IAMAccount) => {
-    if (account.status === 'extended') {
-      // Updated note for Extended Status
+    if (account.status === 'extended' && !account.durationEndDate) {
+      // Legacy extensions recorded by removing the dates
       return <span className="text-gray-400 italic">Extended Access (dates removed)</span>;
     }
     if (account.status === 'access_removed') {
@@ -1042,7 +1098,7 @@ export default function IAMAccounts() {
         <div>
           <h1 className="text-2xl font-semibold text-gray-800 dark:text-gray-100">IAM Accounts</h1>
           <p className="text-sm text-gray-600 dark:text-gray-400">
-            Manage Identity and Access Management accounts. Status is automatically calculated based on duration dates - Active if within date range, Expired if past end date.
+            Manage Identity and Access Management accounts. Accounts past their end date are expired automatically and the requestor is emailed an expiry notice.
           </p>
         </div>
         <div className="flex flex-wrap gap-2">
@@ -1137,8 +1193,8 @@ export default function IAMAccounts() {
                 <ul className="list-disc list-inside space-y-1 text-xs">
                   <li><strong>Active:</strong> Current valid access within duration dates</li>
                   <li><strong>Expired - Not Notified:</strong> Automatic status when account expires based on duration dates</li>
-                  <li><strong>Expired - Notified:</strong> Manually set when user is notified of account expiration</li>
-                  <li><strong>Extended:</strong> Manually remove both dates and add comments on remarks: Extended Access</li>
+                  <li><strong>Expired - Notified:</strong> Set automatically once the expiry notice has been emailed to the requestor</li>
+                  <li><strong>Extended:</strong> Use the extend action to record the new approval ID and end date</li>
                   <li><strong>Access Removed:</strong> Manually remove the start date and add comment on remarks the date of removal</li>
                 </ul>
               </div>
@@ -1147,6 +1203,37 @@ export default function IAMAccounts() {
         </CardContent>
       </Card>
 
+      {/* Access removal worklist */}
+      {worklist && worklist.total > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Access to Remove ({worklist.total})</CardTitle>
+            <CardDescription>
+              Expired accounts awaiting access removal, grouped by cloud platform. Mark them as Access Removed once done.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {worklist.platforms.map(({ cloudPlatform, accounts }) => (
+              <div key={cloudPlatform} className="rounded-lg border p-3">
+                <p className="font-semibold mb-2">{cloudPlatform} ({accounts.length})</p>
+                <ul className="space-y-1 text-xs">
+                  {accounts.map(account => (
+                    <li key={account.id} className="flex justify-between gap-2">
+                      <span>
+                        <strong>{account.knoxId || account.requestor || '-'}</strong> · {account.permission || '-'} · {account.projectAccounts || '-'}
+                      </span>
+                      <span className={cn("whitespace-nowrap", !account.notifiedAt && "text-red-600 font-semibold")}>
+                        {account.daysExpired}d{account.notifiedAt ? '' : ' · not notified'}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Table */}
       <Card>
         <CardContent className="p-0">
@@ -1432,13 +1519,25 @@ export default function IAMAccounts() {
                           >
                             <EditIcon className="h-3 w-3" />
                           </Button>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => setAccountToDelete(account)}
-                          >
-                            <TrashIcon className="h-3 w-3" />
-                          </Button>
+                          {account.status !== 'access_removed' && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              title="Extend access"
+                              onClick={() => openExtendDialog(account)}
+                            >
+                              <RotateCcw className="h-3 w-3" />
+                            </Button>
+                          )}
+                          {canDelete && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setAccountToDelete(account)}
+                            >
+                              <TrashIcon className="h-3 w-3" />
+                            </Button>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -1725,6 +1824,69 @@ export default function IAMAccounts() {
         </DialogContent>
       </Dialog>
 
+      {/* Extend Dialog */}
+      <Dialog open={!!accountToExtend} onOpenChange={(open) => !open && setAccountToExtend(null)}>
+        <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Extend IAM Access</DialogTitle>
+            <DialogDescription>
+              {accountToExtend && `${accountToExtend.requestor} (${accountToExtend.knoxId}) on ${accountToExtend.cloudPlatform} - currently ending ${accountToExtend.durationEndDate || 'N/A'} under approval ${accountToExtend.approvalId || 'N/A'}`}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleExtendSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">New Approval ID</label>
+              <Input
+                value={extensionForm.approvalId}
+                onChange={(e) => setExtensionForm({ ...extensionForm, approvalId: e.target.value })}
+                placeholder="Approval ID covering the extension"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">New End Date</label>
+              <Input
+                type="date"
+                value={extensionForm.endDate}
+                onChange={(e) => setExtensionForm({ ...extensionForm, endDate: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Reason</label>
+              <Textarea
+                value={extensionForm.reason}
+                onChange={(e) => setExtensionForm({ ...extensionForm, reason: e.target.value })}
+                placeholder="Why the access is still needed"
+                rows={2}
+              />
+            </div>
+
+            {extensionHistory.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Previous Extensions</p>
+                <ul className="text-xs space-y-1 text-gray-600 dark:text-gray-400">
+                  {extensionHistory.map(extension => (
+                    <li key={extension.id}>
+                      {new Date(extension.createdAt).toLocaleDateString()}: {extension.oldEndDate || 'N/A'} → {extension.newEndDate} ({extension.oldApprovalId || 'N/A'} → {extension.newApprovalId}){extension.reason ? ` - ${extension.reason}` : ''}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-2 pt-2">
+              <Button type="button" variant="outline" onClick={() => setAccountToExtend(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={extendMutation.isPending}>
+                Extend Access
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <DeleteConfirmationDialog
         open={!!accountToDelete}
@@ -15,6 +15,7 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { formatDate } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
+import { useHasPermission } from "@/hooks/use-auth";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
@@ -246,6 +247,7 @@ export default function ITEquipmentDetails() {
   const id = parseInt(params.id);
   const [, navigate] = useLocation();
   const { toast } = useToast();
+  const canDelete = useHasPermission('itEquipment', 'delete');
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [isAssignDialogOpen, setIsAssignDialogOpen] = useState(false);
@@ -438,32 +440,34 @@ export default function ITEquipmentDetails() {
               />
             </DialogContent>
           </Dialog>
-          <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
-            <DialogTrigger asChild>
-              <Button variant="outline" className="text-red-500 border-red-200 hover:text-red-600 hover:bg-red-50">
-                <TrashIcon className="mr-2 h-4 w-4" />
-                Delete
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="w-[95%] max-w-md max-h-[90vh] overflow-y-auto">
-              <DialogHeader>
-                <DialogTitle>Delete Equipment</DialogTitle>
-                <DialogDescription>
-                  Are you sure you want to delete this equipment? This action cannot be undone.
-                </DialogDescription>
-              </DialogHeader>
-              <div className="flex items-center justify-end space-x-2 mt-4">
-                <Button variant="outline" onClick={() => setIsDeleteDialogOpen(false)}>Cancel</Button>
-                <Button 
-                  variant="destructive" 
-                  onClick={handleDelete}
-                  disabled={deleteMutation.isPending}
-                >
-                  {deleteMutation.isPending ? "Deleting..." : "Delete Equipment"}
+          {canDelete && (
+            <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+              <DialogTrigger asChild>
+                <Button variant="outline" className="text-red-500 border-red-200 hover:text-red-600 hover:bg-red-50">
+                  <TrashIcon className="mr-2 h-4 w-4" />
+                  Delete
                 </Button>
-              </div>
-            </DialogContent>
-          </Dialog>
+              </DialogTrigger>
+              <DialogContent className="w-[95%] max-w-md max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Delete Equipment</DialogTitle>
+                  <DialogDescription>
+                    Are you sure you want to delete this equipment? This action cannot be undone.
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="flex items-center justify-end space-x-2 mt-4">
+                  <Button variant="outline" onClick={() => setIsDeleteDialogOpen(false)}>Cancel</Button>
+                  <Button 
+                    variant="destructive" 
+                    onClick={handleDelete}
+                    disabled={deleteMutation.isPending}
+                  >
+                    {deleteMutation.isPending ? "Deleting..." : "Delete Equipment"}
+                  </Button>
+                </div>
+              </DialogContent>
+            </Dialog>
+          )}
         </div>
       </div>
 
@@ -643,16 +647,18 @@ export default function ITEquipmentDetails() {
                                   Has notes
                                 </Badge>
                               )}
-                              <Button
-                                size="sm"
-                                variant="outline"
-                                className="text-red-500 border-red-200 hover:text-red-600 hover:bg-red-50"
-                                onClick={() => handleRemoveAssignment(assignment)}
-                                disabled={removeAssignmentMutation.isPending}
-                              >
-                                <TrashIcon className="h-4 w-4 mr-1" />
-                                Remove
-                              </Button>
+                              {canDelete && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  className="text-red-500 border-red-200 hover:text-red-600 hover:bg-red-50"
+                                  onClick={() => handleRemoveAssignment(assignment)}
+                                  disabled={removeAssignmentMutation.isPending}
+                                >
+                                  <TrashIcon className="h-4 w-4 mr-1" />
+                                  Remove
+                                </Button>
+                              )}
                             </div>
                           </div>
                           {assignment.notes && (
@@ -6,6 +6,7 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { PlusIcon, DownloadIcon, UploadIcon, FileDownIcon, MonitorIcon, EditIcon, TrashIcon } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useHasPermission } from "@/hooks/use-auth";
 import MonitorInventoryForm from "@/components/monitor-inventory/monitor-inventory-form";
 import MonitorInventoryCSVImport from "@/components/monitor-inventory/monitor-inventory-csv-import";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -43,6 +44,7 @@ export default function MonitorInventory() {
   const [modelFilter, setModelFilter] = useState("all");
   const [remarksFilter, setRemarksFilter] = useState("all");
   const { toast } = useToast();
+  const canDelete = useHasPermission('monitorInventory', 'delete');
 
   // Fetch monitor inventory
   const { data: monitors = [], isLoading, error } = useQuery({
@@ -555,19 +557,21 @@ export default function MonitorInventory() {
                         <EditIcon className="h-4 w-4 mr-1" />
                         Edit
                       </Button>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => {
-                          console.log('Deleting monitor:', monitor);
-                          setMonitorToDelete(monitor);
-                        }}
-                        className="text-red-600 hover:text-red-700"
-                        disabled={deleteMutation.isPending}
-                      >
-                        <TrashIcon className="h-4 w-4 mr-1" />
-                        {deleteMutation.isPending ? "Deleting..." : "Delete"}
-                      </Button>
+                      {canDelete && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            console.log('Deleting monitor:', monitor);
+                            setMonitorToDelete(monitor);
+                          }}
+                          className="text-red-600 hover:text-red-700"
+                          disabled={deleteMutation.isPending}
+                        >
+                          <TrashIcon className="h-4 w-4 mr-1" />
+                          {deleteMutation.isPending ? "Deleting..." : "Delete"}
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </div>
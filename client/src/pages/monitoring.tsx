@@ -51,6 +51,8 @@ import { Switch } from '@/components/ui/switch';
 import { Slider } from '@/components/ui/slider';
 import { Progress } from '@/components/ui/progress';
 import { useToast } from '@/hooks/use-toast';
+import { useHasPermission } from '@/hooks/use-auth';
+import { useWebSocket } from '@/hooks/use-websocket';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -162,6 +164,30 @@ const alertSchema = z.object({
 });
 
 // Types
+interface NotificationLogEntry {
+  id: number;
+  alertId: number;
+  type: string;
+  recipient: string;
+  message: string;
+  status: string;
+  sentAt?: string;
+  error?: string;
+  attempts: number;
+  createdAt: string;
+}
+
+interface AlertHistoryEntry {
+  id: number;
+  ruleId: number | null;
+  name: string;
+  severity: string;
+  state: string;
+  value: number | null;
+  firedAt: string;
+  resolvedAt: string | null;
+}
+
 interface MonitoringDashboard {
   id: number;
   name: string;
@@ -308,7 +334,7 @@ const LineChartWidget: React.FC<{ data: any[]; config: any }> = ({ data, config
     for (let i = 0; i <= 5; i++) {
       const value = minValue + (range * i) / 5;
       const y = padding + height - (i / 5) * height;
-      ctx.fillText(value.toFixed(1), padding - 20, y + 3);
+      ctx.fillText(value.toFixed(config.decimals ?? 1), padding - 20, y + 3);
     }
 
     // X-axis labels (show every few points)
@@ -366,7 +392,7 @@ const GaugeWidget: React.FC<{ value: number; config: any }> = ({ value, config }
     ctx.fillStyle = '#1f2937';
     ctx.font = 'bold 24px sans-serif';
     ctx.textAlign = 'center';
-    ctx.fillText(value.toFixed(config.decimals || 1), centerX, centerY + 8);
+    ctx.fillText(value.toFixed(config.decimals ?? 1), centerX, centerY + 8);
 
     // Draw unit text
     if (config.unit) {
@@ -405,7 +431,7 @@ const StatWidget: React.FC<{ value: number; config: any; trend?: number }> = ({
   return (
     <div className="flex flex-col items-center justify-center h-full p-4">
       <div className="text-3xl font-bold mb-2" style={{ color: getValueColor() }}>
-        {value.toFixed(config.decimals || 1)}
+        {value.toFixed(config.decimals ?? 1)}
         {config.unit && <span className="text-lg text-muted-foreground ml-1">{config.unit}</span>}
       </div>
       {trend !== undefined && (
@@ -434,15 +460,15 @@ const TableWidget: React.FC<{ data: any[]; config: any }> = ({ data, config }) =
           {data.map((row, index) => (
             <TableRow key={index}>
               <TableCell>{row.metric}</TableCell>
-              <TableCell>{row.value}</TableCell>
+              <TableCell>{row.value}{config.unit ? ` ${config.unit}` : ''}</TableCell>
               <TableCell>
                 <Badge
                   variant={
-                    row.status === 'OK' ? 'default' :
+                    !row.status || row.status === 'OK' ? 'default' :
                     row.status === 'Warning' ? 'secondary' : 'destructive'
                   }
                 >
-                  {row.status}
+                  {row.status || 'OK'}
                 </Badge>
               </TableCell>
               <TableCell>{new Date(row.timestamp).toLocaleString()}</TableCell>
@@ -467,10 +493,35 @@ export default function MonitoringPage() {
   const [filterType, setFilterType] = useState('all');
   const [draggedPanel, setDraggedPanel] = useState<MonitoringPanel | null>(null);
   const [isGridMode, setIsGridMode] = useState(true);
+  const [testChannel, setTestChannel] = useState('');
 
   const { toast } = useToast();
+  const canDelete = useHasPermission('vmMonitoring', 'delete');
   const queryClient = useQueryClient();
 
+  // Alert rule state changes are pushed by the evaluator over /ws
+  const { lastMessage } = useWebSocket();
+
+  useEffect(() => {
+    if (lastMessage?.type !== 'monitoring-alert:state') return;
+    const transition = lastMessage.data;
+
+    queryClient.setQueryData(['/api/monitoring/alerts'], (current: any[] | undefined) =>
+      current?.map(rule => rule.id === transition.ruleId
+        ? { ...rule, state: transition.to, lastEvaluation: transition.timestamp }
+        : rule)
+    );
+
+    if (transition.to === 'firing' || (transition.from === 'firing' && transition.to === 'normal')) {
+      queryClient.invalidateQueries({ queryKey: ['/api/monitoring/alerts/history'] });
+      toast({
+        title: transition.to === 'firing' ? `Alert firing: ${transition.name}` : `Alert resolved: ${transition.name}`,
+        description: transition.message,
+        variant: transition.to === 'firing' ? 'destructive' : 'default',
+      });
+    }
+  }, [lastMessage, queryClient, toast]);
+
   // Forms
   const dashboardForm = useForm<z.infer<typeof dashboardSchema>>({
     resolver: zodResolver(dashboardSchema),
@@ -666,13 +717,60 @@ export default function MonitoringPage() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(data),
       });
-      if (!response.ok) throw new Error('Failed to create alert');
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || 'Failed to create alert');
+      }
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/monitoring/alerts'] });
       toast({ title: "Success", description: "Alert created successfully" });
       alertForm.reset();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const { data: alertHistory = [] } = useQuery<AlertHistoryEntry[]>({
+    queryKey: ['/api/monitoring/alerts/history'],
+    queryFn: async () => {
+      const response = await fetch('/api/monitoring/alerts/history?limit=50');
+      if (!response.ok) return [];
+      return response.json();
+    },
+    refetchInterval: isPlaying ? refreshInterval * 1000 : false,
+  });
+
+  const { data: notificationLog = [], refetch: refetchNotificationLog } = useQuery<NotificationLogEntry[]>({
+    queryKey: ['/api/monitoring/notifications'],
+    queryFn: async () => {
+      const response = await fetch('/api/monitoring/notifications?limit=20');
+      if (!response.ok) return [];
+      return response.json();
+    },
+    refetchInterval: isPlaying ? refreshInterval * 1000 : false,
+  });
+
+  const testNotificationMutation = useMutation({
+    mutationFn: async (channel: string) => {
+      const response = await fetch('/api/monitoring/notifications/test', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ channel }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || data.message || 'Test notification failed');
+      return data;
+    },
+    onSuccess: () => {
+      toast({ title: "Test notification sent", description: `Delivered to ${testChannel}` });
+      refetchNotificationLog();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Test notification failed", description: error.message, variant: "destructive" });
+      refetchNotificationLog();
     }
   });
 
@@ -693,7 +791,21 @@ export default function MonitoringPage() {
   // Helper functions
   const renderPanel = (panel: MonitoringPanel) => {
     const data = panelData[panel.id] || [];
-    const config = JSON.parse(panel.config || '{}');
+    const config = {
+      ...JSON.parse(panel.config || '{}'),
+      unit: panel.unit,
+      decimals: panel.decimals,
+    };
+    const panelError = panelData.errors?.[panel.id];
+
+    if (panelError && data.length === 0) {
+      return (
+        <div className="flex items-center justify-center h-full text-sm text-destructive text-center p-4">
+          <AlertTriangle className="h-4 w-4 mr-2 shrink-0" />
+          {panelError}
+        </div>
+      );
+    }
 
     switch (panel.type) {
       case 'line':
@@ -1019,6 +1131,7 @@ export default function MonitoringPage() {
                                   <SelectValue placeholder="Select datasource" />
                                 </SelectTrigger>
                                 <SelectContent>
+                                  <SelectItem value="inventory">inventory (built-in)</SelectItem>
                                   {datasources.map((ds) => (
                                     <SelectItem key={ds.id} value={ds.name}>
                                       {ds.name} ({ds.type})
@@ -1032,7 +1145,7 @@ export default function MonitoringPage() {
                               <Textarea
                                 id="query"
                                 {...panelForm.register('query')}
-                                placeholder="Enter your query"
+                                placeholder="PromQL, Zabbix host:item.key, or inventory: count assets by status"
                                 rows={3}
                               />
                             </div>
@@ -1139,14 +1252,18 @@ export default function MonitoringPage() {
                                 <Download className="h-4 w-4 mr-2" />
                                 Export Data
                               </DropdownMenuItem>
-                              <DropdownMenuSeparator />
-                              <DropdownMenuItem 
-                                className="text-red-600"
-                                onClick={() => deletePanelMutation.mutate(panel.id)}
-                              >
-                                <Trash2 className="h-4 w-4 mr-2" />
-                                Delete Panel
-                              </DropdownMenuItem>
+                              {canDelete && (
+                                <>
+                                  <DropdownMenuSeparator />
+                                  <DropdownMenuItem 
+                                    className="text-red-600"
+                                    onClick={() => deletePanelMutation.mutate(panel.id)}
+                                  >
+                                    <Trash2 className="h-4 w-4 mr-2" />
+                                    Delete Panel
+                                  </DropdownMenuItem>
+                                </>
+                              )}
                             </DropdownMenuContent>
                           </DropdownMenu>
                         </div>
@@ -1519,6 +1636,19 @@ export default function MonitoringPage() {
                         </SelectContent>
                       </Select>
                     </div>
+                    <div>
+                      <Label htmlFor="alert-channels">Notification Channels</Label>
+                      <Textarea
+                        id="alert-channels"
+                        rows={2}
+                        placeholder={"email:ops@example.com\nslack:https://hooks.slack.com/...\nwebhook:https://example.com/hook"}
+                        {...alertForm.register('notificationChannels', {
+                          setValueAs: (value) => typeof value === 'string'
+                            ? value.split('\n').map((line: string) => line.trim()).filter(Boolean)
+                            : value
+                        })}
+                      />
+                    </div>
                     <div className="flex items-center space-x-2">
                       <Switch
                         id="alert-enabled"
@@ -1618,6 +1748,53 @@ export default function MonitoringPage() {
               ))
             )}
           </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Alert History</CardTitle>
+              <CardDescription>
+                Each time a rule fires, until it resolves
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border overflow-auto max-h-80">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Rule</TableHead>
+                      <TableHead>Severity</TableHead>
+                      <TableHead>Fired</TableHead>
+                      <TableHead>Resolved</TableHead>
+                      <TableHead>Value</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {alertHistory.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center text-muted-foreground">
+                          No alerts have fired yet
+                        </TableCell>
+                      </TableRow>
+                    ) : alertHistory.map((entry) => (
+                      <TableRow key={entry.id}>
+                        <TableCell>{entry.name}</TableCell>
+                        <TableCell>
+                          <Badge variant={getSeverityColor(entry.severity)}>{entry.severity}</Badge>
+                        </TableCell>
+                        <TableCell>{new Date(entry.firedAt).toLocaleString()}</TableCell>
+                        <TableCell>
+                          {entry.resolvedAt
+                            ? new Date(entry.resolvedAt).toLocaleString()
+                            : <Badge variant="destructive">Firing</Badge>}
+                        </TableCell>
+                        <TableCell>{entry.value ?? '-'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
         </TabsContent>
 
         {/* Settings Tab */}
@@ -1659,28 +1836,60 @@ export default function MonitoringPage() {
 
             <Card>
               <CardHeader>
-                <CardTitle>Notification Settings</CardTitle>
+                <CardTitle>Notification Delivery</CardTitle>
                 <CardDescription>
-                  Configure how alerts are delivered
+                  Alert rules deliver to their channels when they fire or resolve. Email uses the SMTP settings from System Settings.
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
-                <div className="flex items-center space-x-2">
-                  <Switch id="email-notifications" />
-                  <Label htmlFor="email-notifications">Email notifications</Label>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <Switch id="slack-notifications" />
-                  <Label htmlFor="slack-notifications">Slack notifications</Label>
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="email:ops@example.com, slack:https://..., webhook:https://..."
+                    value={testChannel}
+                    onChange={(e) => setTestChannel(e.target.value)}
+                  />
+                  <Button
+                    onClick={() => testNotificationMutation.mutate(testChannel)}
+                    disabled={!testChannel.trim() || testNotificationMutation.isPending}
+                  >
+                    {testNotificationMutation.isPending ? "Sending..." : "Send Test"}
+                  </Button>
                 </div>
-                <div className="flex items-center space-x-2">
-                  <Switch id="webhook-notifications" />
-                  <Label htmlFor="webhook-notifications">Webhook notifications</Label>
+                <div className="rounded-md border overflow-auto max-h-80">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Created</TableHead>
+                        <TableHead>Channel</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Attempts</TableHead>
+                        <TableHead>Error</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {notificationLog.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={5} className="text-center text-muted-foreground">
+                            No notifications delivered yet
+                          </TableCell>
+                        </TableRow>
+                      ) : notificationLog.map((entry) => (
+                        <TableRow key={entry.id}>
+                          <TableCell>{new Date(entry.createdAt).toLocaleString()}</TableCell>
+                          <TableCell className="max-w-xs truncate">{entry.type}: {entry.recipient}</TableCell>
+                          <TableCell>
+                            <Badge variant={entry.status === 'sent' ? 'default' : entry.status === 'failed' ? 'destructive' : 'secondary'}>
+                              {entry.status}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>{entry.attempts}</TableCell>
+                          <TableCell className="max-w-xs truncate text-muted-foreground">{entry.error || '-'}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
                 </div>
               </CardContent>
-              <CardFooter>
-                <Button>Save Notification Settings</Button>
-              </CardFooter>
             </Card>
 
             <Card>
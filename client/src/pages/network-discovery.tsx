@@ -13,6 +13,8 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
+import { useHasPermission } from "@/hooks/use-auth";
+import { useWebSocket } from "@/hooks/use-websocket";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
@@ -45,6 +47,7 @@ const importHostSchema = z.object({
 
 export default function NetworkDiscoveryPage() {
   const { toast } = useToast();
+  const canDelete = useHasPermission('networkDiscovery', 'delete');
   const [selectedHost, setSelectedHost] = useState<any>(null);
   const [importDialogOpen, setImportDialogOpen] = useState(false);
   const [detailsDialogOpen, setDetailsDialogOpen] = useState(false);
@@ -53,8 +56,11 @@ export default function NetworkDiscoveryPage() {
   const [scanProgress, setScanProgress] = useState(0);
   const [scanResults, setScanResults] = useState<any[]>([]);
 
-  // WebSocket functionality temporarily disabled
-  const wsStatus = 'CLOSED';
+  const [scanId, setScanId] = useState<string | null>(null);
+  const [scanCounts, setScanCounts] = useState({ scanned: 0, total: 0, found: 0 });
+
+  // Live scan progress is pushed by the server over /ws
+  const { status: wsStatus, lastMessage } = useWebSocket();
 
   // Fetch Zabbix settings
   const { 
@@ -105,56 +111,40 @@ export default function NetworkDiscoveryPage() {
     }
   });
 
-  // Set up polling to check for scan completion
+  // Apply scan progress messages for the scan this page started
   useEffect(() => {
-    let pollInterval: NodeJS.Timeout;
-    let progressInterval: NodeJS.Timeout;
-    
-    if (scanInProgress) {
-      // Update progress gradually
-      progressInterval = setInterval(() => {
-        setScanProgress(prev => {
-          if (prev < 90) {
-            return prev + 3; // Increase by 3% every interval
-          } else if (prev < 95) {
-            return prev + 1; // Slow down near the end
-          }
-          return prev; // Stop at 95%, let completion logic handle 100%
-        });
-      }, 2000);
-      
-      // Poll for discovered hosts
-      pollInterval = setInterval(async () => {
-        try {
-          const response = await apiRequest('GET', '/api/network-discovery/hosts');
-          const currentHosts = await response.json();
-          
-          // If we have new hosts, update results
-          if (currentHosts.length !== discoveredHosts.length) {
-            setScanResults(currentHosts);
-            refetchHosts();
-          }
-        } catch (error) {
-          console.error('Error polling for scan progress:', error);
+    if (!lastMessage || !lastMessage.type.startsWith('network-scan:')) return;
+    const data = lastMessage.data || {};
+    if (scanId && data.scanId !== scanId) return;
+
+    switch (lastMessage.type) {
+      case 'network-scan:progress':
+        setScanCounts({ scanned: data.scanned, total: data.total, found: data.found });
+        setScanProgress(data.total > 0 ? (data.scanned / data.total) * 100 : 0);
+        if (data.host) {
+          setScanResults(prev => [...prev.filter(h => h.id !== data.host.id), data.host]);
         }
-      }, 3000);
-      
-      // Auto-complete scan after reasonable time
-      setTimeout(() => {
+        break;
+      case 'network-scan:completed':
         setScanInProgress(false);
         setScanProgress(100);
+        refetchHosts();
         toast({
           title: "Scan Completed",
-          description: "Network scan has finished. Check the discovered hosts tab for results.",
+          description: `Network scan of ${data.ipRange} found ${data.found} of ${data.total} hosts.`,
+        });
+        break;
+      case 'network-scan:failed':
+        setScanInProgress(false);
+        refetchHosts();
+        toast({
+          title: "Scan Failed",
+          description: data.error || "The network scan stopped unexpectedly.",
+          variant: "destructive",
         });
-      }, 60000); // Complete after 1 minute maximum
+        break;
     }
-
-    return () => {
-      if (pollInterval) clearInterval(pollInterval);
-      if (progressInterval) clearInterval(progressInterval);
-    };
-  }, [scanInProgress, discoveredHosts.length, refetchHosts, toast]);
+  }, [lastMessage, scanId, refetchHosts, toast]);
 
   // Form for network scan
   const scanForm = useForm<z.infer<typeof scanFormSchema>>({
@@ -189,6 +179,8 @@ export default function NetworkDiscoveryPage() {
       setScanInProgress(true);
       setScanProgress(0);
       setScanResults([]);
+      setScanId(null);
+      setScanCounts({ scanned: 0, total: 0, found: 0 });
 
       // Include Zabbix settings in the scan request if available
       const scanPayload = {
@@ -221,44 +213,8 @@ export default function NetworkDiscoveryPage() {
         description: scanDescription,
       });
 
-      // Set up a more robust scan completion check
-      const checkScanCompletion = async () => {
-        let attempts = 0;
-        const maxAttempts = 60; // 5 minutes maximum
-        
-        const checkInterval = setInterval(async () => {
-          attempts++;
-          
-          try {
-            // Refresh discovered hosts to check for new results
-            await refetchHosts();
-            
-            // If we've been scanning for more than 30 seconds, start checking completion
-            if (attempts > 6) {
-              setScanProgress(prev => Math.min(prev + 2, 95));
-            }
-            
-            // After 2 minutes or max attempts, consider scan complete
-            if (attempts >= maxAttempts || attempts >= 24) {
-              clearInterval(checkInterval);
-              setScanInProgress(false);
-              setScanProgress(100);
-              
-              toast({
-                title: "Scan Completed",
-                description: "Network scan has finished. Check the discovered hosts tab for results.",
-              });
-            }
-          } catch (error) {
-            console.error('Error checking scan progress:', error);
-          }
-        }, 5000); // Check every 5 seconds
-        
-        // Store interval reference for cleanup
-        return checkInterval;
-      };
-      
-      checkScanCompletion();
+      setScanId(data.scanId);
+      setScanCounts({ scanned: 0, total: data.scan?.total || 0, found: 0 });
     },
     onError: (error) => {
       setScanInProgress(false);
@@ -497,13 +453,15 @@ export default function NetworkDiscoveryPage() {
                                   <Database className="h-4 w-4" />
                                 </Button>
                               )}
-                              <Button
-                                variant="ghost"
-                                size="icon"
-                                onClick={() => handleDeleteClick(host)}
-                              >
-                                <span className="text-red-500">✕</span>
-                              </Button>
+                              {canDelete && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => handleDeleteClick(host)}
+                                >
+                                  <span className="text-red-500">✕</span>
+                                </Button>
+                              )}
                             </div>
                           </TableCell>
                         </TableRow>
@@ -746,7 +704,8 @@ export default function NetworkDiscoveryPage() {
                   {scanInProgress && (
                     <div className="space-y-2">
                       <p className="text-sm text-muted-foreground">
-                        Scan progress: {scanProgress.toFixed(0)}%
+                        Scan progress: {scanProgress.toFixed(0)}% ({scanCounts.scanned}/{scanCounts.total} addresses, {scanCounts.found} found)
+                        {wsStatus !== 'OPEN' && ' - live updates unavailable, waiting for connection'}
                       </p>
                       <div className="w-full bg-muted rounded-full h-2.5">
                         <div
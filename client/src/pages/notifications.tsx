@@ -152,6 +152,15 @@ export default function Notifications() {
         category = activity.itemType === 'asset' ? 'assets' : activity.itemType === 'user' ? 'users' : 'inventory';
         break;
       
+      case 'overdue':
+        title = "Asset Overdue";
+        message = assetDetails
+          ? `${assetDetails.name} (${assetDetails.tag}) assigned to ${user} is past its expected check-in date`
+          : activity.notes;
+        type = 'error';
+        category = 'assets';
+        break;
+
       case 'delete':
         title = `${activity.itemType.charAt(0).toUpperCase() + activity.itemType.slice(1)} Deleted`;
         message = `${user} deleted ${activity.itemType}: ${activity.notes}`;
@@ -1,26 +1,43 @@
-
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { User, Mail, Phone, MapPin, Calendar, Shield } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Mail, Building2, Calendar, KeyRound, Package } from "lucide-react";
+import type { UserAssignedItems } from "@shared/schema";
+
+interface Profile {
+  id: number;
+  username: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  department: string | null;
+  isAdmin: boolean;
+  roleId: number | null;
+  passwordChangedAt: string | null;
+  assignedItems: UserAssignedItems;
+}
 
 export default function Profile() {
   const [isEditing, setIsEditing] = useState(false);
+  const [passwords, setPasswords] = useState({ currentPassword: "", newPassword: "", confirmPassword: "" });
+  const [violations, setViolations] = useState<string[]>([]);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  // Fetch user data
-  const { data: user, isLoading } = useQuery({
-    queryKey: ['/api/me'],
+  // Fetch the signed-in user's profile and everything assigned to them
+  const { data: profile, isLoading } = useQuery<Profile>({
+    queryKey: ['/api/profile'],
     queryFn: async () => {
-      const response = await fetch('/api/me');
+      const response = await fetch('/api/profile', { credentials: 'include' });
       if (!response.ok) {
         throw new Error('Not authenticated');
       }
@@ -29,12 +46,13 @@ export default function Profile() {
   });
 
   const updateProfileMutation = useMutation({
-    mutationFn: async (data: any) => {
+    mutationFn: async (data: Record<string, string>) => {
       const response = await fetch('/api/profile', {
-        method: 'PUT',
+        method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
         },
+        credentials: 'include',
         body: JSON.stringify(data),
       });
       if (!response.ok) {
@@ -43,12 +61,12 @@ export default function Profile() {
       }
       return response.json();
     },
-    onSuccess: (updatedUser) => {
+    onSuccess: () => {
       setIsEditing(false);
-      // Invalidate both queries to refresh user data
+      // The header reads the user from /api/user and /api/me
+      queryClient.invalidateQueries({ queryKey: ['/api/profile'] });
       queryClient.invalidateQueries({ queryKey: ['/api/me'] });
       queryClient.invalidateQueries({ queryKey: ['/api/user'] });
-      queryClient.setQueryData(['/api/me'], { ...user, user: updatedUser });
       toast({
         title: "Profile Updated",
         description: "Your profile has been updated successfully.",
@@ -64,17 +82,71 @@ export default function Profile() {
     }
   });
 
+  const changePasswordMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/profile/password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          currentPassword: passwords.currentPassword,
+          newPassword: passwords.newPassword,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setViolations(data.violations || []);
+        throw new Error(data.message || 'Failed to change password');
+      }
+      return data;
+    },
+    onSuccess: () => {
+      setPasswords({ currentPassword: "", newPassword: "", confirmPassword: "" });
+      queryClient.invalidateQueries({ queryKey: ['/api/profile'] });
+      toast({
+        title: "Password Changed",
+        description: "Your password has been updated. Other sessions have been signed out.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Password Not Changed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     const formData = new FormData(e.target as HTMLFormElement);
-    const data = Object.fromEntries(formData);
+    const data = Object.fromEntries(formData) as Record<string, string>;
     updateProfileMutation.mutate(data);
   };
 
+  const handlePasswordSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setViolations([]);
+    if (passwords.newPassword !== passwords.confirmPassword) {
+      toast({
+        title: "Password Not Changed",
+        description: "The new passwords do not match",
+        variant: "destructive",
+      });
+      return;
+    }
+    changePasswordMutation.mutate();
+  };
+
   if (isLoading) {
     return <div className="flex justify-center items-center h-64">Loading...</div>;
   }
 
+  const assigned = profile?.assignedItems;
+  const assignedCount = assigned
+    ? assigned.assets.length + assigned.licenses.length + assigned.consumables.length + assigned.itEquipment.length
+    : 0;
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -96,17 +168,16 @@ export default function Profile() {
           <CardContent className="space-y-4">
             <div className="flex flex-col items-center">
               <Avatar className="h-24 w-24 mb-4">
-                <AvatarImage src={user?.avatar} alt={user?.username} />
                 <AvatarFallback className="text-xl">
-                  {user?.username ? user.username.charAt(0).toUpperCase() : "U"}
+                  {profile?.username ? profile.username.charAt(0).toUpperCase() : "U"}
                 </AvatarFallback>
               </Avatar>
               <h3 className="font-semibold text-lg">
-                {user?.firstName} {user?.lastName}
+                {profile?.firstName} {profile?.lastName}
               </h3>
-              <p className="text-sm text-muted-foreground">@{user?.username}</p>
+              <p className="text-sm text-muted-foreground">@{profile?.username}</p>
               <Badge variant="secondary" className="mt-2">
-                {user?.role || "User"}
+                {profile?.isAdmin ? "Administrator" : "User"}
               </Badge>
             </div>
 
@@ -115,20 +186,16 @@ export default function Profile() {
             <div className="space-y-3">
               <div className="flex items-center space-x-3">
                 <Mail className="h-4 w-4 text-muted-foreground" />
-                <span className="text-sm">{user?.email}</span>
-              </div>
-              <div className="flex items-center space-x-3">
-                <Phone className="h-4 w-4 text-muted-foreground" />
-                <span className="text-sm">{user?.phone || "Not provided"}</span>
+                <span className="text-sm">{profile?.email}</span>
               </div>
               <div className="flex items-center space-x-3">
-                <MapPin className="h-4 w-4 text-muted-foreground" />
-                <span className="text-sm">{user?.location || "Not provided"}</span>
+                <Building2 className="h-4 w-4 text-muted-foreground" />
+                <span className="text-sm">{profile?.department || "Not provided"}</span>
               </div>
               <div className="flex items-center space-x-3">
                 <Calendar className="h-4 w-4 text-muted-foreground" />
                 <span className="text-sm">
-                  Joined {user?.createdAt ? new Date(user.createdAt).toLocaleDateString() : "N/A"}
+                  Password changed {profile?.passwordChangedAt ? new Date(profile.passwordChangedAt).toLocaleDateString() : "N/A"}
                 </span>
               </div>
             </div>
@@ -143,14 +210,14 @@ export default function Profile() {
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <form onSubmit={handleSubmit} className="space-y-4">
+            <form key={profile?.id} onSubmit={handleSubmit} className="space-y-4">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
                   <Label htmlFor="firstName">First Name</Label>
                   <Input
                     id="firstName"
                     name="firstName"
-                    defaultValue={user?.firstName}
+                    defaultValue={profile?.firstName}
                     disabled={!isEditing}
                   />
                 </div>
@@ -159,7 +226,7 @@ export default function Profile() {
                   <Input
                     id="lastName"
                     name="lastName"
-                    defaultValue={user?.lastName}
+                    defaultValue={profile?.lastName}
                     disabled={!isEditing}
                   />
                 </div>
@@ -171,38 +238,17 @@ export default function Profile() {
                   id="email"
                   name="email"
                   type="email"
-                  defaultValue={user?.email}
-                  disabled={!isEditing}
-                />
-              </div>
-
-              <div>
-                <Label htmlFor="phone">Phone</Label>
-                <Input
-                  id="phone"
-                  name="phone"
-                  type="tel"
-                  defaultValue={user?.phone}
+                  defaultValue={profile?.email}
                   disabled={!isEditing}
                 />
               </div>
 
               <div>
-                <Label htmlFor="location">Location</Label>
+                <Label htmlFor="department">Department</Label>
                 <Input
-                  id="location"
-                  name="location"
-                  defaultValue={user?.location}
-                  disabled={!isEditing}
-                />
-              </div>
-
-              <div>
-                <Label htmlFor="bio">Bio</Label>
-                <Input
-                  id="bio"
-                  name="bio"
-                  defaultValue={user?.bio}
+                  id="department"
+                  name="department"
+                  defaultValue={profile?.department || ""}
                   disabled={!isEditing}
                 />
               </div>
@@ -225,6 +271,139 @@ export default function Profile() {
           </CardContent>
         </Card>
       </div>
+
+      {/* Change Password */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Change Password
+          </CardTitle>
+          <CardDescription>The new password must meet the password policy set by your administrator.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handlePasswordSubmit} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="currentPassword">Current Password</Label>
+              <Input
+                id="currentPassword"
+                type="password"
+                autoComplete="current-password"
+                value={passwords.currentPassword}
+                onChange={(e) => setPasswords({ ...passwords, currentPassword: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="newPassword">New Password</Label>
+              <Input
+                id="newPassword"
+                type="password"
+                autoComplete="new-password"
+                value={passwords.newPassword}
+                onChange={(e) => setPasswords({ ...passwords, newPassword: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirmPassword">Confirm New Password</Label>
+              <Input
+                id="confirmPassword"
+                type="password"
+                autoComplete="new-password"
+                value={passwords.confirmPassword}
+                onChange={(e) => setPasswords({ ...passwords, confirmPassword: e.target.value })}
+                required
+              />
+            </div>
+
+            {violations.length > 0 && (
+              <ul className="md:col-span-3 text-sm text-destructive list-disc pl-5">
+                {violations.map(violation => <li key={violation}>Password {violation}</li>)}
+              </ul>
+            )}
+
+            <div className="md:col-span-3">
+              <Button type="submit" disabled={changePasswordMutation.isPending}>
+                {changePasswordMutation.isPending ? "Changing..." : "Change Password"}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* Assigned Items */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Package className="h-5 w-5" />
+            My Assigned Items
+          </CardTitle>
+          <CardDescription>Assets, licenses, consumables and IT equipment currently assigned to you</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {assigned && assignedCount > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Details</TableHead>
+                  <TableHead>Assigned</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {assigned.assets.map(asset => (
+                  <TableRow key={`asset-${asset.id}`}>
+                    <TableCell><Badge variant="outline">Asset</Badge></TableCell>
+                    <TableCell>
+                      <Link href={`/assets/${asset.id}`} className="font-medium hover:underline">{asset.name}</Link>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{asset.assetTag}{asset.serialNumber ? ` · ${asset.serialNumber}` : ""}</TableCell>
+                    <TableCell>{asset.checkoutDate ? new Date(asset.checkoutDate).toLocaleDateString() : "-"}</TableCell>
+                  </TableRow>
+                ))}
+                {assigned.licenses.map(({ license, assignment }) => (
+                  <TableRow key={`license-${license.id}-${assignment?.id ?? 'direct'}`}>
+                    <TableCell><Badge variant="outline">License</Badge></TableCell>
+                    <TableCell>
+                      <Link href={`/licenses/${license.id}`} className="font-medium hover:underline">{license.name}</Link>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {license.expirationDate ? `Expires ${new Date(license.expirationDate).toLocaleDateString()}` : "No expiry"}
+                    </TableCell>
+                    <TableCell>{assignment?.assignedDate ? new Date(assignment.assignedDate).toLocaleDateString() : "-"}</TableCell>
+                  </TableRow>
+                ))}
+                {assigned.consumables.map(({ consumable, assignment }) => (
+                  <TableRow key={`consumable-${assignment.id}`}>
+                    <TableCell><Badge variant="outline">Consumable</Badge></TableCell>
+                    <TableCell>
+                      <Link href={`/consumables/${consumable.id}`} className="font-medium hover:underline">{consumable.name}</Link>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">Quantity {assignment.quantity}</TableCell>
+                    <TableCell>{new Date(assignment.assignedDate).toLocaleDateString()}</TableCell>
+                  </TableRow>
+                ))}
+                {assigned.itEquipment.map(({ equipment, assignment }) => (
+                  <TableRow key={`equipment-${assignment.id}`}>
+                    <TableCell><Badge variant="outline">IT Equipment</Badge></TableCell>
+                    <TableCell>
+                      <Link href={`/it-equipment/${equipment.id}`} className="font-medium hover:underline">{equipment.name}</Link>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      Quantity {assignment.quantity}{assignment.serialNumber ? ` · ${assignment.serialNumber}` : ""}
+                    </TableCell>
+                    <TableCell>{new Date(assignment.assignedDate).toLocaleDateString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-6">Nothing is assigned to you</p>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
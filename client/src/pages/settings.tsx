@@ -61,6 +61,7 @@ export default function Settings() {
     passwordMinLength: "8",
     requirePasswordComplexity: true,
     maxLoginAttempts: "5",
+    requirePasswordForKeyReveal: false,
   });
 
   // Notification settings state
@@ -149,6 +150,7 @@ export default function Settings() {
       passwordMinLength: parseInt(securitySettings.passwordMinLength) || 8,
       requireSpecialChar: securitySettings.requirePasswordComplexity,
       maxLoginAttempts: parseInt(securitySettings.maxLoginAttempts) || 5,
+      requirePasswordForKeyReveal: securitySettings.requirePasswordForKeyReveal,
     };
     console.log('Saving security settings:', settingsData);
     updateSettingsMutation.mutate(settingsData);
@@ -182,6 +184,7 @@ export default function Settings() {
         passwordMinLength: String(settings.passwordMinLength || 8),
         requirePasswordComplexity: settings.requireSpecialChar !== undefined ? settings.requireSpecialChar : true,
         maxLoginAttempts: String(settings.maxLoginAttempts || 5),
+        requirePasswordForKeyReveal: settings.requirePasswordForKeyReveal === true,
       });
 
       setNotificationSettings({
@@ -517,6 +520,21 @@ export default function Settings() {
                 />
               </div>
 
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label className="text-base">Confirm Password for BitLocker Keys</Label>
+                  <div className="text-sm text-muted-foreground">
+                    Ask users to re-enter their password before a recovery key is revealed
+                  </div>
+                </div>
+                <Switch 
+                  checked={securitySettings.requirePasswordForKeyReveal}
+                  onCheckedChange={(checked) => 
+                    setSecuritySettings(prev => ({ ...prev, requirePasswordForKeyReveal: checked }))
+                  }
+                />
+              </div>
+
               <Button 
                 onClick={saveSecuritySettings} 
                 disabled={updateSettingsMutation.isPending}
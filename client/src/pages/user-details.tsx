@@ -21,6 +21,7 @@ import { ActivityFeed } from "@/components/dashboard/activity-feed";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useHasPermission } from "@/hooks/use-auth";
 import { User, Asset } from "@shared/schema";
 import UserForm from "@/components/users/user-form";
 import AssetTable from "@/components/assets/asset-table";
@@ -31,6 +32,7 @@ export default function UserDetails() {
   const { id } = useParams();
   const [, navigate] = useLocation();
   const { toast } = useToast();
+  const canDelete = useHasPermission('users', 'delete');
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
 
@@ -173,10 +175,12 @@ export default function UserDetails() {
             <Edit2Icon className="mr-2 h-4 w-4" />
             Edit
           </Button>
-          <Button variant="outline" className="text-red-500 hover:bg-red-50 hover:text-red-600" onClick={() => setIsDeleteDialogOpen(true)}>
-            <TrashIcon className="mr-2 h-4 w-4" />
-            Delete
-          </Button>
+          {canDelete && (
+            <Button variant="outline" className="text-red-500 hover:bg-red-50 hover:text-red-600" onClick={() => setIsDeleteDialogOpen(true)}>
+              <TrashIcon className="mr-2 h-4 w-4" />
+              Delete
+            </Button>
+          )}
         </div>
       </div>
 
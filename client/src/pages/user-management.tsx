@@ -12,6 +12,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Checkbox } from "@/components/ui/checkbox";
 import { toast } from "@/hooks/use-toast";
+import { useHasPermission } from "@/hooks/use-auth";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -21,16 +22,20 @@ import { UserPlus, Users, Settings, Shield, Edit, Trash2, Eye, Plus, Crown, User
 import { DeleteConfirmationDialog } from "@/components/ui/delete-confirmation-dialog";
 
 interface UserPermissions {
-  users: { view: boolean; edit: boolean; add: boolean };
-  assets: { view: boolean; edit: boolean; add: boolean };
-  components: { view: boolean; edit: boolean; add: boolean };
-  accessories: { view: boolean; edit: boolean; add: boolean };
-  licenses: { view: boolean; edit: boolean; add: boolean };
-  reports: { view: boolean; edit: boolean; add: boolean };
-  settings: { view: boolean; edit: boolean; add: boolean };
-  vmInventory: { view: boolean; edit: boolean; add: boolean };
-  networkDiscovery: { view: boolean; edit: boolean; add: boolean };
-  admin: { view: boolean; edit: boolean; add: boolean };
+  users: { view: boolean; edit: boolean; add: boolean; delete: boolean };
+  assets: { view: boolean; edit: boolean; add: boolean; delete: boolean };
+  components: { view: boolean; edit: boolean; add: boolean; delete: boolean };
+  accessories: { view: boolean; edit: boolean; add: boolean; delete: boolean };
+  licenses: { view: boolean; edit: boolean; add: boolean; delete: boolean };
+  reports: { view: boolean; edit: boolean; add: boolean; delete: boolean };
+  settings: { view: boolean; edit: boolean; add: boolean; delete: boolean };
+  vmInventory: { view: boolean; edit: boolean; add: boolean; delete: boolean };
+  networkDiscovery: { view: boolean; edit: boolean; add: boolean; delete: boolean };
+  iamAccounts: { view: boolean; edit: boolean; add: boolean; delete: boolean };
+  itEquipment: { view: boolean; edit: boolean; add: boolean; delete: boolean };
+  monitorInventory: { view: boolean; edit: boolean; add: boolean; delete: boolean };
+  database: { view: boolean; edit: boolean; add: boolean; delete: boolean };
+  admin: { view: boolean; edit: boolean; add: boolean; delete: boolean };
 }
 
 interface Role {
@@ -42,17 +47,24 @@ interface Role {
   userCount: number;
 }
 
+// Roles saved before a module existed have no entry for it; its actions start out denied
+const NO_ACCESS = { view: false, edit: false, add: false, delete: false };
+
 const defaultPermissions: UserPermissions = {
-  users: { view: false, edit: false, add: false },
-  assets: { view: true, edit: false, add: false },
-  components: { view: true, edit: false, add: false },
-  accessories: { view: true, edit: false, add: false },
-  licenses: { view: true, edit: false, add: false },
-  reports: { view: true, edit: false, add: false },
-  settings: { view: false, edit: false, add: false },
-  vmInventory: { view: true, edit: false, add: false },
-  networkDiscovery: { view: false, edit: false, add: false },
-  admin: { view: false, edit: false, add: false },
+  users: { view: false, edit: false, add: false, delete: false },
+  assets: { view: true, edit: false, add: false, delete: false },
+  components: { view: true, edit: false, add: false, delete: false },
+  accessories: { view: true, edit: false, add: false, delete: false },
+  licenses: { view: true, edit: false, add: false, delete: false },
+  reports: { view: true, edit: false, add: false, delete: false },
+  settings: { view: false, edit: false, add: false, delete: false },
+  vmInventory: { view: true, edit: false, add: false, delete: false },
+  networkDiscovery: { view: false, edit: false, add: false, delete: false },
+  iamAccounts: { view: false, edit: false, add: false, delete: false },
+  itEquipment: { view: true, edit: false, add: false, delete: false },
+  monitorInventory: { view: true, edit: false, add: false, delete: false },
+  database: { view: false, edit: false, add: false, delete: false },
+  admin: { view: false, edit: false, add: false, delete: false },
 };
 
 const systemRoles: Role[] = [
@@ -61,16 +73,20 @@ const systemRoles: Role[] = [
     name: "Administrator",
     description: "Full system access with all permissions",
     permissions: {
-      users: { view: true, edit: true, add: true },
-      assets: { view: true, edit: true, add: true },
-      components: { view: true, edit: true, add: true },
-      accessories: { view: true, edit: true, add: true },
-      licenses: { view: true, edit: true, add: true },
-      reports: { view: true, edit: true, add: true },
-      settings: { view: true, edit: true, add: true },
-      vmInventory: { view: true, edit: true, add: true },
-      networkDiscovery: { view: true, edit: true, add: true },
-      admin: { view: true, edit: true, add: true },
+      users: { view: true, edit: true, add: true, delete: true },
+      assets: { view: true, edit: true, add: true, delete: true },
+      components: { view: true, edit: true, add: true, delete: true },
+      accessories: { view: true, edit: true, add: true, delete: true },
+      licenses: { view: true, edit: true, add: true, delete: true },
+      reports: { view: true, edit: true, add: true, delete: true },
+      settings: { view: true, edit: true, add: true, delete: true },
+      vmInventory: { view: true, edit: true, add: true, delete: true },
+      networkDiscovery: { view: true, edit: true, add: true, delete: true },
+      iamAccounts: { view: true, edit: true, add: true, delete: true },
+      itEquipment: { view: true, edit: true, add: true, delete: true },
+      monitorInventory: { view: true, edit: true, add: true, delete: true },
+      database: { view: true, edit: true, add: true, delete: true },
+      admin: { view: true, edit: true, add: true, delete: true },
     },
     isSystem: true,
     userCount: 1
@@ -80,16 +96,20 @@ const systemRoles: Role[] = [
     name: "Manager",
     description: "Can manage most resources but limited admin access",
     permissions: {
-      users: { view: true, edit: false, add: false },
-      assets: { view: true, edit: true, add: true },
-      components: { view: true, edit: true, add: true },
-      accessories: { view: true, edit: true, add: true },
-      licenses: { view: true, edit: true, add: true },
-      reports: { view: true, edit: true, add: false },
-      settings: { view: false, edit: false, add: false },
-      vmInventory: { view: true, edit: true, add: false },
-      networkDiscovery: { view: true, edit: false, add: false },
-      admin: { view: false, edit: false, add: false },
+      users: { view: true, edit: false, add: false, delete: false },
+      assets: { view: true, edit: true, add: true, delete: false },
+      components: { view: true, edit: true, add: true, delete: false },
+      accessories: { view: true, edit: true, add: true, delete: false },
+      licenses: { view: true, edit: true, add: true, delete: false },
+      reports: { view: true, edit: true, add: false, delete: false },
+      settings: { view: false, edit: false, add: false, delete: false },
+      vmInventory: { view: true, edit: true, add: false, delete: false },
+      networkDiscovery: { view: true, edit: false, add: false, delete: false },
+      iamAccounts: { view: false, edit: false, add: false, delete: false },
+      itEquipment: { view: true, edit: true, add: true, delete: false },
+      monitorInventory: { view: true, edit: true, add: true, delete: false },
+      database: { view: false, edit: false, add: false, delete: false },
+      admin: { view: false, edit: false, add: false, delete: false },
     },
     isSystem: true,
     userCount: 0
@@ -119,10 +139,11 @@ export default function UserManagement() {
   const [newRoleName, setNewRoleName] = useState("");
   const [newRoleDescription, setNewRoleDescription] = useState("");
   const [newRolePermissions, setNewRolePermissions] = useState<UserPermissions>(defaultPermissions);
-  const [customRoles, setCustomRoles] = useState<Role[]>([]);
   const [userToDelete, setUserToDelete] = useState<User | null>(null);
   const [assignUserDialogOpen, setAssignUserDialogOpen] = useState(false);
   const [selectedRoleForAssignment, setSelectedRoleForAssignment] = useState<Role | null>(null);
+  const canDeleteUsers = useHasPermission('users', 'delete');
+  const canDeleteRoles = useHasPermission('admin', 'delete');
 
   const { data: users = [], isLoading } = useQuery<User[]>({
     queryKey: ["/api/users"],
@@ -349,9 +370,7 @@ export default function UserManagement() {
     setEditingPermissions(prev => ({
       ...prev,
       [module]: {
-        view: false,
-        edit: false,
-        add: false,
+        ...NO_ACCESS,
         ...prev[module],
         [action]: value
       }
@@ -362,15 +381,73 @@ export default function UserManagement() {
     setNewRolePermissions(prev => ({
       ...prev,
       [module]: {
-        view: false,
-        edit: false,
-        add: false,
+        ...NO_ACCESS,
         ...prev[module],
         [action]: value
       }
     }));
   };
 
+  const saveRoleMutation = useMutation({
+    mutationFn: async (data: { id?: number; name: string; description: string; permissions: UserPermissions }) => {
+      const { id, ...role } = data;
+      const response = id
+        ? await apiRequest("PUT", `/api/roles/${id}`, role)
+        : await apiRequest("POST", "/api/roles", role);
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to save role');
+      }
+      return response.json();
+    },
+    onSuccess: (role: Role, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
+      setIsAddRoleDialogOpen(false);
+      setIsEditRoleDialogOpen(false);
+      setSelectedRole(null);
+      setNewRoleName("");
+      setNewRoleDescription("");
+      setNewRolePermissions(defaultPermissions);
+      toast({
+        title: variables.id ? "Role updated" : "Role Created",
+        description: `Role "${role.name}" has been ${variables.id ? 'updated' : 'created'} successfully.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteRoleMutation = useMutation({
+    mutationFn: async (role: Role) => {
+      const response = await apiRequest("DELETE", `/api/roles/${role.id}`);
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to delete role');
+      }
+      return role;
+    },
+    onSuccess: (role: Role) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "Role deleted",
+        description: `Role "${role.name}" has been deleted.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleCreateRole = () => {
     if (!newRoleName.trim()) {
       toast({
@@ -381,29 +458,15 @@ export default function UserManagement() {
       return;
     }
 
-    const newRole: Role = {
-      id: Date.now(), // Simple ID generation for demo
+    saveRoleMutation.mutate({
       name: newRoleName,
       description: newRoleDescription,
-      permissions: newRolePermissions,
-      isSystem: false,
-      userCount: 0
-    };
-
-    setCustomRoles(prev => [...prev, newRole]);
-    setIsAddRoleDialogOpen(false);
-    setNewRoleName("");
-    setNewRoleDescription("");
-    setNewRolePermissions(defaultPermissions);
-
-    toast({
-      title: "Role Created",
-      description: `Role "${newRoleName}" has been created successfully.`,
+      permissions: newRolePermissions
     });
   };
 
-  // Combine API roles with custom roles, giving priority to API roles
-  const allRoles = [...(apiRoles || systemRoles), ...customRoles];
+  // Roles are persisted server-side; fall back to the built-in list while loading
+  const allRoles = apiRoles.length > 0 ? apiRoles : systemRoles;
 
   const permissionModules = [
     { key: 'users' as keyof UserPermissions, label: 'User Management', icon: Users },
@@ -412,7 +475,11 @@ export default function UserManagement() {
     { key: 'accessories' as keyof UserPermissions, label: 'Accessories', icon: Plus },
     { key: 'licenses' as keyof UserPermissions, label: 'Licenses', icon: Shield },
     { key: 'reports' as keyof UserPermissions, label: 'Reports', icon: Eye },
+    { key: 'itEquipment' as keyof UserPermissions, label: 'IT Equipment', icon: Shield },
+    { key: 'monitorInventory' as keyof UserPermissions, label: 'Monitor Inventory', icon: Shield },
     { key: 'vmInventory' as keyof UserPermissions, label: 'VM Inventory', icon: Settings },
+    { key: 'iamAccounts' as keyof UserPermissions, label: 'IAM Accounts', icon: Shield },
+    { key: 'database' as keyof UserPermissions, label: 'Database', icon: Settings },
     { key: 'networkDiscovery' as keyof UserPermissions, label: 'Network Discovery', icon: Settings },
     { key: 'settings' as keyof UserPermissions, label: 'System Settings', icon: Settings },
     { key: 'admin' as keyof UserPermissions, label: 'Admin Panel', icon: Shield },
@@ -629,20 +696,22 @@ export default function UserManagement() {
                           >
                             <Shield className="h-4 w-4" />
                           </Button>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => {
-                              console.log('Delete button clicked for user:', user);
-                              setUserToDelete(user);
-                              setIsConfirmDeleteOpen(true);
-                            }}
-                            disabled={user.isAdmin && user.id === 1}
-                            title="Delete User"
-                            className="text-red-500 hover:text-red-700 hover:bg-red-50"
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
+                          {canDeleteUsers && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => {
+                                console.log('Delete button clicked for user:', user);
+                                setUserToDelete(user);
+                                setIsConfirmDeleteOpen(true);
+                              }}
+                              disabled={user.isAdmin && user.id === 1}
+                              title="Delete User"
+                              className="text-red-500 hover:text-red-700 hover:bg-red-50"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -708,7 +777,7 @@ export default function UserManagement() {
                                 </CardTitle>
                               </CardHeader>
                               <CardContent>
-                                <div className="grid grid-cols-3 gap-4">
+                                <div className="grid grid-cols-4 gap-4">
                                   <div className="flex items-center space-x-2">
                                     <Checkbox
                                       id={`new-${module.key}-view`}
@@ -739,6 +808,16 @@ export default function UserManagement() {
                                     />
                                     <Label htmlFor={`new-${module.key}-add`}>Add</Label>
                                   </div>
+                                  <div className="flex items-center space-x-2">
+                                    <Checkbox
+                                      id={`new-${module.key}-delete`}
+                                      checked={newRolePermissions[module.key]?.delete || false}
+                                      onCheckedChange={(checked) => 
+                                        handleNewRolePermissionChange(module.key, 'delete', checked as boolean)
+                                      }
+                                    />
+                                    <Label htmlFor={`new-${module.key}-delete`}>Delete</Label>
+                                  </div>
                                 </div>
                               </CardContent>
                             </Card>
@@ -815,31 +894,17 @@ export default function UserManagement() {
                             >
                               <Edit className="h-4 w-4" />
                             </Button>
-                            <Button 
-                              variant="ghost" 
-                              size="sm" 
-                              disabled={role.isSystem && role.id === 1}
-                              onClick={() => {
-                                if (role.isSystem) {
-                                  // For system roles, just update them in place
-                                  const updatedSystemRoles = systemRoles.map(r => 
-                                    r.id === role.id ? null : r
-                                  ).filter(Boolean);
-                                  toast({
-                                    title: "System role modified",
-                                    description: `Role "${role.name}" permissions have been reset.`,
-                                  });
-                                } else {
-                                  setCustomRoles(prev => prev.filter(r => r.id !== role.id));
-                                  toast({
-                                    title: "Role deleted",
-                                    description: `Role "${role.name}" has been deleted.`,
-                                  });
-                                }
-                              }}
-                            >
-                              <Trash2 className="h-4 w-4" />
-                            </Button>
+                            {canDeleteRoles && (
+                              <Button 
+                                variant="ghost" 
+                                size="sm" 
+                                disabled={role.isSystem || deleteRoleMutation.isPending}
+                                title={role.isSystem ? "Built-in roles cannot be deleted" : "Delete Role"}
+                                onClick={() => deleteRoleMutation.mutate(role)}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
                           </div>
                         </TableCell>
                       </TableRow>
@@ -895,7 +960,7 @@ export default function UserManagement() {
                       </CardTitle>
                     </CardHeader>
                     <CardContent>
-                      <div className="grid grid-cols-3 gap-4">
+                      <div className="grid grid-cols-4 gap-4">
                         <div className="flex items-center space-x-2">
                           <Checkbox
                             id={`edit-${module.key}-view`}
@@ -926,6 +991,16 @@ export default function UserManagement() {
                           />
                           <Label htmlFor={`edit-${module.key}-add`}>Add</Label>
                         </div>
+                        <div className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`edit-${module.key}-delete`}
+                            checked={newRolePermissions[module.key]?.delete || false}
+                            onCheckedChange={(checked) => 
+                              handleNewRolePermissionChange(module.key, 'delete', checked as boolean)
+                            }
+                          />
+                          <Label htmlFor={`edit-${module.key}-delete`}>Delete</Label>
+                        </div>
                       </div>
                     </CardContent>
                   </Card>
@@ -936,40 +1011,15 @@ export default function UserManagement() {
           <DialogFooter>
             <Button 
               onClick={() => {
-                if (selectedRole?.isSystem) {
-                  // Update system role
-                  const updatedRole = {
-                    ...selectedRole,
-                    name: newRoleName,
-                    description: newRoleDescription,
-                    permissions: newRolePermissions
-                  };
-
-                  // Update in systemRoles array (this would need actual state management in production)
-                  toast({
-                    title: "System role updated",
-                    description: `Role "${selectedRole.name}" has been updated.`,
-                  });
-                } else {
-                  // Update custom role
-                  setCustomRoles(prev => prev.map(r => 
-                    r.id === selectedRole?.id 
-                      ? { ...r, name: newRoleName, description: newRoleDescription, permissions: newRolePermissions }
-                      : r
-                  ));
-                  toast({
-                    title: "Role updated",
-                    description: `Role "${selectedRole?.name}" has been updated.`,
-                  });
-                }
-
-                setIsEditRoleDialogOpen(false);
-                setSelectedRole(null);
-                setNewRoleName("");
-                setNewRoleDescription("");
-                setNewRolePermissions(defaultPermissions);
+                if (!selectedRole) return;
+                saveRoleMutation.mutate({
+                  id: selectedRole.id,
+                  name: newRoleName,
+                  description: newRoleDescription,
+                  permissions: newRolePermissions
+                });
               }}
-              disabled={!newRoleName.trim()}
+              disabled={!newRoleName.trim() || saveRoleMutation.isPending}
             >
               Update Role
             </Button>
@@ -1104,7 +1154,7 @@ export default function UserManagement() {
                     </CardTitle>
                   </CardHeader>
                   <CardContent>
-                    <div className="grid grid-cols-3 gap-4">
+                    <div className="grid grid-cols-4 gap-4">
                       <div className="flex items-center space-x-2">
                         <Checkbox
                           id={`${module.key}-view`}
@@ -1135,6 +1185,16 @@ export default function UserManagement() {
                         />
                         <Label htmlFor={`${module.key}-add`}>Add</Label>
                       </div>
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`${module.key}-delete`}
+                          checked={editingPermissions[module.key]?.delete || false}
+                          onCheckedChange={(checked) => 
+                            handlePermissionChange(module.key, 'delete', checked as boolean)
+                          }
+                        />
+                        <Label htmlFor={`${module.key}-delete`}>Delete</Label>
+                      </div>
                     </div>
                   </CardContent>
                 </Card>
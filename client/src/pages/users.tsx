@@ -7,6 +7,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, Di
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { downloadCSV } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
+import { useHasPermission } from "@/hooks/use-auth";
 import { User } from "@shared/schema";
 import UserTable from "@/components/users/user-table";
 import UserForm from "@/components/users/user-form";
@@ -26,6 +27,7 @@ import type { User as UserType } from "@shared/schema";
 
 function UsersPage() {
   const { toast } = useToast();
+  const canDelete = useHasPermission('users', 'delete');
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
@@ -193,10 +195,10 @@ function UsersPage() {
           setUserToEdit(user);
           setIsEditDialogOpen(true);
         }}
-        onDelete={(user) => {
+        onDelete={canDelete ? (user) => {
           setUserToDelete(user);
           setIsConfirmDeleteOpen(true);
-        }}
+        } : undefined}
       />
 
       {/* View User Dialog */}
@@ -1,9 +1,10 @@
 import { PlusCircle, Filter, Trash2, Download, Upload, RefreshCw, Server, HardDrive, FileText, Calendar, Users, Pencil, Eye, EyeOff, Settings, Columns, ArrowUpDown, ArrowUp, ArrowDown, XCircle, CheckCircle, AlertTriangle, Database, Clock, History } from "lucide-react";
-import { useState, useRef, useMemo } from "react";
+import { useState, useRef, useEffect } from "react";
 import React from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
 import { Link } from "wouter";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { PaginatedResult } from "@shared/schema";
 import { parseVMCSV, convertCSVToVMs, convertToCSV } from "@/lib/csv-import";
 import { downloadCSV } from "@/lib/utils";
 import { DeleteConfirmationDialog } from "@/components/ui/delete-confirmation-dialog";
@@ -64,6 +65,7 @@ import {
 } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
+import { useHasPermission } from "@/hooks/use-auth";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
@@ -157,8 +159,12 @@ const columnConfigs: ColumnConfig[] = [
   { key: 'actions', label: 'Actions', defaultVisible: true, alwaysVisible: true },
 ];
 
+// Column filters that pick from a list match exactly; the rest are substring filters
+const exactFilterColumns = ['vmStatus', 'vmOs', 'department'];
+
 export default function VMInventoryPage() {
   const { toast } = useToast();
+  const canDelete = useHasPermission('vmInventory', 'delete');
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState<string | null>(null);
 
@@ -207,15 +213,37 @@ export default function VMInventoryPage() {
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 10;
 
+  // Search, filters, sorting and paging are applied by the server
+  const buildListParams = (page: number, pageSize: number) => {
+    const params = new URLSearchParams({ page: String(page), pageSize: String(pageSize) });
+    if (searchTerm) params.set('q', searchTerm);
+    if (statusFilter && statusFilter !== 'all') params.set('filter[vmStatus]', statusFilter);
+    Object.entries(columnFilters).forEach(([key, value]) => {
+      if (value) params.set(`filter[${key}]`, exactFilterColumns.includes(key) ? value : `~${value}`);
+    });
+    if (sortConfig.key) params.set('sort', `${sortConfig.direction === 'desc' ? '-' : ''}${sortConfig.key}`);
+    return params.toString();
+  };
+
+  const listParams = buildListParams(currentPage, itemsPerPage);
+
+  // Go back to the first page whenever the result set changes
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [searchTerm, statusFilter, columnFilters, sortConfig]);
+
   // Fetch VMs from the API
-  const { data: vms = [], isLoading, error } = useQuery({ 
-    queryKey: ['/api/vm-inventory'],
+  const { data: vmPage, isLoading, error } = useQuery<PaginatedResult<VirtualMachine>>({
+    queryKey: ['/api/vm-inventory', listParams],
     queryFn: async () => {
-      const response = await fetch('/api/vm-inventory');
+      const response = await fetch(`/api/vm-inventory?${listParams}`);
       if (!response.ok) throw new Error('Failed to fetch VM inventory');
       return response.json();
     },
+    placeholderData: keepPreviousData,
   });
+  const vms = vmPage?.data ?? [];
+  const totalVMs = vmPage?.total ?? 0;
 
   // Fetch Approval History for a specific VM
   const fetchApprovalHistory = async (vmId: number) => {
@@ -333,34 +361,8 @@ export default function VMInventoryPage() {
     }
   };
 
-  // Function to calculate VM status based on dates
-  const calculateVMStatus = (startDate: string, endDate: string, currentStatus: string) => {
-    if (currentStatus === "Overdue - Notified" || currentStatus === "Decommissioned") {
-      return currentStatus; // Manual statuses should not be auto-changed
-    }
-
-    if (!startDate || !endDate) {
-      return "Active"; // Default if no dates
-    }
-
-    const today = new Date();
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-
-    if (today >= start && today <= end) {
-      return "Active";
-    } else if (today > end) {
-      return "Overdue - Not Notified";
-    } else {
-      return "Active"; // Future start date
-    }
-  };
-
-  // Process VMs with calculated status
-  const processedVMs = vms.map(vm => ({
-    ...vm,
-    vmStatus: calculateVMStatus(vm.startDate, vm.endDate, vm.vmStatus)
-  }));
+  // vmStatus is kept current by the server-side lifecycle sweep
+  const processedVMs = vms;
 
   // Sorting function
   const handleSort = (key: keyof VirtualMachine) => {
@@ -477,9 +479,33 @@ export default function VMInventoryPage() {
     setIsConfirmDeleteOpen(true);
   };
 
-  const handleExportCSV = () => {
-    if (filteredAndSortedVMs && filteredAndSortedVMs.length > 0) {
-      const csvData = convertToCSV(filteredAndSortedVMs);
+  // Export every VM matching the current search and filters, not just the visible page
+  const fetchAllMatchingVMs = async () => {
+    const allVMs: any[] = [];
+    for (let page = 1; ; page++) {
+      const response = await fetch(`/api/vm-inventory?${buildListParams(page, 500)}`);
+      if (!response.ok) throw new Error('Failed to fetch VM inventory');
+      const result: PaginatedResult<any> = await response.json();
+      allVMs.push(...result.data);
+      if (page >= result.totalPages) return allVMs;
+    }
+  };
+
+  const handleExportCSV = async () => {
+    let exportVMs: any[] = [];
+    try {
+      exportVMs = await fetchAllMatchingVMs();
+    } catch (err) {
+      toast({
+        title: "Export failed",
+        description: "Could not load VM inventory for export.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (exportVMs.length > 0) {
+      const csvData = convertToCSV(exportVMs);
       const blob = new Blob([csvData], { type: 'text/csv;charset=utf-8;' });
       const link = document.createElement('a');
       if (link.download !== undefined) {
@@ -494,7 +520,7 @@ export default function VMInventoryPage() {
       }
       toast({
         title: "Export Successful",
-        description: `Exported ${filteredAndSortedVMs.length} VM records to CSV.`,
+        description: `Exported ${exportVMs.length} VM records to CSV.`,
       });
     } else {
       toast({
@@ -683,66 +709,6 @@ export default function VMInventoryPage() {
     });
   };
 
-  // Memoized filtered and sorted VMs
-  const filteredAndSortedVMs = useMemo(() => {
-    let filtered = processedVMs.filter((vm) => {
-      const vmId = vm.vmId || vm.vmName || '';
-      const vmName = vm.vmName || '';
-      const vmIp = vm.vmIp || '';
-      const vmStatus = vm.vmStatus || '';
-      const knoxId = vm.knoxId || '';
-      const requestor = vm.requestor || '';
-
-      // Global search
-      const matchesSearch = searchTerm === "" || 
-        vmName.toLowerCase().includes(searchTerm.toLowerCase()) || 
-        vmId.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        vmIp.includes(searchTerm) ||
-        knoxId.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        requestor.toLowerCase().includes(searchTerm.toLowerCase());
-
-      // Status filter
-      const matchesStatus = !statusFilter || statusFilter === "all" || 
-        (vmStatus && vmStatus.toLowerCase() === (statusFilter || "").toLowerCase());
-
-      // Column filters
-      const matchesColumnFilters = Object.entries(columnFilters).every(([key, filterValue]) => {
-        if (!filterValue) return true;
-        const vmValue = vm[key as keyof VirtualMachine];
-        if (!vmValue) return false;
-        return String(vmValue).toLowerCase().includes(filterValue.toLowerCase());
-      });
-
-      return matchesSearch && matchesStatus && matchesColumnFilters;
-    });
-
-    // Apply sorting
-    if (sortConfig.key) {
-      filtered.sort((a, b) => {
-        const aValue = a[sortConfig.key!];
-        const bValue = b[sortConfig.key!];
-
-        // Handle null/undefined values
-        if (aValue === null || aValue === undefined) return 1;
-        if (bValue === null || bValue === undefined) return -1;
-
-        // Convert to string for comparison
-        const aStr = String(aValue).toLowerCase();
-        const bStr = String(bValue).toLowerCase();
-
-        if (aStr < bStr) {
-          return sortConfig.direction === 'asc' ? -1 : 1;
-        }
-        if (aStr > bStr) {
-          return sortConfig.direction === 'asc' ? 1 : -1;
-        }
-        return 0;
-      });
-    }
-
-    return filtered;
-  }, [processedVMs, searchTerm, statusFilter, columnFilters, sortConfig]);
-
   const getStatusBadge = (status: string) => {
     if (!status) return <Badge variant="outline">Unknown</Badge>;
 
@@ -775,9 +741,9 @@ export default function VMInventoryPage() {
   };
 
   const startIndex = (currentPage - 1) * itemsPerPage;
-  const endIndex = Math.min(startIndex + itemsPerPage, filteredAndSortedVMs.length);
-  const paginatedVMs = filteredAndSortedVMs.slice(startIndex, endIndex);
-  const totalPages = Math.ceil(filteredAndSortedVMs.length / itemsPerPage);
+  const endIndex = startIndex + processedVMs.length;
+  const paginatedVMs = processedVMs;
+  const totalPages = vmPage?.totalPages ?? 0;
 
   return (
     <div className="container mx-auto py-6 space-y-6">
@@ -1144,14 +1110,18 @@ export default function VMInventoryPage() {
                               <Pencil className="h-4 w-4" />
                               Edit VM
                             </DropdownMenuItem>
-                            <DropdownMenuSeparator />
-                            <DropdownMenuItem 
-                              className="cursor-pointer text-destructive flex items-center gap-2"
-                              onClick={() => handleDeleteClick(vm)}
-                            >
-                              <Trash2 className="h-4 w-4" />
-                              Delete VM
-                            </DropdownMenuItem>
+                            {canDelete && (
+                              <>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuItem 
+                                  className="cursor-pointer text-destructive flex items-center gap-2"
+                                  onClick={() => handleDeleteClick(vm)}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                  Delete VM
+                                </DropdownMenuItem>
+                              </>
+                            )}
                           </DropdownMenuContent>
                         </DropdownMenu>
                       </TableCell>
@@ -1171,13 +1141,13 @@ export default function VMInventoryPage() {
         </CardContent>
 
         {/* Pagination */}
-        {filteredAndSortedVMs.length > itemsPerPage && (
+        {totalVMs > itemsPerPage && (
           <CardContent className="pt-4">
             <div className="flex flex-col sm:flex-row justify-between items-center gap-4">
               <div className="text-sm text-muted-foreground">
-                Showing {startIndex + 1}-{Math.min(endIndex, filteredAndSortedVMs.length)} of {filteredAndSortedVMs.length} VMs
+                Showing {startIndex + 1}-{endIndex} of {totalVMs} VMs
                 {Object.keys(columnFilters).length > 0 || searchTerm || statusFilter ? (
-                  <span className="text-muted-foreground/60"> (filtered from {processedVMs.length} total)</span>
+                  <span className="text-muted-foreground/60"> (filtered)</span>
                 ) : null}
               </div>
 
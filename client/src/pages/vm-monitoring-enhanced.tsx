@@ -41,6 +41,7 @@ import {
   TrendingDown,
   Minus
 } from "lucide-react";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip, Legend } from "recharts";
 
 // Enhanced Zabbix settings form schema with authentication
 const zabbixSettingsSchema = z.object({
@@ -48,10 +49,13 @@ const zabbixSettingsSchema = z.object({
   username: z.string().min(1, { message: "Username is required" }),
   password: z.string().min(1, { message: "Password is required" }),
   autoSync: z.boolean().default(true),
-  syncInterval: z.coerce.number().min(5).max(1440).default(60),
+  syncInterval: z.coerce.number().int().min(5).max(1440).default(60),
   alertsEnabled: z.boolean().default(true),
   criticalThreshold: z.coerce.number().min(1).max(100).default(90),
   warningThreshold: z.coerce.number().min(1).max(100).default(75),
+  metricsRawRetentionDays: z.coerce.number().int().min(1).default(2),
+  metricsFiveMinuteRetentionDays: z.coerce.number().int().min(1).default(30),
+  metricsHourlyRetentionDays: z.coerce.number().int().min(1).default(365),
 });
 
 type ZabbixSettings = z.infer<typeof zabbixSettingsSchema>;
@@ -107,6 +111,89 @@ interface ZabbixAlertComment {
   username: string;
 }
 
+interface MetricPoint {
+  timestamp: string;
+  cpuUsage: number | null;
+  memoryUsage: number | null;
+  diskUsage: number | null;
+  cpuMax: number | null;
+  memoryMax: number | null;
+  diskMax: number | null;
+  sampleCount: number;
+}
+
+interface CapacityForecast {
+  metric: 'cpuUsage' | 'memoryUsage' | 'diskUsage';
+  current: number | null;
+  slopePerDay: number | null;
+  reachesLimitAt: string | null;
+  daysUntilLimit: number | null;
+}
+
+interface MetricSeries {
+  vmId: number;
+  resolution: 'raw' | '5m' | '1h';
+  from: string;
+  to: string;
+  points: MetricPoint[];
+  forecasts: CapacityForecast[];
+}
+
+// Trend ranges offered on the Trends tab, in hours
+const TREND_RANGES: { value: string; label: string; hours: number }[] = [
+  { value: '6h', label: 'Last 6 hours', hours: 6 },
+  { value: '24h', label: 'Last 24 hours', hours: 24 },
+  { value: '7d', label: 'Last 7 days', hours: 24 * 7 },
+  { value: '30d', label: 'Last 30 days', hours: 24 * 30 },
+  { value: '90d', label: 'Last 90 days', hours: 24 * 90 },
+];
+
+const METRIC_LABELS: Record<CapacityForecast['metric'], string> = {
+  cpuUsage: 'CPU',
+  memoryUsage: 'Memory',
+  diskUsage: 'Disk',
+};
+
+const formatForecast = (forecast: CapacityForecast): string => {
+  if (forecast.current === null) return 'Not enough history';
+  if (forecast.daysUntilLimit === 0) return 'At capacity';
+  if (forecast.daysUntilLimit === null || !forecast.reachesLimitAt) return 'Stable or decreasing';
+  if (forecast.daysUntilLimit > 365) return 'Full in more than a year';
+  return `Full in ~${Math.ceil(forecast.daysUntilLimit)} days (${new Date(forecast.reachesLimitAt).toLocaleDateString()})`;
+};
+
+interface ZabbixSyncRun {
+  id: number;
+  trigger: 'scheduled' | 'manual';
+  status: 'running' | 'success' | 'partial' | 'failed';
+  hostsSeen: number | null;
+  hostsUpdated: number | null;
+  hostsUnchanged: number | null;
+  errors: string[] | null;
+  durationMs: number | null;
+  startedAt: string;
+  completedAt: string | null;
+}
+
+interface ZabbixSyncStatus {
+  running: boolean;
+  autoSync: boolean;
+  intervalMinutes: number | null;
+  nextSyncAt: string | null;
+  consecutiveFailures: number;
+  lastRun: ZabbixSyncRun | null;
+  runs: ZabbixSyncRun[];
+}
+
+const getSyncRunBadge = (status: ZabbixSyncRun['status']) => {
+  switch (status) {
+    case 'success': return <Badge className="bg-green-500">Success</Badge>;
+    case 'partial': return <Badge className="bg-yellow-500">Partial</Badge>;
+    case 'failed': return <Badge variant="destructive">Failed</Badge>;
+    default: return <Badge variant="secondary">Running</Badge>;
+  }
+};
+
 interface ZabbixTemplate {
   templateid: string;
   name: string;
@@ -158,10 +245,10 @@ const formatUptime = (seconds: number): string => {
 export default function VMMonitoringEnhanced() {
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState("dashboard");
-  const [lastSyncTime, setLastSyncTime] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedHost, setSelectedHost] = useState<ZabbixHost | null>(null);
   const [alertFilter, setAlertFilter] = useState<'all' | 'critical' | 'warning' | 'info'>('all');
+  const [trendRange, setTrendRange] = useState('24h');
 
   // Zabbix settings form
   const form = useForm<ZabbixSettings>({
@@ -175,6 +262,9 @@ export default function VMMonitoringEnhanced() {
       alertsEnabled: true,
       criticalThreshold: 90,
       warningThreshold: 75,
+      metricsRawRetentionDays: 2,
+      metricsFiveMinuteRetentionDays: 30,
+      metricsHourlyRetentionDays: 365,
     },
   });
 
@@ -233,6 +323,30 @@ export default function VMMonitoringEnhanced() {
     enabled: !!zabbixSettings?.url,
   });
 
+  // Background sync schedule and recent runs
+  const { data: syncStatus } = useQuery({
+    queryKey: ['/api/zabbix/sync/status'],
+    queryFn: async () => {
+      const res = await apiRequest('GET', '/api/zabbix/sync/status');
+      return await res.json() as ZabbixSyncStatus;
+    },
+    refetchInterval: 30000,
+    enabled: !!zabbixSettings?.url,
+  });
+
+  // Usage history of the selected host; the server picks the resolution for the range
+  const { data: metricSeries, isLoading: isLoadingMetrics, error: metricsError } = useQuery({
+    queryKey: ['/api/vm-monitoring', selectedHost?.hostid, 'metrics', trendRange],
+    queryFn: async () => {
+      const hours = TREND_RANGES.find(range => range.value === trendRange)?.hours || 24;
+      const from = new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+      const res = await apiRequest('GET', `/api/vm-monitoring/${selectedHost!.hostid}/metrics?from=${encodeURIComponent(from)}`);
+      return await res.json() as MetricSeries;
+    },
+    enabled: !!selectedHost,
+    refetchInterval: 5 * 60 * 1000,
+  });
+
   // Save Zabbix settings mutation
   const saveSettingsMutation = useMutation({
     mutationFn: async (data: ZabbixSettings) => {
@@ -302,18 +416,20 @@ export default function VMMonitoringEnhanced() {
   // Sync hosts mutation
   const syncHostsMutation = useMutation({
     mutationFn: async () => {
-      const res = await apiRequest('POST', '/api/zabbix/sync');
+      const res = await apiRequest('POST', '/api/vm-monitoring/sync');
       return await res.json();
     },
     onSuccess: (data) => {
-      setLastSyncTime(new Date().toLocaleString());
       toast({
-        title: "Sync completed",
-        description: `Synchronized ${data.hostCount || 0} hosts from Zabbix.`,
+        title: data.success ? "Sync completed" : "Sync failed",
+        description: data.message,
+        variant: data.success ? undefined : "destructive",
       });
       queryClient.invalidateQueries({ queryKey: ['/api/zabbix/hosts'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/zabbix/sync/status'] });
     },
     onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/zabbix/sync/status'] });
       toast({
         title: "Sync failed",
         description: error.message,
@@ -379,10 +495,19 @@ export default function VMMonitoringEnhanced() {
           </p>
         </div>
         <div className="flex items-center space-x-2">
-          {lastSyncTime && (
-            <span className="text-sm text-muted-foreground">
-              Last sync: {lastSyncTime}
-            </span>
+          {syncStatus?.lastRun && (
+            <div className="text-right text-sm text-muted-foreground">
+              <p>
+                Last sync: {new Date(syncStatus.lastRun.startedAt).toLocaleString()}
+                {syncStatus.lastRun.status === 'failed' && <span className="text-red-500"> (failed)</span>}
+              </p>
+              {syncStatus.nextSyncAt && (
+                <p>
+                  Next: {new Date(syncStatus.nextSyncAt).toLocaleString()}
+                  {syncStatus.consecutiveFailures > 0 && ` (retrying after ${syncStatus.consecutiveFailures} failure${syncStatus.consecutiveFailures > 1 ? 's' : ''})`}
+                </p>
+              )}
+            </div>
           )}
           <Button
             variant="outline"
@@ -403,6 +528,7 @@ export default function VMMonitoringEnhanced() {
         <TabsList>
           <TabsTrigger value="dashboard">Dashboard</TabsTrigger>
           <TabsTrigger value="hosts">Hosts</TabsTrigger>
+          <TabsTrigger value="trends">Trends</TabsTrigger>
           <TabsTrigger value="alerts">Alerts</TabsTrigger>
           <TabsTrigger value="templates">Templates</TabsTrigger>
           <TabsTrigger value="settings">Settings</TabsTrigger>
@@ -600,7 +726,10 @@ export default function VMMonitoringEnhanced() {
                       <TableRow 
                         key={host.hostid}
                         className="cursor-pointer hover:bg-muted/50"
-                        onClick={() => setSelectedHost(host)}
+                        onClick={() => {
+                          setSelectedHost(host);
+                          setActiveTab("trends");
+                        }}
                       >
                         <TableCell>
                           <div>
@@ -674,6 +803,117 @@ export default function VMMonitoringEnhanced() {
           </Card>
         </TabsContent>
 
+        {/* Trends Tab */}
+        <TabsContent value="trends" className="space-y-4">
+          <div className="flex justify-between items-center">
+            <Select
+              value={selectedHost?.hostid || ""}
+              onValueChange={(hostid) => setSelectedHost(hosts.find((host: ZabbixHost) => host.hostid === hostid) || null)}
+            >
+              <SelectTrigger className="w-96">
+                <SelectValue placeholder="Select a host" />
+              </SelectTrigger>
+              <SelectContent>
+                {hosts.map((host: ZabbixHost) => (
+                  <SelectItem key={host.hostid} value={host.hostid}>{host.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={trendRange} onValueChange={setTrendRange}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TREND_RANGES.map(range => (
+                  <SelectItem key={range.value} value={range.value}>{range.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {!selectedHost ? (
+            <Card>
+              <CardContent className="text-center py-8">
+                <TrendingUp className="h-12 w-12 mx-auto text-muted-foreground mb-3" />
+                <p className="text-sm text-muted-foreground">Select a host to see its usage history</p>
+              </CardContent>
+            </Card>
+          ) : isLoadingMetrics ? (
+            <div className="flex justify-center items-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : metricsError ? (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>History unavailable</AlertTitle>
+              <AlertDescription>{metricsError.message}</AlertDescription>
+            </Alert>
+          ) : (
+            <>
+              <div className="grid gap-4 md:grid-cols-3">
+                {metricSeries?.forecasts.map(forecast => (
+                  <Card key={forecast.metric}>
+                    <CardHeader className="pb-2">
+                      <CardDescription>{METRIC_LABELS[forecast.metric]} capacity forecast</CardDescription>
+                      <CardTitle className="text-2xl">
+                        {forecast.current !== null ? `${forecast.current.toFixed(1)}%` : '-'}
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="flex items-center space-x-2 text-sm text-muted-foreground">
+                      {forecast.slopePerDay === null || Math.abs(forecast.slopePerDay) < 0.01 ? (
+                        <Minus className="h-4 w-4" />
+                      ) : forecast.slopePerDay > 0 ? (
+                        <TrendingUp className="h-4 w-4 text-orange-500" />
+                      ) : (
+                        <TrendingDown className="h-4 w-4 text-green-500" />
+                      )}
+                      <span>{formatForecast(forecast)}</span>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>{selectedHost.name} usage</CardTitle>
+                  <CardDescription>
+                    {metricSeries?.resolution === 'raw' ? 'Every sync' : metricSeries?.resolution === '5m' ? '5-minute averages' : 'Hourly averages'}
+                    {' '}over the {TREND_RANGES.find(range => range.value === trendRange)?.label.toLowerCase()}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {metricSeries && metricSeries.points.length > 0 ? (
+                    <div className="h-80">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={metricSeries.points}>
+                          <CartesianGrid strokeDasharray="3 3" />
+                          <XAxis
+                            dataKey="timestamp"
+                            tickFormatter={(value) => trendRange === '6h' || trendRange === '24h'
+                              ? new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+                              : new Date(value).toLocaleDateString()}
+                          />
+                          <YAxis domain={[0, 100]} unit="%" />
+                          <Tooltip labelFormatter={(value) => new Date(value).toLocaleString()} />
+                          <Legend />
+                          <Line type="monotone" dataKey="cpuUsage" stroke="#8884d8" name="CPU %" dot={false} connectNulls />
+                          <Line type="monotone" dataKey="memoryUsage" stroke="#82ca9d" name="Memory %" dot={false} connectNulls />
+                          <Line type="monotone" dataKey="diskUsage" stroke="#ffc658" name="Disk %" dot={false} connectNulls />
+                        </LineChart>
+                      </ResponsiveContainer>
+                    </div>
+                  ) : (
+                    <div className="text-center py-8">
+                      <Activity className="h-12 w-12 mx-auto text-muted-foreground mb-3" />
+                      <p className="text-sm text-muted-foreground">No samples recorded for this range yet; history builds up with each sync</p>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </TabsContent>
+
         {/* Alerts Tab */}
         <TabsContent value="alerts" className="space-y-4">
           <div className="flex justify-between items-center">
@@ -872,7 +1112,7 @@ export default function VMMonitoringEnhanced() {
                             </FormControl>
                             <FormDescription>
                               How often to sync data from Zabbix (5-1440 minutes)
-                            </FormFormDescription>
+                            </FormDescription>
                             <FormMessage />
                           </FormItem>
                         )}
@@ -947,6 +1187,59 @@ export default function VMMonitoringEnhanced() {
                       />
                     </div>
 
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="metricsRawRetentionDays"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Raw History (days)</FormLabel>
+                            <FormControl>
+                              <Input type="number" min="1" {...field} />
+                            </FormControl>
+                            <FormDescription>
+                              Keep every synced sample this long
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="metricsFiveMinuteRetentionDays"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>5-Minute History (days)</FormLabel>
+                            <FormControl>
+                              <Input type="number" min="1" {...field} />
+                            </FormControl>
+                            <FormDescription>
+                              Keep 5-minute averages this long
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="metricsHourlyRetentionDays"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Hourly History (days)</FormLabel>
+                            <FormControl>
+                              <Input type="number" min="1" {...field} />
+                            </FormControl>
+                            <FormDescription>
+                              Keep hourly averages this long
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+
                     <div className="space-y-4">
                       <FormField
                         control={form.control}
@@ -1023,6 +1316,57 @@ export default function VMMonitoringEnhanced() {
               </CardContent>
             </Card>
 
+          <Card>
+            <CardHeader>
+              <CardTitle>Sync History</CardTitle>
+              <CardDescription>
+                {syncStatus?.autoSync
+                  ? `Syncing automatically every ${syncStatus.intervalMinutes} minutes`
+                  : "Automatic sync is off; hosts update only when you click Sync Now"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-0">
+              {syncStatus && syncStatus.runs.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Started</TableHead>
+                      <TableHead>Trigger</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Hosts Seen</TableHead>
+                      <TableHead>Updated</TableHead>
+                      <TableHead>Unchanged</TableHead>
+                      <TableHead>Duration</TableHead>
+                      <TableHead>Errors</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {syncStatus.runs.map(run => (
+                      <TableRow key={run.id}>
+                        <TableCell>{new Date(run.startedAt).toLocaleString()}</TableCell>
+                        <TableCell className="capitalize">{run.trigger}</TableCell>
+                        <TableCell>{getSyncRunBadge(run.status)}</TableCell>
+                        <TableCell>{run.hostsSeen ?? 0}</TableCell>
+                        <TableCell>{run.hostsUpdated ?? 0}</TableCell>
+                        <TableCell>{run.hostsUnchanged ?? 0}</TableCell>
+                        <TableCell>{run.durationMs !== null ? `${(run.durationMs / 1000).toFixed(1)}s` : '-'}</TableCell>
+                        <TableCell className="max-w-xs">
+                          {run.errors && run.errors.length > 0 ? (
+                            <span className="text-sm text-red-500" title={run.errors.join('\n')}>
+                              {run.errors[0]}{run.errors.length > 1 && ` (+${run.errors.length - 1} more)`}
+                            </span>
+                          ) : '-'}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="text-sm text-muted-foreground text-center py-6">No syncs have run yet</p>
+              )}
+            </CardContent>
+          </Card>
+
           {hostsError && (
             <Alert variant="destructive">
               <AlertTriangle className="h-4 w-4" />
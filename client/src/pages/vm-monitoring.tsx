@@ -23,7 +23,7 @@ const zabbixSettingsSchema = z.object({
   username: z.string().min(1, { message: "Username is required" }),
   password: z.string().min(1, { message: "Password is required" }),
   autoSync: z.boolean().default(true),
-  syncInterval: z.coerce.number().min(5).max(1440).default(60),
+  syncInterval: z.coerce.number().int().min(5).max(1440).default(60),
 });
 
 const subnetSchema = z.object({
@@ -1332,7 +1332,7 @@ export default function VMMonitoringPage() {
                             />
                           </FormControl>
                           <FormDescription>
-                            Password for authentication with Zabbix
+                            Password for authentication with Zabbix. Stored encrypted; leave as is to keep the saved password.
                           </FormDescription>
                           <FormMessage />
                         </FormItem>
@@ -0,0 +1,151 @@
+import { and, eq, gte, inArray, sql } from "drizzle-orm";
+import { db } from "./db";
+import { storage } from "./storage";
+import { AccessoryStatus, accessories } from "@shared/schema";
+
+type Accessory = typeof accessories.$inferSelect;
+
+export interface AccessoryCheckoutRequest {
+  quantity?: number;
+  assignedTo?: number | null;
+  knoxId?: string | null;
+  releasedBy?: string | null;
+  notes?: string | null;
+}
+
+export interface AccessoryReturnRequest {
+  returnedTo?: string | null;
+  notes?: string | null;
+}
+
+export class AccessoryLoanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccessoryLoanError';
+  }
+}
+
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+function appendNote(existing: string | null, note?: string | null): string | null {
+  const trimmed = note?.trim();
+  if (!trimmed) return existing;
+  return existing ? `${existing}\n${trimmed}` : trimmed;
+}
+
+// Statuses an accessory can be lent from
+const LENDABLE: string[] = [AccessoryStatus.AVAILABLE, AccessoryStatus.RETURNED];
+
+// Memory storage has no transactions, so its checkouts run one at a time instead
+let pendingMemoryCheckout: Promise<unknown> = Promise.resolve();
+
+// Check the request against the stock and build the fields of the borrowed record
+function prepareLoan(accessory: Accessory, request: AccessoryCheckoutRequest) {
+  if (!LENDABLE.includes(accessory.status)) {
+    throw new AccessoryLoanError(`Accessory is ${accessory.status} and cannot be checked out`);
+  }
+
+  const knoxId = request.knoxId?.trim() || null;
+  if (!request.assignedTo && !knoxId) {
+    throw new AccessoryLoanError("A user or Knox ID is required to check out an accessory");
+  }
+
+  const quantity = request.quantity === undefined ? 1 : Number(request.quantity);
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    throw new AccessoryLoanError("Quantity must be a positive integer");
+  }
+  if (quantity > accessory.quantity) {
+    throw new AccessoryLoanError(`Only ${accessory.quantity} unit(s) of ${accessory.name} are in stock`);
+  }
+
+  return {
+    status: AccessoryStatus.BORROWED,
+    quantity,
+    assignedTo: request.assignedTo ?? null,
+    knoxId,
+    dateReleased: today(),
+    releasedBy: request.releasedBy?.trim() || null,
+    dateReturned: null,
+    returnedTo: null,
+  };
+}
+
+// Lend units of an accessory. Lending part of the stock splits the record: the remaining
+// units stay available on the original and the borrowed units get their own record
+// carrying the borrower and release details. Returns the borrowed record.
+export async function checkoutAccessory(id: number, request: AccessoryCheckoutRequest): Promise<Accessory | undefined> {
+  if (!db) {
+    const checkout = pendingMemoryCheckout.then(() => checkoutFromMemory(id, request));
+    pendingMemoryCheckout = checkout.catch(() => {});
+    return checkout;
+  }
+
+  // The stock is decremented only while it still covers the loan, so two checkouts
+  // racing for the last units cannot both succeed
+  return db.transaction(async (tx) => {
+    const [accessory] = await tx.select().from(accessories).where(eq(accessories.id, id));
+    if (!accessory) return undefined;
+
+    const loan = prepareLoan(accessory, request);
+    const lendable = and(eq(accessories.id, id), inArray(accessories.status, LENDABLE));
+
+    if (loan.quantity === accessory.quantity) {
+      const [borrowed] = await tx.update(accessories)
+        .set({ ...loan, notes: appendNote(accessory.notes, request.notes) })
+        .where(and(lendable, eq(accessories.quantity, loan.quantity)))
+        .returning();
+      if (!borrowed) throw stockChanged(accessory);
+      return borrowed;
+    }
+
+    const [remaining] = await tx.update(accessories)
+      .set({ quantity: sql`${accessories.quantity} - ${loan.quantity}` })
+      .where(and(lendable, gte(accessories.quantity, loan.quantity)))
+      .returning();
+    if (!remaining) throw stockChanged(accessory);
+
+    const { id: _id, ...details } = accessory;
+    const [borrowed] = await tx.insert(accessories)
+      .values({ ...details, ...loan, notes: request.notes?.trim() || null })
+      .returning();
+    return borrowed;
+  });
+}
+
+function stockChanged(accessory: Accessory): AccessoryLoanError {
+  return new AccessoryLoanError(`The stock of ${accessory.name} changed during checkout; reload and try again`);
+}
+
+async function checkoutFromMemory(id: number, request: AccessoryCheckoutRequest): Promise<Accessory | undefined> {
+  const accessory = await storage.getAccessory(id);
+  if (!accessory) return undefined;
+
+  const loan = prepareLoan(accessory, request);
+  if (loan.quantity === accessory.quantity) {
+    return storage.updateAccessory(id, { ...loan, notes: appendNote(accessory.notes, request.notes) });
+  }
+
+  await storage.updateAccessory(id, { quantity: accessory.quantity - loan.quantity });
+  const { id: _id, ...details } = accessory;
+  return storage.createAccessory({ ...details, ...loan, notes: request.notes?.trim() || null });
+}
+
+// Take a borrowed accessory back into stock, recording who received it and when
+export async function returnAccessory(id: number, request: AccessoryReturnRequest): Promise<Accessory | undefined> {
+  const accessory = await storage.getAccessory(id);
+  if (!accessory) return undefined;
+
+  if (accessory.status !== AccessoryStatus.BORROWED) {
+    throw new AccessoryLoanError("Only borrowed accessories can be returned");
+  }
+
+  return storage.updateAccessory(id, {
+    status: AccessoryStatus.RETURNED,
+    assignedTo: null,
+    dateReturned: today(),
+    returnedTo: request.returnedTo?.trim() || null,
+    notes: appendNote(accessory.notes, request.notes),
+  });
+}
@@ -0,0 +1,246 @@
+import { and, desc, eq, isNull } from "drizzle-orm";
+import { db } from "./db";
+import * as schema from "@shared/schema";
+import { broadcast } from "./realtime";
+import { resolveDatasource, queryDatasource, parseTimeRange } from "./monitoring-datasources";
+import { startIntervalJob, stopIntervalJob } from "./job-scheduler";
+
+type AlertRule = typeof schema.monitoringAlertRules.$inferSelect;
+type MonitoringAlert = typeof schema.monitoringAlerts.$inferSelect;
+export type AlertState = 'normal' | 'pending' | 'firing';
+
+export interface AlertTransition {
+  rule: AlertRule;
+  from: AlertState;
+  to: AlertState;
+  value: number | null;
+  timestamp: string;
+}
+
+const EVALUATOR_JOB = 'Alert evaluator tick';
+// How often the worker looks for rules whose evaluationInterval has elapsed
+const TICK_INTERVAL_MS = 15 * 1000;
+
+// When each rule started breaching; a restart re-arms pending rules from "now"
+const pendingSince = new Map<number, number>();
+
+type TransitionListener = (transition: AlertTransition) => Promise<void> | void;
+const transitionListeners: TransitionListener[] = [];
+
+// Lets other modules (e.g. notification delivery) react to state changes
+export function onAlertTransition(listener: TransitionListener) {
+  transitionListeners.push(listener);
+}
+
+export function isBreaching(condition: string, value: number, threshold: number): boolean {
+  switch (condition) {
+    case 'gt': return value > threshold;
+    case 'gte': return value >= threshold;
+    case 'lt': return value < threshold;
+    case 'lte': return value <= threshold;
+    case 'eq': return value === threshold;
+    case 'ne': return value !== threshold;
+    default:
+      throw new Error(`Unknown alert condition "${condition}"`);
+  }
+}
+
+// normal -> pending -> firing, held in pending for forDuration seconds
+export function nextAlertState(
+  current: AlertState,
+  breaching: boolean,
+  breachingForMs: number,
+  forDurationSeconds: number
+): AlertState {
+  if (!breaching) return 'normal';
+  if (breachingForMs >= forDurationSeconds * 1000) return 'firing';
+  return current === 'firing' ? 'firing' : 'pending';
+}
+
+// Latest value of every series the query returns; the rule breaches if any series does
+async function sampleRule(rule: AlertRule): Promise<number[]> {
+  const lookbackSeconds = Math.max((rule.evaluationInterval || 60) * 2, 300);
+  const datasource = await resolveDatasource(rule.datasource);
+  const points = await queryDatasource(datasource, rule.query, parseTimeRange(`${lookbackSeconds}s`));
+
+  const latest = new Map<string, { timestamp: string; value: number }>();
+  for (const point of points) {
+    if (isNaN(point.value)) continue;
+    const key = point.metric || '';
+    const current = latest.get(key);
+    if (!current || point.timestamp >= current.timestamp) {
+      latest.set(key, { timestamp: point.timestamp, value: point.value });
+    }
+  }
+  return Array.from(latest.values()).map(p => p.value);
+}
+
+function describeTransition(rule: AlertRule, to: AlertState, value: number | null): string {
+  const observed = value === null ? 'no data' : `value ${value}`;
+  switch (to) {
+    case 'pending':
+      return `[${rule.severity}] ${rule.name} is pending: ${observed} ${rule.condition} ${rule.threshold}`;
+    case 'firing':
+      return `[${rule.severity}] ${rule.name} is firing: ${observed} ${rule.condition} ${rule.threshold} for ${rule.forDuration}s`;
+    default:
+      return `[${rule.severity}] ${rule.name} resolved: ${observed}`;
+  }
+}
+
+// Rules store their channels as a JSON array of channel strings
+export function parseRuleChannels(value: string | null): string[] {
+  if (!value) return [];
+  try {
+    const channels = JSON.parse(value);
+    return Array.isArray(channels) ? channels.filter(c => typeof c === 'string' && c.trim()) : [];
+  } catch {
+    return [];
+  }
+}
+
+// A firing rule gets an open monitoring_alerts row; resolving closes it, so the rows form the alert history
+async function recordAlertHistory({ rule, from, to, value, timestamp }: AlertTransition) {
+  if (to === 'firing') {
+    await db!.insert(schema.monitoringAlerts).values({
+      ruleId: rule.id,
+      name: rule.name,
+      datasource: rule.datasource,
+      query: rule.query,
+      condition: rule.condition,
+      threshold: rule.threshold,
+      evaluationInterval: rule.evaluationInterval,
+      forDuration: rule.forDuration,
+      severity: rule.severity,
+      enabled: rule.enabled,
+      notificationChannels: parseRuleChannels(rule.notificationChannels),
+      annotations: rule.annotations,
+      labels: rule.labels,
+      state: 'firing',
+      lastEvaluation: timestamp,
+      value,
+      firedAt: timestamp,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    });
+  } else if (from === 'firing') {
+    await db!.update(schema.monitoringAlerts)
+      .set({ state: 'normal', lastEvaluation: timestamp, value, resolvedAt: timestamp, updatedAt: timestamp })
+      .where(and(eq(schema.monitoringAlerts.ruleId, rule.id), isNull(schema.monitoringAlerts.resolvedAt)));
+  }
+}
+
+export async function getAlertHistory(limit: number = 100): Promise<MonitoringAlert[]> {
+  if (!db) return [];
+  return db.select().from(schema.monitoringAlerts)
+    .orderBy(desc(schema.monitoringAlerts.id))
+    .limit(limit);
+}
+
+async function recordTransition(transition: AlertTransition) {
+  const { rule, from, to, value, timestamp } = transition;
+  const message = describeTransition(rule, to, value);
+
+  await recordAlertHistory(transition);
+  await db!.insert(schema.monitoringNotifications).values({
+    alertId: rule.id,
+    type: 'websocket',
+    recipient: '/ws',
+    message,
+    status: 'sent',
+    sentAt: timestamp,
+    createdAt: timestamp,
+  });
+
+  broadcast('monitoring-alert:state', {
+    ruleId: rule.id,
+    name: rule.name,
+    severity: rule.severity,
+    from,
+    to,
+    value,
+    message,
+    timestamp,
+  });
+
+  console.log(`🔔 Alert rule "${rule.name}" ${from} → ${to}`);
+
+  for (const listener of transitionListeners) {
+    try {
+      await listener(transition);
+    } catch (error) {
+      console.error(`Alert transition listener failed for rule ${rule.id}:`, error);
+    }
+  }
+}
+
+export async function evaluateRule(rule: AlertRule, now: Date = new Date()) {
+  const timestamp = now.toISOString();
+  const current = (rule.state || 'normal') as AlertState;
+
+  let values: number[];
+  try {
+    values = await sampleRule(rule);
+  } catch (error: any) {
+    // Leave the state alone on query errors so a flaky datasource does not resolve alerts
+    await db!.update(schema.monitoringAlertRules)
+      .set({ lastEvaluation: timestamp, error: error.message, updatedAt: timestamp })
+      .where(eq(schema.monitoringAlertRules.id, rule.id));
+    return;
+  }
+
+  const breachingValues = values.filter(v => isBreaching(rule.condition, v, rule.threshold));
+  const breaching = breachingValues.length > 0;
+
+  if (breaching && !pendingSince.has(rule.id)) {
+    pendingSince.set(rule.id, now.getTime());
+  } else if (!breaching) {
+    pendingSince.delete(rule.id);
+  }
+
+  const breachingForMs = breaching ? now.getTime() - pendingSince.get(rule.id)! : 0;
+  const next = nextAlertState(current, breaching, breachingForMs, rule.forDuration ?? 0);
+  const value = breaching ? breachingValues[0] : (values[0] ?? null);
+
+  await db!.update(schema.monitoringAlertRules)
+    .set({ state: next, lastEvaluation: timestamp, error: null, updatedAt: timestamp })
+    .where(eq(schema.monitoringAlertRules.id, rule.id));
+
+  if (next !== current) {
+    await recordTransition({ rule: { ...rule, state: next }, from: current, to: next, value, timestamp });
+  }
+}
+
+function isDue(rule: AlertRule, now: number): boolean {
+  if (!rule.lastEvaluation) return true;
+  const last = new Date(rule.lastEvaluation).getTime();
+  return isNaN(last) || now - last >= (rule.evaluationInterval || 60) * 1000;
+}
+
+async function evaluateDueRules() {
+  if (!db) return;
+
+  const rules = await db.select().from(schema.monitoringAlertRules)
+    .where(eq(schema.monitoringAlertRules.enabled, true));
+  const now = Date.now();
+
+  for (const rule of rules) {
+    if (!isDue(rule, now)) continue;
+    try {
+      await evaluateRule(rule);
+    } catch (error) {
+      console.error(`Failed to evaluate alert rule ${rule.id}:`, error);
+    }
+  }
+}
+
+export function startAlertEvaluator() {
+  if (!db) return;
+
+  if (startIntervalJob({ name: EVALUATOR_JOB, intervalMs: TICK_INTERVAL_MS, run: evaluateDueRules })) {
+    console.log(`🔔 Alert rule evaluator started (checking every ${TICK_INTERVAL_MS / 1000}s)`);
+  }
+}
+
+export function stopAlertEvaluator() {
+  stopIntervalJob(EVALUATOR_JOB);
+}
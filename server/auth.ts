@@ -1,97 +1,189 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express, Request, Response, NextFunction } from "express";
+import { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import type { IncomingMessage } from "http";
 import session from "express-session";
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
-import { promisify } from "util";
 import { storage } from "./storage";
 import { User as UserType } from "@shared/schema";
-import connectPgSimple from 'connect-pg-simple';
-import { pool } from "./db";
-import createMemoryStore from 'memorystore';
+import { createSessionStore, recordSessionClient, touchSessionClient, revokeUserSessions } from "./session-store";
+import {
+  hashPassword, verifyPassword, assertPasswordAllowed, getPasswordPolicy, isPasswordExpired, PasswordPolicyError
+} from "./password-policy";
+import { markGuard } from "./route-guards";
+import { getLoginLockout, recordFailedLogin, clearFailedLogins, describeLockout, type LoginLockout } from "./login-guard";
 
 declare global {
   namespace Express {
     // Use UserType to avoid recursive type reference
-    interface User extends UserType {}
+    interface User extends UserType {
+      // Set on every request by deserializeUser from systemSettings.passwordExpiryDays
+      passwordExpired?: boolean;
+    }
   }
 }
 
-const scryptAsync = promisify(scrypt);
+// Requests a user with an expired password may still make, so they can rotate it or sign out
+const PASSWORD_EXPIRED_ALLOWED_PATHS = new Set(['/user', '/me', '/logout', '/login', '/user/password', '/profile/password', '/password-policy']);
+
+// Checked for unknown usernames so a failed login costs the same scrypt run whether or not the account exists
+const UNKNOWN_USER_PASSWORD_HASH = `${'0'.repeat(128)}.${'0'.repeat(32)}`;
+
+// Passed to passport as the failure info so /api/login can answer 423 instead of 401
+function lockoutInfo(lockout: LoginLockout) {
+  return { message: describeLockout(lockout), lockedUntil: lockout.lockedUntil.toISOString() };
+}
 
-async function hashPassword(password: string) {
-  const salt = randomBytes(16).toString("hex");
-  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
-  return `${buf.toString("hex")}.${salt}`;
+function sendPasswordPolicyError(res: Response, error: PasswordPolicyError) {
+  return res.status(400).json({ message: error.message, violations: error.violations });
 }
 
-async function comparePasswords(supplied: string, stored: string) {
-  // Make sure we have a valid stored password with both hash and salt
-  if (!stored || !stored.includes(".")) {
-    return false;
+// Kept so WebSocket upgrades, which bypass express, can read the same session cookie
+let sessionParser: RequestHandler | null = null;
+
+// Run the session and passport middleware on a raw upgrade request; null unless it carries a
+// signed-in session whose password has not expired
+export async function authenticateUpgrade(req: IncomingMessage): Promise<{ id: number; sessionId: string } | null> {
+  if (!sessionParser) return null;
+
+  const request = req as Request;
+  const response = {} as Response;
+  for (const middleware of [sessionParser, passport.initialize(), passport.session()]) {
+    await new Promise<void>((resolve, reject) =>
+      middleware(request, response, (error?: unknown) => error ? reject(error) : resolve()));
   }
+  const user = request.user as UserType | undefined;
+  if (!user || user.passwordExpired) return null;
+  return { id: user.id, sessionId: request.sessionID };
+}
 
-  const [hashed, salt] = stored.split(".");
-  if (!hashed || !salt) {
-    return false;
+// Shared by POST /api/user/password and the profile page's POST /api/profile/password
+export async function changeOwnPassword(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Not authenticated" });
   }
 
-  const hashedBuf = Buffer.from(hashed, "hex");
-  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
-  return timingSafeEqual(hashedBuf, suppliedBuf);
+  try {
+    const { currentPassword, newPassword } = req.body || {};
+    const user = await storage.getUser(req.user.id);
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const { valid } = await verifyPassword(String(currentPassword ?? ''), user.password);
+    if (!valid) {
+      return res.status(400).json({ message: "Current password is incorrect" });
+    }
+    if (currentPassword === newPassword) {
+      return res.status(400).json({ message: "The new password must be different from the current one" });
+    }
+    await assertPasswordAllowed(newPassword);
+
+    await storage.updateUser(user.id, {
+      password: await hashPassword(newPassword),
+      passwordChangedAt: new Date().toISOString(),
+    });
+    // Other sign-ins may have been made with the old password
+    const revoked = await revokeUserSessions(user.id, req.sessionID);
+    await storage.createActivity({
+      action: "update",
+      itemType: "user",
+      itemId: user.id,
+      userId: user.id,
+      timestamp: new Date().toISOString(),
+      notes: `User ${user.username} changed their password` + (revoked > 0 ? ` (${revoked} other session(s) signed out)` : ''),
+    });
+
+    res.json({ message: "Password changed successfully" });
+  } catch (error) {
+    if (error instanceof PasswordPolicyError) {
+      return sendPasswordPolicyError(res, error);
+    }
+    next(error);
+  }
 }
 
 export function setupAuth(app: Express) {
-  // Use in-memory session store for better Windows compatibility
-  const MemoryStore = createMemoryStore(session);
-
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET || 'srph-mis-default-secret-key',
     resave: false,
     saveUninitialized: false,
-    store: new MemoryStore({
-      checkPeriod: 86400000 // prune expired entries every 24h
-    }),
+    store: createSessionStore(),
     cookie: {
       maxAge: 30 * 24 * 60 * 60 * 1000 // 30 days
     }
   };
 
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  sessionParser = session(sessionSettings);
+  app.use(sessionParser);
   app.use(passport.initialize());
   app.use(passport.session());
 
+  // Keep lastSeenAt current for the admin sessions page
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    if (req.isAuthenticated()) {
+      touchSessionClient(req);
+    }
+    next();
+  });
+
+  // Once a password passes passwordExpiryDays the session can only be used to change it
+  app.use("/api", (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated() || !req.user.passwordExpired || PASSWORD_EXPIRED_ALLOWED_PATHS.has(req.path)) {
+      return next();
+    }
+    res.status(403).json({ message: "Your password has expired and must be changed", code: "PASSWORD_EXPIRED" });
+  });
+
   passport.use(
-    new LocalStrategy(async (username, password, done) => {
+    new LocalStrategy({ passReqToCallback: true }, async (req, username, password, done) => {
       try {
-        console.log(`Login attempt for username: ${username}`);
-        const user = await storage.getUserByUsername(username);
+        const ip = req.ip || req.socket.remoteAddress || 'unknown';
+        const policy = await getPasswordPolicy();
 
-        if (!user) {
-          console.log(`User not found: ${username}`);
-          return done(null, false);
+        const lockout = getLoginLockout(username, ip, policy);
+        if (lockout) {
+          console.log(`🔒 Login blocked for ${username} from ${ip} (${lockout.scope} locked until ${lockout.lockedUntil.toISOString()})`);
+          return done(null, false, lockoutInfo(lockout));
         }
 
-        console.log(`User found: ${user.username}, password type: ${user.password?.includes('.') ? 'hashed' : 'plain'}`);
-        
-        // For simplicity in development, if no password hashing is set up yet,
-        // allow login with plain text password comparison
-        // In production, you would always use proper password hashing
-
-        // Check if password is already hashed (contains a dot separator)
-        if (user.password && user.password.includes(".")) {
-          const isValid = await comparePasswords(password, user.password);
-          if (!isValid) {
+        console.log(`Login attempt for username: ${username}`);
+        const user = await storage.getUserByUsername(username);
+        const { valid, needsRehash } = await verifyPassword(password, user ? user.password : UNKNOWN_USER_PASSWORD_HASH);
+
+        if (!user || !valid) {
+          const triggered = recordFailedLogin(username, ip, policy);
+          if (!triggered) {
             return done(null, false);
           }
-        } 
-        // For plain text passwords (during development/testing only)
-        else {
-          // Direct comparison for plain text passwords
-          if (user.password !== password) {
-            return done(null, false);
+
+          console.log(`🔒 ${triggered.scope === 'account' ? `Account ${username}` : `Address ${ip}`} locked after repeated failed logins`);
+          if (user && triggered.scope === 'account') {
+            await storage.createActivity({
+              action: "locked",
+              itemType: "user",
+              itemId: user.id,
+              userId: user.id,
+              timestamp: new Date().toISOString(),
+              notes: `Account ${user.username} locked until ${triggered.lockedUntil.toISOString()} after ${policy.maxLoginAttempts} failed logins (last from ${ip})`,
+            });
           }
+          return done(null, false, lockoutInfo(triggered));
+        }
+
+        clearFailedLogins(username);
+
+        // Replace legacy plain-text passwords with a hash now that we know the password
+        const updates: Record<string, any> = {};
+        if (needsRehash) {
+          updates.password = await hashPassword(password);
+          console.log(`🔐 Rehashed plain-text password for user ${user.username}`);
+        }
+        if (!user.passwordChangedAt) {
+          updates.passwordChangedAt = new Date().toISOString();
+        }
+        if (Object.keys(updates).length > 0) {
+          return done(null, await storage.updateUser(user.id, updates) || user);
         }
 
         return done(null, user);
@@ -111,6 +203,8 @@ export function setupAuth(app: Express) {
         return done(null, false);
       }
       
+      user.passwordExpired = isPasswordExpired(user.passwordChangedAt, await getPasswordPolicy());
+
       // Ensure admin flag is properly set and permissions are loaded
       console.log(`Deserializing user ${user.username} with admin status: ${user.isAdmin}, roleId: ${user.roleId}`);
       
@@ -134,12 +228,17 @@ export function setupAuth(app: Express) {
           vmMonitoring: { view: true, edit: true, add: true, delete: true },
           networkDiscovery: { view: true, edit: true, add: true, delete: true },
           bitlockerKeys: { view: true, edit: true, add: true, delete: true },
+          vmInventory: { view: true, edit: true, add: true, delete: true },
+          iamAccounts: { view: true, edit: true, add: true, delete: true },
+          itEquipment: { view: true, edit: true, add: true, delete: true },
+          monitorInventory: { view: true, edit: true, add: true, delete: true },
+          database: { view: true, edit: true, add: true, delete: true },
           admin: { view: true, edit: true, add: true, delete: true }
         };
         console.log(`Admin permissions loaded for user ${user.username}`);
       } else {
         // Load permissions based on role or use defaults
-        const rolePermissions = getPermissionsForRole(user.roleId);
+        const rolePermissions = await getPermissionsForRole(user.roleId);
         user.permissions = rolePermissions;
         console.log(`Role permissions loaded for user ${user.username} (roleId: ${user.roleId}):`, JSON.stringify(rolePermissions, null, 2));
       }
@@ -159,6 +258,8 @@ export function setupAuth(app: Express) {
         return res.status(400).json({ message: "Username already exists" });
       }
 
+      await assertPasswordAllowed(req.body.password);
+
       // Force consistent data format
       const userData = {
         username: req.body.username,
@@ -167,7 +268,8 @@ export function setupAuth(app: Express) {
         email: req.body.email,
         department: req.body.department || null,
         password: req.body.password, // Will be hashed below
-        isAdmin: req.body.isAdmin || false
+        isAdmin: req.body.isAdmin || false,
+        passwordChangedAt: new Date().toISOString()
       };
 
       // Hash the password
@@ -177,30 +279,38 @@ export function setupAuth(app: Express) {
 
       req.login(user, (err) => {
         if (err) return next(err);
+        recordSessionClient(req);
         res.status(201).json(user);
       });
     } catch (error) {
+      if (error instanceof PasswordPolicyError) {
+        return sendPasswordPolicyError(res, error);
+      }
       next(error);
     }
   });
 
   // Login
   app.post("/api/login", (req: Request, res: Response, next: NextFunction) => {
-    passport.authenticate("local", (err: Error, user: UserType) => {
+    passport.authenticate("local", (err: Error, user: UserType, info?: { message?: string; lockedUntil?: string }) => {
       if (err) {
         return next(err);
       }
       if (!user) {
+        if (info?.lockedUntil) {
+          return res.status(423).json({ message: info.message, lockedUntil: info.lockedUntil });
+        }
         return res.status(401).json({ message: "Invalid username or password" });
       }
       
       // Ensure user object has all required fields
       console.log(`Login successful for user: ${user.username}, admin: ${user.isAdmin}`);
       
-      req.login(user, (loginErr) => {
+      req.login(user, async (loginErr) => {
         if (loginErr) {
           return next(loginErr);
         }
+        recordSessionClient(req);
         
         // Return the full user object with admin status
         return res.status(200).json({
@@ -210,12 +320,26 @@ export function setupAuth(app: Express) {
           lastName: user.lastName,
           email: user.email,
           department: user.department,
-          isAdmin: user.isAdmin
+          isAdmin: user.isAdmin,
+          passwordExpired: isPasswordExpired(user.passwordChangedAt, await getPasswordPolicy())
         });
       });
     })(req, res, next);
   });
 
+  // Password rules for the registration and change-password forms
+  app.get("/api/password-policy", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { minLength, requireUppercase, requireNumber, requireSpecialChar, expiryDays } = await getPasswordPolicy();
+      res.json({ minLength, requireUppercase, requireNumber, requireSpecialChar, expiryDays });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Change the signed-in user's password; also the way out of an expired password
+  app.post("/api/user/password", changeOwnPassword);
+
   // Logout
   app.post("/api/logout", (req: Request, res: Response, next: NextFunction) => {
     req.logout((err) => {
@@ -240,6 +364,14 @@ export function setupAuth(app: Express) {
     res.json(req.user);
   });
 
+  // Setup steps after the first admin account exists are for administrators only
+  const requireSetupAdmin = markGuard((req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated() || !req.user.isAdmin) {
+      return res.status(403).json({ message: "Only administrators can perform database setup" });
+    }
+    next();
+  }, 'admin');
+
   // Setup endpoints
   app.post("/api/setup/admin", async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -248,6 +380,7 @@ export function setupAuth(app: Express) {
       if (users.length > 0) {
         return res.status(400).json({ message: "Setup has already been completed" });
       }
+      await assertPasswordAllowed(req.body.password);
 
       // Force consistent data format
       const userData = {
@@ -257,7 +390,8 @@ export function setupAuth(app: Express) {
         email: req.body.email,
         department: req.body.department || null,
         password: req.body.password, // Will be hashed below
-        isAdmin: true
+        isAdmin: true,
+        passwordChangedAt: new Date().toISOString()
       };
 
       // Hash the password
@@ -268,22 +402,21 @@ export function setupAuth(app: Express) {
       // Auto-login the admin user
       req.login(adminUser, (err) => {
         if (err) return next(err);
+        recordSessionClient(req);
         res.status(201).json({ message: "Admin account created successfully", user: adminUser });
       });
     } catch (error) {
+      if (error instanceof PasswordPolicyError) {
+        return sendPasswordPolicyError(res, error);
+      }
       next(error);
     }
   });
 
-  app.post("/api/setup/database", async (req: Request, res: Response, next: NextFunction) => {
+  app.post("/api/setup/database", requireSetupAdmin, async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { importDemoData, customSqlScript } = req.body;
 
-      // Check if user is authenticated and is admin
-      if (!req.isAuthenticated() || !req.user.isAdmin) {
-        return res.status(403).json({ message: "Only administrators can perform database setup" });
-      }
-
       // Execute custom SQL if provided
       if (customSqlScript) {
         try {
@@ -493,7 +626,7 @@ export function setupAuth(app: Express) {
             action: "create",
             itemType: "system",
             itemId: 0,
-            userId: req.user.id,
+            userId: req.user!.id,
             timestamp: new Date().toISOString(),
             notes: "Demo data imported during system setup"
           });
@@ -544,10 +677,9 @@ export function setupAuth(app: Express) {
   });
 
   // Setup reset endpoint
-  app.post("/api/setup/reset", async (req: Request, res: Response) => {
+  app.post("/api/setup/reset", requireSetupAdmin, async (req: Request, res: Response) => {
     try {
       // This endpoint allows resetting the setup status
-      // In a production environment, you might want to add authentication
       res.json({
         success: true,
         message: "Setup status reset. You can now access the setup page."
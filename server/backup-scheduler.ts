@@ -0,0 +1,157 @@
+import { storage } from "./storage";
+import { BackupError, createBackup, currentBackupOperation, newBackupId, pruneBackups } from "./backup-store";
+import type { BackupRun } from "@shared/schema";
+
+export type BackupFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface BackupSchedule {
+  automaticBackups: boolean;
+  backupFrequency: BackupFrequency;
+  backupTime: string;
+  backupRetention: number;
+}
+
+// setTimeout cannot wait longer than ~24.8 days, so long waits are re-armed daily
+const MAX_TIMER_DELAY_MS = 24 * 60 * 60 * 1000;
+
+let backupTimer: NodeJS.Timeout | null = null;
+let nextBackupRun: Date | null = null;
+
+export function getNextBackupRun(): Date | null {
+  return nextBackupRun;
+}
+
+export async function getBackupSchedule(): Promise<BackupSchedule> {
+  const settings = await storage.getSystemSettings() || {};
+  const frequency = ['daily', 'weekly', 'monthly'].includes(settings.backupFrequency) ? settings.backupFrequency : 'daily';
+
+  return {
+    automaticBackups: !!settings.automaticBackups,
+    backupFrequency: frequency,
+    backupTime: /^\d{1,2}:\d{2}$/.test(settings.backupTime || '') ? settings.backupTime : '00:00',
+    backupRetention: typeof settings.backupRetention === 'number' ? settings.backupRetention : 30,
+  };
+}
+
+// Next local time matching the schedule: daily, Sundays for weekly, the 1st for monthly
+export function computeNextBackupRun(schedule: BackupSchedule, from: Date = new Date()): Date {
+  const [hours, minutes] = schedule.backupTime.split(':').map(Number);
+  const next = new Date(from);
+  next.setHours(hours, minutes, 0, 0);
+
+  if (schedule.backupFrequency === 'weekly') {
+    next.setDate(next.getDate() - next.getDay());
+    if (next <= from) next.setDate(next.getDate() + 7);
+  } else if (schedule.backupFrequency === 'monthly') {
+    next.setDate(1);
+    if (next <= from) next.setMonth(next.getMonth() + 1);
+  } else if (next <= from) {
+    next.setDate(next.getDate() + 1);
+  }
+
+  return next;
+}
+
+// Run one backup, recording its outcome in backup_runs (filename holds the backup ID)
+export async function runBackup(
+  trigger: 'scheduled' | 'manual',
+  options: { tables?: string[]; userId?: number | null } = {}
+): Promise<BackupRun> {
+  const operation = currentBackupOperation();
+  if (operation) {
+    throw new BackupError(`A ${operation} is already in progress`, 409);
+  }
+
+  const startedAt = new Date();
+  const run = await storage.createBackupRun({ trigger, status: 'running', startedAt });
+
+  try {
+    const backup = await createBackup({
+      id: newBackupId(trigger === 'scheduled' ? 'scheduled' : 'backup'),
+      tables: options.tables,
+    });
+
+    let prunedCount = 0;
+    if (trigger === 'scheduled') {
+      const schedule = await getBackupSchedule();
+      prunedCount = pruneBackups(schedule.backupRetention);
+    }
+
+    const completedRun = await storage.updateBackupRun(run.id, {
+      status: 'success',
+      filename: backup.id,
+      sizeBytes: backup.sizeBytes,
+      durationMs: Date.now() - startedAt.getTime(),
+      prunedCount,
+      completedAt: new Date(),
+    });
+
+    await storage.createActivity({
+      action: "backup",
+      itemType: "database",
+      itemId: 1,
+      userId: options.userId ?? null,
+      timestamp: new Date().toISOString(),
+      notes: `${trigger === 'scheduled' ? 'Scheduled' : 'Manual'} database backup created: ${backup.id}`,
+    });
+
+    console.log(`✅ ${trigger} backup ${backup.id} completed (${backup.sizeBytes} bytes)`);
+    return completedRun || run;
+  } catch (error: any) {
+    console.error(`❌ ${trigger} backup failed:`, error);
+    await storage.updateBackupRun(run.id, {
+      status: 'failed',
+      error: error.message,
+      durationMs: Date.now() - startedAt.getTime(),
+      completedAt: new Date(),
+    });
+    throw error;
+  }
+}
+
+function armTimer() {
+  if (!nextBackupRun) return;
+
+  const delay = Math.max(0, nextBackupRun.getTime() - Date.now());
+  backupTimer = setTimeout(async () => {
+    backupTimer = null;
+
+    if (nextBackupRun && Date.now() >= nextBackupRun.getTime()) {
+      try {
+        await runBackup('scheduled');
+      } catch {
+        // Already recorded as a failed run
+      }
+      await rescheduleBackups();
+    } else {
+      armTimer();
+    }
+  }, Math.min(delay, MAX_TIMER_DELAY_MS));
+  backupTimer.unref();
+}
+
+// Re-read the schedule from systemSettings and arm the timer for the next run
+export async function rescheduleBackups(): Promise<Date | null> {
+  if (backupTimer) {
+    clearTimeout(backupTimer);
+    backupTimer = null;
+  }
+
+  try {
+    const schedule = await getBackupSchedule();
+    nextBackupRun = schedule.automaticBackups ? computeNextBackupRun(schedule) : null;
+  } catch (error) {
+    console.error('Failed to load backup schedule:', error);
+    nextBackupRun = null;
+  }
+
+  if (nextBackupRun) {
+    console.log(`⏰ Next scheduled backup at ${nextBackupRun.toISOString()}`);
+    armTimer();
+  }
+  return nextBackupRun;
+}
+
+export async function startBackupScheduler() {
+  await rescheduleBackups();
+}
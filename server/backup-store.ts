@@ -0,0 +1,451 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { once } from 'events';
+import { createHash } from 'crypto';
+import type { PoolClient } from 'pg';
+import { pool } from "./db";
+
+// Backups live only here and are addressed by ID; request data never becomes a path or a command.
+// Each backup is <id>.ndjson (one JSON line per row, produced by row_to_json) plus <id>.manifest.json.
+export const BACKUP_DIR = path.join(process.cwd(), 'backups');
+
+const DUMP_FORMAT = 'srph-mis-backup/1';
+const BACKUP_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,127}$/;
+const FETCH_SIZE = 500;
+// Sessions and the backup history describe the running system, so a restore leaves them alone
+const SKIPPED_TABLES = new Set(['sessions', 'backup_runs']);
+// Append-only audit tables are backed up for the record, but a restore never replaces them
+const RESTORE_EXCLUDED_TABLES = new Set(['bitlocker_key_access_log']);
+
+export interface BackupManifest {
+  id: string;
+  format: string;
+  createdAt: string;
+  // Fingerprint of the backed-up tables' columns; a restore needs the same schema
+  schemaVersion: string;
+  // Row count per table, in restore order
+  tables: Record<string, number>;
+  // SHA-256 of the .ndjson file
+  checksum: string;
+  sizeBytes: number;
+}
+
+export interface RestoreTableReport {
+  table: string;
+  currentRows: number;
+  backupRows: number;
+  // Dry runs also compare contents; a changed table differs in row count or checksum
+  currentChecksum?: string;
+  backupChecksum?: string;
+  changed?: boolean;
+}
+
+export interface RestoreReport {
+  id: string;
+  dryRun: boolean;
+  schemaVersion: string;
+  tables: RestoreTableReport[];
+  durationMs: number;
+}
+
+export class BackupError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+// One backup or restore at a time, whether started by a user or by the scheduler
+let operationInProgress: string | null = null;
+
+export function currentBackupOperation(): string | null {
+  return operationInProgress;
+}
+
+async function exclusive<T>(operation: string, run: () => Promise<T>): Promise<T> {
+  if (operationInProgress) {
+    throw new BackupError(`A ${operationInProgress} is already in progress`, 409);
+  }
+  operationInProgress = operation;
+  try {
+    return await run();
+  } finally {
+    operationInProgress = null;
+  }
+}
+
+export function newBackupId(prefix: 'backup' | 'scheduled' = 'backup'): string {
+  return `${prefix}-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+}
+
+function backupFiles(id: string) {
+  if (!BACKUP_ID_PATTERN.test(id)) {
+    throw new BackupError("Invalid backup ID");
+  }
+  return {
+    dump: path.join(BACKUP_DIR, `${id}.ndjson`),
+    manifest: path.join(BACKUP_DIR, `${id}.manifest.json`),
+  };
+}
+
+const quoteIdent = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+function requirePool() {
+  if (!pool) {
+    throw new BackupError("Database connection required", 503);
+  }
+  return pool;
+}
+
+// Tables ordered so that referenced tables come before the tables that reference them
+async function listTablesInDependencyOrder(client: PoolClient): Promise<string[]> {
+  const { rows: tables } = await client.query<{ name: string }>(
+    `SELECT table_name AS name FROM information_schema.tables
+     WHERE table_schema = 'public' AND table_type = 'BASE TABLE' ORDER BY table_name`
+  );
+  const { rows: references } = await client.query<{ child: string; parent: string }>(
+    `SELECT child.relname AS child, parent.relname AS parent
+     FROM pg_constraint c
+     JOIN pg_class child ON child.oid = c.conrelid
+     JOIN pg_class parent ON parent.oid = c.confrelid
+     JOIN pg_namespace n ON n.oid = child.relnamespace
+     WHERE c.contype = 'f' AND n.nspname = 'public' AND child.oid <> parent.oid`
+  );
+
+  const ordered: string[] = [];
+  const visiting = new Set<string>();
+  const visit = (table: string) => {
+    if (ordered.includes(table) || visiting.has(table)) return;
+    visiting.add(table);
+    references.filter(ref => ref.child === table).forEach(ref => visit(ref.parent));
+    visiting.delete(table);
+    ordered.push(table);
+  };
+  tables.map(table => table.name).filter(name => !SKIPPED_TABLES.has(name)).forEach(visit);
+  return ordered.filter(name => !SKIPPED_TABLES.has(name));
+}
+
+async function schemaFingerprint(client: PoolClient, tables: string[]): Promise<string> {
+  const { rows } = await client.query<{ column: string }>(
+    `SELECT table_name || '.' || column_name || ':' || data_type AS column
+     FROM information_schema.columns
+     WHERE table_schema = 'public' AND table_name = ANY($1)
+     ORDER BY table_name, ordinal_position`,
+    [tables]
+  );
+  const hash = createHash('sha256');
+  rows.forEach(row => hash.update(row.column + '\n'));
+  return hash.digest('hex').slice(0, 16);
+}
+
+async function fileChecksum(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
+
+// Stream every table through a cursor inside one read-only snapshot, so the dump is consistent
+export async function createBackup(options: { id?: string; tables?: string[] } = {}): Promise<BackupManifest> {
+  return exclusive('backup', async () => {
+    const client = await requirePool().connect();
+    const id = options.id || newBackupId();
+    const files = backupFiles(id);
+    fs.mkdirSync(BACKUP_DIR, { recursive: true });
+
+    // A failed open or write (existing file, full disk) is recorded here and fails the backup;
+    // only a file this backup created is removed afterwards
+    const out = fs.createWriteStream(files.dump, { flags: 'wx' });
+    let created = false;
+    let streamError: Error | null = null;
+    out.on('open', () => { created = true; });
+    out.on('error', error => { streamError = error; });
+
+    const hash = createHash('sha256');
+    const write = async (line: string) => {
+      if (streamError) throw streamError;
+      hash.update(line);
+      if (!out.write(line)) await once(out, 'drain');
+    };
+
+    try {
+      await client.query('BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY');
+      const allTables = await listTablesInDependencyOrder(client);
+      let tables = allTables;
+      if (options.tables && options.tables.length > 0) {
+        const unknown = options.tables.filter(table => !allTables.includes(table));
+        if (unknown.length > 0) {
+          throw new BackupError(`Unknown or excluded tables: ${unknown.join(', ')}`);
+        }
+        tables = allTables.filter(table => options.tables!.includes(table));
+      }
+      const schemaVersion = await schemaFingerprint(client, tables);
+
+      await write(JSON.stringify({ format: DUMP_FORMAT, id, schemaVersion }) + '\n');
+      const counts: Record<string, number> = {};
+      for (const table of tables) {
+        await write(JSON.stringify({ table }) + '\n');
+        counts[table] = 0;
+        await client.query(`DECLARE backup_rows NO SCROLL CURSOR FOR SELECT row_to_json(t)::text AS row FROM ${quoteIdent(table)} t`);
+        while (true) {
+          const { rows } = await client.query<{ row: string }>(`FETCH ${FETCH_SIZE} FROM backup_rows`);
+          if (rows.length === 0) break;
+          for (const { row } of rows) {
+            await write(row + '\n');
+          }
+          counts[table] += rows.length;
+        }
+        await client.query('CLOSE backup_rows');
+      }
+      await client.query('COMMIT');
+
+      if (streamError) throw streamError;
+      out.end();
+      await once(out, 'finish');
+
+      const manifest: BackupManifest = {
+        id,
+        format: DUMP_FORMAT,
+        createdAt: new Date().toISOString(),
+        schemaVersion,
+        tables: counts,
+        checksum: hash.digest('hex'),
+        sizeBytes: fs.statSync(files.dump).size,
+      };
+      fs.writeFileSync(files.manifest, JSON.stringify(manifest, null, 2));
+      return manifest;
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => {});
+      out.destroy();
+      if (created) fs.rmSync(files.dump, { force: true });
+      throw error;
+    } finally {
+      client.release();
+    }
+  });
+}
+
+export function readManifest(id: string): BackupManifest {
+  const files = backupFiles(id);
+  if (!fs.existsSync(files.manifest) || !fs.existsSync(files.dump)) {
+    throw new BackupError(`Backup ${id} not found`, 404);
+  }
+  return JSON.parse(fs.readFileSync(files.manifest, 'utf8'));
+}
+
+// Newest first; dumps without a manifest (e.g. from older versions) are not listed
+export function listBackups(): BackupManifest[] {
+  if (!fs.existsSync(BACKUP_DIR)) return [];
+  return fs.readdirSync(BACKUP_DIR)
+    .filter(filename => filename.endsWith('.manifest.json'))
+    .flatMap(filename => {
+      try {
+        return [readManifest(filename.slice(0, -'.manifest.json'.length))];
+      } catch (error) {
+        console.warn(`Skipping unreadable backup manifest ${filename}:`, error);
+        return [];
+      }
+    })
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function backupDumpPath(id: string): string {
+  readManifest(id);
+  return backupFiles(id).dump;
+}
+
+export function deleteBackup(id: string) {
+  const files = backupFiles(id);
+  fs.rmSync(files.dump, { force: true });
+  fs.rmSync(files.manifest, { force: true });
+}
+
+// Stream the dump's rows to onRow, checking the header and that every table marker is
+// followed by exactly the number of rows the manifest records
+async function readDumpRows(id: string, manifest: BackupManifest, onRow: (table: string, row: string) => Promise<void>) {
+  const tables = Object.keys(manifest.tables);
+  let table: string | null = null;
+  let remaining = 0;
+  let header = true;
+
+  const lines = readline.createInterface({ input: fs.createReadStream(backupFiles(id).dump), crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (!line) continue;
+    if (header) {
+      header = false;
+      if (JSON.parse(line).format !== DUMP_FORMAT) {
+        throw new BackupError(`Backup ${id} has an unsupported format`);
+      }
+      continue;
+    }
+    if (remaining === 0) {
+      table = JSON.parse(line).table;
+      if (!table || !tables.includes(table)) {
+        throw new BackupError(`Backup ${id} does not match its manifest`, 409);
+      }
+      remaining = manifest.tables[table];
+      continue;
+    }
+    await onRow(table!, line);
+    remaining--;
+  }
+  if (remaining !== 0) {
+    throw new BackupError(`Backup ${id} does not match its manifest`, 409);
+  }
+}
+
+const rowDigest = (row: string) => createHash('sha256').update(row).digest('hex');
+
+// Rows come back in no particular order, so a table's checksum is taken over its sorted row digests
+const tableChecksum = (rowDigests: string[]) => createHash('sha256').update(rowDigests.sort().join('\n')).digest('hex');
+
+async function currentTableChecksum(client: PoolClient, table: string): Promise<string> {
+  const digests: string[] = [];
+  await client.query(`DECLARE restore_rows NO SCROLL CURSOR FOR SELECT row_to_json(t)::text AS row FROM ${quoteIdent(table)} t`);
+  while (true) {
+    const { rows } = await client.query<{ row: string }>(`FETCH ${FETCH_SIZE} FROM restore_rows`);
+    if (rows.length === 0) break;
+    rows.forEach(({ row }) => digests.push(rowDigest(row)));
+  }
+  await client.query('CLOSE restore_rows');
+  return tableChecksum(digests);
+}
+
+// TRUNCATE refuses a table that another table still references, so every table with a foreign
+// key into the restored set has to be restored with it
+async function findMissingDependents(client: PoolClient, tables: string[]): Promise<string[]> {
+  const { rows } = await client.query<{ child: string; parent: string }>(
+    `SELECT DISTINCT child.relname AS child, parent.relname AS parent
+     FROM pg_constraint c
+     JOIN pg_class child ON child.oid = c.conrelid
+     JOIN pg_class parent ON parent.oid = c.confrelid
+     JOIN pg_namespace n ON n.oid = child.relnamespace
+     WHERE c.contype = 'f' AND n.nspname = 'public'
+       AND parent.relname = ANY($1) AND NOT (child.relname = ANY($1))
+     ORDER BY 1, 2`,
+    [tables]
+  );
+  return rows.map(row => `${row.child} (references ${row.parent})`);
+}
+
+// Replace the backed-up tables with the backup's rows in one transaction. A dry run changes
+// nothing: it compares row counts and checksums of the backup with the current tables.
+export async function restoreBackup(id: string, options: { dryRun?: boolean } = {}): Promise<RestoreReport> {
+  const dryRun = !!options.dryRun;
+  return exclusive('restore', async () => {
+    const startedAt = Date.now();
+    const manifest = readManifest(id);
+    const files = backupFiles(id);
+
+    if (await fileChecksum(files.dump) !== manifest.checksum) {
+      throw new BackupError(`Backup ${id} failed checksum verification and was not restored`, 409);
+    }
+
+    const client = await requirePool().connect();
+    try {
+      const tables = Object.keys(manifest.tables);
+      const schemaVersion = await schemaFingerprint(client, tables);
+      if (schemaVersion !== manifest.schemaVersion) {
+        throw new BackupError(`Backup ${id} was taken from a different schema (${manifest.schemaVersion}, current ${schemaVersion})`, 409);
+      }
+
+      const restored = tables.filter(table => !RESTORE_EXCLUDED_TABLES.has(table));
+      const missing = await findMissingDependents(client, restored);
+      if (missing.length > 0) {
+        throw new BackupError(
+          `Backup ${id} covers only some tables; these reference restored tables but are not in the backup: ${missing.join(', ')}`,
+          409
+        );
+      }
+
+      await client.query(dryRun ? 'BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY' : 'BEGIN');
+      const report: RestoreTableReport[] = [];
+      for (const table of restored) {
+        const { rows } = await client.query<{ count: number }>(`SELECT count(*)::int AS count FROM ${quoteIdent(table)}`);
+        report.push({ table, currentRows: rows[0].count, backupRows: manifest.tables[table] });
+      }
+
+      if (dryRun) {
+        const backupDigests = new Map<string, string[]>(restored.map(table => [table, []]));
+        await readDumpRows(id, manifest, async (table, row) => {
+          backupDigests.get(table)?.push(rowDigest(row));
+        });
+        for (const entry of report) {
+          entry.currentChecksum = await currentTableChecksum(client, entry.table);
+          entry.backupChecksum = tableChecksum(backupDigests.get(entry.table)!);
+          entry.changed = entry.currentRows !== entry.backupRows || entry.currentChecksum !== entry.backupChecksum;
+        }
+        await client.query('COMMIT');
+        return { id, dryRun, schemaVersion, tables: report, durationMs: Date.now() - startedAt };
+      }
+
+      await client.query(`TRUNCATE ${restored.map(quoteIdent).join(', ')}`);
+
+      let batchTable: string | null = null;
+      let batch: string[] = [];
+      const flush = async () => {
+        if (!batchTable || batch.length === 0) return;
+        await client.query(
+          `INSERT INTO ${quoteIdent(batchTable)} SELECT * FROM json_populate_recordset(NULL::${quoteIdent(batchTable)}, $1::json)`,
+          [`[${batch.join(',')}]`]
+        );
+        batch = [];
+      };
+      await readDumpRows(id, manifest, async (table, row) => {
+        if (!restored.includes(table)) return;
+        if (table !== batchTable) {
+          await flush();
+          batchTable = table;
+        }
+        batch.push(row);
+        if (batch.length >= FETCH_SIZE) await flush();
+      });
+      await flush();
+
+      // Serial columns continue after the restored ids
+      const { rows: sequences } = await client.query<{ table_name: string; column_name: string }>(
+        `SELECT table_name, column_name FROM information_schema.columns
+         WHERE table_schema = 'public' AND table_name = ANY($1) AND column_default LIKE 'nextval(%'`,
+        [restored]
+      );
+      for (const { table_name, column_name } of sequences) {
+        await client.query(
+          `SELECT setval(pg_get_serial_sequence($1, $2), COALESCE(MAX(${quoteIdent(column_name)}), 0) + 1, false) FROM ${quoteIdent(table_name)}`,
+          [quoteIdent(table_name), column_name]
+        );
+      }
+
+      await client.query('COMMIT');
+      return { id, dryRun, schemaVersion, tables: report, durationMs: Date.now() - startedAt };
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw error;
+    } finally {
+      client.release();
+    }
+  });
+}
+
+// Delete backups older than the retention window; 0 keeps everything
+export function pruneBackups(retentionDays: number): number {
+  if (!retentionDays || retentionDays <= 0) return 0;
+
+  const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+  let pruned = 0;
+  for (const manifest of listBackups()) {
+    if (new Date(manifest.createdAt).getTime() >= cutoff) continue;
+    try {
+      deleteBackup(manifest.id);
+      pruned++;
+    } catch (error) {
+      console.warn(`Could not prune backup ${manifest.id}:`, error);
+    }
+  }
+
+  if (pruned > 0) {
+    console.log(`🧹 Pruned ${pruned} backup(s) older than ${retentionDays} days`);
+  }
+  return pruned;
+}
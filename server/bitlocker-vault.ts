@@ -0,0 +1,61 @@
+import type { BitlockerKey } from "@shared/schema";
+import { storage, type IStorage } from "./storage";
+import { decryptValue, encryptValue, isEncryptedValue, loadKeyring, needsReencryption, type Keyring } from "./envelope-crypto";
+
+const MASTER_KEY_ENV = "BITLOCKER_MASTER_KEY";
+
+let keyring: Keyring | null = null;
+
+export function getBitlockerKeyring(): Keyring {
+  if (!keyring) keyring = loadKeyring(MASTER_KEY_ENV);
+  return keyring;
+}
+
+export function sealRecoveryKey(recoveryKey: string): string {
+  return encryptValue(recoveryKey, getBitlockerKeyring().current);
+}
+
+// Keys stored before encryption was introduced are returned as they are
+export function openRecoveryKey(stored: string): string {
+  return isEncryptedValue(stored) ? decryptValue(stored, getBitlockerKeyring().keys) : stored;
+}
+
+// Recovery keys are eight dash-separated groups; only the last group stays readable
+export function maskRecoveryKey(recoveryKey: string): string {
+  const groups = recoveryKey.split('-');
+  if (groups.length > 1) {
+    return groups.map((group, index) => index === groups.length - 1 ? group : '*'.repeat(group.length)).join('-');
+  }
+  return recoveryKey.length > 4 ? '*'.repeat(recoveryKey.length - 4) + recoveryKey.slice(-4) : '*'.repeat(recoveryKey.length);
+}
+
+// What list and search responses return in place of the stored key
+export function toMaskedBitlockerKey(key: BitlockerKey): BitlockerKey {
+  let recoveryKey: string;
+  try {
+    recoveryKey = maskRecoveryKey(openRecoveryKey(key.recoveryKey));
+  } catch (error) {
+    console.error(`❌ Could not decrypt BitLocker key ${key.id}:`, error);
+    recoveryKey = '(unreadable)';
+  }
+  return { ...key, recoveryKey };
+}
+
+// Seal recovery keys saved as plain text by earlier versions and, when rotating, keys sealed
+// with a retired master key; returns how many were rewritten
+export async function reencryptBitlockerKeys(options: { rotate?: boolean } = {}, store: Pick<IStorage, 'getBitlockerKeys' | 'updateBitlockerKey'> = storage): Promise<number> {
+  const keys = await store.getBitlockerKeys();
+  let rewritten = 0;
+  for (const key of keys) {
+    const stale = options.rotate
+      ? needsReencryption(key.recoveryKey, getBitlockerKeyring())
+      : !isEncryptedValue(key.recoveryKey);
+    if (!stale) continue;
+    await store.updateBitlockerKey(key.id, { recoveryKey: sealRecoveryKey(openRecoveryKey(key.recoveryKey)) });
+    rewritten++;
+  }
+  if (rewritten > 0) {
+    console.log(`🔐 Re-encrypted ${rewritten} BitLocker recovery key(s)`);
+  }
+  return rewritten;
+}
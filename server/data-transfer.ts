@@ -0,0 +1,283 @@
+import * as schema from "@shared/schema";
+import { getTableColumns, type Column } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+import type { IStorage } from "./storage";
+import { SECRET_FIELDS } from "./secrets";
+
+// Portable JSON export of every application table. Rows keep their original IDs in the file;
+// an import inserts them under new IDs and rewrites every reference through the ID maps,
+// so an export can be loaded into a non-empty instance, MemStorage or PostgreSQL alike.
+export const EXPORT_FORMAT = 'srph-mis-export';
+export const EXPORT_VERSION = 1;
+
+interface PortableTableSpec {
+  table: PgTable;
+  // Columns holding the ID of a row in another exported table (keys of PORTABLE_TABLES)
+  references?: Record<string, string>;
+  // Unique column: a row matching an existing one is reused instead of inserted
+  naturalKey?: string;
+  // Single-row settings tables: imported values update the existing row
+  singleton?: boolean;
+  // Credentials stay on the instance that encrypted them
+  omit?: readonly string[];
+}
+
+// In import order: every table comes after the tables it references.
+// Sessions, backup_runs and zabbix_sync_runs describe the running instance and are not exported.
+export const PORTABLE_TABLES = {
+  roles: { table: schema.roles, naturalKey: 'name' },
+  users: { table: schema.users, naturalKey: 'username', references: { roleId: 'roles' } },
+  system_settings: { table: schema.systemSettings, singleton: true, omit: SECRET_FIELDS.systemSettings },
+  assets: { table: schema.assets, naturalKey: 'assetTag', references: { assignedTo: 'users' } },
+  components: { table: schema.components },
+  accessories: { table: schema.accessories, references: { assignedTo: 'users' } },
+  consumables: { table: schema.consumables },
+  consumable_assignments: { table: schema.consumableAssignments, references: { consumableId: 'consumables' } },
+  licenses: { table: schema.licenses, references: { assignedTo: 'users' } },
+  license_assignments: { table: schema.licenseAssignments, references: { licenseId: 'licenses' } },
+  it_equipment: { table: schema.itEquipment },
+  it_equipment_assignments: { table: schema.itEquipmentAssignments, references: { equipmentId: 'it_equipment' } },
+  monitor_inventory: { table: schema.monitorInventory },
+  vm_inventory: { table: schema.vmInventory, references: { assignedTo: 'users' } },
+  vm_approval_history: { table: schema.vmApprovalHistory, references: { vmId: 'vm_inventory', changedBy: 'users' } },
+  approval_number_history: { table: schema.approvalNumberHistory, references: { vmInventoryId: 'vm_inventory', changedBy: 'users' } },
+  vms: { table: schema.vms, references: { assignedTo: 'users' } },
+  // Recovery keys stay sealed; the target needs the same BITLOCKER_MASTER_KEY to reveal them
+  bitlocker_keys: { table: schema.bitlockerKeys },
+  bitlocker_key_access_log: { table: schema.bitlockerKeyAccessLog, references: { keyId: 'bitlocker_keys', userId: 'users' } },
+  iam_accounts: { table: schema.iamAccounts },
+  iam_account_extensions: { table: schema.iamAccountExtensions, references: { iamAccountId: 'iam_accounts', requestedBy: 'users' } },
+  issues: { table: schema.issues, references: { reportedBy: 'users' } },
+  zabbix_settings: { table: schema.zabbixSettings, singleton: true, omit: SECRET_FIELDS.zabbixSettings },
+  zabbix_subnets: { table: schema.zabbixSubnets },
+  discovered_hosts: { table: schema.discoveredHosts },
+  vm_monitoring: { table: schema.vmMonitoring },
+  vm_metric_samples: { table: schema.vmMetricSamples },
+  monitoring_datasources: { table: schema.monitoringDatasources, omit: SECRET_FIELDS.monitoringDatasources },
+  monitoring_dashboards: { table: schema.monitoringDashboards, references: { userId: 'users' } },
+  monitoring_panels: { table: schema.monitoringPanels, references: { dashboardId: 'monitoring_dashboards' } },
+  monitoring_alert_rules: { table: schema.monitoringAlertRules },
+  monitoring_alerts: { table: schema.monitoringAlerts, references: { ruleId: 'monitoring_alert_rules' } },
+  monitoring_notifications: { table: schema.monitoringNotifications, references: { alertId: 'monitoring_alert_rules' } },
+  activities: { table: schema.activities, references: { userId: 'users' } },
+} satisfies Record<string, PortableTableSpec>;
+
+export type PortableTableName = keyof typeof PORTABLE_TABLES;
+export type PortableRow = Record<string, any>;
+
+// activities.itemId points at whichever table itemType names
+const ACTIVITY_ITEM_TABLES: Record<string, PortableTableName> = {
+  asset: 'assets',
+  user: 'users',
+  license: 'licenses',
+  component: 'components',
+  accessory: 'accessories',
+  consumable: 'consumables',
+  'it-equipment': 'it_equipment',
+  'vm-inventory': 'vm_inventory',
+  vm: 'vms',
+  bitlocker: 'bitlocker_keys',
+  'bitlocker-key': 'bitlocker_keys',
+  'iam-account': 'iam_accounts',
+  issue: 'issues',
+};
+
+export interface PortableColumn {
+  name: string;
+  type: string;
+  notNull: boolean;
+  references?: PortableTableName;
+}
+
+export interface PortableExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  source: 'postgres' | 'memory';
+  tables: Partial<Record<PortableTableName, { columns: Record<string, PortableColumn>; rows: PortableRow[] }>>;
+}
+
+export interface PortableImportResult {
+  version: number;
+  tables: Partial<Record<PortableTableName, { imported: number; matched: number; skipped: number }>>;
+  // Tables in the file that this storage does not keep (MemStorage lacks a few)
+  unsupported: PortableTableName[];
+}
+
+// Raw row access used by export/import; implementations do no validation, logging or side effects
+export interface PortableRowWriter {
+  // New row ID, or null when the storage does not keep this table
+  insert(table: PortableTableName, row: PortableRow): Promise<number | null>;
+  update(table: PortableTableName, id: number, row: PortableRow): Promise<void>;
+}
+
+type PortableStore = Pick<IStorage, 'getPortableRows' | 'writePortableRows'>;
+
+export class DataTransferError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DataTransferError';
+  }
+}
+
+export function portableColumns(name: PortableTableName): Record<string, PortableColumn> {
+  const spec: PortableTableSpec = PORTABLE_TABLES[name];
+  const columns: Record<string, PortableColumn> = {};
+  for (const [key, column] of Object.entries(getTableColumns(spec.table))) {
+    if (spec.omit?.includes(key)) continue;
+    columns[key] = {
+      name: column.name,
+      type: column.getSQLType(),
+      notNull: column.notNull,
+      ...(spec.references?.[key] ? { references: spec.references[key] as PortableTableName } : {}),
+    };
+  }
+  return columns;
+}
+
+function pickColumns(row: PortableRow, columns: Record<string, PortableColumn>): PortableRow {
+  const picked: PortableRow = {};
+  for (const key of Object.keys(columns)) {
+    if (row[key] !== undefined) picked[key] = row[key];
+  }
+  return picked;
+}
+
+export async function exportPortableData(store: PortableStore, source: PortableExport['source']): Promise<PortableExport> {
+  const data: PortableExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    source,
+    tables: {},
+  };
+
+  for (const name of Object.keys(PORTABLE_TABLES) as PortableTableName[]) {
+    const rows = await store.getPortableRows(name);
+    if (rows === null) continue;
+    const columns = portableColumns(name);
+    data.tables[name] = { columns, rows: rows.map(row => pickColumns(row, columns)) };
+  }
+  return data;
+}
+
+function parseExport(data: any): PortableExport {
+  if (!data || typeof data !== 'object' || data.format !== EXPORT_FORMAT) {
+    throw new DataTransferError("Not an SRPH-MIS data export");
+  }
+  if (!Number.isInteger(data.version) || data.version < 1 || data.version > EXPORT_VERSION) {
+    throw new DataTransferError(`Unsupported export version ${data.version} (this instance reads up to ${EXPORT_VERSION})`);
+  }
+  if (!data.tables || typeof data.tables !== 'object') {
+    throw new DataTransferError("Export has no tables");
+  }
+  for (const [name, table] of Object.entries<any>(data.tables)) {
+    if (!(name in PORTABLE_TABLES)) continue;
+    if (!table || !Array.isArray(table.rows)) {
+      throw new DataTransferError(`Table ${name} has no rows list`);
+    }
+  }
+  return data;
+}
+
+// Values as the target table expects them: JSON turns timestamps into strings
+function toColumnValues(name: PortableTableName, row: PortableRow): PortableRow {
+  const columns: Record<string, Column> = getTableColumns(PORTABLE_TABLES[name].table);
+  const values: PortableRow = {};
+  for (const [key, value] of Object.entries(row)) {
+    const column = columns[key];
+    if (!column) continue;
+    values[key] = column.dataType === 'date' && typeof value === 'string' ? new Date(value) : value;
+  }
+  return values;
+}
+
+// Load an export on top of the existing data. Rows get new IDs and references follow them;
+// a reference whose target was not imported becomes null, or drops the row when required.
+export async function importPortableData(store: PortableStore, input: unknown): Promise<PortableImportResult> {
+  const data = parseExport(input);
+  const result: PortableImportResult = { version: data.version, tables: {}, unsupported: [] };
+  const idMaps = {} as Record<PortableTableName, Map<number, number>>;
+
+  // Existing rows that imported ones can be matched to
+  const existing = {} as Record<PortableTableName, PortableRow[]>;
+  for (const name of Object.keys(PORTABLE_TABLES) as PortableTableName[]) {
+    const spec: PortableTableSpec = PORTABLE_TABLES[name];
+    if (data.tables[name] && (spec.naturalKey || spec.singleton)) {
+      existing[name] = await store.getPortableRows(name) || [];
+    }
+  }
+
+  await store.writePortableRows(async (writer) => {
+    for (const name of Object.keys(PORTABLE_TABLES) as PortableTableName[]) {
+      const table = data.tables[name];
+      if (!table) continue;
+
+      const spec: PortableTableSpec = PORTABLE_TABLES[name];
+      const columns = portableColumns(name);
+      const counts = { imported: 0, matched: 0, skipped: 0 };
+      const idMap = idMaps[name] = new Map<number, number>();
+
+      for (const source of table.rows) {
+        const { id: oldId, ...row } = pickColumns(source, columns);
+
+        let orphaned = false;
+        for (const [column, target] of Object.entries(spec.references || {})) {
+          if (row[column] === null || row[column] === undefined) continue;
+          const mapped = idMaps[target as PortableTableName]?.get(row[column]);
+          if (mapped !== undefined) {
+            row[column] = mapped;
+          } else if (columns[column].notNull) {
+            orphaned = true;
+          } else {
+            row[column] = null;
+          }
+        }
+        if (name === 'activities') {
+          const itemTable = ACTIVITY_ITEM_TABLES[row.itemType];
+          const mapped = itemTable ? idMaps[itemTable]?.get(row.itemId) : undefined;
+          if (mapped !== undefined) row.itemId = mapped;
+        }
+        if (orphaned) {
+          counts.skipped++;
+          continue;
+        }
+
+        const values = toColumnValues(name, row);
+
+        if (spec.singleton && existing[name]?.length) {
+          const current = existing[name][0];
+          await writer.update(name, current.id, values);
+          idMap.set(oldId, current.id);
+          counts.matched++;
+          continue;
+        }
+
+        if (spec.naturalKey) {
+          const key = row[spec.naturalKey];
+          const match = existing[name]?.find(candidate => candidate[spec.naturalKey!] === key);
+          if (match) {
+            idMap.set(oldId, match.id);
+            counts.matched++;
+            continue;
+          }
+        }
+
+        const newId = await writer.insert(name, values);
+        if (newId === null) {
+          result.unsupported.push(name);
+          break;
+        }
+        idMap.set(oldId, newId);
+        existing[name]?.push({ ...values, id: newId });
+        counts.imported++;
+      }
+
+      if (!result.unsupported.includes(name)) result.tables[name] = counts;
+    }
+  });
+
+  const imported = Object.values(result.tables).reduce((sum, counts) => sum + (counts?.imported || 0), 0);
+  console.log(`📥 Imported ${imported} rows from data export v${data.version}`);
+  return result;
+}
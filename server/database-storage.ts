@@ -1,7 +1,8 @@
 import {
-  users, assets, components, accessories, licenses, activities, consumables, licenseAssignments, consumableAssignments,
+  users, roles, assets, components, accessories, licenses, activities, consumables, licenseAssignments, consumableAssignments,
   itEquipment, itEquipmentAssignments,
   type User, type InsertUser,
+  type Role, type InsertRole,
   type Asset, type InsertAsset,
   type Activity, type InsertActivity,
   type License, type InsertLicense,
@@ -12,24 +13,23 @@ import {
   type ITEquipment, type InsertITEquipment,
   AssetStatus, LicenseStatus, AccessoryStatus, ConsumableStatus,
   // IAM Accounts import
-  iamAccounts, type IamAccount
+  iamAccounts, type IamAccount,
+  type AssetStats, type CountBreakdown, type UserAssignedItems, type PaginatedResult
 } from "@shared/schema";
 import { db } from "./db";
 import type {
-  InsertZabbixSettings, InsertZabbixSubnet, InsertDiscoveredHost, InsertVMMonitoring, InsertBitlockerKey
+  InsertZabbixSubnet, InsertDiscoveredHost, InsertVMMonitoring, InsertBitlockerKey
 } from "@shared/schema";
 import * as schema from "@shared/schema";
-import { eq, desc, sql } from "drizzle-orm";
-import type { IStorage } from "./storage";
-
-interface AssetStats {
-  total: number;
-  checkedOut: number;
-  available: number;
-  pending: number;
-  overdue: number;
-  archived: number;
-}
+import { eq, desc, sql, and, asc, or, inArray, getTableColumns, type SQL } from "drizzle-orm";
+import type { PgColumn, PgTable } from "drizzle-orm/pg-core";
+import { assetStatusTotals, assigneeNames, seatUtilization, LICENSE_EXPIRY_WARNING_DAYS, type IStorage, type StoredZabbixSettings } from "./storage";
+import { SEARCH_FIELDS, toPaginatedResult, type ListQuery } from "./pagination";
+import { PORTABLE_TABLES, type PortableRow, type PortableRowWriter, type PortableTableName } from "./data-transfer";
+
+// The dashboard polls the stats, so the aggregate queries run at most this often
+const STATS_CACHE_MS = 15 * 1000;
+let cachedStats: { stats: AssetStats; loadedAt: number } | null = null;
 
 export async function initializeDatabase() {
   try {
@@ -40,12 +40,7 @@ export async function initializeDatabase() {
     console.log("✅ Database connection established/verified");
     console.log("📊 Using database:", process.env.DATABASE_URL?.replace(/:[^:@]+@/, ':****@'));
 
-    // Import and run migrations
-    const { runMigrations } = await import("./migrate");
-    await runMigrations();
-
-    return;
-
+    // Schema is brought up to date by runMigrations() before this runs
     console.log("🎉 Database initialization completed successfully!");
   } catch (error) {
     console.error("Database initialization failed:", error);
@@ -53,7 +48,52 @@ export async function initializeDatabase() {
   }
 }
 
+// Search text is matched literally; ILIKE would otherwise treat % and _ as wildcards
+function likePattern(value: string): string {
+  return `%${value.replace(/[\\%_]/g, '\\$&')}%`;
+}
+
+// Tables served through the paginated list endpoints
+type PagedTable = typeof assets | typeof activities | typeof schema.vmInventory | typeof iamAccounts;
+
 export class DatabaseStorage implements IStorage {
+  // Shared SQL paging for the list endpoints; field names are validated by parseListQuery
+  private queryPage<TTable extends PagedTable>(table: TTable, query: ListQuery, searchFields: string[]): Promise<PaginatedResult<TTable['$inferSelect']>>;
+  private async queryPage(table: PagedTable, query: ListQuery, searchFields: string[]) {
+    const columns: Record<string, PgColumn> = getTableColumns(table);
+    const conditions: SQL[] = [];
+
+    for (const { field, values, contains } of query.filters) {
+      const column = columns[field];
+      if (contains) {
+        conditions.push(sql`${column}::text ILIKE ${likePattern(values[0])}`);
+      } else {
+        conditions.push(or(...values.map(value => sql`lower(${column}::text) = ${value}`))!);
+      }
+    }
+
+    if (query.q) {
+      const pattern = likePattern(query.q);
+      conditions.push(or(...searchFields.map(field => sql`${columns[field]}::text ILIKE ${pattern}`))!);
+    }
+
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+    // id breaks ties so OFFSET pages neither repeat nor skip rows sharing the sorted values
+    const orderBy = query.sort.map(({ field, direction }) =>
+      direction === 'asc' ? sql`${columns[field]} ASC NULLS LAST` : sql`${columns[field]} DESC NULLS LAST`);
+    if (!query.sort.some(({ field }) => field === 'id')) {
+      orderBy.push(sql`${columns.id} ASC`);
+    }
+
+    const [rows, [{ count }]] = await Promise.all([
+      db.select().from(table).where(where).orderBy(...orderBy)
+        .limit(query.pageSize).offset((query.page - 1) * query.pageSize),
+      db.select({ count: sql<number>`count(*)::int` }).from(table).where(where),
+    ]);
+
+    return toPaginatedResult(rows, count, query);
+  }
+
   // User operations
   async getUsers(): Promise<User[]> {
     return await db.select().from(users);
@@ -139,11 +179,50 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Role operations
+  async getRoles(): Promise<Role[]> {
+    return await db.select().from(roles).orderBy(asc(roles.id));
+  }
+
+  async getRole(id: number): Promise<Role | undefined> {
+    const [role] = await db.select().from(roles).where(eq(roles.id, id));
+    return role;
+  }
+
+  async createRole(insertRole: InsertRole): Promise<Role> {
+    const [role] = await db.insert(roles).values(insertRole).returning();
+    return role;
+  }
+
+  async updateRole(id: number, updateData: Partial<InsertRole>): Promise<Role | undefined> {
+    if (Object.keys(updateData).length === 0) {
+      return await this.getRole(id);
+    }
+
+    const [updated] = await db.update(roles)
+      .set({ ...updateData, updatedAt: new Date() })
+      .where(eq(roles.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteRole(id: number): Promise<boolean> {
+    // Built-in roles are never deleted; users.role_id is cleared by ON DELETE SET NULL
+    const deleted = await db.delete(roles)
+      .where(and(eq(roles.id, id), eq(roles.isSystem, false)))
+      .returning();
+    return deleted.length > 0;
+  }
+
   // Asset operations
   async getAssets(): Promise<Asset[]> {
     return await db.select().from(assets);
   }
 
+  async getAssetsPage(query: ListQuery) {
+    return this.queryPage(assets, query, SEARCH_FIELDS.assets);
+  }
+
   async getAsset(id: number): Promise<Asset | undefined> {
     const [asset] = await db.select().from(assets).where(eq(assets.id, id));
     return asset;
@@ -350,16 +429,6 @@ export class DatabaseStorage implements IStorage {
 
     const [accessory] = await db.insert(accessories).values(processedAccessory).returning();
 
-    // Create activity record
-    await this.createActivity({
-      action: "create",
-      itemType: "accessory",
-      itemId: accessory.id,
-      userId: null,
-      timestamp: new Date().toISOString(),
-      notes: `Accessory "${accessory.name}" created`,
-    });
-
     return accessory;
   }
 
@@ -377,18 +446,6 @@ export class DatabaseStorage implements IStorage {
       .where(eq(accessories.id, id))
       .returning();
 
-    if (updated) {
-      // Create activity record
-      await this.createActivity({
-        action: "update",
-        itemType: "accessory",
-        itemId: id,
-        userId: null,
-        timestamp: new Date().toISOString(),
-        notes: `Accessory "${accessory.name}" updated`,
-      });
-    }
-
     return updated;
   }
 
@@ -400,18 +457,6 @@ export class DatabaseStorage implements IStorage {
       .where(eq(accessories.id, id))
       .returning();
 
-    if (deleted) {
-      // Create activity record
-      await this.createActivity({
-        action: "delete",
-        itemType: "accessory",
-        itemId: id,
-        userId: null,
-        timestamp: new Date().toISOString(),
-        notes: `Accessory "${accessory.name}" deleted`,
-      });
-    }
-
     return !!deleted;
   }
 
@@ -450,16 +495,6 @@ export class DatabaseStorage implements IStorage {
 
       const [consumable] = await db.insert(consumables).values(processedConsumable).returning();
 
-      // Create activity record
-      await this.createActivity({
-        action: "create",
-        itemType: "consumable",
-        itemId: consumable.id,
-        userId: null,
-        timestamp: new Date().toISOString(),
-        notes: `Consumable "${consumable.name}" created`,
-      });
-
       return consumable;
     } catch (error) {
       console.error('Error creating consumable:', error);
@@ -481,18 +516,6 @@ export class DatabaseStorage implements IStorage {
       .where(eq(consumables.id, id))
       .returning();
 
-    if (updated) {
-      // Create activity record
-      await this.createActivity({
-        action: "update",
-        itemType: "consumable",
-        itemId: id,
-        userId: null,
-        timestamp: new Date().toISOString(),
-        notes: `Consumable "${consumable.name}" updated`,
-      });
-    }
-
     return updated;
   }
 
@@ -503,16 +526,6 @@ export class DatabaseStorage implements IStorage {
 
       await db.delete(consumables).where(eq(consumables.id, id));
 
-      // Create activity record
-      await this.createActivity({
-        action: "delete",
-        itemType: "consumable",
-        itemId: id,
-        userId: null,
-        timestamp: new Date().toISOString(),
-        notes: `Consumable "${consumable.name}" deleted`,
-      });
-
       return true;
     } catch (error) {
       console.error('Error deleting consumable:', error);
@@ -833,6 +846,10 @@ export class DatabaseStorage implements IStorage {
       .orderBy(activities.timestamp);
   }
 
+  async getActivitiesPage(query: ListQuery) {
+    return this.queryPage(activities, query, SEARCH_FIELDS.activities);
+  }
+
   async getActivitiesByUser(userId: number): Promise<Activity[]> {
     return await db.select()
       .from(activities)
@@ -853,26 +870,192 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Stats and summaries
+  // GROUP BY counts keyed like countBy() in MemStorage; blank values become 'Unspecified'
+  private async countByColumn(table: PgTable, column: PgColumn, weight: SQL = sql`1`): Promise<CountBreakdown> {
+    const key = sql<string>`coalesce(nullif(${column}::text, ''), 'Unspecified')`;
+    const rows = await db.select({ key, count: sql<number>`coalesce(sum(${weight}), 0)::int` })
+      .from(table)
+      .groupBy(key);
+    return Object.fromEntries(rows.map(row => [row.key, row.count]));
+  }
+
   async getAssetStats(): Promise<AssetStats> {
-    const allAssets = await db.select().from(assets);
+    if (cachedStats && Date.now() - cachedStats.loadedAt < STATS_CACHE_MS) {
+      return cachedStats.stats;
+    }
+
+    // Only seat counts that fit an int are summed. Expiration dates are free text, so ISO-looking
+    // values are compared as text: casting would fail the whole query on a date like 2024-02-31.
+    const numericSeats = sql`${licenses.seats} ~ '^[0-9]{1,9}$'`;
+    const expiresOn = sql`case when ${licenses.expirationDate} ~ '^[0-9]{4}-(0[1-9]|1[0-2])-(0[1-9]|[12][0-9]|3[01])' then left(${licenses.expirationDate}, 10) end`;
+    const isoDate = (days: number) => sql`to_char(current_date + ${days}::int, 'YYYY-MM-DD')`;
+    const [
+      byStatus, byCategory, byDepartment, byCondition,
+      [licenseTotals], licensesByStatus,
+      [consumableTotals], consumablesByStatus, quantityByCategory,
+      vmsByStatus, iamByStatus,
+    ] = await Promise.all([
+      this.countByColumn(assets, assets.status),
+      this.countByColumn(assets, assets.category),
+      this.countByColumn(assets, assets.department),
+      this.countByColumn(assets, assets.condition),
+      db.select({
+        total: sql<number>`count(*)::int`,
+        totalSeats: sql<number>`coalesce(sum(case when ${numericSeats} then ${licenses.seats}::int end), 0)::int`,
+        assignedSeats: sql<number>`coalesce(sum(case when ${numericSeats} then ${licenses.assignedSeats} end), 0)::int`,
+        expiringSoon: sql<number>`count(*) filter (where ${expiresOn} between ${isoDate(0)} and ${isoDate(LICENSE_EXPIRY_WARNING_DAYS)})::int`,
+      }).from(licenses),
+      this.countByColumn(licenses, licenses.status),
+      db.select({
+        total: sql<number>`count(*)::int`,
+        totalQuantity: sql<number>`coalesce(sum(${consumables.quantity}), 0)::int`,
+        outOfStock: sql<number>`count(*) filter (where ${consumables.quantity} <= 0)::int`,
+      }).from(consumables),
+      this.countByColumn(consumables, consumables.status),
+      this.countByColumn(consumables, consumables.category, sql`${consumables.quantity}`),
+      this.countByColumn(schema.vmInventory, schema.vmInventory.vmStatus),
+      this.countByColumn(iamAccounts, iamAccounts.status),
+    ]);
+
+    const sum = (counts: CountBreakdown) => Object.values(counts).reduce((total, count) => total + count, 0);
+    const stats: AssetStats = {
+      total: sum(byStatus),
+      ...assetStatusTotals(byStatus),
+      byStatus,
+      byCategory,
+      byDepartment,
+      byCondition,
+      licenses: {
+        ...licenseTotals,
+        seatUtilization: seatUtilization(licenseTotals.assignedSeats, licenseTotals.totalSeats),
+        byStatus: licensesByStatus,
+      },
+      consumables: {
+        ...consumableTotals,
+        byStatus: consumablesByStatus,
+        quantityByCategory,
+      },
+      vmInventory: { total: sum(vmsByStatus), byStatus: vmsByStatus },
+      iamAccounts: { total: sum(iamByStatus), byStatus: iamByStatus },
+      generatedAt: new Date().toISOString(),
+    };
+    cachedStats = { stats, loadedAt: Date.now() };
+    return stats;
+  }
+
+  async getUserAssignedItems(userId: number): Promise<UserAssignedItems> {
+    const [user] = await db.select().from(users).where(eq(users.id, userId));
+    if (!user) {
+      return { assets: [], licenses: [], consumables: [], itEquipment: [] };
+    }
+    const names = assigneeNames(user);
+    const assignee = (column: PgColumn) => inArray(sql`lower(trim(${column}))`, names);
+
+    const [userAssets, directLicenses, licenseSeats, userConsumables, userEquipment] = await Promise.all([
+      db.select().from(assets).where(eq(assets.assignedTo, userId)).orderBy(asc(assets.assetTag)),
+      db.select().from(licenses).where(eq(licenses.assignedTo, userId)),
+      db.select({ license: licenses, assignment: licenseAssignments })
+        .from(licenseAssignments)
+        .innerJoin(licenses, eq(licenseAssignments.licenseId, licenses.id))
+        .where(assignee(licenseAssignments.assignedTo))
+        .orderBy(desc(licenseAssignments.assignedDate)),
+      db.select({ consumable: consumables, assignment: consumableAssignments })
+        .from(consumableAssignments)
+        .innerJoin(consumables, eq(consumableAssignments.consumableId, consumables.id))
+        .where(and(eq(consumableAssignments.status, 'assigned'), assignee(consumableAssignments.assignedTo)))
+        .orderBy(desc(consumableAssignments.assignedDate)),
+      db.select({ equipment: itEquipment, assignment: itEquipmentAssignments })
+        .from(itEquipmentAssignments)
+        .innerJoin(itEquipment, eq(itEquipmentAssignments.equipmentId, itEquipment.id))
+        .where(and(eq(itEquipmentAssignments.status, 'assigned'), assignee(itEquipmentAssignments.assignedTo)))
+        .orderBy(desc(itEquipmentAssignments.assignedDate)),
+    ]);
 
     return {
-      total: allAssets.length,
-      checkedOut: allAssets.filter(asset => asset.status === AssetStatus.DEPLOYED).length,
-      available: allAssets.filter(asset => asset.status === AssetStatus.AVAILABLE).length,
-      pending: allAssets.filter(asset => asset.status === AssetStatus.PENDING).length,
-      overdue: allAssets.filter(asset => asset.status === AssetStatus.OVERDUE).length,
-      archived: allAssets.filter(asset => asset.status === AssetStatus.ARCHIVED).length,
+      assets: userAssets,
+      licenses: [...directLicenses.map(license => ({ license, assignment: null })), ...licenseSeats],
+      consumables: userConsumables,
+      itEquipment: userEquipment,
     };
   }
 
-  // Zabbix settings operations (stub implementations for now)
-  async getZabbixSettings(): Promise<any> {
-    return undefined;
+  // Zabbix settings operations; one row, exposed as { url, autoSync } like the settings form
+  async getZabbixSettings(): Promise<StoredZabbixSettings | undefined> {
+    const [row] = await db.select().from(schema.zabbixSettings).orderBy(asc(schema.zabbixSettings.id)).limit(1);
+    if (!row) return undefined;
+    return {
+      id: row.id,
+      url: row.serverUrl,
+      username: row.username,
+      password: row.password,
+      apiToken: row.apiToken || '',
+      autoSync: !!row.enabled,
+      syncInterval: row.syncInterval ?? 30,
+      lastSync: row.lastSync,
+      metricsRawRetentionDays: row.metricsRawRetentionDays,
+      metricsFiveMinuteRetentionDays: row.metricsFiveMinuteRetentionDays,
+      metricsHourlyRetentionDays: row.metricsHourlyRetentionDays,
+      updatedAt: row.updatedAt,
+    };
   }
 
-  async saveZabbixSettings(settings: any): Promise<any> {
-    return settings;
+  async saveZabbixSettings(settings: StoredZabbixSettings): Promise<StoredZabbixSettings> {
+    const values = {
+      serverUrl: settings.url || '',
+      username: settings.username || '',
+      password: settings.password || '',
+      apiToken: settings.apiToken || '',
+      enabled: settings.autoSync !== false,
+      syncInterval: settings.syncInterval || 30,
+      lastSync: settings.lastSync ? new Date(settings.lastSync) : null,
+      metricsRawRetentionDays: settings.metricsRawRetentionDays ?? 2,
+      metricsFiveMinuteRetentionDays: settings.metricsFiveMinuteRetentionDays ?? 30,
+      metricsHourlyRetentionDays: settings.metricsHourlyRetentionDays ?? 365,
+      updatedAt: new Date(),
+    };
+    const [existing] = await db.select({ id: schema.zabbixSettings.id }).from(schema.zabbixSettings).orderBy(asc(schema.zabbixSettings.id)).limit(1);
+    if (existing) {
+      await db.update(schema.zabbixSettings).set(values).where(eq(schema.zabbixSettings.id, existing.id));
+    } else {
+      await db.insert(schema.zabbixSettings).values(values);
+    }
+
+    await this.createActivity({
+      action: "update",
+      itemType: "settings",
+      itemId: existing?.id || 1,
+      userId: null,
+      timestamp: new Date().toISOString(),
+      notes: "Zabbix integration settings updated",
+    });
+    return (await this.getZabbixSettings())!;
+  }
+
+  async setZabbixLastSync(at: Date): Promise<void> {
+    await db.update(schema.zabbixSettings).set({ lastSync: at });
+  }
+
+  // Zabbix sync run history operations
+  async getZabbixSyncRuns(limit: number = 50): Promise<schema.ZabbixSyncRun[]> {
+    try {
+      return await db.select().from(schema.zabbixSyncRuns).orderBy(desc(schema.zabbixSyncRuns.startedAt)).limit(limit);
+    } catch (error) {
+      console.error('❌ Database error fetching Zabbix sync runs:', error);
+      return [];
+    }
+  }
+
+  async createZabbixSyncRun(run: schema.InsertZabbixSyncRun): Promise<schema.ZabbixSyncRun> {
+    const [newRun] = await db.insert(schema.zabbixSyncRuns).values(run).returning();
+    return newRun;
+  }
+
+  async updateZabbixSyncRun(id: number, run: Partial<schema.InsertZabbixSyncRun>): Promise<schema.ZabbixSyncRun | undefined> {
+    const [updatedRun] = await db.update(schema.zabbixSyncRuns)
+      .set(run)
+      .where(eq(schema.zabbixSyncRuns.id, id))
+      .returning();
+    return updatedRun;
   }
 
   // Zabbix subnet operations (stub implementations)
@@ -892,42 +1075,80 @@ export class DatabaseStorage implements IStorage {
     return true;
   }
 
-  // VM monitoring operations (stub implementations)
+  // VM monitoring operations; one row per host holding its latest values (history is in vm-metrics.ts)
   async getVMMonitoring(): Promise<any[]> {
-    return [];
+    return await db.select().from(schema.vmMonitoring).orderBy(asc(schema.vmMonitoring.hostname));
   }
 
   async getVMMonitoringByVMId(vmId: number): Promise<any> {
-    return undefined;
+    const [row] = await db.select().from(schema.vmMonitoring).where(eq(schema.vmMonitoring.vmId, vmId));
+    return row;
   }
 
   async createVMMonitoring(monitoring: any): Promise<any> {
-    return monitoring;
+    const now = new Date().toISOString();
+    const [row] = await db.insert(schema.vmMonitoring)
+      .values({ ...monitoring, createdAt: now, updatedAt: now })
+      .returning();
+    return row;
   }
 
   async updateVMMonitoring(id: number, monitoring: any): Promise<any> {
-    return monitoring;
+    const { id: _id, createdAt, ...changes } = monitoring;
+    const [row] = await db.update(schema.vmMonitoring)
+      .set({ ...changes, updatedAt: new Date().toISOString() })
+      .where(eq(schema.vmMonitoring.id, id))
+      .returning();
+    return row;
   }
 
-  // Discovered hosts operations (stub implementations)
+  // Discovered hosts operations
   async getDiscoveredHosts(): Promise<any[]> {
-    return [];
+    try {
+      return await db.select().from(schema.discoveredHosts).orderBy(desc(schema.discoveredHosts.lastSeen));
+    } catch (error) {
+      console.error('❌ Database error fetching discovered hosts:', error);
+      return [];
+    }
   }
 
   async getDiscoveredHost(id: number): Promise<any> {
-    return undefined;
+    try {
+      const [host] = await db.select().from(schema.discoveredHosts).where(eq(schema.discoveredHosts.id, id));
+      return host;
+    } catch (error) {
+      console.error('❌ Database error fetching discovered host:', error);
+      return undefined;
+    }
   }
 
-  async createDiscoveredHost(host: any): Promise<any> {
-    return host;
+  async createDiscoveredHost(host: InsertDiscoveredHost): Promise<any> {
+    const [newHost] = await db.insert(schema.discoveredHosts).values({
+      ...host,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    }).returning();
+    return newHost;
   }
 
-  async updateDiscoveredHost(id: number, host: any): Promise<any> {
-    return host;
+  async updateDiscoveredHost(id: number, host: Partial<InsertDiscoveredHost>): Promise<any> {
+    const [updatedHost] = await db.update(schema.discoveredHosts)
+      .set({ ...host, updatedAt: new Date() })
+      .where(eq(schema.discoveredHosts.id, id))
+      .returning();
+    return updatedHost;
   }
 
   async deleteDiscoveredHost(id: number): Promise<boolean> {
-    return true;
+    try {
+      const result = await db.delete(schema.discoveredHosts)
+        .where(eq(schema.discoveredHosts.id, id))
+        .returning();
+      return result.length > 0;
+    } catch (error) {
+      console.error('❌ Database error deleting discovered host:', error);
+      return false;
+    }
   }
 
   // BitLocker keys operations
@@ -1056,6 +1277,18 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async createBitlockerAccessLog(entry: schema.InsertBitlockerKeyAccessLog): Promise<schema.BitlockerKeyAccessLog> {
+    const [created] = await db.insert(schema.bitlockerKeyAccessLog).values(entry).returning();
+    return created;
+  }
+
+  async getBitlockerAccessLogs(keyId?: number): Promise<schema.BitlockerKeyAccessLog[]> {
+    const query = db.select().from(schema.bitlockerKeyAccessLog);
+    return keyId === undefined
+      ? query.orderBy(desc(schema.bitlockerKeyAccessLog.id))
+      : query.where(eq(schema.bitlockerKeyAccessLog.keyId, keyId)).orderBy(desc(schema.bitlockerKeyAccessLog.id));
+  }
+
   // VM Inventory operations - using PostgreSQL tables
   async getVmInventory(): Promise<any[]> {
     try {
@@ -1066,6 +1299,10 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getVmInventoryPage(query: ListQuery) {
+    return this.queryPage(schema.vmInventory, query, SEARCH_FIELDS.vmInventory);
+  }
+
   async getVmInventoryItem(id: number): Promise<any> {
     try {
       const [vm] = await db.select().from(schema.vmInventory).where(eq(schema.vmInventory.id, id));
@@ -1215,6 +1452,10 @@ export class DatabaseStorage implements IStorage {
       if (vm.purchaseCost) updateData.purchaseCost = vm.purchaseCost;
       if (vm.notes) updateData.notes = vm.notes;
 
+      // Lifecycle notice tracking
+      if (vm.lastNotifiedAt !== undefined) updateData.lastNotifiedAt = vm.lastNotifiedAt;
+      if (vm.notificationCount !== undefined) updateData.notificationCount = vm.notificationCount;
+
       const [updatedVM] = await db.update(schema.vmInventory)
         .set(updateData)
         .where(eq(schema.vmInventory.id, id))
@@ -1451,6 +1692,56 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // System settings operations
+  async getSystemSettings(): Promise<any> {
+    try {
+      const [settings] = await db.select().from(schema.systemSettings).orderBy(asc(schema.systemSettings.id)).limit(1);
+      return settings;
+    } catch (error) {
+      console.error('❌ Database error fetching system settings:', error);
+      return undefined;
+    }
+  }
+
+  async updateSystemSettings(id: number, data: any): Promise<any> {
+    const { id: _id, updatedAt, ...changes } = data;
+    const [existing] = await db.select().from(schema.systemSettings).where(eq(schema.systemSettings.id, id));
+
+    if (!existing) {
+      const [created] = await db.insert(schema.systemSettings).values({ ...changes, updatedAt: new Date() }).returning();
+      return created;
+    }
+
+    const [updated] = await db.update(schema.systemSettings)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(schema.systemSettings.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Backup run history operations
+  async getBackupRuns(limit: number = 50): Promise<schema.BackupRun[]> {
+    try {
+      return await db.select().from(schema.backupRuns).orderBy(desc(schema.backupRuns.startedAt)).limit(limit);
+    } catch (error) {
+      console.error('❌ Database error fetching backup runs:', error);
+      return [];
+    }
+  }
+
+  async createBackupRun(run: schema.InsertBackupRun): Promise<schema.BackupRun> {
+    const [newRun] = await db.insert(schema.backupRuns).values(run).returning();
+    return newRun;
+  }
+
+  async updateBackupRun(id: number, run: Partial<schema.InsertBackupRun>): Promise<schema.BackupRun | undefined> {
+    const [updatedRun] = await db.update(schema.backupRuns)
+      .set(run)
+      .where(eq(schema.backupRuns.id, id))
+      .returning();
+    return updatedRun;
+  }
+
   async updateSettings(settings: any): Promise<void> {
     try {
       await db.execute(sql`
@@ -1539,47 +1830,28 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async createIssue(issue: any): Promise<any> {
-    // For now, store as activity - in real implementation, create issues table
-    const activity = {
-      id: Date.now(),
-      type: 'issue_reported',
-      description: `Issue reported: ${issue.title}`,
-      userId: 1,
-      assetId: null,
-      metadata: JSON.stringify(issue),
-      timestamp: new Date()
-    };
+  async createIssue(issue: any): Promise<schema.Issue> {
+    const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...values } = issue;
+    const [created] = await db.insert(schema.issues).values(values).returning();
+    return created;
+  }
 
-    // Assuming 'this.db' is correctly initialized and available.
-    // If 'db' is imported directly at the top level, use 'db' directly.
-    // Adjust based on how 'db' is accessed within the class context.
-    // For this example, assuming 'db' is accessible as 'this.db' or globally.
-    if (this.db) {
-      await this.db.insert(activities).values(activity);
-    } else {
-      // Fallback or throw error if db is not available
-      console.error("Database connection not available for createIssue");
-      throw new Error("Database connection required");
-    }
+  async getIssues(): Promise<schema.Issue[]> {
+    return db.select().from(schema.issues).orderBy(desc(schema.issues.id));
+  }
+
+  async getIssue(id: number): Promise<schema.Issue | undefined> {
+    const [issue] = await db.select().from(schema.issues).where(eq(schema.issues.id, id));
     return issue;
   }
 
-  async getIssues(): Promise<any[]> {
-    // Retrieve from activities table for now
-    if (this.db) {
-      const result = await this.db.select().from(activities).where(eq(activities.type, 'issue_reported'));
-      return result.map(activity => {
-        try {
-          return JSON.parse(activity.metadata || '{}');
-        } catch {
-          return {};
-        }
-      });
-    } else {
-      console.error("Database connection not available for getIssues");
-      return [];
-    }
+  async updateIssue(id: number, updates: Partial<schema.Issue>): Promise<schema.Issue | undefined> {
+    const { id: _id, createdAt: _createdAt, ...changes } = updates;
+    const [updated] = await db.update(schema.issues)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(schema.issues.id, id))
+      .returning();
+    return updated;
   }
 
   // IAM Accounts methods
@@ -1614,6 +1886,7 @@ export class DatabaseStorage implements IStorage {
           approvalId: account.approvalId,
           remarks: account.remarks,
           status: account.status,
+          lastNotifiedAt: account.lastNotifiedAt,
           createdAt: account.createdAt?.toISOString() || new Date().toISOString(),
           updatedAt: account.updatedAt?.toISOString() || new Date().toISOString()
         };
@@ -1627,6 +1900,10 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getIamAccountsPage(query: ListQuery) {
+    return this.queryPage(iamAccounts, query, SEARCH_FIELDS.iamAccounts);
+  }
+
   async getIamAccount(id: number): Promise<IamAccount | undefined> {
     const [account] = await db.select().from(iamAccounts).where(eq(iamAccounts.id, id));
     if (!account) return undefined;
@@ -1644,6 +1921,7 @@ export class DatabaseStorage implements IStorage {
       approvalId: account.approvalId,
       remarks: account.remarks,
       status: account.status,
+      lastNotifiedAt: account.lastNotifiedAt,
       createdAt: account.createdAt?.toISOString() || new Date().toISOString(),
       updatedAt: account.updatedAt?.toISOString() || new Date().toISOString()
     };
@@ -1684,6 +1962,7 @@ export class DatabaseStorage implements IStorage {
       approvalId: newAccount.approvalId,
       remarks: newAccount.remarks,
       status: newAccount.status,
+      lastNotifiedAt: newAccount.lastNotifiedAt,
       createdAt: newAccount.createdAt?.toISOString() || new Date().toISOString(),
       updatedAt: newAccount.updatedAt?.toISOString() || new Date().toISOString()
     };
@@ -1729,6 +2008,7 @@ export class DatabaseStorage implements IStorage {
       approvalId: updatedAccount.approvalId,
       remarks: updatedAccount.remarks,
       status: updatedAccount.status,
+      lastNotifiedAt: updatedAccount.lastNotifiedAt,
       createdAt: updatedAccount.createdAt?.toISOString() || new Date().toISOString(),
       updatedAt: updatedAccount.updatedAt?.toISOString() || new Date().toISOString()
     };
@@ -1760,6 +2040,25 @@ export class DatabaseStorage implements IStorage {
 
     return results;
   }
+
+  async getPortableRows(table: PortableTableName): Promise<PortableRow[] | null> {
+    return await db.select().from(PORTABLE_TABLES[table].table);
+  }
+
+  // One transaction: a failed import leaves the database as it was
+  async writePortableRows<T>(write: (writer: PortableRowWriter) => Promise<T>): Promise<T> {
+    return await db.transaction(async (tx) => write({
+      insert: async (table, row) => {
+        const target = PORTABLE_TABLES[table].table as PgTable & { id: PgColumn };
+        const [created] = await tx.insert(target).values(row).returning({ id: target.id });
+        return created.id as number;
+      },
+      update: async (table, id, row) => {
+        const target = PORTABLE_TABLES[table].table as PgTable & { id: PgColumn };
+        await tx.update(target).set(row).where(eq(target.id, id));
+      },
+    }));
+  }
 }
 
 // Removed duplicate initializeDatabase function - using the one from the DatabaseStorage class above
\ No newline at end of file
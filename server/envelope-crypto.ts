@@ -0,0 +1,128 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scryptSync } from "crypto";
+
+// Envelope encryption: every value gets its own random data key (DEK), which is stored
+// next to the ciphertext wrapped by a master key (KEK) taken from the environment.
+// Stored form: enc:v1:<master key id>:<wrapped DEK>:<ciphertext>, both parts base64(iv | tag | data)
+const PREFIX = "enc:v1:";
+const ALGORITHM = "aes-256-gcm";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+// Passphrases are stretched with a fixed salt so the same secret always yields the same key
+const PASSPHRASE_SALT = "srph-mis-envelope-key";
+
+export interface MasterKey {
+  // Short fingerprint stored with each value so the right key can be picked after rotation
+  id: string;
+  key: Buffer;
+}
+
+// The current key seals new values; retired keys stay available to open older ones
+export interface Keyring {
+  current: MasterKey;
+  keys: MasterKey[];
+}
+
+export class EnvelopeCryptoError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EnvelopeCryptoError';
+  }
+}
+
+// Accepts a 32-byte key as 64 hex characters or base64; anything else is treated as a passphrase
+export function masterKeyFromSecret(secret: string): MasterKey {
+  const trimmed = secret.trim();
+  let key: Buffer;
+  if (/^[0-9a-f]{64}$/i.test(trimmed)) {
+    key = Buffer.from(trimmed, "hex");
+  } else if (/^[A-Za-z0-9+/]{43}=?$/.test(trimmed) && Buffer.from(trimmed, "base64").length === KEY_BYTES) {
+    key = Buffer.from(trimmed, "base64");
+  } else {
+    key = scryptSync(trimmed, PASSPHRASE_SALT, KEY_BYTES);
+  }
+  return { id: createHash("sha256").update(key).digest("hex").slice(0, 8), key };
+}
+
+// <envName> holds the current key and <envName>_PREVIOUS a comma-separated list of retired keys.
+// Outside production a key derived from SESSION_SECRET keeps development setups working,
+// but anything encrypted with it is only as safe as that secret
+export function loadKeyring(envName: string): Keyring {
+  const secret = process.env[envName];
+  let current: MasterKey;
+  if (secret) {
+    current = masterKeyFromSecret(secret);
+  } else if (process.env.NODE_ENV === 'production') {
+    throw new EnvelopeCryptoError(`${envName} must be set in production`);
+  } else {
+    console.warn(`⚠️ ${envName} is not set - deriving it from SESSION_SECRET (development only)`);
+    current = masterKeyFromSecret(process.env.SESSION_SECRET || 'srph-mis-default-secret-key');
+  }
+
+  const retired = (process.env[`${envName}_PREVIOUS`] || '')
+    .split(',')
+    .map(value => value.trim())
+    .filter(Boolean)
+    .map(masterKeyFromSecret)
+    .filter(key => key.id !== current.id);
+  return { current, keys: [current, ...retired] };
+}
+
+function seal(plaintext: Buffer, key: Buffer): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), data]).toString("base64");
+}
+
+function open(sealed: string, key: Buffer): Buffer {
+  const raw = Buffer.from(sealed, "base64");
+  if (raw.length < IV_BYTES + TAG_BYTES) {
+    throw new EnvelopeCryptoError("Encrypted value is truncated");
+  }
+  const decipher = createDecipheriv(ALGORITHM, key, raw.subarray(0, IV_BYTES));
+  decipher.setAuthTag(raw.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  try {
+    return Buffer.concat([decipher.update(raw.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+  } catch {
+    throw new EnvelopeCryptoError("Encrypted value failed authentication");
+  }
+}
+
+export function isEncryptedValue(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith(PREFIX);
+}
+
+// Id of the master key a stored value was sealed with, or null for plain text
+export function encryptedValueKeyId(value: string): string | null {
+  return isEncryptedValue(value) ? value.slice(PREFIX.length).split(":")[0] : null;
+}
+
+export function encryptValue(plaintext: string, masterKey: MasterKey): string {
+  const dataKey = randomBytes(KEY_BYTES);
+  const ciphertext = seal(Buffer.from(plaintext, "utf8"), dataKey);
+  const wrappedKey = seal(dataKey, masterKey.key);
+  return `${PREFIX}${masterKey.id}:${wrappedKey}:${ciphertext}`;
+}
+
+// Plain text, or sealed with a key other than the current one
+export function needsReencryption(value: string, keyring: Keyring): boolean {
+  return encryptedValueKeyId(value) !== keyring.current.id;
+}
+
+// masterKeys lists the current key first, then any retired keys still needed for old values
+export function decryptValue(value: string, masterKeys: MasterKey[]): string {
+  if (!isEncryptedValue(value)) {
+    throw new EnvelopeCryptoError("Value is not encrypted");
+  }
+  const [keyId, wrappedKey, ciphertext] = value.slice(PREFIX.length).split(":");
+  if (!keyId || !wrappedKey || !ciphertext) {
+    throw new EnvelopeCryptoError("Encrypted value is malformed");
+  }
+  const masterKey = masterKeys.find(candidate => candidate.id === keyId);
+  if (!masterKey) {
+    throw new EnvelopeCryptoError(`No master key with id ${keyId} is configured`);
+  }
+  const dataKey = open(wrappedKey, masterKey.key);
+  return open(ciphertext, dataKey).toString("utf8");
+}
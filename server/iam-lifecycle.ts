@@ -0,0 +1,356 @@
+import { desc, eq } from "drizzle-orm";
+import { db } from "./db";
+import { storage } from "./storage";
+import { sendMail, isMailConfigured, resolveRecipientEmail } from "./mailer";
+import { broadcast } from "./realtime";
+import { IamAccountStatus, iamAccounts, iamAccountExtensions, type IamAccountExtension } from "@shared/schema";
+import { startIntervalJob, stopIntervalJob } from "./job-scheduler";
+
+type IamAccount = typeof iamAccounts.$inferSelect;
+
+export interface IamLifecycleSweepResult {
+  checked: number;
+  expired: number;
+  noticesSent: number;
+  notificationErrors: string[];
+  worklistSent: boolean;
+  ranAt: string;
+}
+
+export interface WorklistEntry {
+  id: number;
+  requestor: string | null;
+  knoxId: string | null;
+  permission: string | null;
+  projectAccounts: string | null;
+  approvalId: string | null;
+  durationEndDate: string | null;
+  status: string | null;
+  daysExpired: number;
+  notifiedAt: string | null;
+}
+
+export interface AccessRemovalWorklist {
+  generatedAt: string;
+  total: number;
+  platforms: { cloudPlatform: string; accounts: WorklistEntry[] }[];
+}
+
+export interface ExtensionRequest {
+  approvalId: string;
+  endDate: string;
+  reason?: string;
+}
+
+export class IamExtensionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IamExtensionError';
+  }
+}
+
+const SWEEP_JOB = 'IAM lifecycle sweep';
+const SWEEP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_NOTICE_SUBJECT = "Your {{cloudPlatform}} IAM access has expired";
+const DEFAULT_NOTICE_TEMPLATE =
+  "Hello {{requestor}},\n\n" +
+  "Your {{permission}} access on {{cloudPlatform}} ({{projectAccounts}}) granted under approval {{approvalId}} " +
+  "expired on {{endDate}}.\n" +
+  "If you still need it, please submit an extension with a new approval ID. Otherwise the access will be removed.\n\n" +
+  "{{siteName}}";
+
+let sweepRunning = false;
+let lastSweep: IamLifecycleSweepResult | null = null;
+
+export function getLastIamLifecycleSweep(): IamLifecycleSweepResult | null {
+  return lastSweep;
+}
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+function parseDate(value: string | null): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : startOfDay(date);
+}
+
+// Active and extended accounts expire the day after their end date
+export function isIamAccountExpired(account: IamAccount, now: Date = new Date()): boolean {
+  if (account.status !== IamAccountStatus.ACTIVE && account.status !== IamAccountStatus.EXTENDED) return false;
+  const end = parseDate(account.durationEndDate);
+  return !!end && end < startOfDay(now);
+}
+
+function isAwaitingRemoval(account: IamAccount): boolean {
+  return account.status === IamAccountStatus.EXPIRED_NOT_NOTIFIED || account.status === IamAccountStatus.EXPIRED_NOTIFIED;
+}
+
+// Fill {{field}} placeholders from the account; unknown placeholders are left as-is
+export function renderNoticeTemplate(template: string, account: IamAccount, siteName: string): string {
+  const values: Record<string, string> = {
+    requestor: account.requestor || account.knoxId || '',
+    knoxId: account.knoxId || '',
+    permission: account.permission || '',
+    cloudPlatform: account.cloudPlatform || '',
+    projectAccounts: account.projectAccounts || '-',
+    approvalId: account.approvalId || '-',
+    startDate: account.durationStartDate || '-',
+    endDate: account.durationEndDate || '-',
+    siteName,
+  };
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, key) => values[key] ?? placeholder);
+}
+
+function describeAccount(account: IamAccount): string {
+  return `${account.knoxId || account.requestor} (${account.cloudPlatform || 'unknown platform'})`;
+}
+
+async function logIamActivity(account: IamAccount, action: string, notes: string, userId: number | null = null) {
+  await storage.createActivity({
+    action,
+    itemType: "iam-account",
+    itemId: account.id,
+    userId,
+    timestamp: new Date().toISOString(),
+    notes,
+  });
+}
+
+async function getAllAccounts(): Promise<IamAccount[]> {
+  if (!db) {
+    throw new Error("Database connection required for IAM accounts");
+  }
+  return db.select().from(iamAccounts).orderBy(iamAccounts.id);
+}
+
+// Expired accounts whose access still has to be removed, grouped by cloudPlatform
+export async function getAccessRemovalWorklist(now: Date = new Date()): Promise<AccessRemovalWorklist> {
+  const accounts = (await getAllAccounts()).filter(isAwaitingRemoval);
+  const today = startOfDay(now).getTime();
+
+  const byPlatform = new Map<string, WorklistEntry[]>();
+  for (const account of accounts) {
+    const end = parseDate(account.durationEndDate);
+    const platform = account.cloudPlatform || 'Unspecified';
+    const entries = byPlatform.get(platform) || [];
+    entries.push({
+      id: account.id,
+      requestor: account.requestor,
+      knoxId: account.knoxId,
+      permission: account.permission,
+      projectAccounts: account.projectAccounts,
+      approvalId: account.approvalId,
+      durationEndDate: account.durationEndDate,
+      status: account.status,
+      daysExpired: end ? Math.max(0, Math.round((today - end.getTime()) / DAY_MS)) : 0,
+      notifiedAt: account.lastNotifiedAt,
+    });
+    byPlatform.set(platform, entries);
+  }
+
+  const platforms = Array.from(byPlatform.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([cloudPlatform, entries]) => ({
+      cloudPlatform,
+      accounts: entries.sort((a, b) => b.daysExpired - a.daysExpired),
+    }));
+
+  return { generatedAt: now.toISOString(), total: accounts.length, platforms };
+}
+
+function formatWorklist(worklist: AccessRemovalWorklist): string {
+  return worklist.platforms.map(({ cloudPlatform, accounts }) =>
+    `${cloudPlatform} (${accounts.length}):\n` +
+    accounts.map(account =>
+      `- ${account.knoxId || '-'} / ${account.requestor || '-'}: ${account.permission || '-'} on ${account.projectAccounts || '-'}` +
+      ` (ended ${account.durationEndDate || '-'}, ${account.daysExpired} day(s) ago` +
+      `${account.notifiedAt ? ', requestor notified' : ', requestor NOT notified'})`
+    ).join('\n')
+  ).join('\n\n');
+}
+
+// Expire accounts past their end date, send the notice to each requestor,
+// then email admins the per-platform "access to remove" worklist
+export async function runIamLifecycleSweep(now: Date = new Date()): Promise<IamLifecycleSweepResult> {
+  if (sweepRunning) {
+    throw new Error("An IAM lifecycle sweep is already running");
+  }
+  sweepRunning = true;
+
+  const result: IamLifecycleSweepResult = {
+    checked: 0,
+    expired: 0,
+    noticesSent: 0,
+    notificationErrors: [],
+    worklistSent: false,
+    ranAt: now.toISOString(),
+  };
+
+  try {
+    const settings = await storage.getSystemSettings() || {};
+    const siteName = settings.siteName || 'SRPH-MIS';
+    const accounts = await getAllAccounts();
+    result.checked = accounts.length;
+
+    for (const account of accounts.filter(account => isIamAccountExpired(account, now))) {
+      await db!.update(iamAccounts)
+        .set({ status: IamAccountStatus.EXPIRED_NOT_NOTIFIED, updatedAt: new Date() })
+        .where(eq(iamAccounts.id, account.id));
+      account.status = IamAccountStatus.EXPIRED_NOT_NOTIFIED;
+      result.expired++;
+      await logIamActivity(account, "expired",
+        `IAM account ${describeAccount(account)} expired (end date ${account.durationEndDate})`);
+    }
+
+    const allUsers = await storage.getUsers();
+    const shouldNotify = settings.notifyOnOverdue !== false && await isMailConfigured();
+
+    if (shouldNotify && settings.enableUserNotifications !== false) {
+      const subjectTemplate = settings.iamNoticeSubject || DEFAULT_NOTICE_SUBJECT;
+      const bodyTemplate = settings.iamNoticeTemplate || DEFAULT_NOTICE_TEMPLATE;
+
+      for (const account of accounts.filter(account => account.status === IamAccountStatus.EXPIRED_NOT_NOTIFIED)) {
+        const to = resolveRecipientEmail([account.requestor], allUsers, account.knoxId, settings.vmOwnerEmailDomain);
+        if (!to) {
+          result.notificationErrors.push(`${describeAccount(account)}: no email address found for requestor`);
+          continue;
+        }
+
+        try {
+          await sendMail({
+            to,
+            subject: renderNoticeTemplate(subjectTemplate, account, siteName),
+            text: renderNoticeTemplate(bodyTemplate, account, siteName),
+          });
+        } catch (error: any) {
+          result.notificationErrors.push(`${describeAccount(account)}: ${error.message}`);
+          continue;
+        }
+
+        await db!.update(iamAccounts)
+          .set({ status: IamAccountStatus.EXPIRED_NOTIFIED, lastNotifiedAt: now.toISOString(), updatedAt: new Date() })
+          .where(eq(iamAccounts.id, account.id));
+        result.noticesSent++;
+        await logIamActivity(account, "notify", `Expiry notice for IAM account ${describeAccount(account)} sent to ${to}`);
+      }
+    }
+
+    const worklist = await getAccessRemovalWorklist(now);
+    const adminEmails = allUsers.filter(user => user.isAdmin).map(user => user.email).filter(Boolean);
+    if (worklist.total > 0 && shouldNotify && settings.enableAdminNotifications !== false && adminEmails.length > 0) {
+      try {
+        await sendMail({
+          to: adminEmails,
+          subject: `[IAM] ${worklist.total} account(s) awaiting access removal`,
+          text: `Access to remove as of ${now.toISOString().split('T')[0]}:\n\n${formatWorklist(worklist)}\n\n${siteName}`,
+        });
+        result.worklistSent = true;
+      } catch (error: any) {
+        result.notificationErrors.push(`Worklist digest: ${error.message}`);
+      }
+    }
+
+    if (result.expired > 0 || result.noticesSent > 0) {
+      broadcast('iam-accounts:lifecycle', {
+        expired: result.expired,
+        noticesSent: result.noticesSent,
+        awaitingRemoval: worklist.total,
+        ranAt: result.ranAt,
+      });
+    }
+
+    console.log(`🔐 IAM lifecycle sweep: ${result.expired} of ${result.checked} accounts expired, ` +
+      `${result.noticesSent} notices sent, ${worklist.total} awaiting access removal`);
+    if (result.notificationErrors.length > 0) {
+      console.warn(`⚠️ IAM expiry notices failed for ${result.notificationErrors.length} account(s):`, result.notificationErrors);
+    }
+
+    lastSweep = result;
+    return result;
+  } finally {
+    sweepRunning = false;
+  }
+}
+
+// Record a new approval and end date for an account and put it back in service
+export async function extendIamAccount(id: number, request: ExtensionRequest, userId: number | null): Promise<IamAccount | undefined> {
+  if (!db) {
+    throw new Error("Database connection required for IAM accounts");
+  }
+
+  const approvalId = (request.approvalId || '').trim();
+  if (!approvalId) {
+    throw new IamExtensionError("A new approval ID is required to extend an IAM account");
+  }
+  const newEnd = parseDate(request.endDate);
+  if (!newEnd) {
+    throw new IamExtensionError("A valid new end date is required");
+  }
+  if (newEnd < startOfDay(new Date())) {
+    throw new IamExtensionError("The new end date must not be in the past");
+  }
+
+  const [account] = await db.select().from(iamAccounts).where(eq(iamAccounts.id, id));
+  if (!account) return undefined;
+  if (account.status === IamAccountStatus.ACCESS_REMOVED) {
+    throw new IamExtensionError("Access has already been removed; submit a new IAM account request instead");
+  }
+
+  const newEndDate = request.endDate.split('T')[0];
+  const updated = await db.transaction(async (tx) => {
+    await tx.insert(iamAccountExtensions).values({
+      iamAccountId: id,
+      oldApprovalId: account.approvalId,
+      newApprovalId: approvalId,
+      oldEndDate: account.durationEndDate,
+      newEndDate,
+      reason: request.reason?.trim() || null,
+      requestedBy: userId,
+    });
+
+    const [row] = await tx.update(iamAccounts)
+      .set({
+        approvalId,
+        durationEndDate: newEndDate,
+        status: IamAccountStatus.EXTENDED,
+        lastNotifiedAt: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(iamAccounts.id, id))
+      .returning();
+    return row;
+  });
+
+  await logIamActivity(updated, "extend",
+    `IAM account ${describeAccount(updated)} extended to ${newEndDate} under approval ${approvalId}` +
+    ` (was ${account.approvalId || 'none'}, ending ${account.durationEndDate || 'none'})` +
+    (request.reason?.trim() ? `: ${request.reason.trim()}` : ''), userId);
+  broadcast('iam-accounts:lifecycle', { extended: id });
+
+  return updated;
+}
+
+export async function getIamAccountExtensions(id: number): Promise<IamAccountExtension[]> {
+  if (!db) return [];
+  return db.select().from(iamAccountExtensions)
+    .where(eq(iamAccountExtensions.iamAccountId, id))
+    .orderBy(desc(iamAccountExtensions.createdAt));
+}
+
+export function startIamLifecycleScheduler() {
+  if (!db) return;
+
+  if (startIntervalJob({ name: SWEEP_JOB, intervalMs: SWEEP_INTERVAL_MS, run: () => runIamLifecycleSweep() })) {
+    console.log('🔐 IAM account lifecycle scheduler started (daily)');
+  }
+}
+
+export function stopIamLifecycleScheduler() {
+  stopIntervalJob(SWEEP_JOB);
+}
@@ -2,9 +2,20 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { networkInterfaces } from "os";
-import { runMigrations } from "./migrate";
+import { runMigrations, MigrationError, SchemaDriftError } from "./migrate";
 import { storage } from "./storage";
 import { DatabaseStorage, initializeDatabase } from "./database-storage";
+import { startBackupScheduler } from "./backup-scheduler";
+import { startAlertEvaluator } from "./alert-evaluator";
+import { startNotificationRetries } from "./notifier";
+import { startVmMetricsRollup } from "./vm-metrics";
+import { startOverdueAssetSweep } from "./overdue-assets";
+import { startVmLifecycleScheduler } from "./vm-lifecycle";
+import { startIamLifecycleScheduler } from "./iam-lifecycle";
+import { startJiraStatusSync } from "./issue-tracker";
+import { startZabbixSyncWorker } from "./zabbix-sync";
+import { assertRoutesGuarded } from "./route-guards";
+import { reencryptStoredSecrets } from "./secrets";
 
 const app = express();
 // Parse JSON and URL-encoded bodies with increased size limits for CSV imports
@@ -120,6 +131,11 @@ app.use((req, res, next) => {
 
     } catch (migrationError: any) {
       console.error("❌ Database migrations failed:", migrationError.message);
+      // A database the code does not match must be fixed, not silently swapped for memory
+      if (migrationError instanceof MigrationError || migrationError instanceof SchemaDriftError) {
+        console.error("💡 Inspect it with `npm run db:migrate -- status`; set ALLOW_SCHEMA_DRIFT=true to start anyway");
+        process.exit(1);
+      }
       console.warn("⚠️ Falling back to in-memory storage");
       usingDatabase = false;
     }
@@ -130,6 +146,41 @@ app.use((req, res, next) => {
     usingDatabase = false;
   }
 
+  // Alert rules, notification retries, IAM accounts and VM metric history live in PostgreSQL only
+  if (usingDatabase) {
+    startAlertEvaluator();
+    startNotificationRetries();
+    startVmMetricsRollup();
+    startIamLifecycleScheduler();
+  }
+
+  // Daily sweep marking checkouts past their expected check-in date as overdue
+  startOverdueAssetSweep();
+
+  // Expiry notices and overdue status transitions for vm_inventory
+  startVmLifecycleScheduler();
+
+  // Copies JIRA ticket status back onto reported issues
+  startJiraStatusSync();
+
+  // Pulls host status and usage from Zabbix every zabbixSettings.syncInterval minutes
+  await startZabbixSyncWorker();
+
+  // Credentials and BitLocker recovery keys saved before encryption at rest are sealed once on
+  // startup; this also fails loudly when a master key is missing in production
+  try {
+    await reencryptStoredSecrets();
+  } catch (vaultError) {
+    console.error("❌ Failed to encrypt stored secrets:", vaultError);
+  }
+
+  // Arm the automatic backup timer from the saved systemSettings schedule
+  try {
+    await startBackupScheduler();
+  } catch (schedulerError) {
+    console.error("❌ Failed to start backup scheduler:", schedulerError);
+  }
+
   // Ensure default admin user exists regardless of storage type
   setTimeout(async () => {
     try {
@@ -172,6 +223,7 @@ app.use((req, res, next) => {
 
 async function startServer() {
   const server = await registerRoutes(app);
+  assertRoutesGuarded(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
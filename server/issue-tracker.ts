@@ -0,0 +1,212 @@
+import { storage } from "./storage";
+import { broadcast } from "./realtime";
+import { revealJiraSettings } from "./secrets";
+import { createJiraTicket, fetchJiraIssueStatuses, type IssueData, type JiraSettings } from "./jira-integration";
+import { IssueStatus, type Issue } from "@shared/schema";
+import { startIntervalJob, stopIntervalJob } from "./job-scheduler";
+
+export interface IssueReport {
+  title: string;
+  description: string;
+  priority?: IssueData['priority'];
+  issueType?: string;
+  userEmail?: string | null;
+}
+
+export interface IssueReportResult {
+  issue: Issue;
+  ticketId: string;
+  source: 'jira' | 'local' | 'fallback';
+  warning?: string;
+}
+
+export interface JiraSyncResult {
+  checked: number;
+  updated: number;
+  missing: string[];
+  error: string | null;
+  ranAt: string;
+}
+
+const SYNC_JOB = 'JIRA status sync';
+const SYNC_INTERVAL_MS = 15 * 60 * 1000;
+// Keys per JIRA search request
+const SYNC_BATCH_SIZE = 50;
+const PRIORITIES = ['Low', 'Medium', 'High', 'Critical'];
+
+let syncRunning = false;
+let lastSync: JiraSyncResult | null = null;
+
+export function getLastJiraSync(): JiraSyncResult | null {
+  return lastSync;
+}
+
+// Stored settings with the nested objects filled in, so older rows missing them still work.
+// Credentials come back decrypted; routes must pass the result through redactJiraSettings
+export async function getJiraConfig(): Promise<JiraSettings | null> {
+  const settings = await storage.getJiraSettings();
+  if (!settings) return null;
+  return revealJiraSettings({
+    ...settings,
+    enabled: !!settings.enabled,
+    priorityMapping: { Low: '4', Medium: '3', High: '2', Critical: '1', ...settings.priorityMapping },
+    authentication: { type: 'none', ...settings.authentication },
+  });
+}
+
+// Local reference for issues that never reached JIRA
+function localReference(issue: Issue): string {
+  return `LOCAL-${String(issue.id).padStart(5, '0')}`;
+}
+
+// Record the issue locally, then raise a JIRA ticket when the integration is enabled.
+// A JIRA failure keeps the local record and reports it as a fallback.
+export async function reportIssue(report: IssueReport, submittedBy: string, reportedBy: number | null): Promise<IssueReportResult> {
+  const priority = PRIORITIES.includes(report.priority as string) ? report.priority! : 'Medium';
+  const issue = await storage.createIssue({
+    title: report.title.trim(),
+    description: report.description.trim(),
+    priority,
+    issueType: report.issueType || 'Incident',
+    status: IssueStatus.OPEN,
+    userEmail: report.userEmail?.trim() || null,
+    submittedBy,
+    reportedBy,
+  });
+
+  const settings = await getJiraConfig();
+  if (!settings?.enabled) {
+    return { issue, ticketId: localReference(issue), source: 'local' };
+  }
+
+  try {
+    const jiraKey = await createJiraTicket(settings, {
+      title: issue.title,
+      description: issue.description,
+      priority,
+      issueType: issue.issueType,
+      userEmail: issue.userEmail || undefined,
+      submittedBy,
+    });
+    const linked = await storage.updateIssue(issue.id, {
+      jiraKey,
+      jiraStatus: 'Open',
+      jiraError: null,
+      lastSyncedAt: new Date().toISOString(),
+    });
+    return { issue: linked || issue, ticketId: jiraKey, source: 'jira' };
+  } catch (error: any) {
+    console.error(`❌ JIRA ticket for issue ${issue.id} could not be created:`, error.message);
+    const failed = await storage.updateIssue(issue.id, { jiraError: error.message });
+    return {
+      issue: failed || issue,
+      ticketId: localReference(issue),
+      source: 'fallback',
+      warning: 'JIRA is unavailable, the issue was saved locally',
+    };
+  }
+}
+
+// JIRA status categories: new, indeterminate (in progress) and done
+export function toIssueStatus(statusCategory: string): string {
+  const category = statusCategory.toLowerCase();
+  if (category === 'done') return IssueStatus.RESOLVED;
+  if (category === 'indeterminate' || category === 'in progress') return IssueStatus.IN_PROGRESS;
+  return IssueStatus.OPEN;
+}
+
+// Pull the current JIRA status of every linked issue and copy it onto the local record
+export async function runJiraStatusSync(now: Date = new Date()): Promise<JiraSyncResult> {
+  if (syncRunning) {
+    throw new Error("A JIRA status sync is already running");
+  }
+  syncRunning = true;
+
+  const result: JiraSyncResult = {
+    checked: 0,
+    updated: 0,
+    missing: [],
+    error: null,
+    ranAt: now.toISOString(),
+  };
+
+  try {
+    const settings = await getJiraConfig();
+    if (!settings?.enabled) {
+      result.error = "JIRA integration is disabled";
+      lastSync = result;
+      return result;
+    }
+
+    const linked = (await storage.getIssues()).filter(issue => issue.jiraKey);
+    result.checked = linked.length;
+
+    const changed: Issue[] = [];
+    for (let i = 0; i < linked.length; i += SYNC_BATCH_SIZE) {
+      const batch = linked.slice(i, i + SYNC_BATCH_SIZE);
+      const statuses = new Map(
+        (await fetchJiraIssueStatuses(settings, batch.map(issue => issue.jiraKey!)))
+          .map(status => [status.key, status])
+      );
+
+      for (const issue of batch) {
+        const remote = statuses.get(issue.jiraKey!);
+        if (!remote) {
+          result.missing.push(issue.jiraKey!);
+          continue;
+        }
+
+        const status = toIssueStatus(remote.statusCategory);
+        const updates: Partial<Issue> = { lastSyncedAt: result.ranAt };
+        const statusChanged = remote.status !== issue.jiraStatus || status !== issue.status;
+        if (statusChanged) {
+          updates.jiraStatus = remote.status;
+          updates.status = status;
+        }
+
+        const updated = await storage.updateIssue(issue.id, updates);
+        if (updated && statusChanged) {
+          changed.push(updated);
+          await storage.createActivity({
+            action: "update",
+            itemType: "issue",
+            itemId: issue.id,
+            userId: null,
+            timestamp: new Date().toISOString(),
+            notes: `JIRA ${issue.jiraKey} moved from ${issue.jiraStatus || 'unknown'} to ${remote.status}`,
+          });
+        }
+      }
+    }
+
+    result.updated = changed.length;
+    if (changed.length > 0) {
+      broadcast('issues:status', {
+        updated: changed.map(issue => ({ id: issue.id, jiraKey: issue.jiraKey, status: issue.status, jiraStatus: issue.jiraStatus })),
+        ranAt: result.ranAt,
+      });
+    }
+
+    console.log(`🎫 JIRA status sync: ${result.updated} of ${result.checked} linked issues changed` +
+      (result.missing.length > 0 ? `, ${result.missing.length} not found in JIRA` : ''));
+
+    lastSync = result;
+    return result;
+  } catch (error: any) {
+    result.error = error.message;
+    lastSync = result;
+    throw error;
+  } finally {
+    syncRunning = false;
+  }
+}
+
+export function startJiraStatusSync() {
+  if (startIntervalJob({ name: SYNC_JOB, intervalMs: SYNC_INTERVAL_MS, run: () => runJiraStatusSync() })) {
+    console.log('🎫 JIRA status sync scheduled (every 15 minutes)');
+  }
+}
+
+export function stopJiraStatusSync() {
+  stopIntervalJob(SYNC_JOB);
+}
@@ -0,0 +1,116 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import type { AddressInfo } from "net";
+import { fetchJiraIssueStatuses, testJiraConnection, type JiraSettings } from "./jira-integration";
+
+// Stand-in for the JIRA REST API: one project, two tickets, basic auth for jira-bot:api-token
+const EXPECTED_AUTH = `Basic ${Buffer.from('jira-bot:api-token').toString('base64')}`;
+const requests: Array<{ method: string; path: string; body: any }> = [];
+
+const server = http.createServer((req, res) => {
+  let raw = '';
+  req.on('data', chunk => raw += chunk);
+  req.on('end', () => {
+    const body = raw ? JSON.parse(raw) : null;
+    requests.push({ method: req.method!, path: req.url!, body });
+    const reply = (status: number, payload: object) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(payload));
+    };
+
+    if (req.headers.authorization !== EXPECTED_AUTH) {
+      return reply(401, { errorMessages: ['Unauthorized'] });
+    }
+    if (req.method === 'GET' && req.url === '/rest/api/2/serverInfo') {
+      return reply(200, { serverTitle: 'Fake JIRA', version: '9.12.0' });
+    }
+    if (req.method === 'GET' && req.url === '/rest/api/2/project/OPS') {
+      return reply(200, { key: 'OPS', name: 'Operations' });
+    }
+    if (req.method === 'GET' && req.url?.startsWith('/rest/api/2/project/')) {
+      return reply(404, { errorMessages: ['No project could be found'] });
+    }
+    if (req.method === 'POST' && req.url === '/rest/api/2/issue') {
+      return reply(201, { id: '10042', key: 'OPS-42' });
+    }
+    if (req.method === 'POST' && req.url === '/rest/api/2/search') {
+      return reply(200, { issues: [
+        { key: 'OPS-1', fields: { status: { name: 'In Progress', statusCategory: { key: 'indeterminate' } } } },
+        { key: 'OPS-2', fields: { status: { name: 'Done', statusCategory: { key: 'done' } } } },
+      ] });
+    }
+    reply(404, { errorMessages: ['Not found'] });
+  });
+});
+
+let settings: JiraSettings;
+
+before(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  settings = {
+    enabled: true,
+    webhookUrl: `http://127.0.0.1:${port}`,
+    projectKey: 'OPS',
+    priorityMapping: { Low: '4', Medium: '3', High: '2', Critical: '1' },
+    authentication: { type: 'token', username: 'jira-bot', token: 'api-token' },
+  };
+});
+
+after(() => {
+  server.close();
+});
+
+test('issue statuses are looked up in a single key search', async () => {
+  requests.length = 0;
+
+  const statuses = await fetchJiraIssueStatuses(settings, ['OPS-1', 'OPS-2']);
+
+  assert.deepEqual(statuses, [
+    { key: 'OPS-1', status: 'In Progress', statusCategory: 'indeterminate' },
+    { key: 'OPS-2', status: 'Done', statusCategory: 'done' },
+  ]);
+  assert.equal(requests.length, 1);
+  assert.equal(requests[0].path, '/rest/api/2/search');
+  assert.equal(requests[0].body.jql, 'key in ("OPS-1", "OPS-2")');
+  assert.equal(requests[0].body.maxResults, 2);
+});
+
+test('no request is made when there are no tickets to look up', async () => {
+  requests.length = 0;
+
+  assert.deepEqual(await fetchJiraIssueStatuses(settings, []), []);
+  assert.equal(requests.length, 0);
+});
+
+test('rejected credentials surface the JIRA error', async () => {
+  await assert.rejects(
+    fetchJiraIssueStatuses({ ...settings, authentication: { type: 'token', username: 'jira-bot', token: 'wrong' } }, ['OPS-1']),
+    /JIRA API error \(401\)/
+  );
+});
+
+test('the connection test checks the server and project, then raises a test ticket', async () => {
+  requests.length = 0;
+
+  const result = await testJiraConnection({ ...settings, webhookUrl: `${settings.webhookUrl}/rest/api/2/issue` });
+
+  assert.equal(result.ticketId, 'OPS-42');
+  assert.match(result.message, /Fake JIRA v9\.12\.0/);
+  assert.match(result.message, /Project: Operations/);
+  assert.deepEqual(requests.map(request => `${request.method} ${request.path}`), [
+    'GET /rest/api/2/serverInfo',
+    'GET /rest/api/2/project/OPS',
+    'POST /rest/api/2/issue',
+  ]);
+  assert.equal(requests[2].body.fields.project.key, 'OPS');
+  assert.equal(requests[2].body.fields.priority.id, '4');
+});
+
+test('the connection test reports a project the user cannot see', async () => {
+  await assert.rejects(
+    testJiraConnection({ ...settings, projectKey: 'NOPE' }),
+    /Project 'NOPE' not found or no access/
+  );
+});
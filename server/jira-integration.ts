@@ -1,5 +1,5 @@
 
-interface JiraSettings {
+export interface JiraSettings {
   enabled: boolean;
   webhookUrl: string;
   automationWebhookUrl?: string;
@@ -21,7 +21,7 @@ interface JiraSettings {
   };
 }
 
-interface IssueData {
+export interface IssueData {
   title: string;
   description: string;
   priority: 'Low' | 'Medium' | 'High' | 'Critical';
@@ -505,3 +505,61 @@ export async function fetchJiraIssues(settings: JiraSettings): Promise<any> {
     throw new Error(`Failed to fetch JIRA issues: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
+
+export interface JiraIssueStatus {
+  key: string;
+  status: string;
+  statusCategory: string;
+}
+
+// Look up the current status of the given tickets in one search request (JQL "key in (...)")
+export async function fetchJiraIssueStatuses(settings: JiraSettings, keys: string[]): Promise<JiraIssueStatus[]> {
+  if (!settings.enabled || !settings.webhookUrl) {
+    throw new Error('JIRA integration is not properly configured');
+  }
+  if (keys.length === 0) return [];
+
+  let baseUrl = settings.webhookUrl.trim().replace(/\/+$/, '');
+  if (baseUrl.includes('/rest/api/')) {
+    baseUrl = baseUrl.substring(0, baseUrl.indexOf('/rest/api/'));
+  }
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'Accept': 'application/json'
+  };
+
+  if (settings.authentication.type === 'basic' && settings.authentication.username && settings.authentication.password) {
+    const credentials = Buffer.from(`${settings.authentication.username}:${settings.authentication.password}`).toString('base64');
+    headers['Authorization'] = `Basic ${credentials}`;
+  } else if (settings.authentication.type === 'token' && settings.authentication.username && settings.authentication.token) {
+    const credentials = Buffer.from(`${settings.authentication.username}:${settings.authentication.token}`).toString('base64');
+    headers['Authorization'] = `Basic ${credentials}`;
+  }
+
+  const response = await fetch(`${baseUrl}/rest/api/2/search`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      jql: `key in (${keys.map(key => `"${key}"`).join(', ')})`,
+      startAt: 0,
+      maxResults: keys.length,
+      fields: ['status'],
+      // Deleted or moved tickets should not fail the whole lookup
+      validateQuery: 'warn'
+    }),
+    signal: AbortSignal.timeout(30000)
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`JIRA API error (${response.status}): ${errorText}`);
+  }
+
+  const result = await response.json();
+  return (result.issues || []).map((issue: any) => ({
+    key: issue.key,
+    status: issue.fields?.status?.name || 'Unknown',
+    statusCategory: issue.fields?.status?.statusCategory?.key || issue.fields?.status?.statusCategory?.name || 'new',
+  }));
+}
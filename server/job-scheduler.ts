@@ -0,0 +1,47 @@
+// Interval jobs for the background workers. server/index.ts starts the workers once migrations
+// have finished, so a job runs right away and then every intervalMs. A run still going when the
+// next one is due is skipped, and a failed run is logged without stopping the schedule.
+export interface IntervalJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<unknown>;
+}
+
+interface ActiveJob {
+  timer: NodeJS.Timeout;
+  running: boolean;
+}
+
+const activeJobs = new Map<string, ActiveJob>();
+
+// Returns false when a job with this name is already scheduled
+export function startIntervalJob(job: IntervalJob): boolean {
+  if (activeJobs.has(job.name)) return false;
+
+  const active: ActiveJob = { timer: setInterval(() => tick(), job.intervalMs), running: false };
+  active.timer.unref();
+  activeJobs.set(job.name, active);
+
+  async function tick() {
+    if (active.running) return;
+    active.running = true;
+    try {
+      await job.run();
+    } catch (error) {
+      console.error(`❌ ${job.name} failed:`, error);
+    } finally {
+      active.running = false;
+    }
+  }
+
+  tick();
+  return true;
+}
+
+export function stopIntervalJob(name: string) {
+  const active = activeJobs.get(name);
+  if (active) {
+    clearInterval(active.timer);
+    activeJobs.delete(name);
+  }
+}
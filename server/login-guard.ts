@@ -0,0 +1,106 @@
+import type { PasswordPolicy } from "./password-policy";
+
+export interface LoginLockout {
+  scope: 'account' | 'ip';
+  lockedUntil: Date;
+}
+
+interface FailureRecord {
+  failures: number;
+  lastFailureAt: number;
+  lockedUntil: number | null;
+}
+
+// Several people can share an address (NAT, VPN), so an IP gets more attempts than an account
+const IP_ATTEMPT_MULTIPLIER = 3;
+const MINUTE_MS = 60 * 1000;
+
+// Failure counters live in memory and reset with the process
+const failures = new Map<string, FailureRecord>();
+
+function accountKey(username: string): string {
+  return `account:${username.trim().toLowerCase()}`;
+}
+
+function ipKey(ip: string): string {
+  return `ip:${ip}`;
+}
+
+function windowMs(policy: PasswordPolicy): number {
+  return policy.lockoutDuration * MINUTE_MS;
+}
+
+// Forget counters whose lockout ended or whose last failure is older than the lockout window
+function prune(now: number, policy: PasswordPolicy) {
+  failures.forEach((record, key) => {
+    const expired = record.lockedUntil
+      ? record.lockedUntil <= now
+      : now - record.lastFailureAt > windowMs(policy);
+    if (expired) failures.delete(key);
+  });
+}
+
+function activeLockout(key: string, now: number): number | null {
+  const record = failures.get(key);
+  return record?.lockedUntil && record.lockedUntil > now ? record.lockedUntil : null;
+}
+
+export function getLoginLockout(username: string, ip: string, policy: PasswordPolicy, now: Date = new Date()): LoginLockout | null {
+  if (!policy.enableLockout) return null;
+  prune(now.getTime(), policy);
+
+  const account = activeLockout(accountKey(username), now.getTime());
+  if (account) return { scope: 'account', lockedUntil: new Date(account) };
+  const address = activeLockout(ipKey(ip), now.getTime());
+  if (address) return { scope: 'ip', lockedUntil: new Date(address) };
+  return null;
+}
+
+function recordFailure(key: string, limit: number, policy: PasswordPolicy, now: number): number | null {
+  const record = failures.get(key) || { failures: 0, lastFailureAt: now, lockedUntil: null };
+  record.failures++;
+  record.lastFailureAt = now;
+  if (record.failures >= limit) {
+    record.lockedUntil = now + windowMs(policy);
+  }
+  failures.set(key, record);
+  return record.lockedUntil;
+}
+
+// Count a failed login against the account and the client address; returns the lockout it triggered, if any
+export function recordFailedLogin(username: string, ip: string, policy: PasswordPolicy, now: Date = new Date()): LoginLockout | null {
+  if (!policy.enableLockout) return null;
+
+  const account = recordFailure(accountKey(username), policy.maxLoginAttempts, policy, now.getTime());
+  const address = recordFailure(ipKey(ip), policy.maxLoginAttempts * IP_ATTEMPT_MULTIPLIER, policy, now.getTime());
+  if (account) return { scope: 'account', lockedUntil: new Date(account) };
+  if (address) return { scope: 'ip', lockedUntil: new Date(address) };
+  return null;
+}
+
+// A successful login clears the account counter; the address keeps its count so
+// logging into one account cannot reset attempts spread across others
+export function clearFailedLogins(username: string) {
+  failures.delete(accountKey(username));
+}
+
+export function getLockedAccounts(now: Date = new Date()): { username: string; failures: number; lockedUntil: string }[] {
+  const locked: { username: string; failures: number; lockedUntil: string }[] = [];
+  failures.forEach((record, key) => {
+    if (key.startsWith('account:') && record.lockedUntil && record.lockedUntil > now.getTime()) {
+      locked.push({
+        username: key.slice('account:'.length),
+        failures: record.failures,
+        lockedUntil: new Date(record.lockedUntil).toISOString(),
+      });
+    }
+  });
+  return locked;
+}
+
+export function describeLockout(lockout: LoginLockout, now: Date = new Date()): string {
+  const minutes = Math.max(1, Math.ceil((lockout.lockedUntil.getTime() - now.getTime()) / MINUTE_MS));
+  return lockout.scope === 'account'
+    ? `Too many failed login attempts. This account is locked for ${minutes} more minute(s).`
+    : `Too many failed login attempts from this address. Try again in ${minutes} minute(s).`;
+}
@@ -0,0 +1,74 @@
+import nodemailer from "nodemailer";
+import { storage } from "./storage";
+import { openSecret } from "./secrets";
+import { users } from "@shared/schema";
+
+type User = typeof users.$inferSelect;
+
+export interface MailMessage {
+  to: string | string[];
+  subject: string;
+  text: string;
+}
+
+const SMTP_TIMEOUT_MS = 10000;
+
+export async function isMailConfigured(): Promise<boolean> {
+  const settings = await storage.getSystemSettings() || {};
+  return !!settings.mailHost;
+}
+
+// Send through the SMTP server configured in systemSettings
+export async function sendMail(message: MailMessage): Promise<void> {
+  const settings = await storage.getSystemSettings() || {};
+  if (!settings.mailHost) {
+    throw new Error("SMTP is not configured (mail host missing in system settings)");
+  }
+
+  const port = parseInt(settings.mailPort, 10) || 587;
+  const transport = nodemailer.createTransport({
+    host: settings.mailHost,
+    port,
+    secure: port === 465,
+    auth: settings.mailUsername ? { user: settings.mailUsername, pass: openSecret(settings.mailPassword) } : undefined,
+    connectionTimeout: SMTP_TIMEOUT_MS,
+    greetingTimeout: SMTP_TIMEOUT_MS,
+  });
+
+  const fromAddress = settings.mailFromAddress || settings.mailUsername || `noreply@${settings.mailHost}`;
+  await transport.sendMail({
+    from: settings.mailFromName ? `"${settings.mailFromName}" <${fromAddress}>` : fromAddress,
+    to: message.to,
+    subject: message.subject,
+    text: message.text,
+  });
+}
+
+// Best address for a requestor/owner recorded as free text: an explicit address,
+// a user whose username or mailbox matches, or the Knox ID at the configured domain
+export function resolveRecipientEmail(
+  names: (string | null | undefined)[],
+  allUsers: User[],
+  knoxId?: string | null,
+  emailDomain?: string | null
+): string | null {
+  const candidates = [...names, knoxId]
+    .map(value => (value || '').trim())
+    .filter(Boolean);
+
+  const explicit = candidates.find(value => value.includes('@'));
+  if (explicit) return explicit;
+
+  for (const candidate of candidates) {
+    const name = candidate.toLowerCase();
+    const match = allUsers.find(user =>
+      user.email && (user.username.toLowerCase() === name || user.email.split('@')[0].toLowerCase() === name));
+    if (match) return match.email;
+  }
+
+  const domain = (emailDomain || '').trim().replace(/^@/, '');
+  if (domain && knoxId?.trim()) {
+    return `${knoxId.trim()}@${domain}`;
+  }
+  return null;
+}
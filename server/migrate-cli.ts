@@ -0,0 +1,53 @@
+// Inspect and move the database between schema migrations:
+//   npm run db:migrate -- status         list every migration and whether it is applied
+//   npm run db:migrate -- up [version]   apply pending migrations (all, or up to version)
+//   npm run db:migrate -- down [version] roll back to version (default: undo the latest one)
+import { db } from "./db";
+import { MIGRATIONS } from "./migrations";
+import { findSchemaDrift, getMigrationStatus, migrateDown, migrateUp } from "./migrate";
+
+function parseVersion(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 0) {
+    throw new Error(`Invalid migration version: ${value}`);
+  }
+  return version;
+}
+
+(async () => {
+  if (!db || !process.env.DATABASE_URL) {
+    console.error("❌ DATABASE_URL must point at the database to migrate");
+    process.exit(1);
+  }
+
+  const [command = 'status', argument] = process.argv.slice(2);
+
+  try {
+    if (command === 'status') {
+      const status = await getMigrationStatus();
+      for (const migration of status) {
+        const applied = migration.appliedAt ? ` (${migration.appliedAt})` : '';
+        console.log(`${migration.state.padEnd(8)} ${String(migration.version).padStart(4, '0')}_${migration.name}${applied}`);
+      }
+      const drift = await findSchemaDrift();
+      console.log(drift.length === 0 ? "✅ Schema matches shared/schema.ts" : `⚠️ Schema drift:\n  - ${drift.join('\n  - ')}`);
+    } else if (command === 'up') {
+      const applied = await migrateUp(parseVersion(argument));
+      console.log(applied.length > 0 ? `✅ Applied ${applied.length} migration(s)` : "✅ Nothing to apply");
+    } else if (command === 'down') {
+      const status = await getMigrationStatus();
+      const latest = status.filter(migration => migration.state === 'applied').pop();
+      const previous = latest ? Math.max(0, ...MIGRATIONS.filter(m => m.version < latest.version).map(m => m.version)) : 0;
+      const rolledBack = await migrateDown(parseVersion(argument) ?? previous);
+      console.log(rolledBack.length > 0 ? `✅ Rolled back ${rolledBack.length} migration(s)` : "✅ Nothing to roll back");
+    } else {
+      console.error(`❌ Unknown command "${command}" (expected status, up or down)`);
+      process.exit(1);
+    }
+    process.exit(0);
+  } catch (error: any) {
+    console.error("❌", error.message);
+    process.exit(1);
+  }
+})();
@@ -1,1235 +1,296 @@
-import { db } from "./db";
-import { sql } from "drizzle-orm";
+import { createHash } from "crypto";
+import type { PoolClient } from "pg";
+import { sql, is } from "drizzle-orm";
+import { PgTable, getTableConfig } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+import { db, pool } from "./db";
+import { builtInRoles } from "./roles";
+import { MIGRATIONS, type Migration } from "./migrations";
+
+// Advisory lock key so two processes never migrate the same database at once
+const MIGRATION_LOCK_ID = 7104190;
+
+export type MigrationState = 'applied' | 'pending' | 'modified' | 'unknown';
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  state: MigrationState;
+  checksum: string;
+  appliedAt: string | null;
+}
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
 
-export async function runMigrations() {
-  try {
-    console.log("🔄 Starting comprehensive database verification...");
+export class SchemaDriftError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Database schema does not match shared/schema.ts:\n  - ${problems.join('\n  - ')}`);
+    this.name = 'SchemaDriftError';
+  }
+}
 
-    // Test database connection first
-    await db.execute(sql`SELECT 1 as test`);
-    console.log("✅ Database connection established");
+export function migrationChecksum(migration: Migration): string {
+  return createHash('sha256').update(`${migration.up}\n--down--\n${migration.down ?? ''}`).digest('hex');
+}
 
-    // Function to check if table exists
-    async function tableExists(tableName: string): Promise<boolean> {
-      try {
-        const result = await db.execute(sql`
-          SELECT EXISTS (
-            SELECT FROM information_schema.tables 
-            WHERE table_schema = 'public' 
-            AND table_name = ${tableName}
-          );
-        `);
-        return result.rows[0].exists;
-      } catch (error) {
-        console.log(`❌ Error checking table ${tableName}:`, error.message);
-        return false;
-      }
-    }
+async function withMigrationLock<T>(run: (client: PoolClient) => Promise<T>): Promise<T> {
+  if (!pool) {
+    throw new MigrationError("Database connection required");
+  }
+  const client = await pool.connect();
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        checksum TEXT NOT NULL,
+        duration_ms INTEGER,
+        applied_at TIMESTAMP DEFAULT NOW() NOT NULL
+      )
+    `);
+    return await run(client);
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]).catch(() => {});
+    client.release();
+  }
+}
+
+async function readStatus(client: PoolClient): Promise<MigrationStatus[]> {
+  const { rows } = await client.query<{ version: number; name: string; checksum: string; applied_at: Date }>(
+    'SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version'
+  );
+  const applied = new Map(rows.map(row => [row.version, row]));
+
+  const status: MigrationStatus[] = MIGRATIONS.map(migration => {
+    const row = applied.get(migration.version);
+    const checksum = migrationChecksum(migration);
+    return {
+      version: migration.version,
+      name: migration.name,
+      state: !row ? 'pending' : row.checksum === checksum ? 'applied' : 'modified',
+      checksum,
+      appliedAt: row ? row.applied_at.toISOString() : null,
+    };
+  });
 
-    // Function to check if column exists
-    async function columnExists(tableName: string, columnName: string): Promise<boolean> {
-      try {
-        const result = await db.execute(sql`
-          SELECT EXISTS (
-            SELECT FROM information_schema.columns 
-            WHERE table_schema = 'public' 
-            AND table_name = ${tableName}
-            AND column_name = ${columnName}
-          );
-        `);
-        return result.rows[0].exists;
-      } catch (error) {
-        console.log(`❌ Error checking column ${columnName} in ${tableName}:`, error.message);
-        return false;
-      }
+  // Versions recorded by a newer release of the application
+  for (const row of rows) {
+    if (!MIGRATIONS.some(migration => migration.version === row.version)) {
+      status.push({ version: row.version, name: row.name, state: 'unknown', checksum: row.checksum, appliedAt: row.applied_at.toISOString() });
     }
-
-    // Function to add missing column
-    async function addColumn(tableName: string, columnName: string, columnDefinition: string) {
+  }
+  return status.sort((a, b) => a.version - b.version);
+}
+
+function assertIntact(status: MigrationStatus[]) {
+  const modified = status.filter(migration => migration.state === 'modified');
+  if (modified.length > 0) {
+    throw new MigrationError(
+      `Applied migrations were edited after they ran: ${modified.map(m => `${m.version}_${m.name}`).join(', ')}. ` +
+      `Restore them and add a new migration instead.`
+    );
+  }
+  const unknown = status.filter(migration => migration.state === 'unknown');
+  if (unknown.length > 0) {
+    throw new MigrationError(
+      `The database has migrations this release does not know (${unknown.map(m => `${m.version}_${m.name}`).join(', ')}); ` +
+      `it was migrated by a newer version of the application.`
+    );
+  }
+}
+
+export async function getMigrationStatus(): Promise<MigrationStatus[]> {
+  return withMigrationLock(readStatus);
+}
+
+// Apply pending migrations in order, up to and including target; each runs in its own transaction
+export async function migrateUp(target?: number): Promise<MigrationStatus[]> {
+  return withMigrationLock(async (client) => {
+    const status = await readStatus(client);
+    assertIntact(status);
+
+    const pending = status.filter(migration => migration.state === 'pending' && (target === undefined || migration.version <= target));
+    for (const entry of pending) {
+      const migration = MIGRATIONS.find(m => m.version === entry.version)!;
+      const startedAt = Date.now();
       try {
-        await db.execute(sql.raw(`ALTER TABLE ${tableName} ADD COLUMN ${columnName} ${columnDefinition}`));
-        console.log(`✅ Added missing column ${columnName} to ${tableName}`);
-      } catch (error) {
-        console.log(`⚠️ Could not add column ${columnName} to ${tableName}:`, error.message);
+        await client.query('BEGIN');
+        await client.query(migration.up);
+        await client.query(
+          'INSERT INTO schema_migrations (version, name, checksum, duration_ms) VALUES ($1, $2, $3, $4)',
+          [migration.version, migration.name, entry.checksum, Date.now() - startedAt]
+        );
+        await client.query('COMMIT');
+        console.log(`✅ Applied migration ${migration.version}_${migration.name} (${Date.now() - startedAt}ms)`);
+      } catch (error: any) {
+        await client.query('ROLLBACK').catch(() => {});
+        throw new MigrationError(`Migration ${migration.version}_${migration.name} failed: ${error.message}`);
       }
     }
-
-    // Function to add missing columns to VM inventory table
-    async function addMissingVMInventoryColumns() {
-      console.log("🔎 Checking for missing columns in vm_inventory...");
-      const vmInventoryColumns = [
-        // Core VM Information - New required fields
-        ['vm_id', 'TEXT'],
-        ['vm_name', 'TEXT NOT NULL'],
-        ['vm_status', 'TEXT NOT NULL DEFAULT \'Active\''],
-        ['vm_ip', 'TEXT'],
-        ['vm_os', 'TEXT'],
-        ['cpu_count', 'INTEGER DEFAULT 0'],
-        ['memory_gb', 'INTEGER DEFAULT 0'],
-        ['disk_capacity_gb', 'INTEGER DEFAULT 0'],
-
-        // Request and Approval Information
-        ['requestor', 'TEXT'],
-        ['knox_id', 'TEXT'],
-        ['department', 'TEXT'],
-        ['start_date', 'TEXT'],
-        ['end_date', 'TEXT'],
-        ['jira_number', 'TEXT'],
-        ['approval_number', 'TEXT'],
-        ['remarks', 'TEXT'],
-
-        // Legacy compatibility fields
-        ['internet_access', 'BOOLEAN DEFAULT FALSE'],
-        ['vm_os_version', 'TEXT'],
-        ['hypervisor', 'TEXT'],
-        ['host_name', 'TEXT'],
-        ['host_model', 'TEXT'],
-        ['host_ip', 'TEXT'],
-        ['host_os', 'TEXT'],
-        ['rack', 'TEXT'],
-        ['deployed_by', 'TEXT'],
-        ['"user"', 'TEXT'],
-        ['jira_ticket', 'TEXT'],
-        ['date_deleted', 'TEXT'],
-        ['guest_os', 'TEXT'],
-        ['power_state', 'TEXT'],
-        ['memory_mb', 'INTEGER'],
-        ['disk_gb', 'INTEGER'],
-        ['ip_address', 'TEXT'],
-        ['mac_address', 'TEXT'],
-        ['vmware_tools', 'TEXT'],
-        ['cluster', 'TEXT'],
-        ['datastore', 'TEXT'],
-        ['status', 'TEXT DEFAULT \'available\''],
-        ['assigned_to', 'INTEGER'],
-        ['location', 'TEXT'],
-        ['serial_number', 'TEXT'],
-        ['model', 'TEXT'],
-        ['manufacturer', 'TEXT'],
-        ['purchase_date', 'TEXT'],
-        ['purchase_cost', 'TEXT'],
-        ['created_date', 'TEXT DEFAULT CURRENT_TIMESTAMP'],
-        ['last_modified', 'TEXT DEFAULT CURRENT_TIMESTAMP'],
-        ['notes', 'TEXT']
-      ];
-
-      for (const [columnName, definition] of vmInventoryColumns) {
-        if (!(await columnExists('vm_inventory', columnName))) {
-          await addColumn('vm_inventory', columnName, definition);
-        }
-      }
-      console.log("✅ VM inventory column check completed.");
-    }
-
-    // Verify users table and columns
-    if (!(await tableExists('users'))) {
-      await db.execute(sql`
-        CREATE TABLE users (
-          id SERIAL PRIMARY KEY,
-          username TEXT UNIQUE NOT NULL,
-          password TEXT NOT NULL,
-          first_name TEXT NOT NULL,
-          last_name TEXT NOT NULL,
-          email TEXT NOT NULL,
-          department TEXT,
-          is_admin BOOLEAN DEFAULT FALSE,
-          role_id INTEGER,
-          permissions JSON DEFAULT '{"assets":{"view":true,"edit":false,"add":false},"components":{"view":true,"edit":false,"add":false},"accessories":{"view":true,"edit":false,"add":false},"consumables":{"view":true,"edit":false,"add":false},"licenses":{"view":true,"edit":false,"add":false},"users":{"view":false,"edit":false,"add":false},"reports":{"view":true,"edit":false,"add":false},"vmMonitoring":{"view":true,"edit":false,"add":false},"networkDiscovery":{"view":true,"edit":false,"add":false},"bitlockerKeys":{"view":false,"edit":false,"add":false},"admin":{"view":false,"edit":false,"add":false}}'
-        )
-      `);
-      console.log("✅ Users table created");
-    } else {
-      console.log("✅ Users table exists - verifying columns");
-      // Check and add missing columns
-      const userColumns = [
-        ['username', 'TEXT UNIQUE NOT NULL'],
-        ['password', 'TEXT NOT NULL'],
-        ['first_name', 'TEXT NOT NULL'],
-        ['last_name', 'TEXT NOT NULL'],
-        ['email', 'TEXT NOT NULL'],
-        ['department', 'TEXT'],
-        ['is_admin', 'BOOLEAN DEFAULT FALSE'],
-        ['role_id', 'INTEGER'],
-        ['permissions', 'JSON DEFAULT \'{"assets":{"view":true,"edit":false,"add":false},"components":{"view":true,"edit":false,"add":false},"accessories":{"view":true,"edit":false,"add":false},"consumables":{"view":true,"edit":false,"add":false},"licenses":{"view":true,"edit":false,"add":false},"users":{"view":false,"edit":false,"add":false},"reports":{"view":true,"edit":false,"add":false},"vmMonitoring":{"view":true,"edit":false,"add":false},"networkDiscovery":{"view":true,"edit":false,"add":false},"bitlockerKeys":{"view":false,"edit":false,"add":false},"admin":{"view":false,"edit":false,"add":false}}\'']
-      ];
-
-      for (const [columnName, definition] of userColumns) {
-        if (!(await columnExists('users', columnName))) {
-          await addColumn('users', columnName, definition);
-        }
-      }
-    }
-
-    // Verify assets table and columns
-    if (!(await tableExists('assets'))) {
-      await db.execute(sql`
-        CREATE TABLE assets (
-          id SERIAL PRIMARY KEY,
-          asset_tag TEXT NOT NULL UNIQUE,
-          name TEXT NOT NULL,
-          description TEXT,
-          category TEXT NOT NULL,
-          status TEXT NOT NULL DEFAULT 'available',
-          condition TEXT NOT NULL DEFAULT 'Good',
-          purchase_date TEXT,
-          purchase_cost TEXT,
-          location TEXT,
-          serial_number TEXT,
-          model TEXT,
-          manufacturer TEXT,
-          notes TEXT,
-          knox_id TEXT,
-          ip_address TEXT,
-          mac_address TEXT,
-          os_type TEXT,
-          assigned_to INTEGER REFERENCES users(id),
-          checkout_date TEXT,
-          expected_checkin_date TEXT,
-          finance_updated BOOLEAN DEFAULT FALSE,
-          department TEXT
-        )
-      `);
-      console.log("✅ Assets table created");
-    } else {
-      console.log("✅ Assets table exists - verifying columns");
-      const assetColumns = [
-        ['asset_tag', 'TEXT NOT NULL UNIQUE'],
-        ['name', 'TEXT NOT NULL'],
-        ['description', 'TEXT'],
-        ['category', 'TEXT NOT NULL'],
-        ['status', 'TEXT NOT NULL DEFAULT \'available\''],
-        ['condition', 'TEXT NOT NULL DEFAULT \'Good\''],
-        ['purchase_date', 'TEXT'],
-        ['purchase_cost', 'TEXT'],
-        ['location', 'TEXT'],
-        ['serial_number', 'TEXT'],
-        ['model', 'TEXT'],
-        ['manufacturer', 'TEXT'],
-        ['notes', 'TEXT'],
-        ['knox_id', 'TEXT'],
-        ['ip_address', 'TEXT'],
-        ['mac_address', 'TEXT'],
-        ['os_type', 'TEXT'],
-        ['assigned_to', 'INTEGER'],
-        ['checkout_date', 'TEXT'],
-        ['expected_checkin_date', 'TEXT'],
-        ['finance_updated', 'BOOLEAN DEFAULT FALSE'],
-        ['department', 'TEXT']
-      ];
-
-      for (const [columnName, definition] of assetColumns) {
-        if (!(await columnExists('assets', columnName))) {
-          await addColumn('assets', columnName, definition);
-        }
-      }
-    }
-
-    // Define all table schemas for verification
-    const tableSchemas = {
-      components: [
-        ['name', 'TEXT NOT NULL'],
-        ['type', 'TEXT NOT NULL DEFAULT \'Unknown\''],
-        ['category', 'TEXT NOT NULL'],
-        ['quantity', 'INTEGER NOT NULL DEFAULT 0'],
-        ['status', 'TEXT DEFAULT \'available\''],
-        ['description', 'TEXT'],
-        ['location', 'TEXT'],
-        ['serial_number', 'TEXT'],
-        ['model', 'TEXT'],
-        ['manufacturer', 'TEXT'],
-        ['purchase_date', 'TEXT'],
-        ['purchase_cost', 'TEXT'],
-        ['warranty_expiry', 'TEXT'],
-        ['assigned_to', 'TEXT'],
-        ['date_released', 'TEXT'],
-        ['date_returned', 'TEXT'],
-        ['released_by', 'TEXT'],
-        ['returned_to', 'TEXT'],
-        ['specifications', 'TEXT'],
-        ['notes', 'TEXT'],
-        ['created_at', 'TIMESTAMP DEFAULT CURRENT_TIMESTAMP'],
-        ['updated_at', 'TIMESTAMP DEFAULT CURRENT_TIMESTAMP']
-      ],
-      accessories: [
-        ['name', 'TEXT NOT NULL'],
-        ['category', 'TEXT NOT NULL'],
-        ['status', 'TEXT NOT NULL'],
-        ['quantity', 'INTEGER NOT NULL DEFAULT 1'],
-        ['description', 'TEXT'],
-        ['location', 'TEXT'],
-        ['serial_number', 'TEXT'],
-        ['model', 'TEXT'],
-        ['manufacturer', 'TEXT'],
-        ['purchase_date', 'TEXT'],
-        ['purchase_cost', 'TEXT'],
-        ['assigned_to', 'INTEGER'],
-        ['knox_id', 'TEXT'],
-        ['date_released', 'TEXT'],
-        ['date_returned', 'TEXT'],
-        ['released_by', 'TEXT'],
-        ['returned_to', 'TEXT'],
-        ['notes', 'TEXT'],
-        ['created_at', 'TIMESTAMP DEFAULT CURRENT_TIMESTAMP'],
-        ['updated_at', 'TIMESTAMP DEFAULT CURRENT_TIMESTAMP']
-      ],
-      consumables: [
-        ['name', 'TEXT NOT NULL'],
-        ['category', 'TEXT NOT NULL'],
-        ['quantity', 'INTEGER NOT NULL DEFAULT 1'],
-        ['status', 'TEXT NOT NULL DEFAULT \'available\''],
-        ['location', 'TEXT'],
-        ['model_number', 'TEXT'],
-        ['manufacturer', 'TEXT'],
-        ['purchase_date', 'TEXT'],
-        ['purchase_cost', 'TEXT'],
-        ['notes', 'TEXT']
-      ],
-      licenses: [
-        ['name', 'TEXT NOT NULL'],
-        ['key', 'TEXT NOT NULL'],
-        ['seats', 'TEXT'],
-        ['assigned_seats', 'INTEGER DEFAULT 0'],
-        ['company', 'TEXT'],
-        ['manufacturer', 'TEXT'],
-        ['purchase_date', 'TEXT'],
-        ['expiration_date', 'TEXT'],
-        ['purchase_cost', 'TEXT'],
-        ['status', 'TEXT NOT NULL'],
-        ['notes', 'TEXT'],
-        ['assigned_to', 'INTEGER']
-      ],
-      monitor_inventory: [
-        ['seat_number', 'TEXT NOT NULL'],
-        ['knox_id', 'TEXT'],
-        ['asset_number', 'TEXT'],
-        ['serial_number', 'TEXT'],
-        ['model', 'TEXT'],
-        ['remarks', 'TEXT'],
-        ['department', 'TEXT'],
-        ['created_at', 'TEXT DEFAULT CURRENT_TIMESTAMP'],
-        ['updated_at', 'TEXT DEFAULT CURRENT_TIMESTAMP']
-      ],
-      bitlocker_keys: [
-        ['serial_number', 'TEXT NOT NULL'],
-        ['identifier', 'TEXT NOT NULL'],
-        ['recovery_key', 'TEXT NOT NULL'],
-        ['notes', 'TEXT'],
-        ['date_added', 'TIMESTAMP DEFAULT CURRENT_TIMESTAMP'],
-        ['updated_at', 'TIMESTAMP DEFAULT CURRENT_TIMESTAMP']
-      ]
-    };
-
-    // Verify or create each table with its columns
-    for (const [tableName, columns] of Object.entries(tableSchemas)) {
-      if (!(await tableExists(tableName))) {
-        const columnDefs = columns.map(([name, def]) => `${name} ${def}`).join(', ');
-        await db.execute(sql.raw(`CREATE TABLE ${tableName} (id SERIAL PRIMARY KEY, ${columnDefs})`));
-        console.log(`✅ ${tableName} table created`);
-      } else {
-        console.log(`✅ ${tableName} table exists - verifying columns`);
-        for (const [columnName, definition] of columns) {
-          if (!(await columnExists(tableName, columnName))) {
-            await addColumn(tableName, columnName, definition);
-          }
-        }
-      }
-    }
-
-    // Create components table
-    if (!(await tableExists('components'))) {
-      await db.execute(sql`
-        CREATE TABLE components (
-          id SERIAL PRIMARY KEY,
-          name TEXT NOT NULL,
-          type TEXT NOT NULL DEFAULT 'Unknown',
-          category TEXT NOT NULL,
-          quantity INTEGER NOT NULL DEFAULT 0,
-          status TEXT DEFAULT 'available',
-          description TEXT,
-          location TEXT,
-          serial_number TEXT,
-          model TEXT,
-          manufacturer TEXT,
-          purchase_date TEXT,
-          purchase_cost TEXT,
-          warranty_expiry TEXT,
-          assigned_to TEXT,
-          date_released TEXT,
-          date_returned TEXT,
-          released_by TEXT,
-          returned_to TEXT,
-          specifications TEXT,
-          notes TEXT,
-          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-        )
-      `);
+    return pending;
+  });
+}
+
+// Roll back applied migrations newer than target, newest first
+export async function migrateDown(target: number): Promise<MigrationStatus[]> {
+  return withMigrationLock(async (client) => {
+    const status = await readStatus(client);
+    assertIntact(status);
+
+    const rollback = status.filter(migration => migration.state === 'applied' && migration.version > target).reverse();
+    const irreversible = rollback.filter(entry => MIGRATIONS.find(m => m.version === entry.version)!.down === null);
+    if (irreversible.length > 0) {
+      throw new MigrationError(
+        `Cannot roll back past ${irreversible.map(m => `${m.version}_${m.name}`).join(', ')}: it is irreversible`
+      );
     }
 
-    // Create remaining essential tables with verification
-    const essentialTables = [
-      {
-        name: 'activities',
-        sql: `CREATE TABLE activities (
-          id SERIAL PRIMARY KEY,
-          action TEXT NOT NULL,
-          item_type TEXT NOT NULL,
-          item_id INTEGER NOT NULL,
-          user_id INTEGER REFERENCES users(id),
-          timestamp TEXT NOT NULL,
-          notes TEXT
-        )`
-      },
-      {
-        name: 'license_assignments',
-        sql: `CREATE TABLE license_assignments (
-          id SERIAL PRIMARY KEY,
-          license_id INTEGER NOT NULL,
-          assigned_to TEXT NOT NULL,
-          notes TEXT,
-          assigned_date TEXT NOT NULL
-        )`
-      },
-      {
-        name: 'consumable_assignments',
-        sql: `CREATE TABLE consumable_assignments (
-          id SERIAL PRIMARY KEY,
-          consumable_id INTEGER NOT NULL,
-          assigned_to TEXT NOT NULL,
-          serial_number TEXT,
-          knox_id TEXT,
-          quantity INTEGER NOT NULL DEFAULT 1,
-          assigned_date TEXT NOT NULL,
-          returned_date TEXT,
-          status TEXT NOT NULL DEFAULT 'assigned',
-          notes TEXT
-        )`
-      },
-      {
-        name: 'it_equipment',
-        sql: `CREATE TABLE it_equipment (
-          id SERIAL PRIMARY KEY,
-          name TEXT NOT NULL,
-          category TEXT NOT NULL,
-          total_quantity INTEGER,
-          assigned_quantity INTEGER DEFAULT 0,
-          model TEXT,
-          location TEXT,
-          date_acquired TEXT,
-          knox_id TEXT,
-          serial_number TEXT,
-          date_release TEXT,
-          remarks TEXT,
-          status TEXT DEFAULT 'available',
-          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-          updated_at TEXT DEFAULT CURRENT_TIMESTAMP
-        )`
-      },
-      {
-        name: 'it_equipment_assignments',
-        sql: `CREATE TABLE it_equipment_assignments (
-          id SERIAL PRIMARY KEY,
-          equipment_id INTEGER NOT NULL,
-          assigned_to TEXT NOT NULL,
-          knox_id TEXT,
-          serial_number TEXT,
-          quantity INTEGER NOT NULL DEFAULT 1,
-          assigned_date TEXT NOT NULL,
-          returned_date TEXT,
-          status TEXT NOT NULL DEFAULT 'assigned',
-          notes TEXT,
-          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-          updated_at TEXT DEFAULT CURRENT_TIMESTAMP
-        )`
-      }
-    ];
-
-    for (const table of essentialTables) {
-      if (!(await tableExists(table.name))) {
-        await db.execute(sql.raw(table.sql));
-        console.log(`✅ ${table.name} table created`);
+    for (const entry of rollback) {
+      const migration = MIGRATIONS.find(m => m.version === entry.version)!;
+      try {
+        await client.query('BEGIN');
+        await client.query(migration.down!);
+        await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+        await client.query('COMMIT');
+        console.log(`↩️ Rolled back migration ${migration.version}_${migration.name}`);
+      } catch (error: any) {
+        await client.query('ROLLBACK').catch(() => {});
+        throw new MigrationError(`Rolling back ${migration.version}_${migration.name} failed: ${error.message}`);
       }
     }
+    return rollback;
+  });
+}
+
+// information_schema udt_name for each column type used in shared/schema.ts
+const COLUMN_TYPES: Record<string, string> = {
+  serial: 'int4',
+  integer: 'int4',
+  bigint: 'int8',
+  real: 'float4',
+  text: 'text',
+  varchar: 'varchar',
+  boolean: 'bool',
+  timestamp: 'timestamp',
+  json: 'json',
+  jsonb: 'jsonb',
+  'text[]': '_text',
+};
+
+// Tables and columns declared in shared/schema.ts that the live database lacks or types differently
+export async function findSchemaDrift(): Promise<string[]> {
+  if (!db) {
+    throw new MigrationError("Database connection required");
+  }
 
-    // Create license assignments table
-    await db.execute(sql`
-      CREATE TABLE IF NOT EXISTS license_assignments (
-        id SERIAL PRIMARY KEY,
-        license_id INTEGER REFERENCES licenses(id) NOT NULL,
-        assigned_to TEXT NOT NULL,
-        notes TEXT,
-        assigned_date TEXT NOT NULL
-      )
-    `);
-    console.log("✅ License assignments table created/verified");
-
-    // Create consumable assignments table
-    await db.execute(sql`
-      CREATE TABLE IF NOT EXISTS consumable_assignments (
-        id SERIAL PRIMARY KEY,
-        consumable_id INTEGER REFERENCES consumables(id) NOT NULL,
-        assigned_to TEXT NOT NULL,
-        serial_number TEXT,
-        knox_id TEXT,
-        quantity INTEGER NOT NULL DEFAULT 1,
-        assigned_date TEXT NOT NULL,
-        returned_date TEXT,
-        status TEXT NOT NULL DEFAULT 'assigned',
-        notes TEXT
-      )
-    `);
-    console.log("✅ Consumable assignments table created/verified");
-
-    // Create activities table
-    await db.execute(sql`
-      CREATE TABLE IF NOT EXISTS activities (
-        id SERIAL PRIMARY KEY,
-        action TEXT NOT NULL,
-        item_type TEXT NOT NULL,
-        item_id INTEGER NOT NULL,
-        user_id INTEGER REFERENCES users(id),
-        timestamp TEXT NOT NULL,
-        notes TEXT
-      )
-    `);
-    console.log("✅ Activities table created/verified");
-
-    // Create VM and monitoring tables with verification
-    if (!(await tableExists('vm_inventory'))) {
-      await db.execute(sql`
-        CREATE TABLE vm_inventory (
-          id SERIAL PRIMARY KEY,
-
-          -- Core VM Information
-          vm_id TEXT,
-          vm_name TEXT NOT NULL,
-          vm_status TEXT NOT NULL DEFAULT 'Active',
-          vm_ip TEXT,
-          vm_os TEXT,
-          cpu_count INTEGER DEFAULT 0,
-          memory_gb INTEGER DEFAULT 0,
-          disk_capacity_gb INTEGER DEFAULT 0,
-
-          -- Request and Approval Information
-          requestor TEXT,
-          knox_id TEXT,
-          department TEXT,
-          start_date TEXT,
-          end_date TEXT,
-          jira_number TEXT,
-          approval_number TEXT,
-          remarks TEXT,
+  const result = await db.execute(sql`
+    SELECT table_name, column_name, udt_name FROM information_schema.columns
+    WHERE table_schema = 'public'
+  `);
+  const live = new Map<string, Map<string, string>>();
+  for (const row of result.rows as Array<{ table_name: string; column_name: string; udt_name: string }>) {
+    if (!live.has(row.table_name)) live.set(row.table_name, new Map());
+    live.get(row.table_name)!.set(row.column_name, row.udt_name);
+  }
 
-          -- Legacy compatibility fields
-          internet_access BOOLEAN DEFAULT FALSE,
-          vm_os_version TEXT,
-          hypervisor TEXT,
-          host_name TEXT,
-          host_model TEXT,
-          host_ip TEXT,
-          host_os TEXT,
-          rack TEXT,
-          deployed_by TEXT,
-          "user" TEXT,
-          jira_ticket TEXT,
-          date_deleted TEXT,
-          guest_os TEXT,
-          power_state TEXT,
-          memory_mb INTEGER,
-          disk_gb INTEGER,
-          ip_address TEXT,
-          mac_address TEXT,
-          vmware_tools TEXT,
-          cluster TEXT,
-          datastore TEXT,
-          status TEXT DEFAULT 'available',
-          assigned_to INTEGER,
-          location TEXT,
-          serial_number TEXT,
-          model TEXT,
-          manufacturer TEXT,
-          purchase_date TEXT,
-          purchase_cost TEXT,
-          created_date TEXT DEFAULT CURRENT_TIMESTAMP,
-          last_modified TEXT DEFAULT CURRENT_TIMESTAMP,
-          notes TEXT
-        )
-      `);
-      console.log("✅ VM inventory table created with all required columns");
-    } else {
-      console.log("✅ VM inventory table exists - verifying columns");
+  const problems: string[] = [];
+  const tables = Object.values(schema as Record<string, unknown>).filter((value): value is PgTable => is(value, PgTable));
+  for (const table of tables) {
+    const config = getTableConfig(table);
+    const columns = live.get(config.name);
+    if (!columns) {
+      problems.push(`table ${config.name} is missing`);
+      continue;
     }
-
-    // Check and add missing columns to existing VM inventory table
-    await addMissingVMInventoryColumns();
-
-    // Create VMs table
-    await db.execute(sql`
-      CREATE TABLE IF NOT EXISTS vms (
-        id SERIAL PRIMARY KEY,
-        vm_name TEXT NOT NULL,
-        host_name TEXT NOT NULL,
-        guest_os TEXT NOT NULL,
-        power_state TEXT NOT NULL DEFAULT 'stopped',
-        cpu_count INTEGER DEFAULT 1,
-        memory_mb INTEGER DEFAULT 1024,
-        disk_gb INTEGER DEFAULT 20,
-        ip_address TEXT,
-        mac_address TEXT,
-        vmware_tools TEXT,
-        cluster TEXT,
-        datastore TEXT,
-        status TEXT NOT NULL DEFAULT 'available',
-        assigned_to INTEGER REFERENCES users(id),
-        location TEXT,
-        serial_number TEXT,
-        model TEXT,
-        manufacturer TEXT,
-        purchase_date TEXT,
-        purchase_cost TEXT,
-        department TEXT,
-        description TEXT,
-        created_date TEXT DEFAULT CURRENT_TIMESTAMP,
-        last_modified TEXT DEFAULT CURRENT_TIMESTAMP,
-        notes TEXT
-      )
-    `);
-    console.log("✅ VMs table created/verified");
-
-    // Create IT Equipment table
-    await db.execute(sql`
-      CREATE TABLE IF NOT EXISTS it_equipment (
-        id SERIAL PRIMARY KEY,
-        name TEXT NOT NULL,
-        category TEXT NOT NULL,
-        total_quantity INTEGER,
-        assigned_quantity INTEGER DEFAULT 0,
-        model TEXT,
-        location TEXT,
-        date_acquired TEXT,
-        knox_id TEXT,
-        serial_number TEXT,
-        date_release TEXT,
-        remarks TEXT,
-        status TEXT DEFAULT 'available',
-        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
-    console.log("✅ IT Equipment table created/verified");
-
-    // Create IT Equipment Assignments table
-    await db.execute(sql`
-      CREATE TABLE IF NOT EXISTS it_equipment_assignments (
-        id SERIAL PRIMARY KEY,
-        equipment_id INTEGER REFERENCES it_equipment(id) NOT NULL,
-        assigned_to TEXT NOT NULL,
-        knox_id TEXT,
-        serial_number TEXT,
-        quantity INTEGER NOT NULL DEFAULT 1,
-        assigned_date TEXT NOT NULL,
-        returned_date TEXT,
-        status TEXT NOT NULL DEFAULT 'assigned',
-        notes TEXT,
-        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
-    console.log("✅ IT Equipment Assignments table created/verified");
-
-    // Verify system and monitoring tables
-    const systemTables = [
-      {
-        name: 'system_settings',
-        sql: `CREATE TABLE system_settings (
-          id SERIAL PRIMARY KEY,
-          site_name TEXT NOT NULL DEFAULT 'SRPH-MIS',
-          site_url TEXT NOT NULL DEFAULT '',
-          default_language TEXT NOT NULL DEFAULT 'en',
-          default_timezone TEXT NOT NULL DEFAULT 'UTC',
-          allow_public_registration BOOLEAN DEFAULT FALSE,
-          company_name TEXT NOT NULL DEFAULT 'SRPH',
-          company_address TEXT DEFAULT '',
-          company_phone TEXT DEFAULT '',
-          company_email TEXT DEFAULT '',
-          company_logo TEXT DEFAULT '',
-          mail_driver TEXT DEFAULT '',
-          mail_host TEXT DEFAULT '',
-          mail_port TEXT DEFAULT '',
-          mail_username TEXT DEFAULT '',
-          mail_password TEXT DEFAULT '',
-          mail_from_address TEXT DEFAULT '',
-          mail_from_name TEXT DEFAULT '',
-          asset_tag_prefix TEXT DEFAULT 'SRPH',
-          asset_tag_zeros INTEGER DEFAULT 5,
-          asset_auto_increment BOOLEAN DEFAULT TRUE,
-          asset_checkout_policy TEXT DEFAULT '',
-          asset_checkout_duration INTEGER DEFAULT 30,
-          enable_login_attempts BOOLEAN DEFAULT TRUE,
-          max_login_attempts INTEGER DEFAULT 5,
-          lockout_duration INTEGER DEFAULT 30,
-          password_min_length INTEGER DEFAULT 8,
-          require_special_char BOOLEAN DEFAULT TRUE,
-          require_uppercase BOOLEAN DEFAULT TRUE,
-          require_number BOOLEAN DEFAULT TRUE,
-          password_expiry_days INTEGER DEFAULT 90,
-          enable_admin_notifications BOOLEAN DEFAULT TRUE,
-          enable_user_notifications BOOLEAN DEFAULT TRUE,
-          notify_on_checkout BOOLEAN DEFAULT TRUE,
-          notify_on_checkin BOOLEAN DEFAULT TRUE,
-          notify_on_overdue BOOLEAN DEFAULT TRUE,
-          automatic_backups BOOLEAN DEFAULT FALSE,
-          backup_frequency TEXT DEFAULT 'daily',
-          backup_time TEXT DEFAULT '00:00',
-          backup_retention INTEGER DEFAULT 30,
-          maintenance_mode BOOLEAN DEFAULT FALSE,
-          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-        )`
-      },
-      {
-        name: 'vms',
-        sql: `CREATE TABLE vms (
-          id SERIAL PRIMARY KEY,
-          vm_name TEXT NOT NULL,
-          host_name TEXT NOT NULL,
-          guest_os TEXT NOT NULL,
-          power_state TEXT NOT NULL DEFAULT 'stopped',
-          cpu_count INTEGER DEFAULT 1,
-          memory_mb INTEGER DEFAULT 1024,
-          disk_gb INTEGER DEFAULT 20,
-          ip_address TEXT,
-          mac_address TEXT,
-          vmware_tools TEXT,
-          cluster TEXT,
-          datastore TEXT,
-          status TEXT NOT NULL DEFAULT 'available',
-          assigned_to INTEGER,
-          location TEXT,
-          serial_number TEXT,
-          model TEXT,
-          manufacturer TEXT,
-          purchase_date TEXT,
-          purchase_cost TEXT,
-          department TEXT,
-          description TEXT,
-          created_date TEXT DEFAULT CURRENT_TIMESTAMP,
-          last_modified TEXT DEFAULT CURRENT_TIMESTAMP,
-          notes TEXT
-        )`
-      },
-      {
-        name: 'zabbix_settings',
-        sql: `CREATE TABLE zabbix_settings (
-          id SERIAL PRIMARY KEY,
-          server_url TEXT NOT NULL DEFAULT '',
-          username TEXT NOT NULL DEFAULT '',
-          password TEXT NOT NULL DEFAULT '',
-          api_token TEXT DEFAULT '',
-          last_sync TIMESTAMP,
-          sync_interval INTEGER DEFAULT 30,
-          enabled BOOLEAN DEFAULT FALSE,
-          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-        )`
-      },
-      {
-        name: 'discovered_hosts',
-        sql: `CREATE TABLE discovered_hosts (
-          id SERIAL PRIMARY KEY,
-          hostname TEXT,
-          ip_address TEXT NOT NULL,
-          mac_address TEXT,
-          status TEXT NOT NULL DEFAULT 'new',
-          last_seen TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-          source TEXT NOT NULL DEFAULT 'zabbix',
-          system_info JSON DEFAULT '{}',
-          hardware_details JSON DEFAULT '{}',
-          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-        )`
-      },
-      {
-        name: 'vm_monitoring',
-        sql: `CREATE TABLE vm_monitoring (
-          id SERIAL PRIMARY KEY,
-          vm_id INTEGER NOT NULL,
-          hostname TEXT,
-          ip_address TEXT,
-          status TEXT,
-          cpu_usage REAL,
-          memory_usage REAL,
-          disk_usage REAL,
-          uptime INTEGER,
-          network_status TEXT,
-          os_name TEXT,
-          cpu_cores INTEGER,
-          total_memory BIGINT,
-          total_disk BIGINT,
-          created_at TEXT NOT NULL,
-          updated_at TEXT NOT NULL
-        )`
-      }
-    ];
-
-    for (const table of systemTables) {
-      if (!(await tableExists(table.name))) {
-        await db.execute(sql.raw(table.sql));
-        console.log(`✅ ${table.name} table created`);
+    for (const column of config.columns) {
+      const actual = columns.get(column.name);
+      const expected = COLUMN_TYPES[column.getSQLType()];
+      if (actual === undefined) {
+        problems.push(`column ${config.name}.${column.name} is missing`);
+      } else if (expected && actual !== expected) {
+        problems.push(`column ${config.name}.${column.name} is ${actual}, schema declares ${column.getSQLType()}`);
       }
     }
+  }
+  return problems;
+}
+
+// Refuse to start on a database the code does not match. ALLOW_SCHEMA_DRIFT=true downgrades
+// this to a warning while a fix-up migration is being written.
+export async function assertSchemaMatchesDatabase() {
+  const problems = await findSchemaDrift();
+  if (problems.length === 0) {
+    console.log("✅ Database schema matches shared/schema.ts");
+    return;
+  }
+  if (process.env.ALLOW_SCHEMA_DRIFT === 'true') {
+    console.warn(`⚠️ ${new SchemaDriftError(problems).message}`);
+    return;
+  }
+  throw new SchemaDriftError(problems);
+}
 
-    // Create monitoring tables
-    await db.execute(sql`
-      CREATE TABLE IF NOT EXISTS monitoring_dashboards (
-        id SERIAL PRIMARY KEY,
-        name TEXT NOT NULL,
-        description TEXT,
-        is_public BOOLEAN DEFAULT FALSE,
-        refresh_interval INTEGER DEFAULT 30,
-        tags TEXT,
-        user_id INTEGER REFERENCES users(id),
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL
-      )
-    `);
-
-    await db.execute(sql`
-      CREATE TABLE IF NOT EXISTS monitoring_panels (
-        id SERIAL PRIMARY KEY,
-        dashboard_id INTEGER NOT NULL REFERENCES monitoring_dashboards(id) ON DELETE CASCADE,
-        title TEXT NOT NULL,
-        type TEXT NOT NULL,
-        datasource TEXT NOT NULL,
-        query TEXT NOT NULL,
-        refresh_interval INTEGER DEFAULT 30,
-        width INTEGER DEFAULT 6,
-        height INTEGER DEFAULT 300,
-        x_pos INTEGER DEFAULT 0,
-        y_pos INTEGER DEFAULT 0,
-        thresholds TEXT,
-        unit TEXT,
-        decimals INTEGER DEFAULT 2,
-        show_legend BOOLEAN DEFAULT TRUE,
-        color_scheme TEXT DEFAULT 'default',
-        config TEXT,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL
-      )
-    `);
-
-    await db.execute(sql`
-      CREATE TABLE IF NOT EXISTS monitoring_datasources (
-        id SERIAL PRIMARY KEY,
-        name TEXT NOT NULL,
-        type TEXT NOT NULL,
-        url TEXT NOT NULL,
-        access TEXT DEFAULT 'proxy',
-        basic_auth BOOLEAN DEFAULT FALSE,
-        basic_auth_user TEXT,
-        basic_auth_password TEXT,
-        database TEXT,
-        json_data TEXT,
-        secure_json_fields TEXT,
-        is_default BOOLEAN DEFAULT FALSE,
-        status TEXT DEFAULT 'pending',
-        last_check TEXT,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL
-      )
-    `);
-
-    await db.execute(sql`
-      CREATE TABLE IF NOT EXISTS monitoring_alert_rules (
-        id SERIAL PRIMARY KEY,
-        name TEXT NOT NULL,
-        datasource TEXT NOT NULL,
-        query TEXT NOT NULL,
-        condition TEXT NOT NULL,
-        threshold REAL NOT NULL,
-        evaluation_interval INTEGER DEFAULT 60,
-        for_duration INTEGER DEFAULT 300,
-        severity TEXT DEFAULT 'medium',
-        enabled BOOLEAN DEFAULT TRUE,
-        notification_channels TEXT,
-        annotations TEXT,
-        labels TEXT,
-        state TEXT DEFAULT 'normal',
-        last_evaluation TEXT,
-        error TEXT,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL
-      )
-    `);
-
-    await db.execute(sql`
-      CREATE TABLE IF NOT EXISTS monitoring_alerts (
-        id SERIAL PRIMARY KEY,
-        name TEXT NOT NULL,
-        datasource TEXT NOT NULL,
-        query TEXT NOT NULL,
-        condition TEXT NOT NULL,
-        threshold REAL NOT NULL,
-        evaluation_interval INTEGER DEFAULT 60,
-        for_duration INTEGER DEFAULT 300,
-        severity TEXT DEFAULT 'medium',
-        enabled BOOLEAN DEFAULT TRUE,
-        notification_channels TEXT,
-        annotations TEXT,
-        labels TEXT,
-        state TEXT DEFAULT 'normal',
-        last_evaluation TEXT,
-        error TEXT,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL
-      )
-    `);
-
-    await db.execute(sql`
-      CREATE TABLE IF NOT EXISTS monitoring_notifications (
-        id SERIAL PRIMARY KEY,
-        alert_id INTEGER NOT NULL,
-        type TEXT NOT NULL,
-        recipient TEXT NOT NULL,
-        message TEXT NOT NULL,
-        status TEXT DEFAULT 'pending',
-        sent_at TEXT,
-        error TEXT,
-        created_at TEXT NOT NULL
-      )
-    `);
+// Rows the application expects on every database; safe to run on each start
+async function seedDefaults() {
+  if (!db) return;
 
+  for (const role of builtInRoles) {
     await db.execute(sql`
-      CREATE TABLE IF NOT EXISTS notifications (
-        id SERIAL PRIMARY KEY,
-        user_id INTEGER REFERENCES users(id),
-        title TEXT NOT NULL,
-        message TEXT NOT NULL,
-        type TEXT DEFAULT 'info',
-        read BOOLEAN DEFAULT FALSE,
-        created_at TEXT DEFAULT CURRENT_TIMESTAMP
-      )
+      INSERT INTO roles (id, name, description, permissions, is_system)
+      VALUES (${role.id}, ${role.name}, ${role.description}, ${JSON.stringify(role.permissions)}, TRUE)
+      ON CONFLICT DO NOTHING
     `);
+    await db.execute(sql`UPDATE roles SET is_system = TRUE WHERE id = ${role.id}`);
+  }
+  // Keep the id sequence ahead of the fixed built-in role ids
+  await db.execute(sql`SELECT setval(pg_get_serial_sequence('roles', 'id'), (SELECT MAX(id) FROM roles))`);
 
-    console.log("✅ Monitoring tables created/verified");
-
-    // Create Zabbix and network discovery tables
-    await db.execute(sql`
-      CREATE TABLE IF NOT EXISTS zabbix_settings (
-        id SERIAL PRIMARY KEY,
-        server_url TEXT NOT NULL DEFAULT '',
-        username TEXT NOT NULL DEFAULT '',
-        password TEXT NOT NULL DEFAULT '',
-        api_token TEXT DEFAULT '',
-        last_sync TIMESTAMP,
-        sync_interval INTEGER DEFAULT 30,
-        enabled BOOLEAN DEFAULT FALSE,
-        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
+  const adminCheck = await db.execute(sql`SELECT COUNT(*)::int AS count FROM users WHERE username = 'admin'`);
+  if (adminCheck.rows[0].count === 0) {
+    const { scrypt, randomBytes } = await import('crypto');
+    const { promisify } = await import('util');
+    const scryptAsync = promisify(scrypt);
 
-    await db.execute(sql`
-      CREATE TABLE IF NOT EXISTS zabbix_subnets (
-        id SERIAL PRIMARY KEY,
-        cidr_range TEXT NOT NULL,
-        description TEXT,
-        enabled BOOLEAN DEFAULT TRUE,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
+    const salt = randomBytes(16).toString("hex");
+    const buf = (await scryptAsync('admin123', salt, 64)) as Buffer;
+    const hashedPassword = `${buf.toString("hex")}.${salt}`;
 
     await db.execute(sql`
-      CREATE TABLE IF NOT EXISTS discovered_hosts (
-        id SERIAL PRIMARY KEY,
-        hostname TEXT,
-        ip_address TEXT NOT NULL,
-        mac_address TEXT,
-        status TEXT NOT NULL DEFAULT 'new',
-        last_seen TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        source TEXT NOT NULL DEFAULT 'zabbix',
-        system_info JSON DEFAULT '{}',
-        hardware_details JSON DEFAULT '{}',
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      )
+      INSERT INTO users (username, password, first_name, last_name, email, is_admin)
+      VALUES ('admin', ${hashedPassword}, 'System', 'Administrator', 'admin@example.com', true)
     `);
+    console.log("✅ Default admin user created");
+  }
 
+  const settingsCheck = await db.execute(sql`SELECT COUNT(*)::int AS count FROM system_settings`);
+  if (settingsCheck.rows[0].count === 0) {
     await db.execute(sql`
-      CREATE TABLE IF NOT EXISTS vm_monitoring (
-        id SERIAL PRIMARY KEY,
-        vm_id INTEGER NOT NULL,
-        hostname TEXT,
-        ip_address TEXT,
-        status TEXT,
-        cpu_usage REAL,
-        memory_usage REAL,
-        disk_usage REAL,
-        uptime INTEGER,
-        network_status TEXT,
-        os_name TEXT,
-        cpu_cores INTEGER,
-        total_memory BIGINT,
-        total_disk BIGINT,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL
-      )
+      INSERT INTO system_settings (site_name, company_name)
+      VALUES ('SRPH-MIS', 'SRPH')
     `);
+    console.log("✅ Default system settings created");
+  }
+}
 
-    console.log("✅ Zabbix and network discovery tables created/verified");
-
-    // Create JIRA settings table
-    await db.execute(sql`
-      CREATE TABLE IF NOT EXISTS jira_settings (
-        id SERIAL PRIMARY KEY,
-        settings TEXT NOT NULL,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
-    console.log("✅ JIRA settings table created/verified");
-
-    // Insert default admin user if it doesn't exist
-    const adminCheck = await db.execute(sql`
-      SELECT COUNT(*) as count FROM users WHERE username = 'admin'
-    `);
-
-    if (adminCheck.rows[0].count === 0) {
-      const { scrypt, randomBytes } = await import('crypto');
-      const { promisify } = await import('util');
-      const scryptAsync = promisify(scrypt);
-
-      const salt = randomBytes(16).toString("hex");
-      const buf = (await scryptAsync('admin123', salt, 64)) as Buffer;
-      const hashedPassword = `${buf.toString("hex")}.${salt}`;
-
-      await db.execute(sql`
-        INSERT INTO users (username, password, first_name, last_name, email, is_admin)
-        VALUES ('admin', ${hashedPassword}, 'System', 'Administrator', 'admin@example.com', true)
-      `);
-      console.log("✅ Default admin user created");
-    }
-
-    // Insert default system settings if not exists
-    const settingsCheck = await db.execute(sql`
-      SELECT COUNT(*) as count FROM system_settings
-    `);
-
-    if (settingsCheck.rows[0].count === 0) {
-      await db.execute(sql`
-        INSERT INTO system_settings (site_name, company_name)
-        VALUES ('SRPH-MIS', 'SRPH')
-      `);
-      console.log("✅ Default system settings created");
-    }
-
-    // Check final table counts
-    const tableQueries = [
-      { name: 'users', query: 'SELECT COUNT(*) as count FROM users' },
-      { name: 'assets', query: 'SELECT COUNT(*) as count FROM assets' },
-      { name: 'components', query: 'SELECT COUNT(*) as count FROM components' },
-      { name: 'accessories', query: 'SELECT COUNT(*) as count FROM accessories' },
-      { name: 'consumables', query: 'SELECT COUNT(*) as count FROM consumables' },
-      { name: 'licenses', query: 'SELECT COUNT(*) as count FROM licenses' },
-      { name: 'activities', query: 'SELECT COUNT(*) as count FROM activities' },
-      { name: 'vm_inventory', query: 'SELECT COUNT(*) as count FROM vm_inventory' },
-      { name: 'monitor_inventory', query: 'SELECT COUNT(*) as count FROM monitor_inventory' },
-      { name: 'bitlocker_keys', query: 'SELECT COUNT(*) as count FROM bitlocker_keys' },
-      { name: 'it_equipment', query: 'SELECT COUNT(*) as count FROM it_equipment' }
-    ];
-
-    // Create IAM Accounts table with proper column verification
-    if (!(await tableExists('iam_accounts'))) {
-      await db.execute(sql`
-        CREATE TABLE iam_accounts (
-          id SERIAL PRIMARY KEY,
-          requestor TEXT,
-          knox_id TEXT,
-          permission TEXT,
-          duration_start_date TEXT,
-          duration_end_date TEXT,
-          cloud_platform TEXT,
-          project_accounts TEXT,
-          approval_id TEXT,
-          remarks TEXT,
-          status TEXT DEFAULT 'active',
-          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-        )
-      `);
-      console.log("✅ IAM Accounts table created");
-    } else {
-      console.log("✅ IAM Accounts table exists - verifying columns");
-
-      // Verify all required columns exist
-      const iamAccountColumns = [
-        ['requestor', 'TEXT'],
-        ['knox_id', 'TEXT'],
-        ['permission', 'TEXT'],
-        ['duration_start_date', 'TEXT'],
-        ['duration_end_date', 'TEXT'],
-        ['cloud_platform', 'TEXT'],
-        ['project_accounts', 'TEXT'],
-        ['approval_id', 'TEXT'],
-        ['remarks', 'TEXT'],
-        ['status', 'TEXT DEFAULT \'active\''],
-        ['created_at', 'TIMESTAMP DEFAULT CURRENT_TIMESTAMP'],
-        ['updated_at', 'TIMESTAMP DEFAULT CURRENT_TIMESTAMP']
-      ];
-
-      for (const [columnName, definition] of iamAccountColumns) {
-        if (!(await columnExists('iam_accounts', columnName))) {
-          await addColumn('iam_accounts', columnName, definition);
-        }
-      }
-    }
-
-    // Create VM approval history table if it doesn't exist
-    const vmApprovalHistoryTableExists = await db.execute(sql`
-      SELECT EXISTS (
-        SELECT FROM information_schema.tables 
-        WHERE table_schema = 'public' 
-        AND table_name = 'vm_approval_history'
-      );
-    `);
-
-    if (!vmApprovalHistoryTableExists.rows[0]?.exists) {
-      await db.execute(sql`
-        CREATE TABLE vm_approval_history (
-          id SERIAL PRIMARY KEY,
-          vm_id INTEGER NOT NULL REFERENCES vm_inventory(id) ON DELETE CASCADE,
-          old_approval_number TEXT,
-          new_approval_number TEXT,
-          changed_by INTEGER REFERENCES users(id),
-          changed_at TIMESTAMP DEFAULT NOW() NOT NULL,
-          reason TEXT,
-          notes TEXT,
-          created_at TIMESTAMP DEFAULT NOW() NOT NULL
-        )
-      `);
-      console.log("✅ VM approval history table created");
-    } else {
-      console.log("✅ VM approval history table exists");
-    }
-
-    // Create VM inventory table if it doesn't exist
-    const vmInventoryTableExists = await db.execute(sql`
-      SELECT EXISTS (
-        SELECT FROM information_schema.tables 
-        WHERE table_schema = 'public' 
-        AND table_name = 'vm_inventory'
-      );
-    `);
-
-    if (!vmInventoryTableExists.rows[0]?.exists) {
-      await db.execute(sql`
-        CREATE TABLE vm_inventory (
-          id SERIAL PRIMARY KEY,
-
-          -- Core VM Information
-          vm_id TEXT,
-          vm_name TEXT NOT NULL,
-          vm_status TEXT NOT NULL DEFAULT 'Active',
-          vm_ip TEXT,
-          vm_os TEXT,
-          cpu_count INTEGER DEFAULT 0,
-          memory_gb INTEGER DEFAULT 0,
-          disk_capacity_gb INTEGER DEFAULT 0,
-
-          -- Request and Approval Information
-          requestor TEXT,
-          knox_id TEXT,
-          department TEXT,
-          start_date TEXT,
-          end_date TEXT,
-          jira_number TEXT,
-          approval_number TEXT,
-          remarks TEXT,
-
-          -- Legacy compatibility fields
-          internet_access BOOLEAN DEFAULT FALSE,
-          vm_os_version TEXT,
-          hypervisor TEXT,
-          host_name TEXT,
-          host_ip TEXT,
-          host_os TEXT,
-          rack TEXT,
-          deployed_by TEXT,
-          "user" TEXT,
-          jira_ticket TEXT,
-          date_deleted TEXT,
-          guest_os TEXT,
-          power_state TEXT,
-          memory_mb INTEGER,
-          disk_gb INTEGER,
-          ip_address TEXT,
-          mac_address TEXT,
-          vmware_tools TEXT,
-          cluster TEXT,
-          datastore TEXT,
-          status TEXT DEFAULT 'available',
-          assigned_to INTEGER,
-          location TEXT,
-          serial_number TEXT,
-          model TEXT,
-          manufacturer TEXT,
-          purchase_date TEXT,
-          purchase_cost TEXT,
-          created_date TEXT DEFAULT CURRENT_TIMESTAMP,
-          last_modified TEXT DEFAULT CURRENT_TIMESTAMP,
-          notes TEXT
-        )
-      `);
-      console.log("✅ VM inventory table created with all required columns");
-    } else {
-      console.log("✅ VM inventory table exists - verifying columns");
-    }
-
-    // Final comprehensive verification
-    const allTables = [
-      'users', 'assets', 'components', 'accessories', 'consumables', 'licenses',
-      'license_assignments', 'consumable_assignments', 'activities', 'vm_inventory',
-      'vms', 'monitor_inventory', 'bitlocker_keys', 'it_equipment', 'it_equipment_assignments',
-      'system_settings', 'zabbix_settings', 'discovered_hosts', 'vm_monitoring',
-      'monitoring_dashboards', 'monitoring_panels', 'monitoring_datasources', 
-      'monitoring_alert_rules', 'monitoring_alerts', 'monitoring_notifications', 'iam_accounts', 'vm_approval_history'
-    ];
-
-    console.log("📊 Final comprehensive table verification:");
-    let verifiedTables = 0;
-    let totalRecords = 0;
-
-    for (const tableName of allTables) {
-      try {
-        if (await tableExists(tableName)) {
-          const result = await db.execute(sql.raw(`SELECT COUNT(*) as count FROM ${tableName}`));
-          const count = result.rows[0].count;
-          console.log(`   ✅ ${tableName}: ${count} records`);
-          verifiedTables++;
-          totalRecords += parseInt(count);
-        } else {
-          console.log(`   ❌ ${tableName}: Table missing`);
-        }
-      } catch (error) {
-        console.log(`   ⚠️ ${tableName}: Error checking - ${error.message}`);
-      }
-    }
-
-    console.log(`\n🎉 Database verification completed successfully!`);
-    console.log(`📊 Summary: ${verifiedTables}/${allTables.length} tables verified`);
-    console.log(`📈 Total records across all tables: ${totalRecords}`);
-    console.log(`🔄 All missing tables and columns have been created automatically`);
-
-    // Log next steps
-    if (verifiedTables < allTables.length) {
-      console.log(`\n⚠️ Some tables may need manual attention. Check the logs above.`);
+// Startup: apply pending migrations, seed defaults, then check the result against shared/schema.ts
+export async function runMigrations() {
+  try {
+    console.log("🔄 Checking database migrations...");
+    const applied = await migrateUp();
+    if (applied.length === 0) {
+      console.log(`✅ Database is at migration ${MIGRATIONS[MIGRATIONS.length - 1].version}`);
     }
 
-  } catch (error) {
-    console.error("❌ Migration failed:", error);
-    console.error("📍 Error details:", {
-      message: error.message,
-      code: error.code,
-      detail: error.detail
-    });
+    await seedDefaults();
+    await assertSchemaMatchesDatabase();
+  } catch (error: any) {
+    console.error("❌ Migration failed:", error.message);
     throw error;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,818 @@
+// Numbered schema migrations, applied in order by migrate.ts and recorded in schema_migrations.
+// A migration that has shipped must never be edited: its checksum is stored when it is applied
+// and the runner refuses to continue when the code no longer matches. Add a new one instead.
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  // Null when the migration cannot be undone; rolling back past it is refused
+  down: string | null;
+}
+
+// Value written into existing rows when a NOT NULL column without a default is added
+const BACKFILL: Record<string, string> = {
+  text: "''",
+  integer: '0',
+  real: '0',
+  boolean: 'FALSE',
+  json: "'{}'",
+  jsonb: "'{}'",
+  timestamp: 'NOW()',
+};
+
+// Postgres refuses ADD COLUMN ... NOT NULL without a default once the table has rows, so such
+// columns are added nullable, backfilled and only then marked NOT NULL
+function addColumn(tableName: string, definition: string): string {
+  if (!/\sNOT NULL\b/.test(definition) || /\sDEFAULT\s/.test(definition)) {
+    return `ALTER TABLE "${tableName}" ADD COLUMN IF NOT EXISTS ${definition};`;
+  }
+
+  const [, column, type] = definition.match(/^("[^"]+")\s+(\w+)/) || [];
+  const backfill = BACKFILL[type];
+  if (!backfill) {
+    throw new Error(`No backfill value for NOT NULL column ${tableName}.${column} of type ${type}`);
+  }
+  return [
+    `ALTER TABLE "${tableName}" ADD COLUMN IF NOT EXISTS ${definition.replace(/\s+NOT NULL\b/, '')};`,
+    `UPDATE "${tableName}" SET ${column} = ${backfill} WHERE ${column} IS NULL;`,
+    `ALTER TABLE "${tableName}" ALTER COLUMN ${column} SET NOT NULL;`,
+  ].join('\n');
+}
+
+// Create the table, or add the columns an older database is missing. Databases created by the
+// old ad hoc checks in migrate.ts converge on the same layout as fresh ones.
+function table(name: string, columns: string): string {
+  const definitions = columns.trim().split('\n').map(line => line.trim().replace(/,$/, ''));
+  const added = definitions
+    .filter(definition => !definition.startsWith('CONSTRAINT') && !definition.includes('PRIMARY KEY'))
+    .map(definition => addColumn(name, definition));
+  return [`CREATE TABLE IF NOT EXISTS "${name}" (\n  ${definitions.join(',\n  ')}\n);`, ...added].join('\n');
+}
+
+// Older databases may already carry an unnamed foreign key on the column; keep that one
+function foreignKey(tableName: string, column: string, references: string, onDelete: string = 'NO ACTION'): string {
+  return `DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint c
+    JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = ANY (c.conkey)
+    WHERE c.contype = 'f' AND c.conrelid = '"${tableName}"'::regclass AND a.attname = '${column}'
+  ) THEN
+    ALTER TABLE "${tableName}" ADD CONSTRAINT "${tableName}_${column}_${references}_id_fk"
+      FOREIGN KEY ("${column}") REFERENCES "${references}"("id") ON DELETE ${onDelete};
+  END IF;
+END $$;`;
+}
+
+// Every table in shared/schema.ts as of the switch to versioned migrations, plus the session
+// and JIRA settings tables that live outside it
+const baselineTables = [
+  table('accessories', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "name" text NOT NULL,
+    "category" text NOT NULL,
+    "status" text NOT NULL,
+    "quantity" integer DEFAULT 1 NOT NULL,
+    "description" text,
+    "location" text,
+    "serial_number" text,
+    "model" text,
+    "manufacturer" text,
+    "purchase_date" text,
+    "purchase_cost" text,
+    "assigned_to" integer,
+    "knox_id" text,
+    "date_released" text,
+    "date_returned" text,
+    "released_by" text,
+    "returned_to" text,
+    "notes" text
+  `),
+  table('activities', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "action" text NOT NULL,
+    "item_type" text NOT NULL,
+    "item_id" integer NOT NULL,
+    "user_id" integer,
+    "timestamp" text NOT NULL,
+    "notes" text
+  `),
+  table('approval_number_history', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "vm_inventory_id" integer NOT NULL,
+    "old_approval_number" text,
+    "new_approval_number" text,
+    "changed_by" integer,
+    "changed_at" timestamp DEFAULT now() NOT NULL,
+    "reason" text,
+    "notes" text
+  `),
+  table('assets', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "asset_tag" text NOT NULL,
+    "name" text NOT NULL,
+    "description" text,
+    "category" text NOT NULL,
+    "status" text NOT NULL,
+    "condition" text DEFAULT 'Good' NOT NULL,
+    "purchase_date" text,
+    "purchase_cost" text,
+    "location" text,
+    "serial_number" text,
+    "model" text,
+    "manufacturer" text,
+    "notes" text,
+    "knox_id" text,
+    "ip_address" text,
+    "mac_address" text,
+    "os_type" text,
+    "assigned_to" integer,
+    "checkout_date" text,
+    "expected_checkin_date" text,
+    "finance_updated" boolean DEFAULT false,
+    "department" text,
+    CONSTRAINT "assets_asset_tag_unique" UNIQUE("asset_tag")
+  `),
+  table('backup_runs', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "trigger" text DEFAULT 'scheduled' NOT NULL,
+    "status" text DEFAULT 'running' NOT NULL,
+    "filename" text,
+    "size_bytes" integer,
+    "duration_ms" integer,
+    "pruned_count" integer DEFAULT 0,
+    "error" text,
+    "started_at" timestamp DEFAULT now(),
+    "completed_at" timestamp
+  `),
+  table('bitlocker_key_access_log', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "key_id" integer NOT NULL,
+    "serial_number" text NOT NULL,
+    "identifier" text,
+    "user_id" integer,
+    "username" text NOT NULL,
+    "reason" text NOT NULL,
+    "ip_address" text,
+    "revealed_at" timestamp DEFAULT now() NOT NULL
+  `),
+  table('bitlocker_keys', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "serial_number" text NOT NULL,
+    "identifier" text NOT NULL,
+    "recovery_key" text NOT NULL,
+    "notes" text,
+    "date_added" timestamp DEFAULT now(),
+    "updated_at" timestamp DEFAULT now()
+  `),
+  table('components', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "name" text NOT NULL,
+    "type" text NOT NULL,
+    "category" text NOT NULL,
+    "quantity" integer DEFAULT 0 NOT NULL,
+    "status" text DEFAULT 'available',
+    "description" text,
+    "location" text,
+    "serial_number" text,
+    "model" text,
+    "manufacturer" text,
+    "purchase_date" text,
+    "purchase_cost" text,
+    "warranty_expiry" text,
+    "assigned_to" text,
+    "date_released" text,
+    "date_returned" text,
+    "released_by" text,
+    "returned_to" text,
+    "specifications" text,
+    "notes" text
+  `),
+  table('consumable_assignments', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "consumable_id" integer NOT NULL,
+    "assigned_to" text NOT NULL,
+    "serial_number" text,
+    "knox_id" text,
+    "quantity" integer DEFAULT 1 NOT NULL,
+    "assigned_date" text NOT NULL,
+    "returned_date" text,
+    "status" text DEFAULT 'assigned' NOT NULL,
+    "notes" text
+  `),
+  table('consumables', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "name" text NOT NULL,
+    "category" text NOT NULL,
+    "quantity" integer DEFAULT 1 NOT NULL,
+    "status" text DEFAULT 'available' NOT NULL,
+    "location" text,
+    "model_number" text,
+    "manufacturer" text,
+    "purchase_date" text,
+    "purchase_cost" text,
+    "notes" text
+  `),
+  table('discovered_hosts', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "hostname" text,
+    "ip_address" text NOT NULL,
+    "mac_address" text,
+    "status" text DEFAULT 'new' NOT NULL,
+    "last_seen" timestamp DEFAULT now(),
+    "source" text DEFAULT 'zabbix' NOT NULL,
+    "system_info" json DEFAULT '{}'::json,
+    "hardware_details" json DEFAULT '{}'::json,
+    "created_at" timestamp DEFAULT now(),
+    "updated_at" timestamp DEFAULT now()
+  `),
+  table('iam_account_extensions', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "iam_account_id" integer NOT NULL,
+    "old_approval_id" text,
+    "new_approval_id" text NOT NULL,
+    "old_end_date" text,
+    "new_end_date" text NOT NULL,
+    "reason" text,
+    "requested_by" integer,
+    "created_at" timestamp DEFAULT now() NOT NULL
+  `),
+  table('iam_accounts', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "requestor" text,
+    "knox_id" text,
+    "permission" text,
+    "duration_start_date" text,
+    "duration_end_date" text,
+    "cloud_platform" text,
+    "project_accounts" text,
+    "approval_id" text,
+    "remarks" text,
+    "status" text DEFAULT 'active',
+    "last_notified_at" text,
+    "created_at" timestamp DEFAULT now(),
+    "updated_at" timestamp DEFAULT now()
+  `),
+  table('issues', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "title" text NOT NULL,
+    "description" text NOT NULL,
+    "priority" text DEFAULT 'Medium' NOT NULL,
+    "issue_type" text DEFAULT 'Incident' NOT NULL,
+    "status" text DEFAULT 'open' NOT NULL,
+    "user_email" text,
+    "submitted_by" text,
+    "reported_by" integer,
+    "jira_key" text,
+    "jira_status" text,
+    "jira_error" text,
+    "last_synced_at" text,
+    "created_at" timestamp DEFAULT now() NOT NULL,
+    "updated_at" timestamp DEFAULT now() NOT NULL
+  `),
+  table('it_equipment', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "name" text NOT NULL,
+    "category" text NOT NULL,
+    "total_quantity" integer,
+    "assigned_quantity" integer DEFAULT 0,
+    "model" text,
+    "location" text,
+    "date_acquired" text,
+    "knox_id" text,
+    "serial_number" text,
+    "date_release" text,
+    "remarks" text,
+    "status" text DEFAULT 'available',
+    "created_at" text DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" text DEFAULT CURRENT_TIMESTAMP
+  `),
+  table('it_equipment_assignments', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "equipment_id" integer NOT NULL,
+    "assigned_to" text NOT NULL,
+    "knox_id" text,
+    "serial_number" text,
+    "quantity" integer DEFAULT 1 NOT NULL,
+    "assigned_date" text NOT NULL,
+    "returned_date" text,
+    "status" text DEFAULT 'assigned' NOT NULL,
+    "notes" text
+  `),
+  table('license_assignments', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "license_id" integer NOT NULL,
+    "assigned_to" text NOT NULL,
+    "notes" text,
+    "assigned_date" text NOT NULL
+  `),
+  table('licenses', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "name" text NOT NULL,
+    "key" text NOT NULL,
+    "seats" text,
+    "assigned_seats" integer DEFAULT 0,
+    "company" text,
+    "manufacturer" text,
+    "purchase_date" text,
+    "expiration_date" text,
+    "purchase_cost" text,
+    "status" text NOT NULL,
+    "notes" text,
+    "assigned_to" integer
+  `),
+  table('monitor_inventory', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "seat_number" text NOT NULL,
+    "knox_id" text,
+    "asset_number" text,
+    "serial_number" text,
+    "model" text,
+    "remarks" text,
+    "department" text,
+    "created_at" text DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" text DEFAULT CURRENT_TIMESTAMP
+  `),
+  table('monitoring_alert_rules', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "name" text NOT NULL,
+    "datasource" text NOT NULL,
+    "query" text NOT NULL,
+    "condition" text NOT NULL,
+    "threshold" real NOT NULL,
+    "evaluation_interval" integer DEFAULT 60,
+    "for_duration" integer DEFAULT 300,
+    "severity" text DEFAULT 'medium',
+    "enabled" boolean DEFAULT true,
+    "notification_channels" text,
+    "annotations" text,
+    "labels" text,
+    "state" text DEFAULT 'normal',
+    "last_evaluation" text,
+    "error" text,
+    "created_at" text NOT NULL,
+    "updated_at" text NOT NULL
+  `),
+  table('monitoring_alerts', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "name" text NOT NULL,
+    "datasource" text NOT NULL,
+    "query" text NOT NULL,
+    "condition" text NOT NULL,
+    "threshold" real NOT NULL,
+    "evaluation_interval" integer DEFAULT 60,
+    "for_duration" integer DEFAULT 300,
+    "severity" text DEFAULT 'medium',
+    "enabled" boolean DEFAULT true,
+    "notification_channels" text[],
+    "annotations" text,
+    "labels" text,
+    "state" text DEFAULT 'normal',
+    "last_evaluation" text,
+    "error" text,
+    "created_at" text NOT NULL,
+    "updated_at" text NOT NULL
+  `),
+  table('monitoring_dashboards', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "name" text NOT NULL,
+    "description" text,
+    "is_public" boolean DEFAULT false,
+    "refresh_interval" integer DEFAULT 30,
+    "tags" text,
+    "user_id" integer,
+    "created_at" text NOT NULL,
+    "updated_at" text NOT NULL
+  `),
+  table('monitoring_datasources', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "name" text NOT NULL,
+    "type" text NOT NULL,
+    "url" text NOT NULL,
+    "access" text DEFAULT 'proxy',
+    "basic_auth" boolean DEFAULT false,
+    "basic_auth_user" text,
+    "basic_auth_password" text,
+    "database" text,
+    "json_data" text,
+    "secure_json_fields" text,
+    "is_default" boolean DEFAULT false,
+    "status" text DEFAULT 'pending',
+    "last_check" text,
+    "created_at" text NOT NULL,
+    "updated_at" text NOT NULL
+  `),
+  table('monitoring_notifications', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "alert_id" integer NOT NULL,
+    "type" text NOT NULL,
+    "recipient" text NOT NULL,
+    "message" text NOT NULL,
+    "status" text DEFAULT 'pending',
+    "sent_at" text,
+    "error" text,
+    "attempts" integer DEFAULT 0,
+    "last_attempt_at" text,
+    "created_at" text NOT NULL
+  `),
+  table('monitoring_panels', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "dashboard_id" integer NOT NULL,
+    "title" text NOT NULL,
+    "type" text NOT NULL,
+    "datasource" text NOT NULL,
+    "query" text NOT NULL,
+    "refresh_interval" integer DEFAULT 30,
+    "width" integer DEFAULT 6,
+    "height" integer DEFAULT 300,
+    "x_pos" integer DEFAULT 0,
+    "y_pos" integer DEFAULT 0,
+    "thresholds" text,
+    "unit" text,
+    "decimals" integer DEFAULT 2,
+    "show_legend" boolean DEFAULT true,
+    "color_scheme" text DEFAULT 'default',
+    "config" text,
+    "created_at" text NOT NULL,
+    "updated_at" text NOT NULL
+  `),
+  table('roles', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "name" text NOT NULL,
+    "description" text DEFAULT '',
+    "permissions" json NOT NULL,
+    "is_system" boolean DEFAULT false,
+    "created_at" timestamp DEFAULT now(),
+    "updated_at" timestamp DEFAULT now(),
+    CONSTRAINT "roles_name_unique" UNIQUE("name")
+  `),
+  table('system_settings', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "site_name" text DEFAULT 'SRPH-MIS' NOT NULL,
+    "site_url" text DEFAULT '' NOT NULL,
+    "default_language" text DEFAULT 'en' NOT NULL,
+    "default_timezone" text DEFAULT 'UTC' NOT NULL,
+    "allow_public_registration" boolean DEFAULT false,
+    "company_name" text DEFAULT 'SRPH' NOT NULL,
+    "company_address" text DEFAULT '',
+    "company_phone" text DEFAULT '',
+    "company_email" text DEFAULT '',
+    "company_logo" text DEFAULT '',
+    "mail_driver" text DEFAULT '',
+    "mail_host" text DEFAULT '',
+    "mail_port" text DEFAULT '',
+    "mail_username" text DEFAULT '',
+    "mail_password" text DEFAULT '',
+    "mail_from_address" text DEFAULT '',
+    "mail_from_name" text DEFAULT '',
+    "asset_tag_prefix" text DEFAULT 'SRPH',
+    "asset_tag_zeros" integer DEFAULT 5,
+    "asset_auto_increment" boolean DEFAULT true,
+    "asset_checkout_policy" text DEFAULT '',
+    "asset_checkout_duration" integer DEFAULT 30,
+    "enable_login_attempts" boolean DEFAULT true,
+    "max_login_attempts" integer DEFAULT 5,
+    "lockout_duration" integer DEFAULT 30,
+    "password_min_length" integer DEFAULT 8,
+    "require_special_char" boolean DEFAULT true,
+    "require_uppercase" boolean DEFAULT true,
+    "require_number" boolean DEFAULT true,
+    "password_expiry_days" integer DEFAULT 90,
+    "require_password_for_key_reveal" boolean DEFAULT false,
+    "enable_admin_notifications" boolean DEFAULT true,
+    "enable_user_notifications" boolean DEFAULT true,
+    "notify_on_checkout" boolean DEFAULT true,
+    "notify_on_checkin" boolean DEFAULT true,
+    "notify_on_overdue" boolean DEFAULT true,
+    "vm_reminder_interval_days" integer DEFAULT 7,
+    "vm_owner_email_domain" text DEFAULT '',
+    "iam_notice_subject" text,
+    "iam_notice_template" text,
+    "automatic_backups" boolean DEFAULT false,
+    "backup_frequency" text DEFAULT 'daily',
+    "backup_time" text DEFAULT '00:00',
+    "backup_retention" integer DEFAULT 30,
+    "maintenance_mode" boolean DEFAULT false,
+    "updated_at" timestamp DEFAULT now()
+  `),
+  table('users', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "username" text NOT NULL,
+    "password" text NOT NULL,
+    "first_name" text NOT NULL,
+    "last_name" text NOT NULL,
+    "email" text NOT NULL,
+    "department" text,
+    "is_admin" boolean DEFAULT false,
+    "role_id" integer,
+    "password_changed_at" text,
+    "permissions" json DEFAULT '{"assets":{"view":true,"edit":false,"add":false,"delete":false},"components":{"view":true,"edit":false,"add":false,"delete":false},"accessories":{"view":true,"edit":false,"add":false,"delete":false},"consumables":{"view":true,"edit":false,"add":false,"delete":false},"licenses":{"view":true,"edit":false,"add":false,"delete":false},"users":{"view":false,"edit":false,"add":false,"delete":false},"reports":{"view":true,"edit":false,"add":false,"delete":false},"vmMonitoring":{"view":true,"edit":false,"add":false,"delete":false},"networkDiscovery":{"view":true,"edit":false,"add":false,"delete":false},"bitlockerKeys":{"view":false,"edit":false,"add":false,"delete":false},"vmInventory":{"view":true,"edit":false,"add":false,"delete":false},"iamAccounts":{"view":false,"edit":false,"add":false,"delete":false},"itEquipment":{"view":true,"edit":false,"add":false,"delete":false},"monitorInventory":{"view":true,"edit":false,"add":false,"delete":false},"database":{"view":false,"edit":false,"add":false,"delete":false},"admin":{"view":false,"edit":false,"add":false,"delete":false}}'::json,
+    CONSTRAINT "users_username_unique" UNIQUE("username")
+  `),
+  table('vm_approval_history', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "vm_id" integer NOT NULL,
+    "old_approval_number" text,
+    "new_approval_number" text,
+    "changed_by" integer,
+    "changed_at" timestamp DEFAULT now() NOT NULL,
+    "reason" text,
+    "notes" text,
+    "created_at" timestamp DEFAULT now() NOT NULL
+  `),
+  table('vm_inventory', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "vm_id" text,
+    "vm_name" text NOT NULL,
+    "vm_status" text DEFAULT 'Active' NOT NULL,
+    "vm_ip" text,
+    "vm_os" text,
+    "cpu_count" integer DEFAULT 0,
+    "memory_gb" integer DEFAULT 0,
+    "disk_capacity_gb" integer DEFAULT 0,
+    "requestor" text,
+    "knox_id" text,
+    "department" text,
+    "start_date" text,
+    "end_date" text,
+    "jira_number" text,
+    "approval_number" text,
+    "remarks" text,
+    "internet_access" boolean DEFAULT false,
+    "vm_os_version" text,
+    "hypervisor" text,
+    "host_name" text,
+    "host_model" text,
+    "host_ip" text,
+    "host_os" text,
+    "rack" text,
+    "deployed_by" text,
+    "user" text,
+    "jira_ticket" text,
+    "date_deleted" text,
+    "guest_os" text,
+    "power_state" text,
+    "memory_mb" integer,
+    "disk_gb" integer,
+    "ip_address" text,
+    "mac_address" text,
+    "vmware_tools" text,
+    "cluster" text,
+    "datastore" text,
+    "status" text DEFAULT 'available',
+    "assigned_to" integer,
+    "location" text,
+    "serial_number" text,
+    "model" text,
+    "manufacturer" text,
+    "purchase_date" text,
+    "purchase_cost" text,
+    "created_date" text,
+    "last_modified" text,
+    "notes" text,
+    "last_notified_at" text,
+    "notification_count" integer DEFAULT 0
+  `),
+  table('vm_monitoring', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "vm_id" integer NOT NULL,
+    "hostname" text,
+    "ip_address" text,
+    "status" text,
+    "cpu_usage" real,
+    "memory_usage" real,
+    "disk_usage" real,
+    "uptime" integer,
+    "network_status" text,
+    "os_name" text,
+    "cpu_cores" integer,
+    "total_memory" bigint,
+    "total_disk" bigint,
+    "created_at" text NOT NULL,
+    "updated_at" text NOT NULL
+  `),
+  table('vms', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "vm_name" text NOT NULL,
+    "host_name" text NOT NULL,
+    "guest_os" text NOT NULL,
+    "power_state" text DEFAULT 'stopped' NOT NULL,
+    "cpu_count" integer DEFAULT 1,
+    "memory_mb" integer DEFAULT 1024,
+    "disk_gb" integer DEFAULT 20,
+    "ip_address" text,
+    "mac_address" text,
+    "vmware_tools" text,
+    "cluster" text,
+    "datastore" text,
+    "status" text DEFAULT 'available' NOT NULL,
+    "assigned_to" integer,
+    "location" text,
+    "serial_number" text,
+    "model" text,
+    "manufacturer" text,
+    "purchase_date" text,
+    "purchase_cost" text,
+    "department" text,
+    "description" text,
+    "created_date" text DEFAULT CURRENT_TIMESTAMP,
+    "last_modified" text DEFAULT CURRENT_TIMESTAMP,
+    "notes" text
+  `),
+  table('zabbix_settings', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "server_url" text DEFAULT '' NOT NULL,
+    "username" text DEFAULT '' NOT NULL,
+    "password" text DEFAULT '' NOT NULL,
+    "api_token" text DEFAULT '',
+    "last_sync" timestamp,
+    "sync_interval" integer DEFAULT 30,
+    "enabled" boolean DEFAULT false,
+    "updated_at" timestamp DEFAULT now()
+  `),
+  table('zabbix_subnets', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "cidr_range" text NOT NULL,
+    "description" text,
+    "enabled" boolean DEFAULT true,
+    "created_at" timestamp DEFAULT now(),
+    "updated_at" timestamp DEFAULT now()
+  `),
+  table('sessions', `
+    "sid" varchar PRIMARY KEY NOT NULL,
+    "sess" json NOT NULL,
+    "expire" timestamp(6) NOT NULL
+  `),
+  table('jira_settings', `
+    "id" serial PRIMARY KEY NOT NULL,
+    "settings" text NOT NULL,
+    "created_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" timestamp DEFAULT CURRENT_TIMESTAMP
+  `),
+];
+
+const baselineForeignKeys = [
+  // Roles that only ever existed in memory cannot be referenced
+  'UPDATE "users" SET "role_id" = NULL WHERE "role_id" IS NOT NULL AND "role_id" NOT IN (SELECT "id" FROM "roles");',
+  foreignKey('accessories', 'assigned_to', 'users'),
+  foreignKey('activities', 'user_id', 'users'),
+  foreignKey('approval_number_history', 'vm_inventory_id', 'vm_inventory'),
+  foreignKey('approval_number_history', 'changed_by', 'users'),
+  foreignKey('assets', 'assigned_to', 'users'),
+  foreignKey('consumable_assignments', 'consumable_id', 'consumables'),
+  foreignKey('iam_account_extensions', 'iam_account_id', 'iam_accounts', 'CASCADE'),
+  foreignKey('iam_account_extensions', 'requested_by', 'users'),
+  foreignKey('issues', 'reported_by', 'users'),
+  foreignKey('it_equipment_assignments', 'equipment_id', 'it_equipment'),
+  foreignKey('license_assignments', 'license_id', 'licenses'),
+  foreignKey('licenses', 'assigned_to', 'users'),
+  foreignKey('monitoring_dashboards', 'user_id', 'users'),
+  foreignKey('monitoring_panels', 'dashboard_id', 'monitoring_dashboards', 'CASCADE'),
+  foreignKey('users', 'role_id', 'roles', 'SET NULL'),
+  foreignKey('vm_approval_history', 'vm_id', 'vm_inventory', 'CASCADE'),
+  foreignKey('vm_approval_history', 'changed_by', 'users'),
+  foreignKey('vm_inventory', 'assigned_to', 'users'),
+  foreignKey('vms', 'assigned_to', 'users'),
+];
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'baseline',
+    up: [
+      ...baselineTables,
+      ...baselineForeignKeys,
+      'CREATE INDEX IF NOT EXISTS "idx_sessions_expire" ON "sessions" ("expire");',
+      'CREATE INDEX IF NOT EXISTS "idx_bitlocker_key_access_log_key" ON "bitlocker_key_access_log" ("key_id");',
+    ].join('\n'),
+    // Dropping every table would take all data with it; restore a backup instead
+    down: null,
+  },
+  {
+    version: 2,
+    name: 'bitlocker_access_log_append_only',
+    // Reveals can be logged but never changed or removed
+    up: `
+CREATE OR REPLACE FUNCTION bitlocker_key_access_log_immutable() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'bitlocker_key_access_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+DROP TRIGGER IF EXISTS bitlocker_key_access_log_immutable ON "bitlocker_key_access_log";
+CREATE TRIGGER bitlocker_key_access_log_immutable
+  BEFORE UPDATE OR DELETE ON "bitlocker_key_access_log"
+  FOR EACH ROW EXECUTE FUNCTION bitlocker_key_access_log_immutable();
+`,
+    down: `
+DROP TRIGGER IF EXISTS bitlocker_key_access_log_immutable ON "bitlocker_key_access_log";
+DROP FUNCTION IF EXISTS bitlocker_key_access_log_immutable();
+`,
+  },
+  {
+    version: 3,
+    name: 'vm_metric_samples',
+    up: [
+      table('vm_metric_samples', `
+        "id" serial PRIMARY KEY NOT NULL,
+        "vm_id" integer NOT NULL,
+        "resolution" text NOT NULL,
+        "bucket_start" timestamp NOT NULL,
+        "cpu_usage" real,
+        "memory_usage" real,
+        "disk_usage" real,
+        "cpu_max" real,
+        "memory_max" real,
+        "disk_max" real,
+        "sample_count" integer DEFAULT 1 NOT NULL,
+        CONSTRAINT "vm_metric_samples_bucket_unique" UNIQUE("vm_id", "resolution", "bucket_start")
+      `),
+      // Rollups and retention scan by resolution and time across all hosts
+      'CREATE INDEX IF NOT EXISTS "idx_vm_metric_samples_resolution_bucket" ON "vm_metric_samples" ("resolution", "bucket_start");',
+      'ALTER TABLE "zabbix_settings" ADD COLUMN IF NOT EXISTS "metrics_raw_retention_days" integer DEFAULT 2;',
+      'ALTER TABLE "zabbix_settings" ADD COLUMN IF NOT EXISTS "metrics_five_minute_retention_days" integer DEFAULT 30;',
+      'ALTER TABLE "zabbix_settings" ADD COLUMN IF NOT EXISTS "metrics_hourly_retention_days" integer DEFAULT 365;',
+    ].join('\n'),
+    down: `
+DROP TABLE IF EXISTS "vm_metric_samples";
+ALTER TABLE "zabbix_settings"
+  DROP COLUMN IF EXISTS "metrics_raw_retention_days",
+  DROP COLUMN IF EXISTS "metrics_five_minute_retention_days",
+  DROP COLUMN IF EXISTS "metrics_hourly_retention_days";
+`,
+  },
+  {
+    version: 4,
+    name: 'zabbix_sync_runs',
+    up: [
+      table('zabbix_sync_runs', `
+        "id" serial PRIMARY KEY NOT NULL,
+        "trigger" text DEFAULT 'scheduled' NOT NULL,
+        "status" text DEFAULT 'running' NOT NULL,
+        "hosts_seen" integer DEFAULT 0,
+        "hosts_updated" integer DEFAULT 0,
+        "hosts_unchanged" integer DEFAULT 0,
+        "errors" text[] DEFAULT '{}',
+        "high_water_clock" integer,
+        "duration_ms" integer,
+        "started_at" timestamp DEFAULT now(),
+        "completed_at" timestamp
+      `),
+      'CREATE INDEX IF NOT EXISTS "idx_zabbix_sync_runs_started" ON "zabbix_sync_runs" ("started_at");',
+    ].join('\n'),
+    down: `DROP TABLE IF EXISTS "zabbix_sync_runs";`,
+  },
+  {
+    version: 5,
+    name: 'bitlocker_access_log_no_truncate',
+    // Row triggers do not fire on TRUNCATE, which would otherwise empty the log in one statement
+    up: `
+DROP TRIGGER IF EXISTS bitlocker_key_access_log_no_truncate ON "bitlocker_key_access_log";
+CREATE TRIGGER bitlocker_key_access_log_no_truncate
+  BEFORE TRUNCATE ON "bitlocker_key_access_log"
+  FOR EACH STATEMENT EXECUTE FUNCTION bitlocker_key_access_log_immutable();
+`,
+    down: `DROP TRIGGER IF EXISTS bitlocker_key_access_log_no_truncate ON "bitlocker_key_access_log";`,
+  },
+  {
+    version: 6,
+    name: 'monitoring_alert_history',
+    // server/alert-evaluator.ts opens a monitoring_alerts row when a rule fires and closes it on resolve
+    up: [
+      'ALTER TABLE "monitoring_alerts" ADD COLUMN IF NOT EXISTS "rule_id" integer;',
+      'ALTER TABLE "monitoring_alerts" ADD COLUMN IF NOT EXISTS "value" real;',
+      'ALTER TABLE "monitoring_alerts" ADD COLUMN IF NOT EXISTS "fired_at" text;',
+      'ALTER TABLE "monitoring_alerts" ADD COLUMN IF NOT EXISTS "resolved_at" text;',
+      foreignKey('monitoring_alerts', 'rule_id', 'monitoring_alert_rules', 'SET NULL'),
+      'CREATE INDEX IF NOT EXISTS "idx_monitoring_alerts_open" ON "monitoring_alerts" ("rule_id") WHERE "resolved_at" IS NULL;',
+    ].join('\n'),
+    down: `
+DROP INDEX IF EXISTS "idx_monitoring_alerts_open";
+ALTER TABLE "monitoring_alerts"
+  DROP COLUMN IF EXISTS "rule_id",
+  DROP COLUMN IF EXISTS "value",
+  DROP COLUMN IF EXISTS "fired_at",
+  DROP COLUMN IF EXISTS "resolved_at";
+`,
+  },
+  {
+    version: 7,
+    name: 'monitoring_notification_retries',
+    up: [
+      'ALTER TABLE "monitoring_notifications" ADD COLUMN IF NOT EXISTS "next_attempt_at" text;',
+      'ALTER TABLE "monitoring_notifications" ADD COLUMN IF NOT EXISTS "payload" text;',
+      'CREATE INDEX IF NOT EXISTS "idx_monitoring_notifications_retrying" ON "monitoring_notifications" ("next_attempt_at") WHERE "status" = \'retrying\';',
+    ].join('\n'),
+    down: `
+DROP INDEX IF EXISTS "idx_monitoring_notifications_retrying";
+ALTER TABLE "monitoring_notifications"
+  DROP COLUMN IF EXISTS "next_attempt_at",
+  DROP COLUMN IF EXISTS "payload";
+`,
+  },
+  {
+    version: 8,
+    name: 'vm_monitoring_last_clock',
+    // Per-host high-water mark for the Zabbix sync, replacing the one kept on zabbix_sync_runs
+    up: 'ALTER TABLE "vm_monitoring" ADD COLUMN IF NOT EXISTS "last_clock" integer;',
+    down: 'ALTER TABLE "vm_monitoring" DROP COLUMN IF EXISTS "last_clock";',
+  },
+];
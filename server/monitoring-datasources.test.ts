@@ -0,0 +1,52 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { buildInventoryQuery, parseInventoryQuery, parseTimeRange } from "./monitoring-datasources";
+
+const dialect = new PgDialect();
+const range = parseTimeRange('1h', new Date('2026-01-01T12:00:00Z'));
+
+function render(query: string) {
+  return dialect.sqlToQuery(buildInventoryQuery(parseInventoryQuery(query), range));
+}
+
+test('inventory queries name a whitelisted source, column, grouping and filters', () => {
+  assert.deepEqual(parseInventoryQuery("count assets by status where category=Laptop,'Desk top' and department=IT"), {
+    aggregate: 'count',
+    source: 'assets',
+    groupBy: 'status',
+    filters: [
+      { column: 'category', values: ['Laptop', 'Desk top'] },
+      { column: 'department', values: ['IT'] },
+    ],
+  });
+  assert.equal(parseInventoryQuery('AVG vm_monitoring.cpu_usage').aggregate, 'avg');
+});
+
+test('raw SQL, unlisted tables and unlisted columns are rejected', () => {
+  assert.throws(() => parseInventoryQuery("SELECT query_to_xml('select password from us'||'ers', true, true, '')"), /Unrecognised inventory query/);
+  assert.throws(() => parseInventoryQuery('count users'), /Inventory source "users" is not available/);
+  assert.throws(() => parseInventoryQuery('count bitlocker_keys'), /not available/);
+  assert.throws(() => parseInventoryQuery('sum assets.purchase_cost'), /sum cannot read assets\.purchase_cost/);
+  assert.throws(() => parseInventoryQuery('count assets by knox_id'), /cannot be grouped by knox_id/);
+  assert.throws(() => parseInventoryQuery('count vm_inventory where requestor=alice'), /cannot be filtered by requestor/);
+  assert.throws(() => parseInventoryQuery('avg vm_monitoring'), /avg needs a column/);
+});
+
+test('filter values are bound as parameters, never spliced into the statement', () => {
+  const { sql, params } = render("count assets where status=x')) OR pg_read_file('/etc/passwd') IS NOT NULL --");
+
+  assert.doesNotMatch(sql, /pg_read_file/);
+  assert.ok(params.includes("x')) OR pg_read_file('/etc/passwd') IS NOT NULL --"));
+  assert.match(sql, /from "assets" where "assets"\."status" in \(\$1\) limit/i);
+});
+
+test('sources with a time column are bucketed over the requested range', () => {
+  const { sql, params } = render('avg vm_metric_samples.cpu_usage by vm_id where resolution=5m');
+
+  assert.match(sql, /to_timestamp\(floor\(extract\(epoch from/);
+  assert.match(sql, /group by 1, 2 order by 1/i);
+  assert.ok(params.includes(range.stepSeconds));
+  assert.ok(params.includes('2026-01-01T11:00:00.000Z'));
+  assert.ok(params.includes('2026-01-01T12:00:00.000Z'));
+});
@@ -0,0 +1,493 @@
+import { and, eq, getTableColumns, getTableName, inArray, sql, type SQL } from "drizzle-orm";
+import type { PgColumn, PgTable } from "drizzle-orm/pg-core";
+import { db } from "./db";
+import { openSecret } from "./secrets";
+import * as schema from "@shared/schema";
+
+type MonitoringDatasource = typeof schema.monitoringDatasources.$inferSelect;
+type MonitoringPanel = typeof schema.monitoringPanels.$inferSelect;
+
+export interface DataPoint {
+  timestamp: string;
+  value: number;
+  metric?: string;
+  unit?: string;
+}
+
+export interface TimeRange {
+  from: Date;
+  to: Date;
+  stepSeconds: number;
+}
+
+// Name of the built-in datasource that queries our own tables
+export const INVENTORY_DATASOURCE = 'inventory';
+
+const QUERY_TIMEOUT_MS = 10000;
+const MAX_POINTS_PER_SERIES = 500;
+
+const zabbixTokens = new Map<number, string>();
+
+// "5m", "1h", "7d" and so on; anything unparseable falls back to the last hour
+export function parseTimeRange(timeRange?: string, now: Date = new Date()): TimeRange {
+  const units: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400, w: 604800 };
+  const match = /^(\d+)([smhdw])$/.exec(timeRange || '');
+  const seconds = match ? parseInt(match[1], 10) * units[match[2]] : 3600;
+
+  return {
+    from: new Date(now.getTime() - seconds * 1000),
+    to: now,
+    // Keep roughly 200 points per series whatever the range
+    stepSeconds: Math.max(15, Math.ceil(seconds / 200)),
+  };
+}
+
+// Panels and alert rules reference datasources by name (or id)
+export async function resolveDatasource(reference: string): Promise<MonitoringDatasource | { type: string; name: string }> {
+  if (reference === INVENTORY_DATASOURCE) {
+    return { type: INVENTORY_DATASOURCE, name: INVENTORY_DATASOURCE };
+  }
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const [byName] = await db.select().from(schema.monitoringDatasources)
+    .where(eq(schema.monitoringDatasources.name, reference));
+  if (byName) return byName;
+
+  if (/^\d+$/.test(reference)) {
+    const [byId] = await db.select().from(schema.monitoringDatasources)
+      .where(eq(schema.monitoringDatasources.id, parseInt(reference, 10)));
+    if (byId) return byId;
+  }
+
+  throw new Error(`Datasource "${reference}" not found`);
+}
+
+function parseJson(value: string | null | undefined): Record<string, any> {
+  if (!value) return {};
+  try {
+    return JSON.parse(value);
+  } catch {
+    return {};
+  }
+}
+
+function authHeaders(datasource: MonitoringDatasource): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (datasource.basicAuth && datasource.basicAuthUser) {
+    const credentials = Buffer.from(`${datasource.basicAuthUser}:${openSecret(datasource.basicAuthPassword)}`).toString('base64');
+    headers['Authorization'] = `Basic ${credentials}`;
+  }
+  return headers;
+}
+
+async function fetchJson(url: string, init: RequestInit = {}) {
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(QUERY_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText} from ${new URL(url).host}`);
+  }
+  return response.json();
+}
+
+// Prometheus range query; each returned series becomes its own metric
+async function queryPrometheus(datasource: MonitoringDatasource, query: string, range: TimeRange): Promise<DataPoint[]> {
+  const params = new URLSearchParams({
+    query,
+    start: String(Math.floor(range.from.getTime() / 1000)),
+    end: String(Math.floor(range.to.getTime() / 1000)),
+    step: String(range.stepSeconds),
+  });
+  const baseUrl = datasource.url.replace(/\/+$/, '');
+  const body = await fetchJson(`${baseUrl}/api/v1/query_range?${params}`, { headers: authHeaders(datasource) });
+
+  if (body.status !== 'success') {
+    throw new Error(body.error || 'Prometheus query failed');
+  }
+
+  const points: DataPoint[] = [];
+  for (const series of body.data?.result || []) {
+    const { __name__, ...labels } = series.metric || {};
+    const labelText = Object.entries(labels).map(([k, v]) => `${k}="${v}"`).join(', ');
+    const metric = labelText ? `${__name__ || ''}{${labelText}}` : (__name__ || query);
+
+    for (const [ts, value] of series.values || []) {
+      points.push({ timestamp: new Date(ts * 1000).toISOString(), value: parseFloat(value), metric });
+    }
+  }
+  return points;
+}
+
+async function zabbixCall(datasource: MonitoringDatasource, method: string, params: any, auth?: string) {
+  const url = datasource.url.endsWith('api_jsonrpc.php')
+    ? datasource.url
+    : `${datasource.url.replace(/\/+$/, '')}/api_jsonrpc.php`;
+
+  const body = await fetchJson(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', method, params, ...(auth && { auth }), id: 1 }),
+  });
+
+  if (body.error) {
+    throw new Error(`Zabbix ${method} failed: ${body.error.data || body.error.message}`);
+  }
+  return body.result;
+}
+
+async function zabbixAuth(datasource: MonitoringDatasource): Promise<string> {
+  // Tokens belong in the encrypted secureJsonFields; older datasources kept them in jsonData
+  const apiToken = parseJson(openSecret(datasource.secureJsonFields)).apiToken || parseJson(datasource.jsonData).apiToken;
+  if (apiToken) return apiToken;
+
+  const cached = zabbixTokens.get(datasource.id);
+  if (cached) return cached;
+
+  if (!datasource.basicAuthUser) {
+    throw new Error("Zabbix datasource needs an API token or username/password");
+  }
+
+  const password = openSecret(datasource.basicAuthPassword);
+  let token: string;
+  try {
+    token = await zabbixCall(datasource, 'user.login', { username: datasource.basicAuthUser, password });
+  } catch {
+    // Zabbix before 5.4 names the parameter "user"
+    token = await zabbixCall(datasource, 'user.login', { user: datasource.basicAuthUser, password });
+  }
+  zabbixTokens.set(datasource.id, token);
+  return token;
+}
+
+// Zabbix queries are "host:item key", e.g. "web01:system.cpu.util"
+async function queryZabbix(datasource: MonitoringDatasource, query: string, range: TimeRange): Promise<DataPoint[]> {
+  const separator = query.indexOf(':');
+  if (separator <= 0) {
+    throw new Error('Zabbix queries must look like "host:item.key"');
+  }
+  const host = query.slice(0, separator).trim();
+  const key = query.slice(separator + 1).trim();
+
+  const run = async (auth: string) => {
+    const items = await zabbixCall(datasource, 'item.get', {
+      output: ['itemid', 'name', 'key_', 'value_type', 'units'],
+      host,
+      search: { key_: key },
+      filter: { value_type: [0, 3] },
+    }, auth);
+
+    if (!items.length) {
+      throw new Error(`No numeric Zabbix items match "${key}" on ${host}`);
+    }
+
+    const timeFrom = Math.floor(range.from.getTime() / 1000);
+    const timeTill = Math.floor(range.to.getTime() / 1000);
+    const useTrends = range.to.getTime() - range.from.getTime() > 2 * 86400 * 1000;
+    const points: DataPoint[] = [];
+
+    for (const item of items) {
+      const rows = useTrends
+        ? await zabbixCall(datasource, 'trend.get', {
+            output: ['clock', 'value_avg'],
+            itemids: [item.itemid],
+            time_from: timeFrom,
+            time_till: timeTill,
+          }, auth)
+        : await zabbixCall(datasource, 'history.get', {
+            output: 'extend',
+            history: parseInt(item.value_type, 10),
+            itemids: [item.itemid],
+            time_from: timeFrom,
+            time_till: timeTill,
+            sortfield: 'clock',
+            sortorder: 'ASC',
+            limit: MAX_POINTS_PER_SERIES,
+          }, auth);
+
+      for (const row of rows) {
+        points.push({
+          timestamp: new Date(parseInt(row.clock, 10) * 1000).toISOString(),
+          value: parseFloat(useTrends ? row.value_avg : row.value),
+          metric: items.length > 1 ? `${host} ${item.name}` : item.name,
+          unit: item.units || undefined,
+        });
+      }
+    }
+    return points;
+  };
+
+  try {
+    return await run(await zabbixAuth(datasource));
+  } catch (error: any) {
+    // A cached session may have expired; log in again once
+    if (zabbixTokens.has(datasource.id) && /session|re-login|not authori[sz]ed/i.test(error.message)) {
+      zabbixTokens.delete(datasource.id);
+      return run(await zabbixAuth(datasource));
+    }
+    throw error;
+  }
+}
+
+export type InventoryAggregate = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+export interface InventoryQuery {
+  aggregate: InventoryAggregate;
+  source: string;
+  // Column the aggregate reads; count without one counts rows
+  column?: string;
+  groupBy?: string;
+  filters: Array<{ column: string; values: string[] }>;
+}
+
+interface InventorySource {
+  table: PgTable;
+  // Columns panels may group and filter by
+  dimensions: string[];
+  // Numeric columns sum/avg/min/max may read
+  values: string[];
+  // When set, results are bucketed over the requested time range
+  time?: string;
+}
+
+// The only tables and columns inventory panels can read; anything holding credentials,
+// secrets or personal details is left out
+const INVENTORY_SOURCES: Record<string, InventorySource> = {
+  assets: {
+    table: schema.assets,
+    dimensions: ['status', 'category', 'condition', 'department', 'location', 'manufacturer', 'model', 'os_type'],
+    values: [],
+  },
+  accessories: {
+    table: schema.accessories,
+    dimensions: ['status', 'category', 'location', 'manufacturer'],
+    values: ['quantity'],
+  },
+  consumables: {
+    table: schema.consumables,
+    dimensions: ['status', 'category', 'location', 'manufacturer'],
+    values: ['quantity'],
+  },
+  components: {
+    table: schema.components,
+    dimensions: ['status', 'type', 'category', 'location', 'manufacturer'],
+    values: ['quantity'],
+  },
+  licenses: {
+    table: schema.licenses,
+    dimensions: ['status', 'company', 'manufacturer'],
+    values: ['assigned_seats'],
+  },
+  it_equipment: {
+    table: schema.itEquipment,
+    dimensions: ['status', 'category', 'location'],
+    values: ['total_quantity', 'assigned_quantity'],
+  },
+  monitor_inventory: {
+    table: schema.monitorInventory,
+    dimensions: ['department', 'model'],
+    values: [],
+  },
+  vm_inventory: {
+    table: schema.vmInventory,
+    dimensions: ['vm_status', 'status', 'department', 'hypervisor', 'cluster', 'power_state', 'vm_os'],
+    values: ['cpu_count', 'memory_gb', 'disk_capacity_gb'],
+  },
+  vm_monitoring: {
+    table: schema.vmMonitoring,
+    dimensions: ['vm_id', 'hostname', 'status', 'network_status', 'os_name'],
+    values: ['cpu_usage', 'memory_usage', 'disk_usage', 'uptime'],
+  },
+  vm_metric_samples: {
+    table: schema.vmMetricSamples,
+    dimensions: ['vm_id', 'resolution'],
+    values: ['cpu_usage', 'memory_usage', 'disk_usage', 'cpu_max', 'memory_max', 'disk_max'],
+    time: 'bucket_start',
+  },
+  activities: {
+    table: schema.activities,
+    dimensions: ['action', 'item_type'],
+    values: [],
+    time: 'timestamp',
+  },
+  iam_accounts: {
+    table: schema.iamAccounts,
+    dimensions: ['status', 'cloud_platform', 'permission'],
+    values: [],
+    time: 'created_at',
+  },
+  issues: {
+    table: schema.issues,
+    dimensions: ['status', 'priority', 'issue_type', 'jira_status'],
+    values: [],
+    time: 'created_at',
+  },
+  zabbix_sync_runs: {
+    table: schema.zabbixSyncRuns,
+    dimensions: ['status', 'trigger'],
+    values: ['hosts_seen', 'hosts_updated', 'hosts_unchanged', 'duration_ms'],
+    time: 'started_at',
+  },
+  monitoring_alerts: {
+    table: schema.monitoringAlerts,
+    dimensions: ['name', 'severity', 'state'],
+    values: ['value'],
+    time: 'fired_at',
+  },
+};
+
+const INVENTORY_QUERY_PATTERN = /^(count|sum|avg|min|max)\s+(\w+)(?:\.(\w+))?(?:\s+by\s+(\w+))?(?:\s+where\s+(.+))?$/i;
+
+function inventoryQueryError(message: string): Error {
+  return new Error(`${message}. Inventory queries look like "count assets by status where category=Laptop"`);
+}
+
+// "<count|sum|avg|min|max> <source>[.<column>] [by <column>] [where <column>=<value>[,<value>] [and ...]]",
+// checked against INVENTORY_SOURCES so only whitelisted tables and columns are ever read
+export function parseInventoryQuery(query: string): InventoryQuery {
+  const match = INVENTORY_QUERY_PATTERN.exec(query.trim());
+  if (!match) {
+    throw inventoryQueryError('Unrecognised inventory query');
+  }
+
+  const [, aggregate, source, column, groupBy, where] = match;
+  const definition = INVENTORY_SOURCES[source.toLowerCase()];
+  if (!definition) {
+    throw new Error(`Inventory source "${source}" is not available; use one of ${Object.keys(INVENTORY_SOURCES).join(', ')}`);
+  }
+
+  const parsed: InventoryQuery = { aggregate: aggregate.toLowerCase() as InventoryAggregate, source: source.toLowerCase(), filters: [] };
+
+  if (column) {
+    if (!definition.values.includes(column) && !(parsed.aggregate === 'count' && definition.dimensions.includes(column))) {
+      throw new Error(`${parsed.aggregate} cannot read ${parsed.source}.${column}`);
+    }
+    parsed.column = column;
+  } else if (parsed.aggregate !== 'count') {
+    throw inventoryQueryError(`${parsed.aggregate} needs a column, e.g. ${parsed.aggregate} ${parsed.source}.<column>`);
+  }
+
+  if (groupBy) {
+    if (!definition.dimensions.includes(groupBy)) {
+      throw new Error(`${parsed.source} cannot be grouped by ${groupBy}`);
+    }
+    parsed.groupBy = groupBy;
+  }
+
+  for (const condition of where ? where.split(/\s+and\s+/i) : []) {
+    const filter = /^(\w+)\s*=\s*(.+)$/.exec(condition.trim());
+    if (!filter) {
+      throw inventoryQueryError(`Unrecognised filter "${condition.trim()}"`);
+    }
+    if (!definition.dimensions.includes(filter[1])) {
+      throw new Error(`${parsed.source} cannot be filtered by ${filter[1]}`);
+    }
+    parsed.filters.push({
+      column: filter[1],
+      values: filter[2].split(',').map(value => value.trim().replace(/^(['"])(.*)\1$/, '$2')).filter(Boolean),
+    });
+  }
+
+  return parsed;
+}
+
+function sourceColumn(table: PgTable, name: string): PgColumn {
+  const column = Object.values(getTableColumns(table)).find(candidate => candidate.name === name);
+  if (!column) {
+    throw new Error(`Column ${name} is missing from ${getTableName(table)}`);
+  }
+  return column;
+}
+
+// Every value is bound as a parameter; table and column names only come from INVENTORY_SOURCES
+export function buildInventoryQuery(query: InventoryQuery, range: TimeRange): SQL {
+  const definition = INVENTORY_SOURCES[query.source];
+  const { table } = definition;
+
+  const aggregated = query.column ? sourceColumn(table, query.column) : null;
+  const value = query.aggregate === 'count'
+    ? (aggregated ? sql`count(${aggregated})` : sql`count(*)`)
+    : sql`${sql.raw(query.aggregate)}(${aggregated})`;
+
+  const conditions: SQL[] = query.filters.map(filter =>
+    inArray(sourceColumn(table, filter.column), filter.values));
+
+  const columns: SQL[] = [];
+
+  if (definition.time) {
+    // Text timestamps are cast so every source buckets the same way
+    const time = sql`(${sourceColumn(table, definition.time)})::timestamptz`;
+    const bucket = sql`to_timestamp(floor(extract(epoch from ${time}) / ${range.stepSeconds}) * ${range.stepSeconds})`;
+    conditions.push(sql`${time} >= ${range.from.toISOString()}::timestamptz`, sql`${time} <= ${range.to.toISOString()}::timestamptz`);
+    columns.push(sql`${bucket} AS time`);
+  }
+  if (query.groupBy) {
+    columns.push(sql`${sourceColumn(table, query.groupBy)}::text AS metric`);
+  }
+  // Grouped by position, since the bucket expression carries parameters that would not match a repeat
+  const groups = columns.map((_, index) => index + 1);
+  columns.push(sql`${value} AS value`);
+
+  const clauses: SQL[] = [sql`SELECT ${sql.join(columns, sql`, `)} FROM ${table}`];
+  if (conditions.length > 0) clauses.push(sql`WHERE ${and(...conditions)}`);
+  if (groups.length > 0) clauses.push(sql`GROUP BY ${sql.raw(groups.join(', '))}`);
+  if (definition.time) clauses.push(sql`ORDER BY 1`);
+  clauses.push(sql`LIMIT ${MAX_POINTS_PER_SERIES * 10}`);
+  return sql.join(clauses, sql` `);
+}
+
+// Aggregates over whitelisted inventory tables. Sources with a time column return a series
+// bucketed over the requested range; the rest return one point per group stamped "now".
+async function queryInventory(query: string, range: TimeRange): Promise<DataPoint[]> {
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const parsed = parseInventoryQuery(query);
+  const statement = buildInventoryQuery(parsed, range);
+
+  const result = await db.transaction(async (tx) => {
+    await tx.execute(sql`SET TRANSACTION READ ONLY`);
+    await tx.execute(sql.raw(`SET LOCAL statement_timeout = ${QUERY_TIMEOUT_MS}`));
+    return tx.execute(statement);
+  });
+
+  const label = `${parsed.aggregate} ${parsed.source}${parsed.column ? `.${parsed.column}` : ''}`;
+  return (result.rows as Record<string, any>[]).map(row => ({
+    timestamp: row.time ? new Date(row.time).toISOString() : range.to.toISOString(),
+    value: Number(row.value),
+    metric: parsed.groupBy ? String(row.metric ?? '(none)') : label,
+  }));
+}
+
+export async function queryDatasource(
+  datasource: MonitoringDatasource | { type: string; name: string },
+  query: string,
+  range: TimeRange
+): Promise<DataPoint[]> {
+  switch (datasource.type) {
+    case 'prometheus':
+      return queryPrometheus(datasource as MonitoringDatasource, query, range);
+    case 'zabbix':
+      return queryZabbix(datasource as MonitoringDatasource, query, range);
+    case INVENTORY_DATASOURCE:
+      return queryInventory(query, range);
+    default:
+      throw new Error(`Datasource type "${datasource.type}" is not supported`);
+  }
+}
+
+// Execute a panel's query and apply its decimals and unit
+export async function runPanelQuery(panel: MonitoringPanel, timeRange?: string): Promise<DataPoint[]> {
+  const datasource = await resolveDatasource(panel.datasource);
+  const points = await queryDatasource(datasource, panel.query, parseTimeRange(timeRange));
+  const decimals = panel.decimals ?? 2;
+
+  return points
+    .filter(point => !isNaN(point.value))
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+    .map(point => ({
+      ...point,
+      value: Number(point.value.toFixed(decimals)),
+      unit: panel.unit || point.unit,
+    }));
+}
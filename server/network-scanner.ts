@@ -0,0 +1,428 @@
+import * as net from 'net';
+import * as dns from 'dns';
+import * as fs from 'fs';
+import { spawn, execFile } from 'child_process';
+import { randomUUID } from 'crypto';
+import type { IStorage } from "./storage";
+import type { DiscoveredHost } from "@shared/schema";
+import { broadcast } from "./realtime";
+
+// Largest range we accept in one scan (a /20)
+export const MAX_SCAN_HOSTS = 4096;
+
+const SCAN_CONCURRENCY = 32;
+const CONNECT_TIMEOUT_MS = 800;
+const PING_TIMEOUT_MS = 1000;
+const DNS_TIMEOUT_MS = 2000;
+const BANNER_TIMEOUT_MS = 600;
+
+// Ports probed on every host, with the service they usually indicate
+const PROBE_PORTS: Record<number, string> = {
+  21: 'ftp',
+  22: 'ssh',
+  23: 'telnet',
+  25: 'smtp',
+  53: 'dns',
+  80: 'http',
+  135: 'msrpc',
+  139: 'netbios',
+  161: 'snmp',
+  443: 'https',
+  445: 'smb',
+  515: 'lpd',
+  631: 'ipp',
+  902: 'vmware',
+  3306: 'mysql',
+  3389: 'rdp',
+  5432: 'postgresql',
+  5900: 'vnc',
+  8080: 'http-alt',
+  9100: 'jetdirect',
+};
+
+// Services that greet the client first, so their banner is worth reading
+const BANNER_PORTS = [21, 22, 25];
+
+export interface ScanDetails {
+  ipRange: string;
+  scanOptions: {
+    scanForUSB: boolean;
+    scanForSerialNumbers: boolean;
+    scanForHardwareDetails: boolean;
+    scanForInstalledSoftware: boolean;
+    useDNS: boolean;
+  };
+  usingZabbix: boolean;
+  dnsSettings: { primaryDNS: string; secondaryDNS: string } | null;
+  startTime: string;
+}
+
+export interface ScanStatus {
+  scanId: string;
+  ipRange: string;
+  status: 'running' | 'completed' | 'failed';
+  total: number;
+  scanned: number;
+  found: number;
+  startTime: string;
+  endTime?: string;
+  error?: string;
+}
+
+interface ProbeResult {
+  ipAddress: string;
+  alive: boolean;
+  respondsToPing: boolean;
+  openPorts: number[];
+  banners: Record<number, string>;
+  responseTime: number | null;
+}
+
+let currentScan: ScanStatus | null = null;
+
+export function getCurrentScan(): ScanStatus | null {
+  return currentScan;
+}
+
+function ipToNumber(ip: string): number {
+  return ip.split('.').reduce((acc, octet) => (acc * 256) + parseInt(octet, 10), 0);
+}
+
+function numberToIp(value: number): string {
+  return [24, 16, 8, 0].map(shift => (value >>> shift) & 255).join('.');
+}
+
+// Expand "a.b.c.d/n" (or a single address) into the usable host addresses
+export function expandCidr(ipRange: string): string[] {
+  const [address, prefixPart] = ipRange.trim().split('/');
+  const octets = address.split('.').map(o => parseInt(o, 10));
+
+  if (octets.length !== 4 || octets.some(o => isNaN(o) || o < 0 || o > 255)) {
+    throw new Error(`Invalid IP address: ${address}`);
+  }
+
+  const prefix = prefixPart === undefined ? 32 : parseInt(prefixPart, 10);
+  if (isNaN(prefix) || prefix < 0 || prefix > 32) {
+    throw new Error(`Invalid CIDR prefix: /${prefixPart}`);
+  }
+
+  const hostCount = 2 ** (32 - prefix);
+  if (hostCount > MAX_SCAN_HOSTS + 2) {
+    throw new Error(`Range ${ipRange} has ${hostCount} addresses; the maximum per scan is ${MAX_SCAN_HOSTS}`);
+  }
+
+  const mask = prefix === 0 ? 0 : (0xFFFFFFFF << (32 - prefix)) >>> 0;
+  const network = (ipToNumber(address) & mask) >>> 0;
+
+  // /31 and /32 have no network or broadcast address to skip
+  if (prefix >= 31) {
+    return Array.from({ length: hostCount }, (_, i) => numberToIp(network + i));
+  }
+
+  return Array.from({ length: hostCount - 2 }, (_, i) => numberToIp(network + i + 1));
+}
+
+function probePort(ip: string, port: number): Promise<{ open: boolean; banner?: string; time: number }> {
+  return new Promise((resolve) => {
+    const start = Date.now();
+    const socket = new net.Socket();
+    let settled = false;
+    let banner = '';
+
+    const finish = (open: boolean) => {
+      if (settled) return;
+      settled = true;
+      socket.destroy();
+      resolve({ open, banner: banner.trim() || undefined, time: Date.now() - start });
+    };
+
+    socket.setTimeout(CONNECT_TIMEOUT_MS);
+    socket.once('timeout', () => finish(false));
+    socket.once('error', () => finish(false));
+    socket.once('connect', () => {
+      if (!BANNER_PORTS.includes(port)) {
+        return finish(true);
+      }
+      socket.setTimeout(BANNER_TIMEOUT_MS);
+      socket.removeAllListeners('timeout');
+      socket.once('timeout', () => finish(true));
+      socket.on('data', (chunk) => {
+        banner += chunk.toString('utf8');
+        if (banner.includes('\n') || banner.length > 256) finish(true);
+      });
+    });
+
+    socket.connect(port, ip);
+  });
+}
+
+// ICMP echo through the system ping binary; spawned without a shell
+function ping(ip: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const args = process.platform === 'win32'
+      ? ['-n', '1', '-w', String(PING_TIMEOUT_MS), ip]
+      : ['-c', '1', '-W', String(Math.ceil(PING_TIMEOUT_MS / 1000)), ip];
+
+    try {
+      const child = spawn('ping', args, { stdio: 'ignore' });
+      const timer = setTimeout(() => {
+        child.kill();
+        resolve(false);
+      }, PING_TIMEOUT_MS + 1000);
+
+      child.once('error', () => {
+        clearTimeout(timer);
+        resolve(false);
+      });
+      child.once('exit', (code) => {
+        clearTimeout(timer);
+        resolve(code === 0);
+      });
+    } catch {
+      resolve(false);
+    }
+  });
+}
+
+async function probeHost(ip: string): Promise<ProbeResult> {
+  const start = Date.now();
+  const [respondsToPing, portResults] = await Promise.all([
+    ping(ip),
+    Promise.all(Object.keys(PROBE_PORTS).map(Number).map(async (port) => ({ port, ...(await probePort(ip, port)) })))
+  ]);
+
+  const open = portResults.filter(r => r.open);
+  const banners: Record<number, string> = {};
+  open.forEach(r => {
+    if (r.banner) banners[r.port] = r.banner;
+  });
+
+  return {
+    ipAddress: ip,
+    alive: respondsToPing || open.length > 0,
+    respondsToPing,
+    openPorts: open.map(r => r.port).sort((a, b) => a - b),
+    banners,
+    responseTime: open.length > 0 ? Math.min(...open.map(r => r.time)) : (respondsToPing ? Date.now() - start : null),
+  };
+}
+
+function createResolver(dnsSettings: ScanDetails['dnsSettings']): dns.promises.Resolver {
+  const resolver = new dns.promises.Resolver({ timeout: DNS_TIMEOUT_MS, tries: 1 });
+  if (dnsSettings) {
+    const servers = [dnsSettings.primaryDNS, dnsSettings.secondaryDNS].filter(Boolean);
+    try {
+      resolver.setServers(servers);
+    } catch (error: any) {
+      console.warn(`Invalid DNS servers ${servers.join(', ')}, using system resolver:`, error.message);
+    }
+  }
+  return resolver;
+}
+
+async function reverseLookup(resolver: dns.promises.Resolver, ip: string): Promise<string | null> {
+  try {
+    const names = await resolver.reverse(ip);
+    return names[0] || null;
+  } catch {
+    return null;
+  }
+}
+
+// Read the MAC from the ARP cache populated by the probes
+function lookupMacAddress(ip: string): Promise<string | null> {
+  return new Promise((resolve) => {
+    if (process.platform === 'linux') {
+      fs.readFile('/proc/net/arp', 'utf8', (err, content) => {
+        if (err) return resolve(null);
+        const line = content.split('\n').find(l => l.split(/\s+/)[0] === ip);
+        const mac = line?.split(/\s+/)[3];
+        resolve(mac && mac !== '00:00:00:00:00:00' ? mac.toLowerCase() : null);
+      });
+      return;
+    }
+
+    execFile('arp', ['-a', ip], { timeout: 2000 }, (err, stdout) => {
+      if (err) return resolve(null);
+      const match = stdout.match(/([0-9a-f]{1,2}[:-]){5}[0-9a-f]{1,2}/i);
+      resolve(match ? match[0].replace(/-/g, ':').toLowerCase() : null);
+    });
+  });
+}
+
+// Best-effort device classification from open ports and service banners
+export function fingerprintHost(openPorts: number[], banners: Record<number, string>) {
+  const has = (port: number) => openPorts.includes(port);
+  const sshBanner = banners[22] || '';
+  let os: string | null = null;
+  let deviceType = 'unknown';
+
+  if (has(3389) || (has(135) && has(445))) {
+    os = 'Windows';
+    deviceType = has(3389) && !has(445) ? 'server' : 'workstation';
+  } else if (/ubuntu|debian|centos|red ?hat|fedora|suse/i.test(sshBanner)) {
+    os = sshBanner.match(/ubuntu|debian|centos|red ?hat|fedora|suse/i)![0];
+    deviceType = 'server';
+  } else if (has(22)) {
+    os = 'Linux/Unix';
+    deviceType = 'server';
+  }
+
+  if (has(9100) || has(515) || has(631)) {
+    deviceType = 'printer';
+  } else if (has(902)) {
+    os = os || 'VMware ESXi';
+    deviceType = 'hypervisor';
+  } else if (has(161) && !has(22) && !has(445)) {
+    deviceType = 'network-device';
+  }
+
+  return {
+    os,
+    deviceType,
+    services: openPorts.map(port => ({ port, service: PROBE_PORTS[port] || 'unknown', banner: banners[port] || null })),
+  };
+}
+
+async function upsertDiscoveredHost(
+  storage: IStorage,
+  knownHosts: DiscoveredHost[],
+  probe: ProbeResult,
+  hostname: string | null,
+  macAddress: string | null
+): Promise<DiscoveredHost | undefined> {
+  const fingerprint = fingerprintHost(probe.openPorts, probe.banners);
+  const existing = (macAddress && knownHosts.find(h => h.macAddress?.toLowerCase() === macAddress))
+    || knownHosts.find(h => h.ipAddress === probe.ipAddress);
+
+  const systemInfo = {
+    ...(existing?.systemInfo as Record<string, any> || {}),
+    os: fingerprint.os,
+    openPorts: probe.openPorts,
+    services: fingerprint.services,
+    respondsToPing: probe.respondsToPing,
+    responseTime: probe.responseTime,
+  };
+  const hardwareDetails = {
+    ...(existing?.hardwareDetails as Record<string, any> || {}),
+    deviceType: fingerprint.deviceType,
+  };
+
+  if (existing) {
+    const updated = await storage.updateDiscoveredHost(existing.id, {
+      ipAddress: probe.ipAddress,
+      hostname: hostname || existing.hostname,
+      macAddress: macAddress || existing.macAddress,
+      lastSeen: new Date(),
+      systemInfo,
+      hardwareDetails,
+    });
+    if (updated) {
+      knownHosts[knownHosts.indexOf(existing)] = updated;
+    }
+    return updated;
+  }
+
+  const created = await storage.createDiscoveredHost({
+    ipAddress: probe.ipAddress,
+    hostname,
+    macAddress,
+    status: 'new',
+    source: 'network_scan',
+    lastSeen: new Date(),
+    systemInfo,
+    hardwareDetails,
+  });
+  knownHosts.push(created);
+  return created;
+}
+
+// Scan a CIDR range in the background, streaming per-host progress over /ws
+export async function startNetworkScan(ipRange: string, scanDetails: ScanDetails, storage: IStorage): Promise<ScanStatus> {
+  if (currentScan?.status === 'running') {
+    throw new Error(`A scan of ${currentScan.ipRange} is already running`);
+  }
+
+  const addresses = expandCidr(ipRange);
+  const scan: ScanStatus = {
+    scanId: randomUUID(),
+    ipRange,
+    status: 'running',
+    total: addresses.length,
+    scanned: 0,
+    found: 0,
+    startTime: scanDetails.startTime,
+  };
+  currentScan = scan;
+
+  broadcast('network-scan:started', { ...scan });
+  console.log(`🔍 Network scan ${scan.scanId} started for ${ipRange} (${addresses.length} hosts)`);
+
+  runScan(addresses, scan, scanDetails, storage).catch((error) => {
+    console.error(`❌ Network scan ${scan.scanId} failed:`, error);
+    scan.status = 'failed';
+    scan.error = error.message;
+    scan.endTime = new Date().toISOString();
+    broadcast('network-scan:failed', { ...scan });
+  });
+
+  return { ...scan };
+}
+
+async function runScan(addresses: string[], scan: ScanStatus, scanDetails: ScanDetails, storage: IStorage) {
+  const resolver = createResolver(scanDetails.dnsSettings);
+  const knownHosts = await storage.getDiscoveredHosts();
+  let next = 0;
+
+  const worker = async () => {
+    while (next < addresses.length) {
+      const ip = addresses[next++];
+      let host: DiscoveredHost | undefined;
+
+      try {
+        const probe = await probeHost(ip);
+        if (probe.alive) {
+          const [hostname, macAddress] = await Promise.all([
+            scanDetails.scanOptions.useDNS ? reverseLookup(resolver, ip) : Promise.resolve(null),
+            lookupMacAddress(ip),
+          ]);
+          host = await upsertDiscoveredHost(storage, knownHosts, probe, hostname, macAddress);
+          scan.found++;
+        }
+      } catch (error) {
+        console.error(`Network scan error for ${ip}:`, error);
+      }
+
+      scan.scanned++;
+      broadcast('network-scan:progress', {
+        scanId: scan.scanId,
+        ipAddress: ip,
+        alive: !!host,
+        host: host || null,
+        scanned: scan.scanned,
+        total: scan.total,
+        found: scan.found,
+      });
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(SCAN_CONCURRENCY, addresses.length) }, worker));
+
+  scan.status = 'completed';
+  scan.endTime = new Date().toISOString();
+  broadcast('network-scan:completed', { ...scan });
+  console.log(`✅ Network scan ${scan.scanId} completed: ${scan.found}/${scan.total} hosts responded`);
+
+  try {
+    await storage.createActivity({
+      action: "scan",
+      itemType: "network",
+      itemId: 0,
+      userId: null,
+      timestamp: scan.endTime,
+      notes: `Network scan of ${scan.ipRange} found ${scan.found} of ${scan.total} hosts`,
+    });
+  } catch (activityError) {
+    console.warn('Failed to log network scan activity:', activityError);
+  }
+}
@@ -0,0 +1,145 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import net from "net";
+import type { AddressInfo } from "net";
+import { storage } from "./storage";
+import { deliverNotification, parseChannel, retryDelay, type NotificationMessage } from "./notifier";
+
+// Local HTTP receiver standing in for webhook and Slack endpoints; /broken always answers 502
+const received: Array<{ path: string; body: any }> = [];
+
+const receiver = http.createServer((req, res) => {
+  let raw = '';
+  req.on('data', chunk => raw += chunk);
+  req.on('end', () => {
+    if (req.url === '/broken') {
+      res.writeHead(502);
+      return res.end('upstream down');
+    }
+    received.push({ path: req.url!, body: JSON.parse(raw) });
+    res.end('ok');
+  });
+});
+
+// Minimal SMTP sink: accepts every envelope and keeps the DATA section of each mail
+const mails: Array<{ from: string; to: string[]; data: string }> = [];
+
+const smtpSink = net.createServer(socket => {
+  let buffer = '';
+  let envelope = { from: '', to: [] as string[], data: '' };
+  let inData = false;
+  const reply = (line: string) => socket.write(`${line}\r\n`);
+
+  reply('220 sink ESMTP');
+  socket.on('data', chunk => {
+    buffer += chunk.toString();
+    let newline: number;
+    while ((newline = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 2);
+
+      if (inData) {
+        if (line === '.') {
+          inData = false;
+          mails.push(envelope);
+          envelope = { from: '', to: [], data: '' };
+          reply('250 queued');
+        } else {
+          envelope.data += `${line}\n`;
+        }
+        continue;
+      }
+
+      const command = line.slice(0, 4).toUpperCase();
+      if (command === 'EHLO' || command === 'HELO') reply('250 sink');
+      else if (command === 'MAIL') { envelope.from = line.slice(10); reply('250 OK'); }
+      else if (command === 'RCPT') { envelope.to.push(line.slice(8)); reply('250 OK'); }
+      else if (command === 'DATA') { inData = true; reply('354 End data with <CR><LF>.<CR><LF>'); }
+      else if (command === 'QUIT') { reply('221 Bye'); socket.end(); }
+      else reply('250 OK');
+    }
+  });
+});
+
+const message: NotificationMessage = {
+  subject: '[FIRING] High CPU',
+  text: 'cpu gt 90 (current value: 97) for at least 300s.',
+  severity: 'critical',
+  state: 'firing',
+  payload: { ruleId: 7, value: 97 },
+};
+
+let receiverUrl: string;
+
+before(async () => {
+  await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', resolve));
+  receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}`;
+
+  await new Promise<void>(resolve => smtpSink.listen(0, '127.0.0.1', resolve));
+  await storage.updateSystemSettings(1, {
+    mailHost: '127.0.0.1',
+    mailPort: String((smtpSink.address() as AddressInfo).port),
+    mailFromAddress: 'alerts@example.com',
+  });
+});
+
+after(() => {
+  receiver.close();
+  smtpSink.close();
+});
+
+test('webhook channels receive the message with its structured payload', async () => {
+  received.length = 0;
+
+  await deliverNotification(parseChannel(`${receiverUrl}/hooks/ops`), message);
+
+  assert.equal(received.length, 1);
+  assert.equal(received[0].path, '/hooks/ops');
+  assert.equal(received[0].body.title, '[FIRING] High CPU');
+  assert.equal(received[0].body.severity, 'critical');
+  assert.equal(received[0].body.ruleId, 7);
+  assert.equal(received[0].body.value, 97);
+});
+
+test('slack channels receive an incoming-webhook attachment', async () => {
+  received.length = 0;
+
+  await deliverNotification(parseChannel(`slack:${receiverUrl}/slack`), message);
+
+  assert.equal(received[0].path, '/slack');
+  assert.equal(received[0].body.text, '[FIRING] High CPU');
+  assert.equal(received[0].body.attachments[0].color, 'danger');
+  assert.deepEqual(received[0].body.attachments[0].fields, [{ title: 'Severity', value: 'critical', short: true }]);
+});
+
+test('a receiver error fails the delivery with the HTTP status', async () => {
+  await assert.rejects(
+    deliverNotification(parseChannel(`webhook:${receiverUrl}/broken`), message),
+    /HTTP 502.*upstream down/
+  );
+});
+
+test('email channels are delivered through the configured SMTP server', async () => {
+  mails.length = 0;
+
+  await deliverNotification(parseChannel('email:oncall@example.com'), message);
+
+  assert.equal(mails.length, 1);
+  assert.equal(mails[0].from, '<alerts@example.com>');
+  assert.deepEqual(mails[0].to, ['<oncall@example.com>']);
+  assert.match(mails[0].data, /Subject: \[FIRING\] High CPU/);
+  assert.match(mails[0].data, /current value: 97/);
+});
+
+test('unknown channel types are rejected', async () => {
+  await assert.rejects(
+    deliverNotification({ type: 'pager', recipient: 'ops' }, message),
+    /No notification driver for "pager"/
+  );
+});
+
+test('retries back off exponentially and stop growing at five minutes', () => {
+  assert.deepEqual([1, 2, 3, 4].map(retryDelay), [2000, 4000, 8000, 16000]);
+  assert.equal(retryDelay(20), 5 * 60 * 1000);
+});
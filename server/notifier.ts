@@ -0,0 +1,256 @@
+import { and, asc, desc, eq, isNull, lte, or } from "drizzle-orm";
+import { db } from "./db";
+import * as schema from "@shared/schema";
+import { sendMail } from "./mailer";
+import { onAlertTransition, parseRuleChannels, type AlertTransition } from "./alert-evaluator";
+import { startIntervalJob, stopIntervalJob } from "./job-scheduler";
+
+type MonitoringNotification = typeof schema.monitoringNotifications.$inferSelect;
+
+export interface NotificationMessage {
+  subject: string;
+  text: string;
+  severity?: string | null;
+  state?: string;
+  // Structured fields forwarded as-is to webhook receivers
+  payload?: Record<string, any>;
+}
+
+export interface NotificationDriver {
+  type: string;
+  send(recipient: string, message: NotificationMessage): Promise<void>;
+}
+
+export interface NotificationChannel {
+  type: string;
+  recipient: string;
+}
+
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+const HTTP_TIMEOUT_MS = 10000;
+const RETRY_JOB = 'Notification retries';
+const RETRY_POLL_INTERVAL_MS = 5000;
+// Rows redelivered per poll, so a long outage drains gradually
+const RETRY_BATCH_SIZE = 50;
+
+const drivers = new Map<string, NotificationDriver>();
+
+export function registerNotificationDriver(driver: NotificationDriver) {
+  drivers.set(driver.type, driver);
+}
+
+// Channels are stored as "email:ops@example.com", "webhook:https://..." or "slack:https://...";
+// a bare address or URL is treated as email or webhook respectively
+export function parseChannel(channel: string): NotificationChannel {
+  const value = channel.trim();
+  const match = /^(email|webhook|slack):(.+)$/i.exec(value);
+  if (match) {
+    return { type: match[1].toLowerCase(), recipient: match[2].trim() };
+  }
+  if (/^https?:\/\//i.test(value)) {
+    return { type: 'webhook', recipient: value };
+  }
+  if (value.includes('@')) {
+    return { type: 'email', recipient: value };
+  }
+  throw new Error(`Unrecognised notification channel "${channel}"`);
+}
+
+// Exponential backoff: 2s, 4s, 8s... capped at five minutes
+export function retryDelay(attempt: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), RETRY_MAX_DELAY_MS);
+}
+
+async function postJson(url: string, body: any) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new Error(`HTTP ${response.status} ${response.statusText}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+  }
+}
+
+// SMTP using the mail settings from systemSettings
+registerNotificationDriver({
+  type: 'email',
+  async send(recipient, message) {
+    await sendMail({ to: recipient, subject: message.subject, text: message.text });
+  }
+});
+
+// Generic JSON webhook
+registerNotificationDriver({
+  type: 'webhook',
+  async send(recipient, message) {
+    await postJson(recipient, {
+      title: message.subject,
+      message: message.text,
+      severity: message.severity ?? null,
+      state: message.state ?? null,
+      ...message.payload,
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+// Slack incoming-webhook format (also accepted by Mattermost and Rocket.Chat)
+registerNotificationDriver({
+  type: 'slack',
+  async send(recipient, message) {
+    const color = message.state === 'firing' ? 'danger' : message.state === 'normal' ? 'good' : 'warning';
+    await postJson(recipient, {
+      text: message.subject,
+      attachments: [{
+        color,
+        text: message.text,
+        fields: message.severity ? [{ title: 'Severity', value: message.severity, short: true }] : [],
+        ts: Math.floor(Date.now() / 1000),
+      }],
+    });
+  }
+});
+
+// One attempt through the channel's driver, without touching monitoring_notifications
+export async function deliverNotification(channel: NotificationChannel, message: NotificationMessage) {
+  const driver = drivers.get(channel.type);
+  if (!driver) {
+    throw new Error(`No notification driver for "${channel.type}"`);
+  }
+  await driver.send(channel.recipient, message);
+}
+
+// Rows logged before payload was stored only have "subject\ntext"
+function storedMessage(notification: MonitoringNotification): NotificationMessage {
+  if (notification.payload) {
+    return JSON.parse(notification.payload);
+  }
+  const [subject, ...text] = notification.message.split('\n');
+  return { subject, text: text.join('\n') };
+}
+
+async function attemptDelivery(notification: MonitoringNotification, allowRetry: boolean): Promise<MonitoringNotification> {
+  const attempts = (notification.attempts || 0) + 1;
+  const attemptedAt = new Date();
+
+  try {
+    await deliverNotification(notification, storedMessage(notification));
+
+    const [sent] = await db!.update(schema.monitoringNotifications)
+      .set({ status: 'sent', sentAt: attemptedAt.toISOString(), error: null, attempts, lastAttemptAt: attemptedAt.toISOString(), nextAttemptAt: null })
+      .where(eq(schema.monitoringNotifications.id, notification.id))
+      .returning();
+    return sent;
+  } catch (error: any) {
+    const willRetry = allowRetry && drivers.has(notification.type) && attempts < MAX_ATTEMPTS;
+    const delay = retryDelay(attempts);
+    const [failed] = await db!.update(schema.monitoringNotifications)
+      .set({
+        status: willRetry ? 'retrying' : 'failed',
+        error: error.message,
+        attempts,
+        lastAttemptAt: attemptedAt.toISOString(),
+        nextAttemptAt: willRetry ? new Date(attemptedAt.getTime() + delay).toISOString() : null,
+      })
+      .where(eq(schema.monitoringNotifications.id, notification.id))
+      .returning();
+
+    if (willRetry) {
+      console.warn(`📨 ${notification.type} notification ${notification.id} failed (attempt ${attempts}), retrying in ${delay / 1000}s: ${error.message}`);
+    } else {
+      console.error(`❌ ${notification.type} notification ${notification.id} to ${notification.recipient} failed: ${error.message}`);
+    }
+    return failed;
+  }
+}
+
+// Redeliver retrying rows whose nextAttemptAt has passed, including ones left over from before a restart
+export async function retryDueNotifications(now: Date = new Date()): Promise<number> {
+  if (!db) return 0;
+
+  const due = await db.select().from(schema.monitoringNotifications)
+    .where(and(
+      eq(schema.monitoringNotifications.status, 'retrying'),
+      or(isNull(schema.monitoringNotifications.nextAttemptAt), lte(schema.monitoringNotifications.nextAttemptAt, now.toISOString()))
+    ))
+    .orderBy(asc(schema.monitoringNotifications.id))
+    .limit(RETRY_BATCH_SIZE);
+
+  for (const notification of due) {
+    await attemptDelivery(notification, true);
+  }
+  return due.length;
+}
+
+export function startNotificationRetries() {
+  if (!db) return;
+
+  if (startIntervalJob({ name: RETRY_JOB, intervalMs: RETRY_POLL_INTERVAL_MS, run: () => retryDueNotifications() })) {
+    console.log(`📨 Notification retries started (checking every ${RETRY_POLL_INTERVAL_MS / 1000}s)`);
+  }
+}
+
+export function stopNotificationRetries() {
+  stopIntervalJob(RETRY_JOB);
+}
+
+// Log a delivery to monitoring_notifications and make the first attempt; failures are retried by retryDueNotifications
+export async function sendNotification(
+  channel: NotificationChannel,
+  message: NotificationMessage,
+  options: { alertId?: number; retry?: boolean } = {}
+): Promise<MonitoringNotification> {
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const [notification] = await db.insert(schema.monitoringNotifications).values({
+    alertId: options.alertId ?? 0,
+    type: channel.type,
+    recipient: channel.recipient,
+    message: `${message.subject}\n${message.text}`,
+    payload: JSON.stringify(message),
+    status: 'pending',
+    attempts: 0,
+    createdAt: new Date().toISOString(),
+  }).returning();
+
+  return attemptDelivery(notification, options.retry !== false);
+}
+
+export async function getNotificationLog(limit: number = 100): Promise<MonitoringNotification[]> {
+  if (!db) return [];
+  return db.select().from(schema.monitoringNotifications)
+    .orderBy(desc(schema.monitoringNotifications.id))
+    .limit(limit);
+}
+
+// Deliver firing and resolved transitions to the rule's configured channels
+async function notifyAlertTransition({ rule, from, to, value }: AlertTransition) {
+  if (to === 'pending' || (to === 'normal' && from !== 'firing')) return;
+
+  const message: NotificationMessage = {
+    subject: to === 'firing' ? `[FIRING] ${rule.name}` : `[RESOLVED] ${rule.name}`,
+    text: to === 'firing'
+      ? `${rule.query} ${rule.condition} ${rule.threshold} (current value: ${value ?? 'no data'}) for at least ${rule.forDuration}s.`
+      : `${rule.query} is back within threshold (current value: ${value ?? 'no data'}).`,
+    severity: rule.severity,
+    state: to,
+    payload: { ruleId: rule.id, ruleName: rule.name, value, threshold: rule.threshold, condition: rule.condition },
+  };
+
+  for (const entry of parseRuleChannels(rule.notificationChannels)) {
+    try {
+      await sendNotification(parseChannel(entry), message, { alertId: rule.id });
+    } catch (error) {
+      console.error(`Failed to queue notification for rule ${rule.id} to ${entry}:`, error);
+    }
+  }
+}
+
+onAlertTransition(notifyAlertTransition);
@@ -0,0 +1,190 @@
+import { storage } from "./storage";
+import { sendMail, isMailConfigured } from "./mailer";
+import { broadcast } from "./realtime";
+import { AssetStatus, assets, users } from "@shared/schema";
+import type { ListQuery } from "./pagination";
+import { startIntervalJob, stopIntervalJob } from "./job-scheduler";
+
+type Asset = typeof assets.$inferSelect;
+type User = typeof users.$inferSelect;
+
+export interface OverdueSweepResult {
+  checked: number;
+  markedOverdue: number;
+  notificationsSent: number;
+  notificationErrors: string[];
+  ranAt: string;
+}
+
+const SWEEP_JOB = 'Overdue asset sweep';
+const SWEEP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const PAGE_SIZE = 500;
+
+let sweepRunning = false;
+let lastSweep: OverdueSweepResult | null = null;
+
+export function getLastOverdueSweep(): OverdueSweepResult | null {
+  return lastSweep;
+}
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+// expectedCheckinDate wins; otherwise the checkout date plus the default checkout duration
+export function getDueDate(asset: Asset, checkoutDurationDays: number): Date | null {
+  if (asset.expectedCheckinDate) {
+    const due = new Date(asset.expectedCheckinDate);
+    if (!isNaN(due.getTime())) return startOfDay(due);
+  }
+  if (asset.checkoutDate && checkoutDurationDays > 0) {
+    const due = new Date(asset.checkoutDate);
+    if (!isNaN(due.getTime())) {
+      due.setDate(due.getDate() + checkoutDurationDays);
+      return startOfDay(due);
+    }
+  }
+  return null;
+}
+
+export function isCheckoutOverdue(asset: Asset, checkoutDurationDays: number, now: Date = new Date()): boolean {
+  if (asset.status !== AssetStatus.DEPLOYED) return false;
+  const due = getDueDate(asset, checkoutDurationDays);
+  return !!due && due < startOfDay(now);
+}
+
+// Collect every deployed asset before updating any, so status changes don't shift the pages
+async function getDeployedAssets(): Promise<Asset[]> {
+  const deployed: Asset[] = [];
+  for (let page = 1; ; page++) {
+    const query: ListQuery = {
+      page,
+      pageSize: PAGE_SIZE,
+      sort: [{ field: 'id', direction: 'asc' }],
+      filters: [{ field: 'status', values: [AssetStatus.DEPLOYED.toLowerCase()], contains: false }],
+    };
+    const result = await storage.getAssetsPage(query);
+    deployed.push(...result.data);
+    if (page >= result.totalPages) return deployed;
+  }
+}
+
+function describeAsset(asset: Asset): string {
+  return `${asset.name} (${asset.assetTag})`;
+}
+
+async function notifyOverdue(asset: Asset, dueDate: Date, assignee: User | undefined, admins: User[], settings: any): Promise<number> {
+  const dueText = dueDate.toISOString().split('T')[0];
+  let sent = 0;
+
+  if (assignee?.email && settings.enableUserNotifications !== false) {
+    await sendMail({
+      to: assignee.email,
+      subject: `Overdue asset: ${describeAsset(asset)}`,
+      text: `Hello ${assignee.firstName},\n\n` +
+        `The asset ${describeAsset(asset)} checked out to you was due back on ${dueText}.\n` +
+        `Please return it or contact IT to extend the checkout.\n\n${settings.siteName || 'SRPH-MIS'}`,
+    });
+    sent++;
+  }
+
+  const adminEmails = admins.map(admin => admin.email).filter(Boolean);
+  if (adminEmails.length > 0 && settings.enableAdminNotifications !== false) {
+    const assignedTo = assignee ? `${assignee.firstName} ${assignee.lastName} (${assignee.username})` : asset.knoxId || 'unknown user';
+    await sendMail({
+      to: adminEmails,
+      subject: `[Overdue] ${describeAsset(asset)}`,
+      text: `${describeAsset(asset)} assigned to ${assignedTo} was due back on ${dueText} ` +
+        `(checked out ${asset.checkoutDate || 'on an unknown date'}).`,
+    });
+    sent++;
+  }
+
+  return sent;
+}
+
+// Mark deployed assets past their due date as overdue, log an activity and email the people involved
+export async function runOverdueSweep(now: Date = new Date()): Promise<OverdueSweepResult> {
+  if (sweepRunning) {
+    throw new Error("An overdue sweep is already running");
+  }
+  sweepRunning = true;
+
+  const result: OverdueSweepResult = {
+    checked: 0,
+    markedOverdue: 0,
+    notificationsSent: 0,
+    notificationErrors: [],
+    ranAt: now.toISOString(),
+  };
+
+  try {
+    const settings = await storage.getSystemSettings() || {};
+    const checkoutDuration = typeof settings.assetCheckoutDuration === 'number' ? settings.assetCheckoutDuration : 30;
+
+    const deployed = await getDeployedAssets();
+    result.checked = deployed.length;
+
+    const overdue = deployed.filter(asset => isCheckoutOverdue(asset, checkoutDuration, now));
+    if (overdue.length === 0) {
+      lastSweep = result;
+      return result;
+    }
+
+    const allUsers = await storage.getUsers();
+    const admins = allUsers.filter(user => user.isAdmin);
+    const shouldNotify = settings.notifyOnOverdue !== false && await isMailConfigured();
+
+    for (const asset of overdue) {
+      const dueDate = getDueDate(asset, checkoutDuration)!;
+      const updated = await storage.updateAsset(asset.id, { status: AssetStatus.OVERDUE });
+      if (!updated) continue;
+      result.markedOverdue++;
+
+      const assignee = allUsers.find(user => user.id === asset.assignedTo);
+      await storage.createActivity({
+        action: "overdue",
+        itemType: "asset",
+        itemId: asset.id,
+        userId: asset.assignedTo ?? null,
+        timestamp: new Date().toISOString(),
+        notes: `Asset ${describeAsset(asset)} is overdue (due ${dueDate.toISOString().split('T')[0]})` +
+          (assignee ? ` - assigned to ${assignee.firstName} ${assignee.lastName}` : ''),
+      });
+
+      if (shouldNotify) {
+        try {
+          result.notificationsSent += await notifyOverdue(asset, dueDate, assignee, admins, settings);
+        } catch (error: any) {
+          result.notificationErrors.push(`${asset.assetTag}: ${error.message}`);
+        }
+      }
+    }
+
+    if (result.markedOverdue > 0) {
+      broadcast('assets:overdue', { markedOverdue: result.markedOverdue, ranAt: result.ranAt });
+    }
+
+    console.log(`⏰ Overdue sweep: ${result.markedOverdue} of ${result.checked} deployed assets marked overdue, ${result.notificationsSent} emails sent`);
+    if (result.notificationErrors.length > 0) {
+      console.warn(`⚠️ Overdue notifications failed for ${result.notificationErrors.length} asset(s):`, result.notificationErrors);
+    }
+
+    lastSweep = result;
+    return result;
+  } finally {
+    sweepRunning = false;
+  }
+}
+
+export function startOverdueAssetSweep() {
+  if (startIntervalJob({ name: SWEEP_JOB, intervalMs: SWEEP_INTERVAL_MS, run: () => runOverdueSweep() })) {
+    console.log('⏰ Overdue asset sweep scheduled (daily)');
+  }
+}
+
+export function stopOverdueAssetSweep() {
+  stopIntervalJob(SWEEP_JOB);
+}
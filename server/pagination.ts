@@ -0,0 +1,178 @@
+import type { PaginatedResult } from "@shared/schema";
+
+// List endpoints accept:
+//   page=2&pageSize=50        1-based page, pageSize capped at MAX_PAGE_SIZE
+//   sort=-timestamp,name      comma separated fields, "-" prefix for descending
+//   filter[status]=available  case-insensitive exact match, commas for any-of
+//   filter[name]=~laptop      "~" prefix for a case-insensitive substring match
+//   q=text                    substring search over the resource's search fields
+export interface SortField {
+  field: string;
+  direction: 'asc' | 'desc';
+}
+
+export interface FieldFilter {
+  field: string;
+  values: string[];
+  contains: boolean;
+}
+
+export interface ListQuery {
+  page: number;
+  pageSize: number;
+  sort: SortField[];
+  filters: FieldFilter[];
+  q?: string;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+
+// Columns searched by q= for each paged resource
+export const SEARCH_FIELDS = {
+  assets: ['assetTag', 'name', 'category', 'serialNumber', 'model', 'manufacturer', 'knoxId', 'ipAddress', 'department'],
+  activities: ['action', 'itemType', 'notes'],
+  vmInventory: ['vmName', 'vmId', 'vmIp', 'knoxId', 'user', 'deployedBy', 'hostName'],
+  iamAccounts: ['requestor', 'knoxId', 'permission', 'cloudPlatform', 'approvalId', 'remarks'],
+};
+
+export class ListQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ListQueryError';
+  }
+}
+
+const LIST_PARAMS = ['page', 'pageSize', 'sort', 'q', 'filter'];
+
+// Endpoints keep returning plain arrays unless one of the list params is present
+export function isListQuery(query: Record<string, any>): boolean {
+  return Object.keys(query).some(key => LIST_PARAMS.includes(key) || key.startsWith('filter['));
+}
+
+function parsePositiveInt(value: any, name: string, fallback: number): number {
+  if (value === undefined || value === '') return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new ListQueryError(`${name} must be a positive integer`);
+  }
+  return parsed;
+}
+
+// "filter[status]=x" arrives as { filter: { status: 'x' } } with the extended query
+// parser and as { 'filter[status]': 'x' } with the simple one; accept both
+function collectFilters(query: Record<string, any>): [string, any][] {
+  const entries: [string, any][] = [];
+  if (query.filter && typeof query.filter === 'object') {
+    entries.push(...Object.entries(query.filter));
+  }
+  for (const [key, value] of Object.entries(query)) {
+    const match = /^filter\[(.+)\]$/.exec(key);
+    if (match) entries.push([match[1], value]);
+  }
+  return entries;
+}
+
+// Parse and validate list params; field names may be remapped through aliases
+// (e.g. the frontend's "requestor" for the vm_inventory "user" column)
+export function parseListQuery(
+  query: Record<string, any>,
+  options: { fields: string[]; aliases?: Record<string, string>; defaultSort?: string }
+): ListQuery {
+  const resolveField = (name: string): string => {
+    const field = options.aliases?.[name] ?? name;
+    if (!options.fields.includes(field)) {
+      throw new ListQueryError(`Unknown field "${name}"`);
+    }
+    return field;
+  };
+
+  const page = parsePositiveInt(query.page, 'page', 1);
+  const pageSize = Math.min(parsePositiveInt(query.pageSize, 'pageSize', DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+
+  const sortParam = typeof query.sort === 'string' && query.sort ? query.sort : options.defaultSort || '';
+  const sort: SortField[] = sortParam.split(',').filter(Boolean).map(part => {
+    const descending = part.startsWith('-');
+    return { field: resolveField(descending ? part.slice(1) : part), direction: descending ? 'desc' : 'asc' };
+  });
+
+  const filters: FieldFilter[] = [];
+  for (const [name, raw] of collectFilters(query)) {
+    const value = (Array.isArray(raw) ? raw.join(',') : String(raw ?? '')).trim();
+    if (!value) continue;
+
+    const contains = value.startsWith('~');
+    const values = contains
+      ? [value.slice(1).toLowerCase()]
+      : value.split(',').map(v => v.trim().toLowerCase()).filter(Boolean);
+    if (values.length === 0 || !values[0]) continue;
+
+    filters.push({ field: resolveField(name), values, contains });
+  }
+
+  const q = typeof query.q === 'string' && query.q.trim() ? query.q.trim() : undefined;
+
+  return { page, pageSize, sort, filters, q };
+}
+
+export function toPaginatedResult<T>(data: T[], total: number, query: ListQuery): PaginatedResult<T> {
+  return {
+    data,
+    total,
+    page: query.page,
+    pageSize: query.pageSize,
+    totalPages: Math.ceil(total / query.pageSize),
+  };
+}
+
+function compareValues(a: any, b: any): number {
+  if (a instanceof Date) a = a.getTime();
+  if (b instanceof Date) b = b.getTime();
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b);
+  return String(a).localeCompare(String(b), undefined, { sensitivity: 'base', numeric: true });
+}
+
+// In-memory equivalent of the SQL paging in DatabaseStorage, used by MemStorage
+export function paginateArray<T extends Record<string, any>>(
+  items: T[],
+  query: ListQuery,
+  searchFields: string[]
+): PaginatedResult<T> {
+  const text = (value: any) => (value instanceof Date ? value.toISOString() : String(value)).toLowerCase();
+  const search = query.q?.toLowerCase();
+
+  const matching = items.filter(item => {
+    const matchesFilters = query.filters.every(({ field, values, contains }) => {
+      const value = item[field];
+      if (value === null || value === undefined) return false;
+      return contains ? text(value).includes(values[0]) : values.includes(text(value));
+    });
+
+    const matchesSearch = !search || searchFields.some(field =>
+      item[field] !== null && item[field] !== undefined && text(item[field]).includes(search));
+
+    return matchesFilters && matchesSearch;
+  });
+
+  matching.sort((a, b) => {
+    for (const { field, direction } of query.sort) {
+      const aValue = a[field];
+      const bValue = b[field];
+      // Nulls last in both directions, as with NULLS LAST in SQL
+      if (aValue === null || aValue === undefined) {
+        if (bValue === null || bValue === undefined) continue;
+        return 1;
+      }
+      if (bValue === null || bValue === undefined) return -1;
+
+      const result = compareValues(aValue, bValue);
+      if (result !== 0) return direction === 'asc' ? result : -result;
+    }
+    // Same id tiebreaker as the SQL paging, so pages are stable
+    return compareValues(a.id, b.id);
+  });
+
+  const start = (query.page - 1) * query.pageSize;
+  return toPaginatedResult(matching.slice(start, start + query.pageSize), matching.length, query);
+}
@@ -0,0 +1,123 @@
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+
+const scryptAsync = promisify(scrypt);
+
+const KEY_LENGTH = 64;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Settings are read on every request via deserializeUser, so keep them briefly
+const POLICY_CACHE_MS = 60 * 1000;
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireNumber: boolean;
+  requireSpecialChar: boolean;
+  // 0 disables forced rotation
+  expiryDays: number;
+  enableLockout: boolean;
+  maxLoginAttempts: number;
+  // Minutes
+  lockoutDuration: number;
+}
+
+export class PasswordPolicyError extends Error {
+  constructor(public readonly violations: string[]) {
+    super(`Password does not meet the password policy: ${violations.join('; ')}`);
+    this.name = 'PasswordPolicyError';
+  }
+}
+
+let cachedPolicy: { policy: PasswordPolicy; loadedAt: number } | null = null;
+
+function setting<T>(value: T | null | undefined, fallback: T): T {
+  return value === null || value === undefined ? fallback : value;
+}
+
+export async function getPasswordPolicy(): Promise<PasswordPolicy> {
+  if (cachedPolicy && Date.now() - cachedPolicy.loadedAt < POLICY_CACHE_MS) {
+    return cachedPolicy.policy;
+  }
+
+  const settings = await storage.getSystemSettings() || {};
+  const policy: PasswordPolicy = {
+    minLength: Math.max(1, Number(setting(settings.passwordMinLength, 8))),
+    requireUppercase: !!setting(settings.requireUppercase, true),
+    requireNumber: !!setting(settings.requireNumber, true),
+    requireSpecialChar: !!setting(settings.requireSpecialChar, true),
+    expiryDays: Math.max(0, Number(setting(settings.passwordExpiryDays, 90))),
+    enableLockout: !!setting(settings.enableLoginAttempts, true),
+    maxLoginAttempts: Math.max(1, Number(setting(settings.maxLoginAttempts, 5))),
+    lockoutDuration: Math.max(1, Number(setting(settings.lockoutDuration, 30))),
+  };
+  cachedPolicy = { policy, loadedAt: Date.now() };
+  return policy;
+}
+
+// Drop the cached policy after systemSettings change
+export function clearPasswordPolicyCache() {
+  cachedPolicy = null;
+}
+
+export function validatePassword(password: string, policy: PasswordPolicy): string[] {
+  const violations: string[] = [];
+  if (password.length < policy.minLength) {
+    violations.push(`must be at least ${policy.minLength} characters`);
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    violations.push("must contain an uppercase letter");
+  }
+  if (policy.requireNumber && !/[0-9]/.test(password)) {
+    violations.push("must contain a number");
+  }
+  if (policy.requireSpecialChar && !/[^A-Za-z0-9]/.test(password)) {
+    violations.push("must contain a special character");
+  }
+  return violations;
+}
+
+export async function assertPasswordAllowed(password: unknown): Promise<void> {
+  if (typeof password !== 'string' || password.length === 0) {
+    throw new PasswordPolicyError(["is required"]);
+  }
+  const violations = validatePassword(password, await getPasswordPolicy());
+  if (violations.length > 0) {
+    throw new PasswordPolicyError(violations);
+  }
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, KEY_LENGTH)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+// Stored hashes are "<hex scrypt hash>.<salt>"; anything else is a legacy plain-text password
+export function isHashedPassword(stored: string | null | undefined): boolean {
+  return !!stored && /^[0-9a-f]{128}\.[0-9a-f]+$/i.test(stored);
+}
+
+// needsRehash is set when the stored password was plain text and should be replaced by a hash
+export async function verifyPassword(supplied: string, stored: string | null | undefined): Promise<{ valid: boolean; needsRehash: boolean }> {
+  if (!stored) return { valid: false, needsRehash: false };
+
+  if (isHashedPassword(stored)) {
+    const [hashed, salt] = stored.split(".");
+    const hashedBuf = Buffer.from(hashed, "hex");
+    const suppliedBuf = (await scryptAsync(supplied, salt, KEY_LENGTH)) as Buffer;
+    return { valid: timingSafeEqual(hashedBuf, suppliedBuf), needsRehash: false };
+  }
+
+  const storedBuf = Buffer.from(stored);
+  const suppliedBuf = Buffer.from(supplied);
+  const valid = storedBuf.length === suppliedBuf.length && timingSafeEqual(storedBuf, suppliedBuf);
+  return { valid, needsRehash: valid };
+}
+
+// Users without passwordChangedAt predate rotation; their clock starts at the next login
+export function isPasswordExpired(passwordChangedAt: string | null | undefined, policy: PasswordPolicy, now: Date = new Date()): boolean {
+  if (policy.expiryDays <= 0 || !passwordChangedAt) return false;
+  const changed = new Date(passwordChangedAt);
+  return !isNaN(changed.getTime()) && now.getTime() - changed.getTime() >= policy.expiryDays * DAY_MS;
+}
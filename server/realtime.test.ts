@@ -0,0 +1,92 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { WebSocket } from "ws";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+import { hashPassword } from "./password-policy";
+import { broadcast } from "./realtime";
+import { revokeUserSessions } from "./session-store";
+
+const app = express();
+app.use(express.json());
+let server: Server;
+let baseUrl: string;
+let viewerId: number;
+
+async function login(username: string, password: string): Promise<string> {
+  const response = await fetch(`${baseUrl}/api/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password }),
+  });
+  assert.equal(response.status, 200);
+  return response.headers.get('set-cookie')!.split(';')[0];
+}
+
+// Resolves once the socket is open, collecting the type of every message it receives
+async function connect(cookie?: string): Promise<{ socket: WebSocket; received: string[] }> {
+  const socket = new WebSocket(`${baseUrl.replace('http', 'ws')}/ws`, { headers: cookie ? { cookie } : {} });
+  const received: string[] = [];
+  socket.on('message', data => received.push(JSON.parse(data.toString()).type));
+  await new Promise((resolve, reject) => {
+    socket.once('open', resolve);
+    socket.once('unexpected-response', (_req, res) => reject(new Error(`HTTP ${res.statusCode}`)));
+    socket.once('error', reject);
+  });
+  return { socket, received };
+}
+
+before(async () => {
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  // No role, so the default permissions apply: assets are visible, network discovery is not
+  viewerId = (await storage.createUser({
+    username: 'viewer',
+    password: await hashPassword('Viewer-pass-1'),
+    firstName: 'View',
+    lastName: 'Only',
+    email: 'viewer@example.com',
+    isAdmin: false,
+    department: 'IT',
+    roleId: null,
+  } as any)).id;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+test('the socket refuses upgrades without a signed-in session', async () => {
+  await assert.rejects(connect(), /HTTP 401/);
+  await assert.rejects(connect('connect.sid=s%3Aforged.signature'), /HTTP 401/);
+});
+
+test('events only reach users whose role can view the module', async () => {
+  const admin = await connect(await login('admin', 'admin123'));
+  const viewer = await connect(await login('viewer', 'Viewer-pass-1'));
+
+  broadcast('network-scan:progress', { hostsFound: 3 });
+  broadcast('assets:overdue', { markedOverdue: 1 });
+  broadcast('unmapped:event', {});
+  await new Promise(resolve => setTimeout(resolve, 200));
+
+  assert.deepEqual(admin.received, ['network-scan:progress', 'assets:overdue']);
+  assert.deepEqual(viewer.received, ['assets:overdue']);
+
+  admin.socket.close();
+  viewer.socket.close();
+});
+
+test('revoking a session closes its socket', async () => {
+  const viewer = await connect(await login('viewer', 'Viewer-pass-1'));
+  const closed = new Promise<number>(resolve => viewer.socket.once('close', resolve));
+
+  assert.ok(await revokeUserSessions(viewerId) >= 1);
+  assert.equal(await closed, 1008);
+});
@@ -0,0 +1,117 @@
+import { WebSocketServer, WebSocket } from 'ws';
+import type { IncomingMessage, Server } from 'http';
+import { storage } from './storage';
+import { getPermissionsForRole } from './roles';
+
+// Shared handle on the /ws server so background jobs can push live updates
+let webSocketServer: WebSocketServer | null = null;
+
+// User and session behind each socket, resolved from the session cookie on upgrade
+const clients = new WeakMap<WebSocket, { userId: number; sessionId: string }>();
+
+// Each event family is only sent to clients whose role can view the matching module.
+// Events without an entry are dropped, so a new event type has to be mapped before it is sent.
+const EVENT_PERMISSIONS: Record<string, string> = {
+  'network-scan': 'networkDiscovery',
+  'monitoring-alert': 'vmMonitoring',
+  'iam-accounts': 'iamAccounts',
+  'assets': 'assets',
+  'vm-inventory': 'vmInventory',
+  // Lists issues from every reporter, and only admins can see other people's issues
+  'issues': 'admin',
+};
+
+// Broadcasts resolve permissions asynchronously; chaining them keeps events in the order they were sent
+let pendingDelivery: Promise<void> = Promise.resolve();
+
+export type UpgradeAuthenticator = (req: IncomingMessage) => Promise<{ id: number; sessionId: string } | null>;
+
+// Accept upgrades on /ws only from signed-in users; other paths (e.g. Vite HMR) are left alone
+export function attachWebSocketServer(server: Server, authenticate: UpgradeAuthenticator): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', async (req, socket, head) => {
+    if (new URL(req.url || '/', 'http://localhost').pathname !== '/ws') return;
+
+    try {
+      const user = await authenticate(req);
+      if (!user) {
+        socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+        return;
+      }
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        clients.set(ws, { userId: user.id, sessionId: user.sessionId });
+        wss.emit('connection', ws, req);
+      });
+    } catch (error) {
+      console.error('WebSocket upgrade error:', error);
+      socket.destroy();
+    }
+  });
+
+  webSocketServer = wss;
+  return wss;
+}
+
+// Revoked sessions lose their live updates too, not just their HTTP access
+export function closeSessionSockets(sessionId: string) {
+  webSocketServer?.clients.forEach((client) => {
+    if (clients.get(client)?.sessionId === sessionId) {
+      client.close(1008, 'Session revoked');
+    }
+  });
+}
+
+// Current role permissions, re-read like checkPermission does so a changed role applies immediately
+async function canView(userId: number, module: string): Promise<boolean> {
+  const user = await storage.getUser(userId);
+  if (!user) return false;
+  if (user.isAdmin) return true;
+
+  const permissions = await getPermissionsForRole(user.roleId);
+  return permissions?.[module]?.view === true;
+}
+
+async function deliver(recipients: WebSocket[], module: string, payload: string) {
+  const allowed = new Map<number, Promise<boolean>>();
+
+  for (const client of recipients) {
+    const userId = clients.get(client)?.userId;
+    if (userId === undefined) continue;
+
+    if (!allowed.has(userId)) {
+      allowed.set(userId, canView(userId, module));
+    }
+    if (!(await allowed.get(userId)) || client.readyState !== WebSocket.OPEN) continue;
+
+    try {
+      client.send(payload);
+    } catch (error) {
+      console.error('WebSocket broadcast error:', error);
+    }
+  }
+}
+
+// Send a message to every permitted client using the same shape as use-websocket.tsx
+export function broadcast(type: string, data?: any) {
+  if (!webSocketServer) return;
+
+  const module = EVENT_PERMISSIONS[type.split(':')[0]];
+  if (!module) {
+    console.warn(`WebSocket event "${type}" has no view permission mapped; not sent`);
+    return;
+  }
+
+  const recipients = Array.from(webSocketServer.clients).filter(client => client.readyState === WebSocket.OPEN);
+  if (recipients.length === 0) return;
+
+  const payload = JSON.stringify({
+    type,
+    data,
+    timestamp: new Date().toISOString()
+  });
+
+  pendingDelivery = pendingDelivery
+    .then(() => deliver(recipients, module, payload))
+    .catch(error => console.error('WebSocket broadcast error:', error));
+}
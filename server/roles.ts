@@ -1,23 +1,13 @@
 
 // Default roles and permissions system
+import type { Role, InsertRole } from "@shared/schema";
+
 export interface Permission {
   resource: string;
   actions: ('view' | 'edit' | 'add' | 'delete')[];
 }
 
-export interface Role {
-  id: number;
-  name: string;
-  description: string;
-  permissions: {
-    [resource: string]: {
-      view: boolean;
-      edit: boolean;
-      add: boolean;
-      delete?: boolean;
-    };
-  };
-}
+export type RoleWithUserCount = Role & { userCount: number };
 
 // Default permissions structure
 export const defaultPermissions = {
@@ -31,15 +21,21 @@ export const defaultPermissions = {
   admin: { view: false, edit: false, add: false, delete: false },
   vmMonitoring: { view: false, edit: false, add: false, delete: false },
   networkDiscovery: { view: false, edit: false, add: false, delete: false },
-  bitlockerKeys: { view: false, edit: false, add: false, delete: false }
+  bitlockerKeys: { view: false, edit: false, add: false, delete: false },
+  vmInventory: { view: true, edit: false, add: false, delete: false },
+  iamAccounts: { view: false, edit: false, add: false, delete: false },
+  itEquipment: { view: true, edit: false, add: false, delete: false },
+  monitorInventory: { view: true, edit: false, add: false, delete: false },
+  database: { view: false, edit: false, add: false, delete: false }
 };
 
-// In-memory roles storage with user count tracking
-let roles: Role[] = [
+// Built-in roles seeded into storage with fixed ids; they cannot be deleted
+export const builtInRoles: Array<InsertRole & { id: number }> = [
   {
     id: 1,
     name: "Administrator",
     description: "Full system access with all permissions",
+    isSystem: true,
     permissions: {
       assets: { view: true, edit: true, add: true, delete: true },
       users: { view: true, edit: true, add: true, delete: true },
@@ -51,13 +47,19 @@ let roles: Role[] = [
       admin: { view: true, edit: true, add: true, delete: true },
       vmMonitoring: { view: true, edit: true, add: true, delete: true },
       networkDiscovery: { view: true, edit: true, add: true, delete: true },
-      bitlockerKeys: { view: true, edit: true, add: true, delete: true }
+      bitlockerKeys: { view: true, edit: true, add: true, delete: true },
+      vmInventory: { view: true, edit: true, add: true, delete: true },
+      iamAccounts: { view: true, edit: true, add: true, delete: true },
+      itEquipment: { view: true, edit: true, add: true, delete: true },
+      monitorInventory: { view: true, edit: true, add: true, delete: true },
+      database: { view: true, edit: true, add: true, delete: true }
     }
   },
   {
     id: 2,
     name: "Asset Manager",
     description: "Can manage all assets and related items",
+    isSystem: true,
     permissions: {
       assets: { view: true, edit: true, add: true, delete: false },
       users: { view: true, edit: false, add: false, delete: false },
@@ -69,13 +71,19 @@ let roles: Role[] = [
       admin: { view: false, edit: false, add: false, delete: false },
       vmMonitoring: { view: true, edit: true, add: false, delete: false },
       networkDiscovery: { view: true, edit: false, add: false, delete: false },
-      bitlockerKeys: { view: false, edit: false, add: false, delete: false }
+      bitlockerKeys: { view: false, edit: false, add: false, delete: false },
+      vmInventory: { view: true, edit: true, add: false, delete: false },
+      iamAccounts: { view: false, edit: false, add: false, delete: false },
+      itEquipment: { view: true, edit: true, add: true, delete: false },
+      monitorInventory: { view: true, edit: true, add: true, delete: false },
+      database: { view: false, edit: false, add: false, delete: false }
     }
   },
   {
     id: 3,
     name: "User Manager",
     description: "Can manage users and basic asset operations",
+    isSystem: true,
     permissions: {
       assets: { view: true, edit: false, add: false, delete: false },
       users: { view: true, edit: true, add: true, delete: false },
@@ -87,13 +95,19 @@ let roles: Role[] = [
       admin: { view: false, edit: false, add: false, delete: false },
       vmMonitoring: { view: false, edit: false, add: false, delete: false },
       networkDiscovery: { view: false, edit: false, add: false, delete: false },
-      bitlockerKeys: { view: false, edit: false, add: false, delete: false }
+      bitlockerKeys: { view: false, edit: false, add: false, delete: false },
+      vmInventory: { view: false, edit: false, add: false, delete: false },
+      iamAccounts: { view: true, edit: false, add: false, delete: false },
+      itEquipment: { view: true, edit: false, add: false, delete: false },
+      monitorInventory: { view: true, edit: false, add: false, delete: false },
+      database: { view: false, edit: false, add: false, delete: false }
     }
   },
   {
     id: 4,
     name: "Read Only",
     description: "View-only access to most resources",
+    isSystem: true,
     permissions: {
       assets: { view: true, edit: false, add: false, delete: false },
       users: { view: true, edit: false, add: false, delete: false },
@@ -105,94 +119,104 @@ let roles: Role[] = [
       admin: { view: false, edit: false, add: false, delete: false },
       vmMonitoring: { view: false, edit: false, add: false, delete: false },
       networkDiscovery: { view: false, edit: false, add: false, delete: false },
-      bitlockerKeys: { view: false, edit: false, add: false, delete: false }
+      bitlockerKeys: { view: false, edit: false, add: false, delete: false },
+      vmInventory: { view: false, edit: false, add: false, delete: false },
+      iamAccounts: { view: false, edit: false, add: false, delete: false },
+      itEquipment: { view: true, edit: false, add: false, delete: false },
+      monitorInventory: { view: true, edit: false, add: false, delete: false },
+      database: { view: false, edit: false, add: false, delete: false }
     }
   }
 ];
 
-let nextRoleId = 5;
+// Resources split out of broader ones. Roles saved before a split inherit the flags of the
+// resource that used to cover those routes until an admin edits them.
+const inheritedResources: Record<string, string> = {
+  vmInventory: "vmMonitoring",
+  itEquipment: "assets",
+  monitorInventory: "assets",
+  iamAccounts: "admin",
+  database: "admin",
+};
+
+export function withInheritedPermissions<T extends Record<string, any>>(permissions: T): T {
+  if (!permissions) return permissions;
+  const filled: Record<string, any> = { ...permissions };
+  for (const [resource, source] of Object.entries(inheritedResources)) {
+    if (!filled[resource] && filled[source]) {
+      filled[resource] = { ...filled[source] };
+    }
+  }
+  return filled as T;
+}
+
+function withInheritedRolePermissions<R extends Role | undefined>(role: R): R {
+  return role ? { ...role, permissions: withInheritedPermissions(role.permissions) } : role;
+}
+
+async function getStorage() {
+  const { storage } = await import("./storage");
+  return storage;
+}
 
-export function getRoles(): Role[] {
-  return roles;
+export async function getRoles(): Promise<Role[]> {
+  return (await getStorage()).getRoles().then(roles => roles.map(withInheritedRolePermissions));
 }
 
-export function getRoleById(id: number): Role | undefined {
-  return roles.find(role => role.id === id);
+export async function getRoleById(id: number): Promise<Role | undefined> {
+  return withInheritedRolePermissions(await (await getStorage()).getRole(id));
 }
 
-export function createRole(roleData: { name: string; description: string; permissions: any }): Role {
-  const newRole: Role = {
-    id: nextRoleId++,
+export async function createRole(roleData: { name: string; description?: string; permissions: any }): Promise<Role> {
+  return (await getStorage()).createRole({
     name: roleData.name,
-    description: roleData.description,
-    permissions: { ...defaultPermissions, ...roleData.permissions }
-  };
-  
-  roles.push(newRole);
-  return newRole;
+    description: roleData.description || "",
+    permissions: { ...defaultPermissions, ...roleData.permissions },
+    isSystem: false
+  });
 }
 
-export function updateRole(id: number, updates: Partial<Role>): Role | undefined {
-  const roleIndex = roles.findIndex(role => role.id === id);
-  if (roleIndex === -1) return undefined;
-  
-  roles[roleIndex] = { ...roles[roleIndex], ...updates };
-  return roles[roleIndex];
+export async function updateRole(id: number, updates: Partial<InsertRole>): Promise<Role | undefined> {
+  const role = await getRoleById(id);
+  if (!role) return undefined;
+
+  // Built-in roles keep their name and system flag, only permissions/description change
+  const changes: Partial<InsertRole> = {};
+  if (updates.name !== undefined && !role.isSystem) changes.name = updates.name;
+  if (updates.description !== undefined) changes.description = updates.description;
+  if (updates.permissions) changes.permissions = { ...defaultPermissions, ...updates.permissions };
+
+  return (await getStorage()).updateRole(id, changes);
 }
 
-export function deleteRole(id: number): boolean {
-  const initialLength = roles.length;
-  roles = roles.filter(role => role.id !== id);
-  return roles.length < initialLength;
+export async function deleteRole(id: number): Promise<boolean> {
+  const role = await getRoleById(id);
+  if (!role || role.isSystem) return false;
+  return (await getStorage()).deleteRole(id);
 }
 
-export function getPermissionsForRole(roleId: number | null): any {
+export async function getPermissionsForRole(roleId: number | null): Promise<any> {
   if (!roleId) {
     return defaultPermissions;
   }
-  
-  const role = getRoleById(roleId);
+
+  const role = await getRoleById(roleId);
   return role ? role.permissions : defaultPermissions;
 }
 
-// Function to update user counts for roles
-export async function updateRoleUserCounts(): Promise<void> {
+// Function to get roles with current user counts
+export async function getRolesWithUserCounts(): Promise<RoleWithUserCount[]> {
   try {
-    const { storage } = await import("./storage");
-    const users = await storage.getUsers();
-    
-    // Reset all role user counts
-    roles.forEach(role => {
-      if (!role.userCount) role.userCount = 0;
-      else role.userCount = 0;
-    });
-    
-    // Count users for each role
-    users.forEach(user => {
-      if (user.isAdmin) {
-        // Admin users belong to Administrator role (id: 1)
-        const adminRole = roles.find(r => r.id === 1);
-        if (adminRole) {
-          adminRole.userCount = (adminRole.userCount || 0) + 1;
-        }
-      } else if (user.roleId) {
-        const role = roles.find(r => r.id === user.roleId);
-        if (role) {
-          role.userCount = (role.userCount || 0) + 1;
-        }
-      }
-    });
-    
-    console.log('Updated role user counts:', roles.map(r => ({ name: r.name, userCount: r.userCount || 0 })));
+    const storage = await getStorage();
+    const [roles, users] = await Promise.all([storage.getRoles(), storage.getUsers()]);
+
+    return roles.map(role => ({
+      ...withInheritedRolePermissions(role),
+      // Admin users belong to the Administrator role (id: 1)
+      userCount: users.filter(user => role.id === 1 ? user.isAdmin || user.roleId === 1 : !user.isAdmin && user.roleId === role.id).length
+    }));
   } catch (error) {
-    console.error('Error updating role user counts:', error);
+    console.error('Error counting role users:', error);
+    return (await getRoles()).map(role => ({ ...role, userCount: 0 }));
   }
 }
-
-// Function to get roles with current user counts
-export async function getRolesWithUserCounts(): Promise<Role[]> {
-  await updateRoleUserCounts();
-  return roles;
-}
-
-export { roles as defaultRoles };
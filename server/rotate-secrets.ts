@@ -0,0 +1,25 @@
+// Re-encrypt every stored credential and BitLocker recovery key under the current master keys.
+// Rotate by setting the new key and listing the old one as retired, then running this once:
+//   SECRETS_MASTER_KEY=<new> SECRETS_MASTER_KEY_PREVIOUS=<old> \
+//   BITLOCKER_MASTER_KEY=<new> BITLOCKER_MASTER_KEY_PREVIOUS=<old> npm run secrets:rotate
+// Afterwards the retired keys can be dropped from the environment.
+import { db } from "./db";
+import { DatabaseStorage } from "./database-storage";
+import { reencryptStoredSecrets } from "./secrets";
+
+(async () => {
+  if (!db || !process.env.DATABASE_URL) {
+    console.error("❌ DATABASE_URL must point at the database whose secrets should be rotated");
+    process.exit(1);
+  }
+
+  try {
+    console.log("🔄 Re-encrypting stored secrets...");
+    const result = await reencryptStoredSecrets({ rotate: true }, new DatabaseStorage());
+    console.log("✅ Secret rotation complete:", result);
+    process.exit(0);
+  } catch (error) {
+    console.error("❌ Secret rotation failed:", error);
+    process.exit(1);
+  }
+})();
@@ -0,0 +1,52 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import type { Server } from "http";
+import { registerRoutes } from "./routes";
+import { assertRoutesGuarded, findUnguardedRoutes, listApiRoutes, markGuard, PUBLIC_ROUTES } from "./route-guards";
+
+const app = express();
+let server: Server;
+
+before(async () => {
+  server = await registerRoutes(app);
+});
+
+after(() => {
+  server.close();
+});
+
+test('every registered API route is guarded or explicitly public', () => {
+  const routes = listApiRoutes(app);
+  assert.ok(routes.length > 100, `expected the full API, found ${routes.length} routes`);
+  assert.deepEqual(findUnguardedRoutes(app).map(route => `${route.method} ${route.path}`), []);
+
+  // Every public entry still exists, so the list cannot hide a renamed route
+  const registered = new Set(routes.map(route => `${route.method} ${route.path}`));
+  for (const route of Array.from(PUBLIC_ROUTES)) {
+    assert.ok(registered.has(route), `${route} is listed as public but not registered`);
+  }
+});
+
+test('setup steps after the first admin require an administrator', () => {
+  for (const path of ['/api/setup/database', '/api/setup/reset']) {
+    const route = listApiRoutes(app).find(route => route.method === 'POST' && route.path === path);
+    assert.deepEqual(route?.guards, ['admin']);
+  }
+});
+
+test('an unguarded route stops startup in every environment', () => {
+  const probe = express();
+  probe.get('/api/guarded', markGuard((_req, _res, next) => next(), 'authenticated'), (_req, res) => res.end());
+  probe.get('/api/forgotten', (_req, res) => res.end());
+
+  const environment = process.env.NODE_ENV;
+  try {
+    for (const nodeEnv of ['development', 'production']) {
+      process.env.NODE_ENV = nodeEnv;
+      assert.throws(() => assertRoutesGuarded(probe), /Unguarded API routes.*GET \/api\/forgotten/);
+    }
+  } finally {
+    process.env.NODE_ENV = environment;
+  }
+});
@@ -0,0 +1,73 @@
+import type { Express } from "express";
+
+// Set on middleware that decides whether a request may reach the handler
+const GUARD = Symbol("routeGuard");
+
+export interface RegisteredRoute {
+  method: string;
+  path: string;
+  guards: string[];
+}
+
+// Endpoints that have to work before sign-in, or that check the session themselves
+export const PUBLIC_ROUTES = new Set([
+  "POST /api/register",
+  "POST /api/login",
+  "POST /api/logout",
+  "GET /api/user",
+  "GET /api/me",
+  "GET /api/password-policy",
+  // Forced password change before the session is fully established; checks the session itself
+  "POST /api/user/password",
+  // First-run wizard: reports whether users exist, and creates the first admin only while there are none
+  "GET /api/setup",
+  "POST /api/setup/admin",
+]);
+
+export function markGuard<T extends (...args: any[]) => any>(handler: T, description: string): T {
+  (handler as any)[GUARD] = description;
+  return handler;
+}
+
+export function listApiRoutes(app: Express): RegisteredRoute[] {
+  const stack: any[] = (app as any)._router?.stack || [];
+  const routes: RegisteredRoute[] = [];
+
+  for (const layer of stack) {
+    const route = layer.route;
+    if (!route) continue;
+
+    const paths: string[] = (Array.isArray(route.path) ? route.path : [route.path])
+      .filter((path: unknown): path is string => typeof path === 'string' && path.startsWith('/api'));
+    const guards = route.stack
+      .map((routeLayer: any) => routeLayer.handle?.[GUARD])
+      .filter(Boolean);
+
+    for (const method of Object.keys(route.methods).filter(method => method !== '_all')) {
+      for (const path of paths) {
+        routes.push({ method: method.toUpperCase(), path, guards });
+      }
+    }
+  }
+
+  return routes;
+}
+
+export function findUnguardedRoutes(app: Express): RegisteredRoute[] {
+  return listApiRoutes(app).filter(route =>
+    route.guards.length === 0 && !PUBLIC_ROUTES.has(`${route.method} ${route.path}`)
+  );
+}
+
+// Every API route must carry requireAuth or checkPermission; the server refuses to start
+// otherwise, so an unguarded route cannot slip through review or reach production.
+export function assertRoutesGuarded(app: Express) {
+  const unguarded = findUnguardedRoutes(app);
+  if (unguarded.length === 0) {
+    console.log(`🛡️ All ${listApiRoutes(app).length} API routes are guarded`);
+    return;
+  }
+
+  const list = unguarded.map(route => `${route.method} ${route.path}`).join(', ');
+  throw new Error(`Unguarded API routes (add requireAuth or checkPermission): ${list}`);
+}
@@ -4,24 +4,48 @@ import { storage } from "./storage";
 import * as schema from "@shared/schema";
 import {
   insertUserSchema, insertAssetSchema, insertActivitySchema,
-  insertLicenseSchema, insertComponentSchema, insertAccessorySchema,
+  insertLicenseSchema, insertComponentSchema, insertAccessorySchema, insertConsumableSchema,
   insertSystemSettingsSchema, systemSettings, AssetStatus,
-  LicenseStatus, AccessoryStatus, users
+  LicenseStatus, AccessoryStatus, users, updateProfileSchema
 } from "@shared/schema";
-import { eq, sql, desc } from "drizzle-orm";
+import { eq, sql, desc, getTableColumns } from "drizzle-orm";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
 import { db } from "./db";
 import * as fs from 'fs';
 import * as path from 'path';
-import { WebSocketServer, WebSocket } from 'ws';
+import { WebSocket } from 'ws';
 import { exec, spawn } from 'child_process';
 import { promisify } from 'util';
 import * as dns from 'dns';
 import * as net from 'net';
 
-import { setupAuth } from "./auth";
-import { defaultRoles } from "./roles"; // Import defaultRoles
+import { setupAuth, changeOwnPassword, authenticateUpgrade } from "./auth";
+import { startNetworkScan, getCurrentScan } from "./network-scanner";
+import { attachWebSocketServer } from "./realtime";
+import { runPanelQuery } from "./monitoring-datasources";
+import { parseChannel, sendNotification, getNotificationLog } from "./notifier";
+import { getAlertHistory } from "./alert-evaluator";
+import { runBackup, getBackupSchedule, getNextBackupRun, rescheduleBackups } from "./backup-scheduler";
+import { BackupError, backupDumpPath, listBackups, readManifest, restoreBackup } from "./backup-store";
+import { DataTransferError, exportPortableData, importPortableData } from "./data-transfer";
+import { recordVmMetricSample, getVmMetricSeries, METRIC_RESOLUTIONS, type MetricResolution } from "./vm-metrics";
+import { ZabbixSyncError, getZabbixSyncStatus, rescheduleZabbixSync, runZabbixSync } from "./zabbix-sync";
+import { isListQuery, parseListQuery, ListQueryError } from "./pagination";
+import { runOverdueSweep, getLastOverdueSweep } from "./overdue-assets";
+import { runVmLifecycleSweep, getLastVmLifecycleSweep } from "./vm-lifecycle";
+import { checkoutAccessory, returnAccessory, AccessoryLoanError } from "./accessory-loans";
+import { hashPassword, verifyPassword, assertPasswordAllowed, clearPasswordPolicyCache, getPasswordPolicy, PasswordPolicyError } from "./password-policy";
+import { getLockedAccounts, clearFailedLogins, getLoginLockout, recordFailedLogin, describeLockout } from "./login-guard";
+import { listActiveSessions, revokeSession, revokeUserSessions, sessionHandle, isSessionStorePersistent } from "./session-store";
+import { reportIssue, runJiraStatusSync, getLastJiraSync, getJiraConfig } from "./issue-tracker";
+import { testJiraConnection, triggerJiraAutomation, fetchJiraIssues } from "./jira-integration";
+import { markGuard } from "./route-guards";
+import { sealRecoveryKey, openRecoveryKey, toMaskedBitlockerKey } from "./bitlocker-vault";
+import { SECRET_FIELDS, openSecret, redactSecrets, sealSecrets, mergeSecrets, redactJiraSettings, sealJiraSettings } from "./secrets";
+import { runIamLifecycleSweep, getLastIamLifecycleSweep, getAccessRemovalWorklist, extendIamAccount, getIamAccountExtensions, IamExtensionError } from "./iam-lifecycle";
+
+type User = typeof users.$inferSelect;
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up authentication
@@ -37,20 +61,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const validationError = fromZodError(err);
       return res.status(400).json({ message: validationError.message });
     }
+    if (err instanceof ListQueryError || err instanceof AccessoryLoanError) {
+      return res.status(400).json({ message: err.message });
+    }
+    if (err instanceof PasswordPolicyError) {
+      return res.status(400).json({ message: err.message, violations: err.violations });
+    }
     return res.status(500).json({ message: err.message || "Internal Server Error" });
   };
 
   // Authentication middleware
-  const requireAuth = (req: Request, res: Response, next: NextFunction) => {
+  const requireAuth = markGuard((req: Request, res: Response, next: NextFunction) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Authentication required" });
     }
     next();
-  };
+  }, 'authenticated');
 
   // Permission validation middleware
-  const checkPermission = (resource: string, action: 'view' | 'edit' | 'add') => {
-    return async (req: Request, res: Response, next: NextFunction) => {
+  const checkPermission = (resource: string, action: 'view' | 'edit' | 'add' | 'delete') => {
+    return markGuard(async (req: Request, res: Response, next: NextFunction) => {
       if (!req.isAuthenticated()) {
         console.log(`Permission check failed: User not authenticated`);
         return res.status(401).json({ message: "Not authenticated" });
@@ -79,7 +109,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
         // Load permissions from role
         const { getPermissionsForRole } = await import("./roles");
-        const userPermissions = getPermissionsForRole(currentUser.roleId);
+        const userPermissions = await getPermissionsForRole(currentUser.roleId);
 
         console.log(`Loaded permissions for roleId ${currentUser.roleId}:`, JSON.stringify(userPermissions, null, 2));
 
@@ -119,7 +149,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.error(`Permission check error:`, error);
         return res.status(500).json({ message: "Permission check failed" });
       }
-    };
+    }, `${resource}.${action}`);
   };
 
   // Roles API
@@ -137,7 +167,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { getRoleById } = await import("./roles");
       const roleId = parseInt(req.params.id);
-      const role = getRoleById(roleId);
+      const role = await getRoleById(roleId);
 
       if (!role) {
         return res.status(404).json({ message: "Role not found" });
@@ -152,9 +182,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/roles", checkPermission('admin', 'add'), async (req: Request, res: Response) => {
     try {
       const { createRole } = await import("./roles");
-      const roleData = req.body;
+      const roleData = schema.insertRoleSchema.parse(req.body);
 
-      const role = createRole(roleData);
+      const existingRoles = await storage.getRoles();
+      if (existingRoles.some(r => r.name.toLowerCase() === roleData.name.toLowerCase())) {
+        return res.status(409).json({ message: "Role name already exists" });
+      }
+
+      const role = await createRole({
+        name: roleData.name,
+        description: roleData.description || "",
+        permissions: roleData.permissions
+      });
 
       // Log activity
       await storage.createActivity({
@@ -172,6 +211,128 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.put("/api/roles/:id", checkPermission('admin', 'edit'), async (req: Request, res: Response) => {
+    try {
+      const { updateRole } = await import("./roles");
+      const roleId = parseInt(req.params.id);
+      const updateData = schema.insertRoleSchema.partial().parse(req.body);
+
+      if (updateData.name) {
+        const existingRoles = await storage.getRoles();
+        if (existingRoles.some(r => r.id !== roleId && r.name.toLowerCase() === updateData.name!.toLowerCase())) {
+          return res.status(409).json({ message: "Role name already exists" });
+        }
+      }
+
+      const role = await updateRole(roleId, updateData);
+      if (!role) {
+        return res.status(404).json({ message: "Role not found" });
+      }
+
+      await storage.createActivity({
+        action: "update",
+        itemType: "role",
+        itemId: role.id,
+        userId: req.user.id,
+        timestamp: new Date().toISOString(),
+        notes: `Role "${role.name}" updated`,
+      });
+
+      return res.json(role);
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
+
+  app.delete("/api/roles/:id", checkPermission('admin', 'delete'), async (req: Request, res: Response) => {
+    try {
+      const { getRoleById, deleteRole } = await import("./roles");
+      const roleId = parseInt(req.params.id);
+      const role = await getRoleById(roleId);
+
+      if (!role) {
+        return res.status(404).json({ message: "Role not found" });
+      }
+
+      if (role.isSystem) {
+        return res.status(403).json({ message: "Built-in roles cannot be deleted" });
+      }
+
+      const deleted = await deleteRole(roleId);
+      if (!deleted) {
+        return res.status(500).json({ message: "Failed to delete role" });
+      }
+
+      await storage.createActivity({
+        action: "delete",
+        itemType: "role",
+        itemId: roleId,
+        userId: req.user.id,
+        timestamp: new Date().toISOString(),
+        notes: `Role "${role.name}" deleted`,
+      });
+
+      return res.status(204).send();
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
+
+  // Self-service profile: every signed-in user can manage their own account without users.edit
+  const toProfile = (user: User) => ({
+    id: user.id,
+    username: user.username,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    email: user.email,
+    department: user.department,
+    isAdmin: user.isAdmin,
+    roleId: user.roleId,
+    passwordChangedAt: user.passwordChangedAt,
+  });
+
+  app.get("/api/profile", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const assignedItems = await storage.getUserAssignedItems(user.id);
+      return res.json({ ...toProfile(user), assignedItems });
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
+
+  app.patch("/api/profile", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const updates = updateProfileSchema.parse(req.body);
+      if (Object.keys(updates).length === 0) {
+        return res.status(400).json({ message: "No profile fields to update" });
+      }
+
+      const updatedUser = await storage.updateUser(req.user.id, updates);
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await storage.createActivity({
+        action: "update",
+        itemType: "user",
+        itemId: updatedUser.id,
+        userId: updatedUser.id,
+        timestamp: new Date().toISOString(),
+        notes: `User ${updatedUser.username} updated their profile (${Object.keys(updates).join(', ')})`,
+      });
+
+      return res.json(toProfile(updatedUser));
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
+
+  app.post("/api/profile/password", requireAuth, changeOwnPassword);
+
   // Users API
   app.get("/api/users", checkPermission('users', 'view'), async (req: Request, res: Response) => {
     try {
@@ -182,6 +343,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Accounts currently locked out by repeated failed logins
+  app.get("/api/users/lockouts", checkPermission('users', 'view'), async (req: Request, res: Response) => {
+    return res.json(getLockedAccounts());
+  });
+
   app.get("/api/users/:id", checkPermission('users', 'view'), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
@@ -202,7 +368,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (existingUser) {
         return res.status(409).json({ message: "Username already exists" });
       }
-      const user = await storage.createUser(userData);
+      if (userData.roleId && !(await storage.getRole(userData.roleId))) {
+        return res.status(400).json({ message: "Role not found" });
+      }
+      await assertPasswordAllowed(userData.password);
+      const user = await storage.createUser({
+        ...userData,
+        password: await hashPassword(userData.password),
+        passwordChangedAt: new Date().toISOString(),
+      });
 
       // Log activity
       await storage.createActivity({
@@ -214,10 +388,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         notes: `User ${user.username} created`,
       });
 
-      // Update role user counts after user creation
-      const { updateRoleUserCounts } = await import("./roles");
-      await updateRoleUserCounts();
-
       return res.status(201).json(user);
     } catch (err) {
       return handleError(err, res);
@@ -235,6 +405,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Validate update data
       const updateData = insertUserSchema.partial().parse(req.body);
 
+      if (updateData.roleId && !(await storage.getRole(updateData.roleId))) {
+        return res.status(400).json({ message: "Role not found" });
+      }
+
       // Check if username is being changed and if it's unique
       if (updateData.username && updateData.username !== existingUser.username) {
         const userWithSameUsername = await storage.getUserByUsername(updateData.username);
@@ -247,16 +421,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Handle password hashing if password is being updated
       let finalUpdateData = { ...updateData };
+      delete finalUpdateData.passwordChangedAt;
       if (updateData.password && updateData.password.trim() !== '') {
-        const { scrypt, randomBytes } = await import('crypto');
-        const { promisify } = await import('util');
-        const scryptAsync = promisify(scrypt);
-
+        await assertPasswordAllowed(updateData.password);
         console.log(`Hashing new password for user ${existingUser.username}`);
-        const salt = randomBytes(16).toString("hex");
-        const buf = (await scryptAsync(updateData.password, salt, 64)) as Buffer;
-        finalUpdateData.password = `${buf.toString("hex")}.${salt}`;
-        console.log(`Password hashed successfully for user ${existingUser.username}`);
+        finalUpdateData.password = await hashPassword(updateData.password);
+        finalUpdateData.passwordChangedAt = new Date().toISOString();
       } else if (updateData.password === '') {
         // If empty string is provided, don't update password
         delete finalUpdateData.password;
@@ -285,6 +455,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const updatedUser = await storage.updateUser(id, finalUpdateData);
+      // Sessions signed in with the old password end, apart from the caller's own when resetting themselves
+      const revoked = updatedUser && finalUpdateData.password
+        ? await revokeUserSessions(id, id === req.user.id ? req.sessionID : undefined)
+        : 0;
 
       if (updatedUser) {
         const { getPermissionsForRole } = await import("./roles");
@@ -306,14 +480,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
           };
           console.log(`Set admin permissions for user ${updatedUser.username}`);
         } else {
-          updatedUser.permissions = getPermissionsForRole(updatedUser.roleId);
+          updatedUser.permissions = await getPermissionsForRole(updatedUser.roleId);
           console.log(`Set role-based permissions for user ${updatedUser.username} (roleId: ${updatedUser.roleId}):`, JSON.stringify(updatedUser.permissions, null, 2));
         }
       }
 
       // Log activity
       const activityNotes = updateData.password && updateData.password.trim() !== ''
-        ? `User ${updatedUser?.username} updated (password changed, admin: ${updatedUser?.isAdmin}, roleId: ${updatedUser?.roleId})`
+        ? `User ${updatedUser?.username} updated (password changed, admin: ${updatedUser?.isAdmin}, roleId: ${updatedUser?.roleId})` +
+          (revoked > 0 ? ` and ${revoked} session(s) signed out` : '')
         : `User ${updatedUser?.username} updated (admin: ${updatedUser?.isAdmin}, roleId: ${updatedUser?.roleId})`;
 
       await storage.createActivity({
@@ -325,16 +500,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
         notes: activityNotes,
       });
 
-      // Update role user counts after user role change
-      const { updateRoleUserCounts } = await import("./roles");
-      await updateRoleUserCounts();
-
       return res.json(updatedUser);
     } catch (err) {
       return handleError(err, res);
     }
   });
 
+  app.post("/api/users/:id/unlock", checkPermission('users', 'edit'), async (req: Request, res: Response) => {
+    try {
+      const user = await storage.getUser(parseInt(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      clearFailedLogins(user.username);
+      await storage.createActivity({
+        action: "unlock",
+        itemType: "user",
+        itemId: user.id,
+        userId: req.user.id,
+        timestamp: new Date().toISOString(),
+        notes: `Account ${user.username} unlocked`,
+      });
+      return res.json({ message: `Account ${user.username} unlocked` });
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
+
   // Update user permissions
   app.patch("/api/users/:id/permissions", checkPermission('users', 'edit'), async (req: Request, res: Response) => {
     try {
@@ -395,7 +588,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/users/:id", checkPermission('users', 'edit'), async (req: Request, res: Response) => {
+  app.delete("/api/users/:id", checkPermission('users', 'delete'), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       console.log(`Delete user endpoint called for ID: ${id}`);
@@ -456,10 +649,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       console.log(`User ${existingUser.username} deleted successfully`);
 
-      // Update role user counts after user deletion
-      const { updateRoleUserCounts } = await import("./roles");
-      await updateRoleUserCounts();
-
       return res.status(204).send();
     } catch (err) {
       console.error('Delete user error:', err);
@@ -468,9 +657,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Assets API
-  app.get("/api/assets", requireAuth, async (req: Request, res: Response) => {
+  app.get("/api/assets", checkPermission('assets', 'view'), async (req: Request, res: Response) => {
     try {
       console.log('Assets API called by user:', req.user?.username);
+
+      if (isListQuery(req.query)) {
+        const query = parseListQuery(req.query, { fields: Object.keys(getTableColumns(schema.assets)), defaultSort: 'id' });
+        return res.json(await storage.getAssetsPage(query));
+      }
+
       const assets = await storage.getAssets();
       console.log(`Found ${assets.length} assets`);
 
@@ -484,6 +679,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json(assets);
     } catch (error) {
+      if (error instanceof ListQueryError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error fetching assets:", error);
       res.status(500).json({
         message: "Failed to fetch assets",
@@ -492,7 +690,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/assets/:id", requireAuth, async (req: Request, res: Response) => {
+  // Overdue checkout sweep (also runs daily in the background)
+  app.get("/api/assets/overdue-sweep", checkPermission('assets', 'view'), async (req: Request, res: Response) => {
+    return res.json(getLastOverdueSweep());
+  });
+
+  app.post("/api/assets/overdue-sweep", checkPermission('assets', 'edit'), async (req: Request, res: Response) => {
+    try {
+      const result = await runOverdueSweep();
+      return res.json(result);
+    } catch (err) {
+      if (err.message === "An overdue sweep is already running") {
+        return res.status(409).json({ message: err.message });
+      }
+      return handleError(err, res);
+    }
+  });
+
+  app.get("/api/assets/:id", checkPermission('assets', 'view'), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const asset = await storage.getAsset(id);
@@ -505,7 +720,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/assets", requireAuth, async (req: Request, res: Response) => {
+  app.post("/api/assets", checkPermission('assets', 'add'), async (req: Request, res: Response) => {
     try {
       const assetData = insertAssetSchema.parse(req.body);
       // Only check for duplicate asset tags, not Knox IDs
@@ -555,7 +770,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/assets/:id", requireAuth, async (req: Request, res: Response) => {
+  app.patch("/api/assets/:id", checkPermission('assets', 'edit'), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const existingAsset = await storage.getAsset(id);
@@ -622,7 +837,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/assets/:id", requireAuth, async (req: Request, res: Response) => {
+  app.delete("/api/assets/:id", checkPermission('assets', 'delete'), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const existingAsset = await storage.getAsset(id);
@@ -649,7 +864,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // CSV Import API with upsert logic
-  app.post("/api/assets/import", async (req: Request, res: Response) => {
+  app.post("/api/assets/import", checkPermission('assets', 'add'), async (req: Request, res: Response) => {
     try {
       const { assets, forceImport = false } = req.body;
 
@@ -840,7 +1055,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Checkout/Checkin API
-  app.post("/api/assets/:id/checkout", async (req: Request, res: Response) => {
+  app.post("/api/assets/:id/checkout", checkPermission('assets', 'edit'), async (req: Request, res: Response) => {
     try {
       const assetId = parseInt(req.params.id);
       const { userId, knoxId, firstName, lastName, expectedCheckinDate } = req.body;
@@ -882,7 +1097,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/assets/:id/checkin", async (req: Request, res: Response) => {
+  app.post("/api/assets/:id/checkin", checkPermission('assets', 'edit'), async (req: Request, res: Response) => {
     try {
       const assetId = parseInt(req.params.id);
 
@@ -903,7 +1118,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Finance update API
-  app.post("/api/assets/:id/finance", async (req: Request, res: Response) => {
+  app.post("/api/assets/:id/finance", checkPermission('assets', 'edit'), async (req: Request, res: Response) => {
     try {
       const assetId = parseInt(req.params.id);
       const asset = await storage.getAsset(assetId);
@@ -934,7 +1149,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Cleanup Knox IDs for assets that are not checked out
-  app.post("/api/assets/cleanup-knox", async (req: Request, res: Response) => {
+  app.post("/api/assets/cleanup-knox", checkPermission('assets', 'edit'), async (req: Request, res: Response) => {
     try {
       const assets = await storage.getAssets();
       const availableAssetsWithKnoxId = assets.filter(asset =>
@@ -1053,7 +1268,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get all license assignments for a specific license
-  app.get("/api/licenses/:id/assignments", async (req: Request, res: Response) => {
+  app.get("/api/licenses/:id/assignments", checkPermission('licenses', 'view'), async (req: Request, res: Response) => {
     try {
       const licenseId = parseInt(req.params.id);
       const assignments = await storage.getLicenseAssignments(licenseId);
@@ -1064,7 +1279,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Assign a license seat
-  app.post("/api/licenses/:id/assign", async (req: Request, res: Response) => {
+  app.post("/api/licenses/:id/assign", checkPermission('licenses', 'edit'), async (req: Request, res: Response) => {
     try {
       const licenseId = parseInt(req.params.id);
       const { assignedTo, notes } = req.body;
@@ -1121,7 +1336,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/licenses/:id", async (req: Request, res: Response) => {
+  app.delete("/api/licenses/:id", checkPermission('licenses', 'delete'), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const existingLicense = await storage.getLicense(id);
@@ -1138,7 +1353,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // IT Equipment API
-  app.get("/api/it-equipment", requireAuth, async (req: Request, res: Response) => {
+  app.get("/api/it-equipment", checkPermission('itEquipment', 'view'), async (req: Request, res: Response) => {
     try {
       console.log('IT Equipment API called by user:', req.user?.username);
 
@@ -1177,7 +1392,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/it-equipment/:id", requireAuth, async (req: Request, res: Response) => {
+  app.get("/api/it-equipment/:id", checkPermission('itEquipment', 'view'), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
 
@@ -1215,7 +1430,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/it-equipment", requireAuth, async (req: Request, res: Response) => {
+  app.post("/api/it-equipment", checkPermission('itEquipment', 'add'), async (req: Request, res: Response) => {
     try {
       const equipmentData = req.body;
       console.log('Creating IT equipment with data:', equipmentData);
@@ -1275,7 +1490,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/it-equipment/:id", requireAuth, async (req: Request, res: Response) => {
+  app.patch("/api/it-equipment/:id", checkPermission('itEquipment', 'edit'), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const equipmentData = req.body;
@@ -1335,7 +1550,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/it-equipment/:id", requireAuth, async (req: Request, res: Response) => {
+  app.delete("/api/it-equipment/:id", checkPermission('itEquipment', 'delete'), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
 
@@ -1379,7 +1594,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/it-equipment/import", requireAuth, async (req: Request, res: Response) => {
+  app.post("/api/it-equipment/import", checkPermission('itEquipment', 'add'), async (req: Request, res: Response) => {
     try {
       const { equipment } = req.body;
 
@@ -1457,7 +1672,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // IT Equipment Assignment routes
-  app.get("/api/it-equipment/:id/assignments", requireAuth, async (req: Request, res: Response) => {
+  app.get("/api/it-equipment/:id/assignments", checkPermission('itEquipment', 'view'), async (req: Request, res: Response) => {
     try {
       const equipmentId = parseInt(req.params.id);
 
@@ -1479,7 +1694,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/it-equipment/:id/assign", requireAuth, async (req: Request, res: Response) => {
+  app.post("/api/it-equipment/:id/assign", checkPermission('itEquipment', 'edit'), async (req: Request, res: Response) => {
     try {
       const equipmentId = parseInt(req.params.id);
       const assignmentData = req.body;
@@ -1554,7 +1769,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/it-equipment/bulk-assign", requireAuth, async (req: Request, res: Response) => {
+  app.post("/api/it-equipment/bulk-assign", checkPermission('itEquipment', 'edit'), async (req: Request, res: Response) => {
     try {
       const equipmentId = parseInt(req.params.id);
       const { assignments } = req.body;
@@ -1644,7 +1859,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Remove IT equipment assignment
-  app.delete("/api/it-equipment/assignments/:assignmentId", requireAuth, async (req: Request, res: Response) => {
+  app.delete("/api/it-equipment/assignments/:assignmentId", checkPermission('itEquipment', 'delete'), async (req: Request, res: Response) => {
     try {
       const assignmentId = parseInt(req.params.assignmentId);
 
@@ -1704,9 +1919,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Dashboard stats: aggregate counts only, so every signed-in user may read them
+  app.get("/api/stats", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const stats = await storage.getAssetStats();
+      return res.json(stats);
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
+
   // Activities API
-  app.get("/api/activities", async (req: Request, res: Response) => {
+  app.get("/api/activities", requireAuth, async (req: Request, res: Response) => {
     try {
+      if (isListQuery(req.query)) {
+        const query = parseListQuery(req.query, { fields: Object.keys(getTableColumns(schema.activities)), defaultSort: '-timestamp' });
+        return res.json(await storage.getActivitiesPage(query));
+      }
+
       const activities = await storage.getActivities();
       return res.json(activities);
     } catch (err) {
@@ -1714,7 +1944,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/users/:id/activities", async (req: Request, res: Response) => {
+  app.get("/api/users/:id/activities", checkPermission('users', 'view'), async (req: Request, res: Response) => {
     try {
       const userId = parseInt(req.params.id);
       const user = await storage.getUser(userId);
@@ -1729,7 +1959,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/assets/:id/activities", async (req: Request, res: Response) => {
+  app.get("/api/assets/:id/activities", checkPermission('assets', 'view'), async (req: Request, res: Response) => {
     try {
       const assetId = parseInt(req.params.id);
       const asset = await storage.getAsset(assetId);
@@ -1792,7 +2022,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/components/:id", async (req: Request, res: Response) => {
+  app.patch("/api/components/:id", checkPermission('components', 'edit'), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const updates = req.body;
@@ -1819,7 +2049,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/components/:id", async (req: Request, res: Response) => {
+  app.delete("/api/components/:id", checkPermission('components', 'delete'), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const existingComponent = await storage.getComponent(id);
@@ -1845,212 +2075,447 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // VM Monitoring API - Add or update VM monitoring data
-  app.post("/api/vm-monitoring", async (req: Request, res: Response) => {
-    try {
-      const monitoringData = insertVMMonitoringSchema.parse(req.body);
+  // Forms and CSV imports send quantity as a string
+  const withNumericQuantity = (body: any) =>
+    body && typeof body.quantity === 'string' && body.quantity.trim() !== ''
+      ? { ...body, quantity: parseInt(body.quantity, 10) }
+      : body;
 
-      // Check if VM monitoring data already exists
-      const existingData = await storage.getVMMonitoringByVMId(monitoringData.vmId);
+  // Accessories API
+  app.get("/api/accessories", checkPermission('accessories', 'view'), async (req: Request, res: Response) => {
+    try {
+      const accessories = await storage.getAccessories();
+      return res.json(accessories);
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
 
-      let result;
-      if (existingData) {
-        // Update existing data
-        result = await storage.updateVMMonitoring(existingData.id, monitoringData);
-      } else {
-        // Create new data
-        result = await storage.createVMMonitoring(monitoringData);
+  app.get("/api/accessories/:id", checkPermission('accessories', 'view'), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const accessory = await storage.getAccessory(id);
+      if (!accessory) {
+        return res.status(404).json({ message: "Accessory not found" });
       }
-
-      return res.status(201).json(result);
+      return res.json(accessory);
     } catch (err) {
       return handleError(err, res);
     }
   });
 
-  // VM Monitoring API - Manual sync with Zabbix
-  app.post("/api/vm-monitoring/sync", async (req: Request, res: Response) => {
+  app.post("/api/accessories", checkPermission('accessories', 'add'), async (req: Request, res: Response) => {
     try {
-      const settings = await storage.getZabbixSettings();
-      if (!settings || !settings.url || !settings.username || !settings.password) {
-        return res.status(400).json({ message: "Zabbix connection not configured" });
-      }
+      const accessoryData = insertAccessorySchema.parse(withNumericQuantity(req.body));
+      const accessory = await storage.createAccessory(accessoryData);
 
-      // Authenticate with Zabbix API
-      const authResponse = await fetch(settings.url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          jsonrpc: '2.0',
-          method: 'user.login',
-          params: {
-            user: settings.username,
-            password: settings.password
-          },
-          id: 1
-        })
+      // Log activity
+      await storage.createActivity({
+        action: "create",
+        itemType: "accessory",
+        itemId: accessory.id,
+        userId: req.user.id,
+        timestamp: new Date().toISOString(),
+        notes: `Accessory "${accessory.name}" created`,
       });
 
-      const authData = await authResponse.json();
-      if (authData.error) {
-        throw new Error(`Zabbix authentication failed: ${authData.error.message}`);
-      }
-
-      const authToken = authData.result;
-
-      // Get hosts to sync
-      const hostsResponse = await fetch(settings.url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          jsonrpc: '2.0',
-          method: 'host.get',
-          params: {
-            output: ['hostid', 'host', 'name', 'status', 'available'],
-            selectItems: ['key_', 'lastvalue', 'units'],
-            selectInterfaces: ['ip'],
-            filter: {
-              status: 0 // Only enabled hosts
-            }
-          },
-          auth: authToken,
-          id: 2
-        })
-      });
+      return res.status(201).json(accessory);
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
 
-      const hostsData = await hostsResponse.json();
-      if (hostsData.error) {
-        throw new Error(`Failed to fetch hosts: ${hostsData.error.message}`);
+  app.patch("/api/accessories/:id", checkPermission('accessories', 'edit'), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existingAccessory = await storage.getAccessory(id);
+      if (!existingAccessory) {
+        return res.status(404).json({ message: "Accessory not found" });
       }
 
-      let syncedCount = 0;
-
-      // Process and store VM monitoring data
-      for (const host of hostsData.result) {
-        try {
-          const cpuItem = host.items?.find((item: any) =>
-            item.key_.includes('system.cpu.util') || item.key_.includes('cpu.usage')
-          );
-          const memoryItem = host.items?.find((item: any) =>
-            item.key_.includes('memory.util') || item.key_.includes('vm.memory.util')
-          );
-          const diskItem = host.items?.find((item: any) =>
-            item.key_.includes('vfs.fs.size') && item.key_.includes('pfree')
-          );
-          const uptimeItem = host.items?.find((item: any) =>
-            item.key_.includes('system.uptime')
-          );
-
-          const vmData = {
-            vmId: parseInt(host.hostid),
-            hostname: host.name,
-            ipAddress: host.interfaces?.[0]?.ip || host.host,
-            status: getVMStatusFromZabbix(host.available),
-            cpuUsage: cpuItem ? parseFloat(cpuItem.lastvalue) : null,
-            memoryUsage: memoryItem ? parseFloat(memoryItem.lastvalue) : null,
-            diskUsage: diskItem ? (100 - parseFloat(diskItem.lastvalue)) : null,
-            uptime: uptimeItem ? parseInt(uptimeItem.lastvalue) : null,
-            networkStatus: host.available === '1' ? 'up' : 'down',
-            updatedAt: new Date().toISOString()
-          };
+      const updateData = insertAccessorySchema.partial().parse(withNumericQuantity(req.body));
+      const accessory = await storage.updateAccessory(id, updateData);
 
-          // Check if VM monitoring data already exists
-          const existingData = await storage.getVMMonitoringByVMId(parseInt(host.hostid));
+      // Log activity
+      await storage.createActivity({
+        action: "update",
+        itemType: "accessory",
+        itemId: id,
+        userId: req.user.id,
+        timestamp: new Date().toISOString(),
+        notes: `Accessory "${accessory?.name}" updated`,
+      });
 
-          if (existingData) {
-            await storage.updateVMMonitoring(existingData.id, vmData);
-          } else {
-            await storage.createVMMonitoring(vmData);
-          }
+      return res.json(accessory);
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
 
-          syncedCount++;
-        } catch (vmError) {
-          console.error(`Error syncing VM ${host.name}:`, vmError);
-        }
+  app.delete("/api/accessories/:id", checkPermission('accessories', 'delete'), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existingAccessory = await storage.getAccessory(id);
+      if (!existingAccessory) {
+        return res.status(404).json({ message: "Accessory not found" });
       }
 
+      await storage.deleteAccessory(id);
+
       // Log activity
       await storage.createActivity({
-        action: "sync",
-        itemType: "vm-monitoring",
-        itemId: 1,
-        userId: req.user?.id || 1,
+        action: "delete",
+        itemType: "accessory",
+        itemId: id,
+        userId: req.user.id,
         timestamp: new Date().toISOString(),
-        notes: `Synchronized ${syncedCount} VMs from Zabbix`,
+        notes: `Accessory "${existingAccessory.name}" deleted`,
       });
 
-      return res.json({
-        success: true,
-        message: `Sync completed successfully. Synchronized ${syncedCount} VMs.`,
-        count: syncedCount
-      });
+      return res.json({ message: "Accessory deleted successfully" });
     } catch (err) {
-      console.error('VM sync error:', err);
       return handleError(err, res);
     }
   });
 
-  // Helper function to convert Zabbix availability to VM status
-  function getVMStatusFromZabbix(available: string | number): string {
-    const statusMap: { [key: string]: string } = {
-      '0': 'unknown',
-      '1': 'running',
-      '2': 'stopped'
-    };
-    return statusMap[available.toString()] || 'unknown';
-  }
-
-  // Network Discovery API - Get all discovered hosts
-  app.get("/api/network-discovery/hosts", async (req: Request, res: Response) => {
+  app.post("/api/accessories/:id/checkout", checkPermission('accessories', 'edit'), async (req: Request, res: Response) => {
     try {
-      const hosts = await storage.getDiscoveredHosts();
-      return res.json(hosts);
+      const id = parseInt(req.params.id);
+      const { quantity, userId, knoxId, releasedBy, notes } = req.body;
+
+      if (userId) {
+        const user = await storage.getUser(parseInt(userId));
+        if (!user) {
+          return res.status(404).json({ message: "User not found" });
+        }
+      }
+
+      const borrowed = await checkoutAccessory(id, {
+        quantity,
+        assignedTo: userId ? parseInt(userId) : null,
+        knoxId,
+        releasedBy: releasedBy || req.user.username,
+        notes,
+      });
+      if (!borrowed) {
+        return res.status(404).json({ message: "Accessory not found" });
+      }
+
+      // Log activity
+      await storage.createActivity({
+        action: "checkout",
+        itemType: "accessory",
+        itemId: borrowed.id,
+        userId: req.user.id,
+        timestamp: new Date().toISOString(),
+        notes: `${borrowed.quantity} x "${borrowed.name}" checked out to ${borrowed.knoxId || `user ${borrowed.assignedTo}`}` +
+          ` by ${borrowed.releasedBy}`,
+      });
+
+      return res.json(borrowed);
     } catch (err) {
       return handleError(err, res);
     }
   });
 
-  // Network Discovery API - Get specific discovered host
-  app.get("/api/network-discovery/hosts/:id", async (req: Request, res: Response) => {
+  app.post("/api/accessories/:id/return", checkPermission('accessories', 'edit'), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
-      const host = await storage.getDiscoveredHost(id);
+      const { returnedTo, notes } = req.body;
 
-      if (!host) {
-        return res.status(404).json({ message: "Discovered host not found" });
+      const accessory = await returnAccessory(id, { returnedTo: returnedTo || req.user.username, notes });
+      if (!accessory) {
+        return res.status(404).json({ message: "Accessory not found" });
       }
 
-      return res.json(host);
+      // Log activity
+      await storage.createActivity({
+        action: "checkin",
+        itemType: "accessory",
+        itemId: id,
+        userId: req.user.id,
+        timestamp: new Date().toISOString(),
+        notes: `${accessory.quantity} x "${accessory.name}" returned by ${accessory.knoxId || 'borrower'} to ${accessory.returnedTo}`,
+      });
+
+      return res.json(accessory);
     } catch (err) {
       return handleError(err, res);
     }
   });
 
-  // Network Discovery API - Create discovered host
-  app.post("/api/network-discovery/hosts", async (req: Request, res: Response) => {
+  // Consumables API
+  app.get("/api/consumables", checkPermission('consumables', 'view'), async (req: Request, res: Response) => {
     try {
-      const hostData = insertDiscoveredHostSchema.parse(req.body);
-      const host = await storage.createDiscoveredHost(hostData);
-      return res.status(201).json(host);
+      const consumables = await storage.getConsumables();
+      return res.json(consumables);
     } catch (err) {
       return handleError(err, res);
     }
   });
 
-  // Network Discovery API - Update discovered host
-  app.patch("/api/network-discovery/hosts/:id", async (req: Request, res: Response) => {
+  app.get("/api/consumables/:id", checkPermission('consumables', 'view'), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
-      const host = await storage.getDiscoveredHost(id);
-
-      if (!host) {
-        return res.status(404).json({ message: "Discovered host not found" });
+      const consumable = await storage.getConsumable(id);
+      if (!consumable) {
+        return res.status(404).json({ message: "Consumable not found" });
       }
-
+      return res.json(consumable);
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
+
+  app.post("/api/consumables", checkPermission('consumables', 'add'), async (req: Request, res: Response) => {
+    try {
+      const consumableData = insertConsumableSchema.parse(withNumericQuantity(req.body));
+      const consumable = await storage.createConsumable(consumableData);
+
+      // Log activity
+      await storage.createActivity({
+        action: "create",
+        itemType: "consumable",
+        itemId: consumable.id,
+        userId: req.user.id,
+        timestamp: new Date().toISOString(),
+        notes: `Consumable "${consumable.name}" created`,
+      });
+
+      return res.status(201).json(consumable);
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
+
+  app.patch("/api/consumables/:id", checkPermission('consumables', 'edit'), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existingConsumable = await storage.getConsumable(id);
+      if (!existingConsumable) {
+        return res.status(404).json({ message: "Consumable not found" });
+      }
+
+      const updateData = insertConsumableSchema.partial().parse(withNumericQuantity(req.body));
+      const consumable = await storage.updateConsumable(id, updateData);
+
+      // Log activity
+      await storage.createActivity({
+        action: "update",
+        itemType: "consumable",
+        itemId: id,
+        userId: req.user.id,
+        timestamp: new Date().toISOString(),
+        notes: `Consumable "${consumable?.name}" updated`,
+      });
+
+      return res.json(consumable);
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
+
+  app.delete("/api/consumables/:id", checkPermission('consumables', 'delete'), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existingConsumable = await storage.getConsumable(id);
+      if (!existingConsumable) {
+        return res.status(404).json({ message: "Consumable not found" });
+      }
+
+      await storage.deleteConsumable(id);
+
+      // Log activity
+      await storage.createActivity({
+        action: "delete",
+        itemType: "consumable",
+        itemId: id,
+        userId: req.user.id,
+        timestamp: new Date().toISOString(),
+        notes: `Consumable "${existingConsumable.name}" deleted`,
+      });
+
+      return res.json({ message: "Consumable deleted successfully" });
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
+
+  // VM Monitoring API - Add or update VM monitoring data
+  app.post("/api/vm-monitoring", checkPermission('vmMonitoring', 'add'), async (req: Request, res: Response) => {
+    try {
+      const monitoringData = insertVMMonitoringSchema.parse(req.body);
+
+      // Check if VM monitoring data already exists
+      const existingData = await storage.getVMMonitoringByVMId(monitoringData.vmId);
+
+      let result;
+      if (existingData) {
+        // Update existing data
+        result = await storage.updateVMMonitoring(existingData.id, monitoringData);
+      } else {
+        // Create new data
+        result = await storage.createVMMonitoring(monitoringData);
+      }
+      await recordVmMetricSample(monitoringData.vmId, monitoringData);
+
+      return res.status(201).json(result);
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
+
+  // Zabbix connection; password and API token are write-only and come back as SECRET_SET_MARKER
+  app.get("/api/zabbix/settings", checkPermission('vmMonitoring', 'view'), async (req: Request, res: Response) => {
+    try {
+      const settings = await storage.getZabbixSettings();
+      if (!settings) {
+        return res.status(404).json({ message: "Zabbix connection not configured" });
+      }
+      return res.json(redactSecrets(settings, SECRET_FIELDS.zabbixSettings));
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
+
+  app.post("/api/zabbix/settings", checkPermission('vmMonitoring', 'edit'), async (req: Request, res: Response) => {
+    try {
+      const { url, username, password, apiToken, autoSync, syncInterval } = req.body || {};
+      if (typeof url !== 'string' || !url.trim()) {
+        return res.status(400).json({ message: "Zabbix URL is required" });
+      }
+      const isPositiveInteger = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 1;
+      if (syncInterval !== undefined && !isPositiveInteger(syncInterval)) {
+        return res.status(400).json({ message: "Sync interval must be a whole number of minutes, at least 1" });
+      }
+      const { metricsRawRetentionDays, metricsFiveMinuteRetentionDays, metricsHourlyRetentionDays } = req.body;
+      for (const value of [metricsRawRetentionDays, metricsFiveMinuteRetentionDays, metricsHourlyRetentionDays]) {
+        if (value !== undefined && !isPositiveInteger(value)) {
+          return res.status(400).json({ message: "Metric retention must be a whole number of days, at least 1" });
+        }
+      }
+
+      const stored = await storage.getZabbixSettings();
+      const settings = await storage.saveZabbixSettings(sealSecrets({
+        url: url.trim(),
+        username: typeof username === 'string' ? username.trim() : '',
+        password,
+        apiToken,
+        autoSync: autoSync !== false,
+        syncInterval: syncInterval ?? 60,
+        lastSync: stored?.lastSync ?? null,
+        metricsRawRetentionDays: metricsRawRetentionDays ?? stored?.metricsRawRetentionDays,
+        metricsFiveMinuteRetentionDays: metricsFiveMinuteRetentionDays ?? stored?.metricsFiveMinuteRetentionDays,
+        metricsHourlyRetentionDays: metricsHourlyRetentionDays ?? stored?.metricsHourlyRetentionDays,
+      }, stored, SECRET_FIELDS.zabbixSettings));
+      await rescheduleZabbixSync();
+      return res.json(redactSecrets(settings, SECRET_FIELDS.zabbixSettings));
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
+
+  // VM Monitoring API - Manual sync with Zabbix; the same run the background worker does
+  app.post("/api/vm-monitoring/sync", checkPermission('vmMonitoring', 'edit'), async (req: Request, res: Response) => {
+    try {
+      const run = await runZabbixSync('manual', { userId: req.user?.id ?? null });
+      await rescheduleZabbixSync();
+
+      return res.json({
+        success: run.status !== 'failed',
+        message: `Sync completed. Updated ${run.hostsUpdated} of ${run.hostsSeen} VMs` +
+          (run.errors?.length ? `, ${run.errors.length} failed.` : '.'),
+        count: run.hostsUpdated,
+        run,
+      });
+    } catch (err) {
+      if (err instanceof ZabbixSyncError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      console.error('VM sync error:', err);
+      return handleError(err, res);
+    }
+  });
+
+  // Background sync schedule, backoff state and recent run history
+  app.get("/api/zabbix/sync/status", checkPermission('vmMonitoring', 'view'), async (req: Request, res: Response) => {
+    try {
+      return res.json(await getZabbixSyncStatus());
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
+
+  // Usage history for one host; resolution defaults to the finest one covering the range
+  app.get("/api/vm-monitoring/:vmId/metrics", checkPermission('vmMonitoring', 'view'), async (req: Request, res: Response) => {
+    try {
+      const vmId = parseInt(req.params.vmId);
+      if (isNaN(vmId)) {
+        return res.status(400).json({ message: "Invalid VM ID" });
+      }
+      const to = req.query.to ? new Date(req.query.to as string) : new Date();
+      const from = req.query.from ? new Date(req.query.from as string) : new Date(to.getTime() - 24 * 60 * 60 * 1000);
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+        return res.status(400).json({ message: "from and to must be valid dates with from before to" });
+      }
+      const resolution = req.query.resolution as MetricResolution | undefined;
+      if (resolution && !METRIC_RESOLUTIONS.includes(resolution)) {
+        return res.status(400).json({ message: `Resolution must be one of ${METRIC_RESOLUTIONS.join(', ')}` });
+      }
+
+      return res.json(await getVmMetricSeries(vmId, from, to, resolution));
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
+
+  // Network Discovery API - Get all discovered hosts
+  app.get("/api/network-discovery/hosts", checkPermission('networkDiscovery', 'view'), async (req: Request, res: Response) => {
+    try {
+      const hosts = await storage.getDiscoveredHosts();
+      return res.json(hosts);
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
+
+  // Network Discovery API - Get specific discovered host
+  app.get("/api/network-discovery/hosts/:id", checkPermission('networkDiscovery', 'view'), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const host = await storage.getDiscoveredHost(id);
+
+      if (!host) {
+        return res.status(404).json({ message: "Discovered host not found" });
+      }
+
+      return res.json(host);
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
+
+  // Network Discovery API - Create discovered host
+  app.post("/api/network-discovery/hosts", checkPermission('networkDiscovery', 'add'), async (req: Request, res: Response) => {
+    try {
+      const hostData = insertDiscoveredHostSchema.parse(req.body);
+      const host = await storage.createDiscoveredHost(hostData);
+      return res.status(201).json(host);
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
+
+  // Network Discovery API - Update discovered host
+  app.patch("/api/network-discovery/hosts/:id", checkPermission('networkDiscovery', 'edit'), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const host = await storage.getDiscoveredHost(id);
+
+      if (!host) {
+        return res.status(404).json({ message: "Discovered host not found" });
+      }
+
       const updateData = insertDiscoveredHostSchema.partial().parse(req.body);
       const updatedHost = await storage.updateDiscoveredHost(id, updateData);
 
@@ -2061,7 +2526,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Network Discovery API - Delete discovered host
-  app.delete("/api/network-discovery/hosts/:id", async (req: Request, res: Response) => {
+  app.delete("/api/network-discovery/hosts/:id", checkPermission('networkDiscovery', 'delete'), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const host = await storage.getDiscoveredHost(id);
@@ -2078,7 +2543,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Network Discovery API - Initiate network scan
-  app.post("/api/network-discovery/scan", async (req: Request, res: Response) => {
+  app.post("/api/network-discovery/scan", checkPermission('networkDiscovery', 'add'), async (req: Request, res: Response) => {
     try {
       const {
         ipRange,
@@ -2144,13 +2609,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         startTime: new Date().toISOString()
       };
 
-      // Start actual network scanning in background
-      startNetworkScan(ipRange, scanDetails, storage);
+      if (getCurrentScan()?.status === 'running') {
+        return res.status(409).json({ message: "A network scan is already running", scan: getCurrentScan() });
+      }
+
+      let scan;
+      try {
+        // Probing runs in the background; progress is pushed over /ws
+        scan = await startNetworkScan(ipRange, scanDetails, storage);
+      } catch (scanError: any) {
+        return res.status(400).json({ message: scanError.message });
+      }
 
       // Send immediate response to the client
       return res.json({
         success: true,
         message: "Real network scan initiated. This may take several minutes to complete.",
+        scanId: scan.scanId,
+        scan,
         scanDetails
       });
     } catch (err) {
@@ -2158,8 +2634,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Network Discovery API - Status of the current or most recent scan
+  app.get("/api/network-discovery/scan", checkPermission('networkDiscovery', 'view'), async (req: Request, res: Response) => {
+    return res.json({ scan: getCurrentScan() });
+  });
+
   // Network Discovery API - Import discovered host as asset
-  app.post("/api/network-discovery/hosts/:id/import", async (req: Request, res: Response) => {
+  app.post("/api/network-discovery/hosts/:id/import", checkPermission('assets', 'add'), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const host = await storage.getDiscoveredHost(id);
@@ -2209,7 +2690,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Bitlocker Keys API endpoints
-  app.get("/api/bitlocker-keys", async (req: Request, res: Response) => {
+  app.get("/api/bitlocker-keys", checkPermission('bitlockerKeys', 'view'), async (req: Request, res: Response) => {
     try {
       console.log('Fetching BitLocker keys...');
 
@@ -2217,14 +2698,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const keys = await storage.getBitlockerKeys();
 
       console.log(`Found ${keys.length} BitLocker keys`);
-      return res.json(keys);
+      // Recovery keys are only ever returned in full by the reveal endpoint
+      return res.json(keys.map(toMaskedBitlockerKey));
     } catch (err) {
       console.error('Error fetching BitLocker keys:', err);
       return handleError(err, res);
     }
   });
 
-  app.get("/api/bitlocker-keys/:id", async (req: Request, res: Response) => {
+  // Who revealed which recovery key and when; ?keyId= narrows it to one key
+  app.get("/api/bitlocker-keys/access-log", checkPermission('bitlockerKeys', 'view'), async (req: Request, res: Response) => {
+    try {
+      const keyId = req.query.keyId ? parseInt(String(req.query.keyId)) : undefined;
+      if (keyId !== undefined && isNaN(keyId)) {
+        return res.status(400).json({ message: "keyId must be a number" });
+      }
+      return res.json(await storage.getBitlockerAccessLogs(keyId));
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
+
+  app.get("/api/bitlocker-keys/:id", checkPermission('bitlockerKeys', 'view'), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const key = await storage.getBitlockerKey(id);
@@ -2233,33 +2728,96 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Bitlocker key not found" });
       }
 
-      return res.json(key);
+      return res.json(toMaskedBitlockerKey(key));
     } catch (err) {
       return handleError(err, res);
     }
   });
 
-  app.get("/api/bitlocker-keys/search/serial/:serialNumber", async (req: Request, res: Response) => {
+  app.get("/api/bitlocker-keys/search/serial/:serialNumber", checkPermission('bitlockerKeys', 'view'), async (req: Request, res: Response) => {
     try {
       const serialNumber = req.params.serialNumber;
       const keys = await storage.getBitlockerKeyBySerialNumber(serialNumber);
-      return res.json(keys);
+      return res.json(keys.map(toMaskedBitlockerKey));
     } catch (err) {
       return handleError(err, res);
     }
   });
 
-  app.get("/api/bitlocker-keys/search/identifier/:identifier", async (req: Request, res: Response) => {
+  app.get("/api/bitlocker-keys/search/identifier/:identifier", checkPermission('bitlockerKeys', 'view'), async (req: Request, res: Response) => {
     try {
       const identifier = req.params.identifier;
       const keys = await storage.getBitlockerKeyByIdentifier(identifier);
-      return res.json(keys);
+      return res.json(keys.map(toMaskedBitlockerKey));
     } catch (err) {
       return handleError(err, res);
     }
   });
 
-  app.post("/api/bitlocker-keys", async (req: Request, res: Response) => {
+  // Decrypt one recovery key for the caller; every reveal is written to the access log first
+  app.post("/api/bitlocker-keys/:id/reveal", checkPermission('bitlockerKeys', 'view'), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() : '';
+      if (!reason) {
+        return res.status(400).json({ message: "A reason is required to reveal a recovery key" });
+      }
+      if (reason.length > 500) {
+        return res.status(400).json({ message: "The reason must be 500 characters or fewer" });
+      }
+
+      const key = await storage.getBitlockerKey(id);
+      if (!key) {
+        return res.status(404).json({ message: "Bitlocker key not found" });
+      }
+
+      // A password is checked whenever one is sent, and required when the setting asks for it.
+      // Wrong passwords count towards the same lockout as failed logins.
+      const settings = await storage.getSystemSettings();
+      const password = req.body?.password;
+      if (settings?.requirePasswordForKeyReveal || password !== undefined) {
+        const policy = await getPasswordPolicy();
+        const ip = req.ip || req.socket.remoteAddress || 'unknown';
+        const lockout = getLoginLockout(req.user.username, ip, policy);
+        if (lockout) {
+          return res.status(423).json({ message: describeLockout(lockout), lockedUntil: lockout.lockedUntil.toISOString() });
+        }
+
+        const user = await storage.getUser(req.user.id);
+        const { valid } = await verifyPassword(String(password ?? ''), user?.password);
+        if (!valid) {
+          const triggered = password === undefined ? null : recordFailedLogin(req.user.username, ip, policy);
+          if (triggered) {
+            console.log(`🔒 ${req.user.username} locked after repeated wrong passwords on BitLocker key reveal`);
+            return res.status(423).json({ message: describeLockout(triggered), lockedUntil: triggered.lockedUntil.toISOString() });
+          }
+          return res.status(403).json({
+            message: password === undefined ? "Enter your password to reveal recovery keys" : "Password is incorrect",
+            passwordRequired: true,
+          });
+        }
+        clearFailedLogins(req.user.username);
+      }
+
+      const recoveryKey = openRecoveryKey(key.recoveryKey);
+      const entry = await storage.createBitlockerAccessLog({
+        keyId: key.id,
+        serialNumber: key.serialNumber,
+        identifier: key.identifier,
+        userId: req.user.id,
+        username: req.user.username,
+        reason,
+        ipAddress: req.ip || null,
+      });
+      console.log(`🔓 BitLocker key ${key.id} (${key.serialNumber}) revealed to ${req.user.username}`);
+
+      return res.json({ id: key.id, recoveryKey, revealedAt: entry.revealedAt });
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
+
+  app.post("/api/bitlocker-keys", checkPermission('bitlockerKeys', 'add'), async (req: Request, res: Response) => {
     try {
       const { insertBitlockerKeySchema } = schema;
       const data = insertBitlockerKeySchema.parse(req.body);
@@ -2267,7 +2825,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log('Creating BitLocker key:', data.serialNumber);
 
       // Use the unified storage layer which handles both DB and memory fallback
-      const key = await storage.createBitlockerKey(data);
+      const key = await storage.createBitlockerKey({ ...data, recoveryKey: sealRecoveryKey(data.recoveryKey) });
 
       console.log('BitLocker key created successfully:', key.id);
 
@@ -2285,7 +2843,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.warn('Failed to create activity log:', activityError);
       }
 
-      return res.status(201).json(key);
+      return res.status(201).json(toMaskedBitlockerKey(key));
     } catch (err) {
       console.error('Error creating BitLocker key:', err);
 
@@ -2302,24 +2860,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/bitlocker-keys/:id", async (req: Request, res: Response) => {
+  app.patch("/api/bitlocker-keys/:id", checkPermission('bitlockerKeys', 'edit'), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const { insertBitlockerKeySchema } = schema;
       const updateData = insertBitlockerKeySchema.partial().parse(req.body);
+      if (updateData.recoveryKey !== undefined) {
+        updateData.recoveryKey = sealRecoveryKey(updateData.recoveryKey);
+      }
       const key = await storage.updateBitlockerKey(id, updateData);
 
       if (!key) {
         return res.status(404).json({ message: "Bitlocker key not found" });
       }
 
-      return res.json(key);
+      return res.json(toMaskedBitlockerKey(key));
     } catch (err) {
       return handleError(err, res);
     }
   });
 
-  app.delete("/api/bitlocker-keys/:id", async (req: Request, res: Response) => {
+  app.delete("/api/bitlocker-keys/:id", checkPermission('bitlockerKeys', 'delete'), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const result = await storage.deleteBitlockerKey(id);
@@ -2335,7 +2896,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // IAM Accounts routes
-  app.get("/api/iam-accounts", async (req: Request, res: Response) => {
+  // Map database fields to frontend expected format
+  const mapIamAccount = (account: schema.IamAccount) => ({
+    id: account.id,
+    requestor: account.requestor,
+    knoxId: account.knoxId,
+    permission: account.permission,
+    durationStartDate: account.durationStartDate,
+    durationEndDate: account.durationEndDate,
+    cloudPlatform: account.cloudPlatform,
+    projectAccounts: account.projectAccounts,
+    approvalId: account.approvalId,
+    remarks: account.remarks,
+    status: account.status,
+    lastNotifiedAt: account.lastNotifiedAt,
+    createdAt: account.createdAt?.toISOString() || new Date().toISOString(),
+    updatedAt: account.updatedAt?.toISOString() || new Date().toISOString()
+  });
+
+  app.get("/api/iam-accounts", checkPermission('iamAccounts', 'view'), async (req: Request, res: Response) => {
     try {
       console.log('Fetching IAM accounts...');
 
@@ -2348,27 +2927,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      if (isListQuery(req.query)) {
+        const query = parseListQuery(req.query, { fields: Object.keys(getTableColumns(schema.iamAccounts)), defaultSort: 'id' });
+        const result = await storage.getIamAccountsPage(query);
+        return res.json({ ...result, data: result.data.map(mapIamAccount) });
+      }
+
       // Fetch directly from database to ensure we get the data
       const accounts = await db.select().from(schema.iamAccounts).orderBy(schema.iamAccounts.id);
 
       console.log(`Found ${accounts.length} IAM accounts in database`);
 
-      // Map database fields to frontend expected format
-      const mappedAccounts = accounts.map(account => ({
-        id: account.id,
-        requestor: account.requestor,
-        knoxId: account.knoxId,
-        permission: account.permission,
-        durationStartDate: account.durationStartDate,
-        durationEndDate: account.durationEndDate,
-        cloudPlatform: account.cloudPlatform,
-        projectAccounts: account.projectAccounts,
-        approvalId: account.approvalId,
-        remarks: account.remarks,
-        status: account.status,
-        createdAt: account.createdAt?.toISOString() || new Date().toISOString(),
-        updatedAt: account.updatedAt?.toISOString() || new Date().toISOString()
-      }));
+      const mappedAccounts = accounts.map(mapIamAccount);
 
       console.log(`Returning ${mappedAccounts.length} mapped IAM accounts to frontend`);
       console.log('Sample account:', mappedAccounts[0] || 'No accounts');
@@ -2376,6 +2946,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Ensure we return a proper JSON response
       return res.status(200).json(mappedAccounts);
     } catch (err) {
+      if (err instanceof ListQueryError) {
+        return res.status(400).json({ message: err.message, data: [] });
+      }
       console.error("Error fetching IAM accounts:", err);
       return res.status(500).json({
         message: "Failed to fetch IAM accounts",
@@ -2385,7 +2958,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/iam-accounts", async (req: Request, res: Response) => {
+  app.post("/api/iam-accounts", checkPermission('iamAccounts', 'add'), async (req: Request, res: Response) => {
     try {
       const accountData = req.body;
       console.log('Creating IAM account with data:', accountData);
@@ -2415,7 +2988,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/iam-accounts/:id", async (req: Request, res: Response) => {
+  app.put("/api/iam-accounts/:id", checkPermission('iamAccounts', 'edit'), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const accountData = req.body;
@@ -2446,7 +3019,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/iam-accounts/:id", async (req: Request, res: Response) => {
+  app.delete("/api/iam-accounts/:id", checkPermission('iamAccounts', 'delete'), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       console.log(`DELETE request received for IAM account ID: ${id}`);
@@ -2480,7 +3053,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/iam-accounts/import", async (req: Request, res: Response) => {
+  app.post("/api/iam-accounts/import", checkPermission('iamAccounts', 'add'), async (req: Request, res: Response) => {
     try {
       const { accounts } = req.body;
 
@@ -2529,6 +3102,74 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // IAM expiry lifecycle (also runs daily in the background)
+  app.get("/api/iam-accounts/lifecycle", checkPermission('iamAccounts', 'view'), async (req: Request, res: Response) => {
+    return res.json(getLastIamLifecycleSweep());
+  });
+
+  app.post("/api/iam-accounts/lifecycle", checkPermission('iamAccounts', 'edit'), async (req: Request, res: Response) => {
+    try {
+      const result = await runIamLifecycleSweep();
+      return res.json(result);
+    } catch (err) {
+      if (err.message === "An IAM lifecycle sweep is already running") {
+        return res.status(409).json({ message: err.message });
+      }
+      return handleError(err, res);
+    }
+  });
+
+  // Expired accounts whose access still has to be removed, per cloud platform
+  app.get("/api/iam-accounts/worklist", checkPermission('iamAccounts', 'view'), async (req: Request, res: Response) => {
+    try {
+      if (!db) {
+        return res.status(503).json({ message: "Database not available" });
+      }
+      return res.json(await getAccessRemovalWorklist());
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
+
+  app.post("/api/iam-accounts/:id/extend", checkPermission('iamAccounts', 'edit'), async (req: Request, res: Response) => {
+    try {
+      if (!db) {
+        return res.status(503).json({ message: "Database not available" });
+      }
+      const id = parseInt(req.params.id);
+      const { approvalId, endDate, reason } = req.body || {};
+      if (typeof approvalId !== 'string' || typeof endDate !== 'string') {
+        return res.status(400).json({ message: "approvalId and endDate must be strings" });
+      }
+      if (reason !== undefined && reason !== null && typeof reason !== 'string') {
+        return res.status(400).json({ message: "reason must be a string" });
+      }
+
+      const account = await extendIamAccount(id, { approvalId, endDate, reason }, req.user?.id ?? null);
+      if (!account) {
+        return res.status(404).json({ message: "IAM account not found" });
+      }
+      return res.json(account);
+    } catch (err) {
+      if (err instanceof IamExtensionError) {
+        return res.status(400).json({ message: err.message });
+      }
+      return handleError(err, res);
+    }
+  });
+
+  app.get("/api/iam-accounts/:id/extensions", checkPermission('iamAccounts', 'view'), async (req: Request, res: Response) => {
+    try {
+      if (!db) {
+        return res.status(503).json({ message: "Database not available" });
+      }
+      const id = parseInt(req.params.id);
+      return res.json(await getIamAccountExtensions(id));
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
+
 
   // Helper function to format bytes
   function formatBytes(bytes: number, decimals = 2) {
@@ -2577,7 +3218,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   }
 
   // Monitoring Platform API routes
-  app.get("/api/monitoring/dashboards", requireAuth, async (req: Request, res: Response) => {
+  app.get("/api/monitoring/dashboards", checkPermission('vmMonitoring', 'view'), async (req: Request, res: Response) => {
     try {
       if (!db) {
         return res.status(503).json({
@@ -2596,7 +3237,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/monitoring/dashboards", requireAuth, async (req: Request, res: Response) => {
+  app.post("/api/monitoring/dashboards", checkPermission('vmMonitoring', 'add'), async (req: Request, res: Response) => {
     try {
       const dashboardData = req.body;
       const [newDashboard] = await db.insert(schema.monitoringDashboards).values({
@@ -2617,7 +3258,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/monitoring/datasources", requireAuth, async (req: Request, res: Response) => {
+  app.get("/api/monitoring/datasources", checkPermission('vmMonitoring', 'view'), async (req: Request, res: Response) => {
     try {
       if (!db) {
         return res.status(503).json({
@@ -2626,7 +3267,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const datasources = await db.select().from(schema.monitoringDatasources).orderBy(schema.monitoringDatasources.id);
-      res.json(datasources);
+      res.json(datasources.map(datasource => redactSecrets(datasource, SECRET_FIELDS.monitoringDatasources)));
     } catch (error) {
       console.error('Error fetching monitoring datasources:', error);
       res.status(500).json({
@@ -2636,9 +3277,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/monitoring/datasources", requireAuth, async (req: Request, res: Response) => {
+  app.post("/api/monitoring/datasources", checkPermission('vmMonitoring', 'add'), async (req: Request, res: Response) => {
     try {
-      const datasourceData = req.body;
+      const datasourceData = sealSecrets({
+        ...req.body,
+        secureJsonFields: req.body.secureJsonFields ? JSON.stringify(req.body.secureJsonFields) : null,
+      }, null, SECRET_FIELDS.monitoringDatasources);
       const [newDatasource] = await db.insert(schema.monitoringDatasources).values({
         name: datasourceData.name,
         type: datasourceData.type,
@@ -2649,21 +3293,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         basicAuthPassword: datasourceData.basicAuthPassword,
         database: datasourceData.database,
         jsonData: datasourceData.jsonData ? JSON.stringify(datasourceData.jsonData) : null,
-        secureJsonFields: datasourceData.secureJsonFields ? JSON.stringify(datasourceData.secureJsonFields) : null,
+        secureJsonFields: datasourceData.secureJsonFields || null,
         isDefault: datasourceData.isDefault || false,
         status: "pending",
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString()
       }).returning();
 
-      res.status(201).json(newDatasource);
+      res.status(201).json(redactSecrets(newDatasource, SECRET_FIELDS.monitoringDatasources));
     } catch (error) {
       console.error('Error creating monitoring datasource:', error);
       res.status(500).json({ message: "Failed to create datasource" });
     }
   });
 
-  app.get("/api/monitoring/alerts", requireAuth, async (req: Request, res: Response) => {
+  app.get("/api/monitoring/alerts", checkPermission('vmMonitoring', 'view'), async (req: Request, res: Response) => {
     try {
       if (!db) {
         return res.status(503).json({
@@ -2682,9 +3326,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/monitoring/alerts", requireAuth, async (req: Request, res: Response) => {
+  // Every firing of an alert rule, open until the rule resolves
+  app.get("/api/monitoring/alerts/history", checkPermission('vmMonitoring', 'view'), async (req: Request, res: Response) => {
+    try {
+      if (!db) {
+        return res.status(503).json({
+          message: "Database not available. Please configure DATABASE_URL environment variable."
+        });
+      }
+
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+      res.json(await getAlertHistory(limit));
+    } catch (error) {
+      console.error('Error fetching alert history:', error);
+      res.status(500).json({ message: "Failed to fetch alert history" });
+    }
+  });
+
+  app.post("/api/monitoring/alerts", checkPermission('vmMonitoring', 'add'), async (req: Request, res: Response) => {
     try {
       const alertData = req.body;
+
+      try {
+        (alertData.notificationChannels || []).forEach((channel: string) => parseChannel(channel));
+      } catch (channelError: any) {
+        return res.status(400).json({ message: channelError.message });
+      }
+
       const [newAlert] = await db.insert(schema.monitoringAlertRules).values({
         name: alertData.name,
         datasource: alertData.datasource,
@@ -2703,14 +3371,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
         updatedAt: new Date().toISOString()
       }).returning();
 
-      res.status(201).json(newAlert);
+      res.status(201).json(newAlert);
+    } catch (error) {
+      console.error('Error creating monitoring alert:', error);
+      res.status(500).json({ message: "Failed to create alert" });
+    }
+  });
+
+  app.get("/api/monitoring/notifications", checkPermission('vmMonitoring', 'view'), async (req: Request, res: Response) => {
+    try {
+      if (!db) {
+        return res.status(503).json({
+          message: "Database not available. Please configure DATABASE_URL environment variable."
+        });
+      }
+
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+      res.json(await getNotificationLog(limit));
+    } catch (error) {
+      console.error('Error fetching notification log:', error);
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  // Send a one-off message to a channel without retries so the result is immediate
+  app.post("/api/monitoring/notifications/test", checkPermission('vmMonitoring', 'edit'), async (req: Request, res: Response) => {
+    try {
+      if (!db) {
+        return res.status(503).json({
+          message: "Database not available. Please configure DATABASE_URL environment variable."
+        });
+      }
+
+      let channel;
+      try {
+        channel = parseChannel(req.body.channel || '');
+      } catch (channelError: any) {
+        return res.status(400).json({ message: channelError.message });
+      }
+
+      const notification = await sendNotification(channel, {
+        subject: "SRPH-MIS test notification",
+        text: `Test notification sent by ${req.user?.username || 'an administrator'} at ${new Date().toISOString()}.`,
+        severity: "info",
+        state: "test",
+      }, { retry: false });
+
+      const status = notification.status === 'sent' ? 200 : 502;
+      res.status(status).json(notification);
     } catch (error) {
-      console.error('Error creating monitoring alert:', error);
-      res.status(500).json({ message: "Failed to create alert" });
+      console.error('Error sending test notification:', error);
+      res.status(500).json({ message: "Failed to send test notification" });
     }
   });
 
-  app.post("/api/monitoring/panels", requireAuth, async (req: Request, res: Response) => {
+  app.post("/api/monitoring/panels", checkPermission('vmMonitoring', 'add'), async (req: Request, res: Response) => {
     try {
       const panelData = req.body;
       const [newPanel] = await db.insert(schema.monitoringPanels).values({
@@ -2726,7 +3441,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         yPos: panelData.yPos || 0,
         thresholds: JSON.stringify(panelData.thresholds || []),
         unit: panelData.unit,
-        decimals: panelData.decimals || 2,
+        decimals: panelData.decimals ?? 2,
         showLegend: panelData.showLegend !== false,
         colorScheme: panelData.colorScheme || 'default',
         config: JSON.stringify(panelData.config || {}),
@@ -2741,7 +3456,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/monitoring/panels/:id", requireAuth, async (req: Request, res: Response) => {
+  app.put("/api/monitoring/panels/:id", checkPermission('vmMonitoring', 'edit'), async (req: Request, res: Response) => {
     try {
       const panelId = parseInt(req.params.id);
       const panelData = req.body;
@@ -2759,7 +3474,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           yPos: panelData.yPos || 0,
           thresholds: JSON.stringify(panelData.thresholds || []),
           unit: panelData.unit,
-          decimals: panelData.decimals || 2,
+          decimals: panelData.decimals ?? 2,
           showLegend: panelData.showLegend !== false,
           colorScheme: panelData.colorScheme || 'default',
           config: JSON.stringify(panelData.config || {}),
@@ -2779,7 +3494,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/monitoring/panels/:id", requireAuth, async (req: Request, res: Response) => {
+  app.delete("/api/monitoring/panels/:id", checkPermission('vmMonitoring', 'delete'), async (req: Request, res: Response) => {
     try {
       const panelId = parseInt(req.params.id);
 
@@ -2798,7 +3513,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/monitoring/panel-data/:dashboardId", requireAuth, async (req: Request, res: Response) => {
+  app.get("/api/monitoring/panel-data/:dashboardId", checkPermission('vmMonitoring', 'view'), async (req: Request, res: Response) => {
     try {
       const dashboardId = parseInt(req.params.dashboardId);
       const timeRange = req.query.timeRange as string;
@@ -2808,21 +3523,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .from(schema.monitoringPanels)
         .where(eq(schema.monitoringPanels.dashboardId, dashboardId));
 
-      const panelData: { [key: number]: any[] } = {};
+      const panelData: { [key: number]: any[] } & { errors?: { [key: number]: string } } = {};
+      const errors: { [key: number]: string } = {};
 
-      // For each panel, execute its query and return data
-      for (const panel of panels) {
+      // Execute each panel's query against its datasource
+      await Promise.all(panels.map(async (panel) => {
         try {
-          // Here you would normally execute the panel's query against the configured datasource
-          // For now, we'll return empty data structure
-          panelData[panel.id] = [];
-
-          // If the panel has a datasource configured, we could fetch real data
-          // This would involve connecting to Prometheus, Zabbix, or other monitoring systems
-        } catch (panelError) {
+          panelData[panel.id] = await runPanelQuery(panel, timeRange);
+        } catch (panelError: any) {
           console.error(`Error fetching data for panel ${panel.id}:`, panelError);
           panelData[panel.id] = [];
+          errors[panel.id] = panelError.message;
         }
+      }));
+
+      if (Object.keys(errors).length > 0) {
+        panelData.errors = errors;
       }
 
       res.json(panelData);
@@ -2832,79 +3548,98 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // VM Inventory routes
-  app.get("/api/vm-inventory", requireAuth, async (req: Request, res: Response) => {
+  // Map database fields to expected frontend format with all required fields
+  const mapVmInventoryRow = (vm: any) => ({
+    id: vm.id,
+
+    // VM Core Information
+    vmId: vm.vmId || `VM-${vm.id}`,
+    vmName: vm.vmName || 'Unnamed VM',
+    vmStatus: vm.vmStatus || 'Unknown',
+    vmIp: vm.vmIp || '',
+    vmOs: vm.vmOs || '',
+    cpuCount: vm.cpuCount,
+    memoryGB: vm.memoryMB ? vm.memoryMB / 1024 : vm.memoryGB, // Convert MB to GB if necessary
+    diskCapacityGB: vm.diskGB,
+
+    // Request and Approval Information
+    requestor: vm.user || vm.deployedBy, // Use user or deployedBy as requestor
+    knoxId: vm.knoxId || vm.macAddress, // Use macAddress as fallback for knoxId
+    department: vm.department,
+    startDate: vm.startDate || '',
+    endDate: vm.endDate || '',
+    jiraNumber: vm.jiraTicket,
+    approvalNumber: vm.approvalNumber,
+    remarks: vm.remarks,
+
+    // Host Information (from the original schema structure)
+    hypervisor: vm.hypervisor || 'Unknown',
+    hostname: vm.hostName || '',
+    hostModel: vm.hostModel || '',
+    hostIp: vm.hostIp || '',
+    hostOs: vm.hostOs || '',
+    rack: vm.rack || '',
+
+    // Internet Access
+    internetAccess: vm.internetAccess || false,
+
+    // VM Operating System Version
+    vmOsVersion: vm.vmOsVersion || '',
+
+    // Usage and Tracking (additional fields)
+    deployedBy: vm.deployedBy || '',
+    user: vm.user || '',
+
+    // Other legacy/compatibility fields
+    jiraTicket: vm.jiraTicket || '',
+    dateDeleted: vm.dateDeleted,
+    powerState: vm.powerState || vm.vmStatus,
+    diskGB: vm.diskGB,
+    ipAddress: vm.ipAddress || vm.vmIp,
+    macAddress: vm.macAddress,
+    vmwareTools: vm.vmwareTools,
+    cluster: vm.cluster,
+    datastore: vm.datastore,
+    lastModified: vm.lastModified,
+    guestOs: vm.guestOs || vm.vmOs,
+    createdDate: vm.createdDate
+  });
+
+  // Frontend fields that mapVmInventoryRow fills from differently named columns
+  const vmInventoryFieldAliases: Record<string, string> = {
+    requestor: 'user',
+    jiraNumber: 'jiraTicket',
+    hostname: 'hostName',
+    diskCapacityGB: 'diskGB',
+  };
+
+  app.get("/api/vm-inventory", checkPermission('vmInventory', 'view'), async (req: Request, res: Response) => {
     try {
       console.log('Fetching VM inventory...');
 
+      if (isListQuery(req.query)) {
+        const query = parseListQuery(req.query, {
+          fields: Object.keys(getTableColumns(schema.vmInventory)),
+          aliases: vmInventoryFieldAliases,
+          defaultSort: 'id',
+        });
+        const result = await storage.getVmInventoryPage(query);
+        return res.json({ ...result, data: result.data.map(mapVmInventoryRow) });
+      }
+
       // Use the vm inventory table directly
       const vms = await db.select().from(schema.vmInventory).orderBy(schema.vmInventory.id);
 
       console.log(`Found ${vms.length} VMs in database`);
 
-      // Map database fields to expected frontend format with all required fields
-      const mappedVms = vms.map(vm => {
-        console.log('Mapping VM:', vm);
-
-        return {
-          id: vm.id,
-
-          // VM Core Information
-          vmId: vm.vmId || `VM-${vm.id}`,
-          vmName: vm.vmName || 'Unnamed VM',
-          vmStatus: vm.vmStatus || 'Unknown',
-          vmIp: vm.vmIp || '',
-          vmOs: vm.vmOs || '',
-          cpuCount: vm.cpuCount,
-          memoryGB: vm.memoryMB ? vm.memoryMB / 1024 : vm.memoryGB, // Convert MB to GB if necessary
-          diskCapacityGB: vm.diskGB,
-
-          // Request and Approval Information
-          requestor: vm.user || vm.deployedBy, // Use user or deployedBy as requestor
-          knoxId: vm.knoxId || vm.macAddress, // Use macAddress as fallback for knoxId
-          department: vm.department,
-          startDate: vm.startDate || '',
-          endDate: vm.endDate || '',
-          jiraNumber: vm.jiraTicket,
-          approvalNumber: vm.approvalNumber,
-          remarks: vm.remarks,
-
-          // Host Information (from the original schema structure)
-          hypervisor: vm.hypervisor || 'Unknown',
-          hostname: vm.hostName || '',
-          hostModel: vm.hostModel || '',
-          hostIp: vm.hostIp || '',
-          hostOs: vm.hostOs || '',
-          rack: vm.rack || '',
-
-          // Internet Access
-          internetAccess: vm.internetAccess || false,
-
-          // VM Operating System Version
-          vmOsVersion: vm.vmOsVersion || '',
-
-          // Usage and Tracking (additional fields)
-          deployedBy: vm.deployedBy || '',
-          user: vm.user || '',
-
-          // Other legacy/compatibility fields
-          jiraTicket: vm.jiraTicket || '',
-          dateDeleted: vm.dateDeleted,
-          powerState: vm.powerState || vm.vmStatus,
-          diskGB: vm.diskGB,
-          ipAddress: vm.ipAddress || vm.vmIp,
-          macAddress: vm.macAddress,
-          vmwareTools: vm.vmwareTools,
-          cluster: vm.cluster,
-          datastore: vm.datastore,
-          lastModified: vm.lastModified,
-          guestOs: vm.guestOs || vm.vmOs,
-          createdDate: vm.createdDate
-        };
-      });
+      const mappedVms = vms.map(mapVmInventoryRow);
 
       console.log('Mapped VMs:', mappedVms);
       res.json(mappedVms);
     } catch (error) {
+      if (error instanceof ListQueryError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error fetching VM inventory:", error);
       res.status(500).json({
         message: "Failed to fetch VM inventory",
@@ -2913,7 +3648,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/vm-inventory", requireAuth, async (req: Request, res: Response) => {
+  app.post("/api/vm-inventory", checkPermission('vmInventory', 'add'), async (req: Request, res: Response) => {
     try {
       const vmData = req.body;
 
@@ -3040,7 +3775,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/vm-inventory/:id", requireAuth, async (req: Request, res: Response) => {
+  // VM expiry sweep (also runs hourly in the background)
+  app.get("/api/vm-inventory/lifecycle", checkPermission('vmInventory', 'view'), async (req: Request, res: Response) => {
+    return res.json(getLastVmLifecycleSweep());
+  });
+
+  app.post("/api/vm-inventory/lifecycle", checkPermission('vmInventory', 'edit'), async (req: Request, res: Response) => {
+    try {
+      const result = await runVmLifecycleSweep();
+      return res.json(result);
+    } catch (err) {
+      if (err.message === "A VM lifecycle sweep is already running") {
+        return res.status(409).json({ message: err.message });
+      }
+      return handleError(err, res);
+    }
+  });
+
+  app.get("/api/vm-inventory/:id", checkPermission('vmInventory', 'view'), async (req: Request, res: Response) => {
     try {
       const vmId = parseInt(req.params.id);
       const vm = await storage.getVM(vmId);
@@ -3057,7 +3809,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // VM Approval History API endpoints
-  app.get("/api/vm-inventory/:id/approval-history", requireAuth, async (req: Request, res: Response) => {
+  app.get("/api/vm-inventory/:id/approval-history", checkPermission('vmInventory', 'view'), async (req: Request, res: Response) => {
     try {
       const vmId = parseInt(req.params.id);
 
@@ -3100,7 +3852,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/vm-inventory/:id/approval-history", requireAuth, async (req: Request, res: Response) => {
+  app.post("/api/vm-inventory/:id/approval-history", checkPermission('vmInventory', 'edit'), async (req: Request, res: Response) => {
     try {
       const vmId = parseInt(req.params.id);
       const { oldApprovalNumber, newApprovalNumber, reason, notes } = req.body;
@@ -3126,7 +3878,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/vm-inventory/:id", requireAuth, async (req: Request, res: Response) => {
+  app.patch("/api/vm-inventory/:id", checkPermission('vmInventory', 'edit'), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const vmData = req.body;
@@ -3199,7 +3951,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/vm-inventory/:id", requireAuth, async (req: Request, res: Response) => {
+  app.delete("/api/vm-inventory/:id", checkPermission('vmInventory', 'delete'), async (req: Request, res: Response) => {
     try {
       const vmId = parseInt(req.params.id);
 
@@ -3242,7 +3994,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // VM Inventory Import endpoint
-  app.post("/api/vm-inventory/import", requireAuth, async (req: Request, res: Response) => {
+  app.post("/api/vm-inventory/import", checkPermission('vmInventory', 'add'), async (req: Request, res: Response) => {
     try {
       const { vms, upsert = false } = req.body;
 
@@ -3454,7 +4206,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // VM Management routes (using the new vms table)
-  app.get("/api/vms", async (req: Request, res: Response) => {
+  app.get("/api/vms", checkPermission('vmInventory', 'view'), async (req: Request, res: Response) => {
     try {
       const vms = await db.select().from(schema.vms).orderBy(schema.vms.id);
       res.json(vms);
@@ -3464,7 +4216,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/vms", async (req: Request, res: Response) => {
+  app.post("/api/vms", checkPermission('vmInventory', 'add'), async (req: Request, res: Response) => {
     try {
       const vmData = req.body;
 
@@ -3481,7 +4233,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/vms/:id", async (req: Request, res: Response) => {
+  app.get("/api/vms/:id", checkPermission('vmInventory', 'view'), async (req: Request, res: Response) => {
     try {
       const vmId = parseInt(req.params.id);
       const [vm] = await db.select().from(schema.vms).where(eq(schema.vms.id, vmId));
@@ -3497,7 +4249,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/vms/:id", async (req: Request, res: Response) => {
+  app.put("/api/vms/:id", checkPermission('vmInventory', 'edit'), async (req: Request, res: Response) => {
     try {
       const vmId = parseInt(req.params.id);
       const vmData = req.body;
@@ -3521,7 +4273,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/vms/:id", async (req: Request, res: Response) => {
+  app.delete("/api/vms/:id", checkPermission('vmInventory', 'delete'), async (req: Request, res: Response) => {
     try {
       const vmId = parseInt(req.params.id);
 
@@ -3541,7 +4293,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Consumable Assignment routes
-  app.get("/api/consumables/:id/assignments", async (req: Request, res: Response) => {
+  app.get("/api/consumables/:id/assignments", checkPermission('consumables', 'view'), async (req: Request, res: Response) => {
     try {
       const consumableId = parseInt(req.params.id);
       const assignments = await db.select()
@@ -3556,7 +4308,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/consumables/:id/assign", async (req: Request, res: Response) => {
+  app.post("/api/consumables/:id/assign", checkPermission('consumables', 'edit'), async (req: Request, res: Response) => {
     try {
       const consumableId = parseInt(req.params.id);
       const assignmentData = req.body;
@@ -3583,8 +4335,266 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Signed-in sessions with the user, client address and user agent
+  app.get("/api/admin/sessions", checkPermission('admin', 'view'), async (req: Request, res: Response) => {
+    try {
+      const [sessions, users] = await Promise.all([listActiveSessions(), storage.getUsers()]);
+      const currentHandle = sessionHandle(req.sessionID);
+      const usersById = new Map(users.map(user => [user.id, user]));
+
+      return res.json({
+        persistent: isSessionStorePersistent(),
+        sessions: sessions.map(active => {
+          const user = usersById.get(active.userId);
+          return {
+            ...active,
+            username: user?.username ?? null,
+            fullName: user ? `${user.firstName} ${user.lastName}` : null,
+            current: active.id === currentHandle,
+          };
+        }),
+      });
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
+
+  app.delete("/api/admin/sessions/:id", checkPermission('admin', 'delete'), async (req: Request, res: Response) => {
+    try {
+      const revoked = await revokeSession(req.params.id);
+      if (!revoked) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      const user = await storage.getUser(revoked.userId);
+      await storage.createActivity({
+        action: "revoke",
+        itemType: "user",
+        itemId: revoked.userId,
+        userId: req.user.id,
+        timestamp: new Date().toISOString(),
+        notes: `Session of ${user?.username || `user ${revoked.userId}`} from ${revoked.ip || 'unknown address'} revoked`,
+      });
+      return res.json({ message: "Session revoked" });
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
+
+  // Sign a user out of every session except the admin's own
+  app.delete("/api/admin/users/:id/sessions", checkPermission('admin', 'delete'), async (req: Request, res: Response) => {
+    try {
+      const user = await storage.getUser(parseInt(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const revoked = await revokeUserSessions(user.id, req.sessionID);
+      await storage.createActivity({
+        action: "revoke",
+        itemType: "user",
+        itemId: user.id,
+        userId: req.user.id,
+        timestamp: new Date().toISOString(),
+        notes: `${revoked} session(s) of ${user.username} revoked`,
+      });
+      return res.json({ message: `${revoked} session(s) revoked`, revoked });
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
+
+  // System settings; the mail password is write-only and comes back as SECRET_SET_MARKER
+  app.get("/api/settings", checkPermission('admin', 'view'), async (req: Request, res: Response) => {
+    try {
+      const settings = await storage.getSystemSettings() || {};
+      return res.json(redactSecrets(settings, SECRET_FIELDS.systemSettings));
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
+
+  app.post("/api/settings", checkPermission('admin', 'edit'), async (req: Request, res: Response) => {
+    try {
+      const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...changes } = req.body || {};
+      const stored = await storage.getSystemSettings();
+      const updated = await storage.updateSystemSettings(stored?.id || 1, sealSecrets(changes, stored, SECRET_FIELDS.systemSettings));
+
+      // Password policy and backup schedule are read from these settings
+      clearPasswordPolicyCache();
+      if (['automaticBackups', 'backupFrequency', 'backupTime', 'backupRetention'].some(field => field in changes)) {
+        await rescheduleBackups();
+      }
+
+      await storage.createActivity({
+        action: "update",
+        itemType: "settings",
+        itemId: updated?.id || 1,
+        userId: req.user.id,
+        timestamp: new Date().toISOString(),
+        notes: `System settings updated (${Object.keys(changes).join(', ') || 'no changes'})`,
+      });
+      return res.json(redactSecrets(updated || {}, SECRET_FIELDS.systemSettings));
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
+
+  // JIRA integration settings; non-admins only learn whether reporting to JIRA is enabled
+  app.get("/api/admin/jira-settings", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const settings = await getJiraConfig();
+      if (!settings) {
+        return res.status(404).json({ message: "JIRA settings not configured" });
+      }
+      if (!req.user.isAdmin) {
+        return res.json({ enabled: settings.enabled, projectKey: settings.projectKey });
+      }
+      return res.json(redactJiraSettings(settings));
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
+
+  app.post("/api/admin/jira-settings", checkPermission('admin', 'edit'), async (req: Request, res: Response) => {
+    try {
+      const settings = req.body || {};
+      if (settings.enabled && (!settings.webhookUrl?.trim() || !settings.projectKey?.trim())) {
+        return res.status(400).json({ message: "JIRA URL and Project Key are required when the integration is enabled" });
+      }
+
+      await storage.saveJiraSettings(sealJiraSettings(settings, await storage.getJiraSettings()));
+      await storage.createActivity({
+        action: "update",
+        itemType: "settings",
+        itemId: 1,
+        userId: req.user.id,
+        timestamp: new Date().toISOString(),
+        notes: `JIRA integration settings updated (${settings.enabled ? 'enabled' : 'disabled'})`,
+      });
+      return res.json(redactJiraSettings((await getJiraConfig())!));
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
+
+  // Unsaved form values are tested as-is, falling back to the stored settings. Stored credentials
+  // are only sent to the stored JIRA URL; testing another URL needs its own credentials.
+  app.post("/api/admin/jira-settings/test", checkPermission('admin', 'edit'), async (req: Request, res: Response) => {
+    try {
+      const stored = await getJiraConfig();
+      const body = req.body || {};
+      const sameServer = !body.webhookUrl ||
+        String(body.webhookUrl).trim().replace(/\/+$/, '') === (stored?.webhookUrl || '').trim().replace(/\/+$/, '');
+      const storedAuthentication = sameServer ? stored?.authentication : undefined;
+      const settings = {
+        ...stored,
+        ...body,
+        authentication: {
+          type: 'none',
+          ...storedAuthentication,
+          ...mergeSecrets(body.authentication || {}, storedAuthentication, SECRET_FIELDS.jiraAuthentication),
+        },
+      };
+      const result = await testJiraConnection(settings);
+      return res.json({ success: true, ...result });
+    } catch (err) {
+      return res.status(400).json({ success: false, message: err.message });
+    }
+  });
+
+  app.post("/api/admin/jira-settings/test-automation", checkPermission('admin', 'edit'), async (req: Request, res: Response) => {
+    try {
+      const webhookUrl = req.body?.automationWebhookUrl || (await getJiraConfig())?.automationWebhookUrl;
+      if (!webhookUrl) {
+        return res.status(400).json({ message: "Automation webhook URL is required" });
+      }
+      await triggerJiraAutomation(webhookUrl, {
+        testMode: true,
+        message: 'JIRA Automation test from SRPH-MIS',
+        triggeredBy: req.user.username,
+      });
+      return res.json({ success: true, message: "Automation webhook triggered successfully" });
+    } catch (err) {
+      return res.status(400).json({ success: false, message: err.message });
+    }
+  });
+
+  app.get("/api/admin/jira-dashboard", checkPermission('admin', 'view'), async (req: Request, res: Response) => {
+    try {
+      const settings = await getJiraConfig();
+      if (!settings?.enabled) {
+        return res.status(400).json({ message: "JIRA integration is not enabled" });
+      }
+      return res.json(await fetchJiraIssues(settings));
+    } catch (err) {
+      return res.status(502).json({ message: err.message });
+    }
+  });
+
+  // Issues reported from report-issue.tsx; a JIRA ticket is raised when the integration is enabled
+  app.post(["/api/issues", "/api/issues/report"], requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { title, description, priority, issueType, userEmail } = req.body || {};
+      if (typeof title !== 'string' || !title.trim() || typeof description !== 'string' || !description.trim()) {
+        return res.status(400).json({ message: "Title and description are required" });
+      }
+      for (const [field, value] of Object.entries({ issueType, userEmail })) {
+        if (value !== undefined && value !== null && typeof value !== 'string') {
+          return res.status(400).json({ message: `${field} must be a string` });
+        }
+      }
+
+      const result = await reportIssue(
+        { title, description, priority, issueType, userEmail },
+        req.user.username,
+        req.user.id
+      );
+
+      await storage.createActivity({
+        action: "create",
+        itemType: "issue",
+        itemId: result.issue.id,
+        userId: req.user.id,
+        timestamp: new Date().toISOString(),
+        notes: `Issue "${result.issue.title}" reported (${result.ticketId})`,
+      });
+
+      return res.status(201).json(result);
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
+
+  // Admins see every issue, everyone else only the ones they reported
+  app.get("/api/issues", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const issues = await storage.getIssues();
+      return res.json(req.user.isAdmin ? issues : issues.filter(issue => issue.reportedBy === req.user.id));
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
+
+  // JIRA status sync (also runs every 15 minutes in the background)
+  app.get("/api/issues/sync", requireAuth, async (req: Request, res: Response) => {
+    return res.json(getLastJiraSync());
+  });
+
+  app.post("/api/issues/sync", checkPermission('admin', 'edit'), async (req: Request, res: Response) => {
+    try {
+      const result = await runJiraStatusSync();
+      return res.json(result);
+    } catch (err) {
+      if (err.message === "A JIRA status sync is already running") {
+        return res.status(409).json({ message: err.message });
+      }
+      return res.status(502).json({ message: err.message });
+    }
+  });
+
   // Monitor Inventory API routes
-  app.get("/api/monitor-inventory", requireAuth, async (req: Request, res: Response) => {
+  app.get("/api/monitor-inventory", checkPermission('monitorInventory', 'view'), async (req: Request, res: Response) => {
     try {
       console.log('Fetching monitor inventory...');
 
@@ -3608,7 +4618,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/monitor-inventory/:id", requireAuth, async (req: Request, res: Response) => {
+  app.get("/api/monitor-inventory/:id", checkPermission('monitorInventory', 'view'), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
 
@@ -3633,7 +4643,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/monitor-inventory", requireAuth, async (req: Request, res: Response) => {
+  app.post("/api/monitor-inventory", checkPermission('monitorInventory', 'add'), async (req: Request, res: Response) => {
     try {
       const monitorData = req.body;
       console.log('Creating monitor with data:', monitorData);
@@ -3688,7 +4698,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/monitor-inventory/:id", requireAuth, async (req: Request, res: Response) => {
+  app.patch("/api/monitor-inventory/:id", checkPermission('monitorInventory', 'edit'), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const monitorData = req.body;
@@ -3754,7 +4764,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/monitor-inventory/:id", requireAuth, async (req: Request, res: Response) => {
+  app.delete("/api/monitor-inventory/:id", checkPermission('monitorInventory', 'delete'), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       console.log(`DELETE request received for monitor ID: ${id}`);
@@ -3813,7 +4823,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/monitor-inventory/import", requireAuth, async (req: Request, res: Response) => {
+  app.post("/api/monitor-inventory/import", checkPermission('monitorInventory', 'add'), async (req: Request, res: Response) => {
     try {
       const { monitors, upsert = false } = req.body;
 
@@ -3984,7 +4994,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Database Management API endpoints
-  app.get("/api/database/status", async (req: Request, res: Response) => {
+  app.get("/api/database/status", checkPermission('database', 'view'), async (req: Request, res: Response) => {
     try {
       if (!db) {
         return res.status(503).json({
@@ -4076,32 +5086,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/database/backups", async (req: Request, res: Response) => {
+  app.get("/api/database/backups", checkPermission('database', 'view'), async (req: Request, res: Response) => {
     try {
-      const fs = await import('fs');
-      const path = await import('path');
-      const backupDir = path.join(process.cwd(), 'backups');
-
-      if (!fs.existsSync(backupDir)) {
-        fs.mkdirSync(backupDir, { recursive: true });
-        return res.json([]);
-      }
-
-      const files = fs.readdirSync(backupDir);
-      const backups = files
-        .filter(f => f.endsWith('.sql') || f.endsWith('.backup'))
-        .map(filename => {
-          const filePath = path.join(backupDir, filename);
-          const stats = fs.statSync(filePath);
-          return {
-            filename,
-            path: filePath,
-            size: formatBytes(stats.size),
-            created: stats.birthtime.toISOString()
-          };
-        })
-        .sort((a, b) => new Date(b.created).getTime() - new Date(a.created).getTime());
-
+      const backups = listBackups().map(manifest => ({
+        ...manifest,
+        size: formatBytes(manifest.sizeBytes),
+        rowCount: Object.values(manifest.tables).reduce((sum, count) => sum + count, 0),
+      }));
       return res.json(backups);
     } catch (error) {
       console.error('Error fetching backups:', error);
@@ -4109,150 +5100,102 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/database/backup", async (req: Request, res: Response) => {
+  app.get("/api/database/backups/:id/download", checkPermission('database', 'view'), async (req: Request, res: Response) => {
     try {
-      if (!db) {
-        return res.status(503).json({ message: "Database connection required" });
+      const dumpPath = backupDumpPath(req.params.id);
+      res.setHeader('Content-Type', 'application/x-ndjson');
+      res.setHeader('Content-Disposition', `attachment; filename=${req.params.id}.ndjson`);
+      fs.createReadStream(dumpPath).pipe(res);
+    } catch (error) {
+      if (error instanceof BackupError) {
+        return res.status(error.status).json({ message: error.message });
       }
+      console.error('Backup download error:', error);
+      return res.status(500).json({ message: "Failed to download backup" });
+    }
+  });
 
-      const { filename, tables, includeData, compress } = req.body;
-      const backupFilename = filename || `backup-${new Date().toISOString().split('T')[0]}.sql`;
-
-      const fs = await import('fs');
-      const path = await import('path');
-      const { exec } = await import('child_process');
-      const { promisify } = await import('util');
-      const execAsync = promisify(exec);
-
-      const backupDir = path.join(process.cwd(), 'backups');
-      if (!fs.existsSync(backupDir)) {
-        fs.mkdirSync(backupDir, { recursive: true });
+  app.post("/api/database/backup", checkPermission('database', 'add'), async (req: Request, res: Response) => {
+    try {
+      if (!db) {
+        return res.status(503).json({ message: "Database connection required" });
       }
 
-      const backupPath = path.join(backupDir, backupFilename);
-
-      // Use pg_dump if available, otherwise create a basic SQL dump
-      try {
-        const databaseUrl = process.env.DATABASE_URL;
-        if (databaseUrl) {
-          let pgDumpCmd = `pg_dump "${databaseUrl}" > "${backupPath}"`;
-
-          if (tables && tables.length > 0) {
-            const tableArgs = tables.map((t: string) => `-t ${t}`).join(' ');
-            pgDumpCmd = `pg_dump "${databaseUrl}" ${tableArgs} > "${backupPath}"`;
-          }
-
-          await execAsync(pgDumpCmd);
-        } else {
-          throw new Error('No DATABASE_URL available for pg_dump');
-        }
-      } catch (pgDumpError) {
-        console.warn('pg_dump failed, creating basic SQL backup:', pgDumpError);
-
-        // Fallback: Create a basic backup by exporting table data
-        let backupContent = `-- Database backup created on ${new Date().toISOString()}\n`;
-        backupContent += `-- Generated by SRPH-MIS\n\n`;
-
-        // Get all tables if none specified
-        const tablesToBackup = tables && tables.length > 0 ? tables : [
-          'users', 'assets', 'activities', 'licenses', 'components',
-          'accessories', 'consumables', 'system_settings'
-        ];
-
-        for (const tableName of tablesToBackup) {
-          try {
-            const tableData = await db.execute(sql.raw(`SELECT * FROM ${tableName}`));
-            if (tableData.rows.length > 0) {
-              backupContent += `-- Data for table: ${tableName}\n`;
-              // This is a simplified backup - in production you'd want proper SQL generation
-              backupContent += `-- ${tableData.rows.length} rows\n\n`;
-            }
-          } catch (tableError) {
-            console.warn(`Could not backup table ${tableName}:`, tableError);
-          }
-        }
-
-        fs.writeFileSync(backupPath, backupContent);
+      const { tables } = req.body;
+      if (tables !== undefined && (!Array.isArray(tables) || tables.some(table => typeof table !== 'string'))) {
+        return res.status(400).json({ message: "tables must be a list of table names" });
       }
 
-      // Log the backup activity
-      await storage.createActivity({
-        action: "backup",
-        itemType: "database",
-        itemId: 1,
-        userId: req.user?.id || 1,
-        timestamp: new Date().toISOString(),
-        notes: `Database backup created: ${backupFilename}`,
-      });
+      const run = await runBackup('manual', { tables, userId: req.user?.id || 1 });
 
       return res.json({
         success: true,
         message: "Backup created successfully",
-        filename: backupFilename,
-        path: backupPath
+        id: run.filename,
+        manifest: readManifest(run.filename!),
+        run
       });
     } catch (error) {
+      if (error instanceof BackupError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error('Backup error:', error);
       return res.status(500).json({ message: error.message || "Backup failed" });
     }
   });
 
-  app.post("/api/database/restore", async (req: Request, res: Response) => {
+  app.get("/api/database/backup-runs", checkPermission('database', 'view'), async (req: Request, res: Response) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+      const runs = await storage.getBackupRuns(limit);
+      return res.json({ runs, nextRun: getNextBackupRun() });
+    } catch (error) {
+      console.error('Error fetching backup runs:', error);
+      return res.status(500).json({ message: "Failed to fetch backup history" });
+    }
+  });
+
+  // Restores replace the backed-up tables in one transaction; dryRun only compares the backup with the current data
+  app.post("/api/database/restore", checkPermission('database', 'edit'), async (req: Request, res: Response) => {
     try {
       if (!db) {
         return res.status(503).json({ message: "Database connection required" });
       }
 
-      const { backupPath } = req.body;
+      const { id, dryRun } = req.body;
 
-      if (!backupPath) {
-        return res.status(400).json({ message: "Backup path is required" });
+      if (!id || typeof id !== 'string') {
+        return res.status(400).json({ message: "Backup ID is required" });
       }
 
-      const fs = await import('fs');
-      const { exec } = await import('child_process');
-      const { promisify } = await import('util');
-      const execAsync = promisify(exec);
-
-      if (!fs.existsSync(backupPath)) {
-        return res.status(404).json({ message: "Backup file not found" });
-      }
+      const report = await restoreBackup(id, { dryRun: !!dryRun });
 
-      try {
-        const databaseUrl = process.env.DATABASE_URL;
-        if (databaseUrl) {
-          const restoreCmd = `psql "${databaseUrl}" < "${backupPath}"`;
-          await execAsync(restoreCmd);
-        } else {
-          throw new Error('No DATABASE_URL available for restore');
-        }
-      } catch (restoreError) {
-        console.error('Restore failed:', restoreError);
-        return res.status(500).json({ message: "Restore failed: " + restoreError.message });
+      if (!report.dryRun) {
+        await storage.createActivity({
+          action: "restore",
+          itemType: "database",
+          itemId: 1,
+          userId: req.user?.id || 1,
+          timestamp: new Date().toISOString(),
+          notes: `Database restored from backup: ${id}`,
+        });
       }
 
-      // Log the restore activity
-      await storage.createActivity({
-        action: "restore",
-        itemType: "database",
-        itemId: 1,
-        userId: req.user?.id || 1,
-        timestamp: new Date().toISOString(),
-        notes: `Database restored from backup: ${backupPath}`,
-      });
-
       return res.json({
         success: true,
-        message: "Database restored successfully",
-        filename: backupPath
+        message: report.dryRun ? "Dry run completed, no changes were made" : "Database restored successfully",
+        ...report
       });
     } catch (error) {
+      if (error instanceof BackupError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error('Restore error:', error);
-      return res.status(500).json({ message: error.message || "Restore failed" });
+      return res.status(500).json({ message: "Restore failed: " + (error.message || "unknown error") });
     }
   });
 
-  app.post("/api/database/optimize", async (req: Request, res: Response) => {
+  app.post("/api/database/optimize", checkPermission('database', 'edit'), async (req: Request, res: Response) => {
     try {
       if (!db) {
         return res.status(503).json({ message: "Database connection required" });
@@ -4294,16 +5237,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/database/schedule", async (req: Request, res: Response) => {
+  app.get("/api/database/schedule", checkPermission('database', 'view'), async (req: Request, res: Response) => {
+    try {
+      const schedule = await getBackupSchedule();
+      return res.json({ ...schedule, nextRun: getNextBackupRun() });
+    } catch (error) {
+      console.error('Error fetching backup schedule:', error);
+      return res.status(500).json({ message: "Failed to fetch backup schedule" });
+    }
+  });
+
+  app.post("/api/database/schedule", checkPermission('database', 'edit'), async (req: Request, res: Response) => {
     try {
       if (!db) {
         return res.status(503).json({ message: "Database connection required" });
       }
 
-      const { autoBackup, autoOptimize, backupTime, optimizeTime, retentionDays, emailNotifications } = req.body;
+      const { autoBackup, autoOptimize, backupFrequency, backupTime, retentionDays, emailNotifications } = req.body;
 
-      // In a production environment, you would set up cron jobs or scheduled tasks here
-      // For this implementation, we'll just store the settings and return success
+      if (backupFrequency !== undefined && !['daily', 'weekly', 'monthly'].includes(backupFrequency)) {
+        return res.status(400).json({ message: "Backup frequency must be daily, weekly or monthly" });
+      }
+      if (backupTime !== undefined && !/^([01]?\d|2[0-3]):[0-5]\d$/.test(backupTime)) {
+        return res.status(400).json({ message: "Backup time must be in HH:MM format" });
+      }
+      if (retentionDays !== undefined && (!Number.isInteger(retentionDays) || retentionDays < 0)) {
+        return res.status(400).json({ message: "Retention days must be a non-negative whole number" });
+      }
+
+      const settings = await storage.getSystemSettings();
+      await storage.updateSystemSettings(settings?.id || 1, {
+        automaticBackups: !!autoBackup,
+        ...(backupFrequency !== undefined && { backupFrequency }),
+        ...(backupTime !== undefined && { backupTime }),
+        ...(retentionDays !== undefined && { backupRetention: retentionDays }),
+      });
+
+      const nextRun = await rescheduleBackups();
+      const schedule = await getBackupSchedule();
 
       // Log the schedule update
       await storage.createActivity({
@@ -4312,19 +5283,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         itemId: 1,
         userId: req.user?.id || 1,
         timestamp: new Date().toISOString(),
-        notes: `Database maintenance schedule updated: Backup: ${autoBackup ? 'enabled' : 'disabled'}, Optimize: ${autoOptimize ? 'enabled' : 'disabled'}`,
+        notes: `Database maintenance schedule updated: Backup: ${autoBackup ? `${schedule.backupFrequency} at ${schedule.backupTime}, keep ${schedule.backupRetention} days` : 'disabled'}, Optimize: ${autoOptimize ? 'enabled' : 'disabled'}`,
       });
 
       return res.json({
         success: true,
         message: "Maintenance schedule updated successfully",
         settings: {
-          autoBackup,
+          autoBackup: schedule.automaticBackups,
           autoOptimize,
-          backupTime: backupTime || '03:00',
-          optimizeTime: optimizeTime || '04:00',
-          retentionDays: retentionDays || 30
-        }
+          backupFrequency: schedule.backupFrequency,
+          backupTime: schedule.backupTime,
+          retentionDays: schedule.backupRetention
+        },
+        nextRun
       });
     } catch (error) {
       console.error('Schedule update error:', error);
@@ -4332,28 +5304,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/database/backup-all", async (req: Request, res: Response) => {
+  // Portable JSON export of every table, for moving data between instances or seeding a dev box
+  app.post("/api/database/backup-all", checkPermission('database', 'add'), async (req: Request, res: Response) => {
     try {
       const { format } = req.body;
 
       if (format === 'json') {
-        // Export all data as JSON
-        const allData = {
-          timestamp: new Date().toISOString(),
-          users: await storage.getUsers(),
-          assets: await storage.getAssets(),
-          activities: await storage.getActivities(),
-          licenses: await storage.getLicenses(),
-          components: await storage.getComponents(),
-          accessories: [], // Add if you have accessories
-          settings: await storage.getSystemSettings()
-        };
+        const data = await exportPortableData(storage, db ? 'postgres' : 'memory');
 
-        const jsonContent = JSON.stringify(allData, null, 2);
+        await storage.createActivity({
+          action: "export",
+          itemType: "database",
+          itemId: 1,
+          userId: req.user?.id || 1,
+          timestamp: new Date().toISOString(),
+          notes: `Exported ${Object.keys(data.tables).length} tables as JSON (format v${data.version})`,
+        });
 
         res.setHeader('Content-Type', 'application/json');
         res.setHeader('Content-Disposition', `attachment; filename=complete-backup-${new Date().toISOString().split('T')[0]}.json`);
-        return res.send(jsonContent);
+        return res.send(JSON.stringify(data, null, 2));
       }
 
       return res.status(400).json({ message: "Unsupported backup format" });
@@ -4363,15 +5333,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/database/restore-all", async (req: Request, res: Response) => {
+  // Imports a backup-all export alongside the existing data; rows get new IDs and references follow them
+  app.post("/api/database/restore-all", checkPermission('database', 'edit'), async (req: Request, res: Response) => {
     try {
-      // This would handle file upload and restoration
-      // For now, return a placeholder response
+      const result = await importPortableData(storage, req.body?.data);
+
+      const imported = Object.values(result.tables).reduce((sum, counts) => sum + (counts?.imported || 0), 0);
+      await storage.createActivity({
+        action: "import",
+        itemType: "database",
+        itemId: 1,
+        userId: req.user?.id || 1,
+        timestamp: new Date().toISOString(),
+        notes: `Imported ${imported} rows from a JSON export (format v${result.version})`,
+      });
+
       return res.json({
         success: true,
-        message: "Data restoration completed successfully"
+        message: "Data imported successfully",
+        ...result
       });
     } catch (error) {
+      if (error instanceof DataTransferError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error('Restore all error:', error);
       return res.status(500).json({ message: error.message || "Restore all failed" });
     }
@@ -4380,8 +5365,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Create HTTP server
   const server = createServer(app);
 
-  // Start WebSocket server for real-time network discovery
-  const wss = new WebSocketServer({ server, path: '/ws' });
+  // Live updates on /ws for signed-in users; events are filtered by view permission in realtime.ts
+  const wss = attachWebSocketServer(server, authenticateUpgrade);
 
   wss.on('connection', (ws: WebSocket) => {
     console.log('WebSocket client connected');
@@ -0,0 +1,179 @@
+import * as schema from "@shared/schema";
+import { SECRET_SET_MARKER } from "@shared/schema";
+import { eq } from "drizzle-orm";
+import { db } from "./db";
+import { storage, type IStorage } from "./storage";
+import { reencryptBitlockerKeys } from "./bitlocker-vault";
+import { decryptValue, encryptValue, isEncryptedValue, loadKeyring, needsReencryption, type Keyring } from "./envelope-crypto";
+
+const MASTER_KEY_ENV = "SECRETS_MASTER_KEY";
+
+// Credential fields of each integration; they are encrypted at rest and never sent back to the UI
+export const SECRET_FIELDS = {
+  systemSettings: ['mailPassword'],
+  zabbixSettings: ['password', 'apiToken'],
+  monitoringDatasources: ['basicAuthPassword', 'secureJsonFields'],
+  // Inside the JIRA settings' authentication block
+  jiraAuthentication: ['password', 'token'],
+} as const;
+
+type SecretFields = readonly string[];
+type SecretRecord = Record<string, any>;
+// The storage calls re-encryption needs; the rotation script passes a bare DatabaseStorage
+type SecretStore = Pick<IStorage,
+  'getSystemSettings' | 'updateSystemSettings' | 'getZabbixSettings' | 'saveZabbixSettings' |
+  'getJiraSettings' | 'saveJiraSettings' | 'getBitlockerKeys' | 'updateBitlockerKey'>;
+
+export interface SecretReencryptionResult {
+  systemSettings: number;
+  zabbixSettings: number;
+  monitoringDatasources: number;
+  jiraSettings: number;
+  bitlockerKeys: number;
+}
+
+let keyring: Keyring | null = null;
+
+export function getSecretsKeyring(): Keyring {
+  if (!keyring) keyring = loadKeyring(MASTER_KEY_ENV);
+  return keyring;
+}
+
+export function sealSecret(value: string): string {
+  return value ? encryptValue(value, getSecretsKeyring().current) : '';
+}
+
+// Credentials saved before encryption was introduced are returned as they are
+export function openSecret(stored: string | null | undefined): string {
+  if (!stored) return '';
+  return isEncryptedValue(stored) ? decryptValue(stored, getSecretsKeyring().keys) : stored;
+}
+
+// What GET endpoints return: the marker when a credential is stored, an empty string when not
+export function redactSecrets<T extends SecretRecord>(record: T, fields: SecretFields): T {
+  const redacted: SecretRecord = { ...record };
+  for (const field of fields) {
+    if (field in redacted) {
+      redacted[field] = redacted[field] ? SECRET_SET_MARKER : '';
+    }
+  }
+  return redacted as T;
+}
+
+export function revealSecrets<T extends SecretRecord>(record: T, fields: SecretFields): T {
+  const revealed: SecretRecord = { ...record };
+  for (const field of fields) {
+    if (typeof revealed[field] === 'string') {
+      revealed[field] = openSecret(revealed[field]);
+    }
+  }
+  return revealed as T;
+}
+
+// A missing field or the marker in submitted values means "keep the stored credential"
+export function mergeSecrets<T extends SecretRecord>(incoming: T, stored: SecretRecord | null | undefined, fields: SecretFields): T {
+  const merged: SecretRecord = { ...incoming };
+  for (const field of fields) {
+    if (merged[field] !== undefined && merged[field] !== SECRET_SET_MARKER) continue;
+    if (stored?.[field] !== undefined) {
+      merged[field] = stored[field];
+    } else {
+      delete merged[field];
+    }
+  }
+  return merged as T;
+}
+
+// Merge submitted credentials into the stored (encrypted) ones: unchanged values are kept,
+// an empty value clears the credential and anything new is encrypted
+export function sealSecrets<T extends SecretRecord>(incoming: T, stored: SecretRecord | null | undefined, fields: SecretFields): T {
+  const sealed: SecretRecord = { ...incoming };
+  for (const field of fields) {
+    const value = sealed[field];
+    if (value === undefined || value === SECRET_SET_MARKER) continue;
+    if (value !== null && value !== '') {
+      sealed[field] = sealSecret(typeof value === 'string' ? value : JSON.stringify(value));
+    }
+  }
+  return mergeSecrets(sealed as T, stored, fields);
+}
+
+export function redactJiraSettings<T extends SecretRecord>(settings: T): T {
+  return { ...settings, authentication: redactSecrets(settings.authentication || {}, SECRET_FIELDS.jiraAuthentication) };
+}
+
+export function revealJiraSettings<T extends SecretRecord>(settings: T): T {
+  return { ...settings, authentication: revealSecrets(settings.authentication || {}, SECRET_FIELDS.jiraAuthentication) };
+}
+
+export function sealJiraSettings<T extends SecretRecord>(incoming: T, stored: SecretRecord | null | undefined): T {
+  return {
+    ...incoming,
+    authentication: sealSecrets(incoming.authentication || {}, stored?.authentication, SECRET_FIELDS.jiraAuthentication),
+  };
+}
+
+// Fields holding plain text, or (when rotating) a value sealed with a retired master key
+function staleFields(record: SecretRecord | null | undefined, fields: SecretFields, rotate: boolean): string[] {
+  if (!record) return [];
+  return fields.filter(field => {
+    const value = record[field];
+    if (typeof value !== 'string' || value === '') return false;
+    return rotate ? needsReencryption(value, getSecretsKeyring()) : !isEncryptedValue(value);
+  });
+}
+
+function reseal(record: SecretRecord, fields: string[]): SecretRecord {
+  return Object.fromEntries(fields.map(field => [field, sealSecret(openSecret(record[field]))]));
+}
+
+// Encrypt credentials still stored as plain text; with rotate, also move every value sealed
+// with a retired key onto the current one. BitLocker recovery keys are included.
+export async function reencryptStoredSecrets(options: { rotate?: boolean } = {}, store: SecretStore = storage): Promise<SecretReencryptionResult> {
+  const rotate = !!options.rotate;
+  const result: SecretReencryptionResult = {
+    systemSettings: 0, zabbixSettings: 0, monitoringDatasources: 0, jiraSettings: 0, bitlockerKeys: 0,
+  };
+
+  const settings = await store.getSystemSettings();
+  const settingsFields = staleFields(settings, SECRET_FIELDS.systemSettings, rotate);
+  if (settingsFields.length > 0) {
+    await store.updateSystemSettings(settings.id || 1, reseal(settings, settingsFields));
+    result.systemSettings = settingsFields.length;
+  }
+
+  const zabbix = await store.getZabbixSettings();
+  const zabbixFields = staleFields(zabbix, SECRET_FIELDS.zabbixSettings, rotate);
+  if (zabbix && zabbixFields.length > 0) {
+    await store.saveZabbixSettings({ ...zabbix, ...reseal(zabbix, zabbixFields) });
+    result.zabbixSettings = zabbixFields.length;
+  }
+
+  const jira = await store.getJiraSettings();
+  const jiraFields = staleFields(jira?.authentication, SECRET_FIELDS.jiraAuthentication, rotate);
+  if (jira && jiraFields.length > 0) {
+    await store.saveJiraSettings({ ...jira, authentication: { ...jira.authentication, ...reseal(jira.authentication, jiraFields) } });
+    result.jiraSettings = jiraFields.length;
+  }
+
+  // Datasources only exist in PostgreSQL
+  if (db) {
+    const datasources = await db.select().from(schema.monitoringDatasources);
+    for (const datasource of datasources) {
+      const fields = staleFields(datasource, SECRET_FIELDS.monitoringDatasources, rotate);
+      if (fields.length === 0) continue;
+      await db.update(schema.monitoringDatasources)
+        .set(reseal(datasource, fields))
+        .where(eq(schema.monitoringDatasources.id, datasource.id));
+      result.monitoringDatasources += fields.length;
+    }
+  }
+
+  result.bitlockerKeys = await reencryptBitlockerKeys({ rotate }, store);
+
+  const total = Object.values(result).reduce((sum, count) => sum + count, 0);
+  if (total > 0) {
+    console.log(`🔐 Re-encrypted ${total} stored secret(s)`, result);
+  }
+  return result;
+}
@@ -0,0 +1,166 @@
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { createHash } from "crypto";
+import { pool } from "./db";
+import { closeSessionSockets } from "./realtime";
+
+export const SESSION_TABLE = "sessions";
+// Prune expired sessions every 15 minutes
+const PRUNE_INTERVAL_MS = 15 * 60 * 1000;
+// lastSeenAt is refreshed at most this often so ordinary requests don't rewrite the session
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+// Client details kept on the session so admins can tell sessions apart
+export interface SessionClientInfo {
+  ip?: string;
+  userAgent?: string;
+  createdAt?: string;
+  lastSeenAt?: string;
+}
+
+declare module "express-session" {
+  interface SessionData {
+    client?: SessionClientInfo;
+    passport?: { user?: number };
+  }
+}
+
+export interface ActiveSession {
+  // Hash of the session id; the raw id never leaves the server
+  id: string;
+  userId: number;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: string | null;
+}
+
+let store: session.Store | null = null;
+let persistent = false;
+
+export function sessionHandle(sid: string): string {
+  return createHash("sha256").update(sid).digest("hex").slice(0, 32);
+}
+
+// Sessions live in PostgreSQL when it is connected so they survive restarts and can be
+// shared between processes; otherwise they stay in memory
+export function createSessionStore(): session.Store {
+  if (pool) {
+    const PgStore = connectPgSimple(session);
+    store = new PgStore({
+      pool,
+      tableName: SESSION_TABLE,
+      createTableIfMissing: true,
+      pruneSessionInterval: PRUNE_INTERVAL_MS / 1000,
+    });
+    persistent = true;
+    console.log(`🔑 Sessions stored in PostgreSQL (${SESSION_TABLE} table)`);
+  } else {
+    const MemoryStore = createMemoryStore(session);
+    store = new MemoryStore({ checkPeriod: PRUNE_INTERVAL_MS });
+    persistent = false;
+    console.log('🔑 Sessions stored in memory - users will be signed out on restart');
+  }
+  return store;
+}
+
+export function isSessionStorePersistent(): boolean {
+  return persistent;
+}
+
+// Record who is on the other end of a new login
+export function recordSessionClient(req: { session: session.Session & Partial<session.SessionData>; ip?: string; headers: Record<string, any> }) {
+  const now = new Date().toISOString();
+  req.session.client = {
+    ip: req.ip || undefined,
+    userAgent: typeof req.headers['user-agent'] === 'string' ? req.headers['user-agent'].slice(0, 500) : undefined,
+    createdAt: now,
+    lastSeenAt: now,
+  };
+}
+
+export function touchSessionClient(req: { session?: session.Session & Partial<session.SessionData> }) {
+  const client = req.session?.client;
+  if (!client) return;
+  const last = client.lastSeenAt ? new Date(client.lastSeenAt).getTime() : 0;
+  if (Date.now() - last >= LAST_SEEN_RESOLUTION_MS) {
+    client.lastSeenAt = new Date().toISOString();
+  }
+}
+
+function toActiveSession(sid: string, data: any, expire?: Date | string | null): ActiveSession | null {
+  const userId = data?.passport?.user;
+  if (!userId) return null;
+  const expiresAt = expire ?? data?.cookie?.expires ?? null;
+  return {
+    id: sessionHandle(sid),
+    userId: Number(userId),
+    ip: data.client?.ip ?? null,
+    userAgent: data.client?.userAgent ?? null,
+    createdAt: data.client?.createdAt ?? null,
+    lastSeenAt: data.client?.lastSeenAt ?? null,
+    expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+  };
+}
+
+async function listRawSessions(): Promise<{ sid: string; data: any; expire?: Date | null }[]> {
+  if (!store) return [];
+
+  if (persistent && pool) {
+    const result = await pool.query(
+      `SELECT sid, sess, expire FROM ${SESSION_TABLE} WHERE expire > NOW() ORDER BY expire DESC`
+    );
+    return result.rows.map(row => ({ sid: row.sid, data: row.sess, expire: row.expire }));
+  }
+
+  return new Promise((resolve, reject) => {
+    if (!store!.all) return resolve([]);
+    store!.all((err, sessions) => {
+      if (err) return reject(err);
+      const entries = Array.isArray(sessions)
+        ? []
+        : Object.entries(sessions || {}).map(([sid, data]) => ({ sid, data }));
+      resolve(entries);
+    });
+  });
+}
+
+// Signed-in sessions only; anonymous sessions are left out
+export async function listActiveSessions(): Promise<ActiveSession[]> {
+  const sessions = await listRawSessions();
+  return sessions
+    .map(({ sid, data, expire }) => toActiveSession(sid, data, expire))
+    .filter((active): active is ActiveSession => active !== null);
+}
+
+async function destroySession(sid: string): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    store!.destroy(sid, err => err ? reject(err) : resolve());
+  });
+  closeSessionSockets(sid);
+}
+
+// Returns the revoked session's user, or null when no session matches the handle
+export async function revokeSession(handle: string): Promise<ActiveSession | null> {
+  for (const { sid, data, expire } of await listRawSessions()) {
+    if (sessionHandle(sid) === handle) {
+      await destroySession(sid);
+      return toActiveSession(sid, data, expire);
+    }
+  }
+  return null;
+}
+
+// Sign a user out everywhere, optionally keeping the session making the request
+export async function revokeUserSessions(userId: number, exceptSid?: string): Promise<number> {
+  let revoked = 0;
+  for (const { sid, data } of await listRawSessions()) {
+    if (Number(data?.passport?.user) === userId && sid !== exceptSid) {
+      await destroySession(sid);
+      revoked++;
+    }
+  }
+  return revoked;
+}
@@ -1,23 +1,49 @@
 import {
-  users, activities, assets, licenses, accessories, components, consumables,
+  users, roles, activities, assets, licenses, accessories, components, consumables,
   zabbixSettings, zabbixSubnets, vmMonitoring, discoveredHosts, bitlockerKeys, vmInventory,
   type User, type InsertUser,
+  type Role, type InsertRole,
   type Asset, type InsertAsset,
   type Activity, type InsertActivity,
   type License, type InsertLicense,
   type Accessory, type InsertAccessory,
   type Component, type InsertComponent,
   type Consumable, type InsertConsumable,
-  type ZabbixSettings, type InsertZabbixSettings,
   type ZabbixSubnet, type InsertZabbixSubnet,
   type VMMonitoring, type InsertVMMonitoring,
   type VmInventory, type InsertVmInventory,
   type DiscoveredHost, type InsertDiscoveredHost,
   type LicenseAssignment, type InsertLicenseAssignment,
   type BitlockerKey, type InsertBitlockerKey,
+  type BitlockerKeyAccessLog, type InsertBitlockerKeyAccessLog,
   AssetStatus, LicenseStatus, AccessoryStatus, ConsumableStatus,
   type VmApprovalHistory, type InsertVmApprovalHistory,
+  type BackupRun, type InsertBackupRun,
+  type ZabbixSyncRun, type InsertZabbixSyncRun,
+  type IamAccount, type PaginatedResult, type Issue,
+  type AssetStats, type CountBreakdown, type UserAssignedItems,
 } from "@shared/schema";
+import { builtInRoles } from "./roles";
+import { paginateArray, SEARCH_FIELDS, type ListQuery } from "./pagination";
+import type { PortableRow, PortableRowWriter, PortableTableName } from "./data-transfer";
+
+// Zabbix connection as the API and sync worker use it; DatabaseStorage maps it onto zabbix_settings.
+// password and apiToken hold sealed values, read them with openSecret.
+export interface StoredZabbixSettings {
+  id?: number;
+  url: string;
+  username: string;
+  password: string;
+  apiToken?: string;
+  autoSync: boolean;
+  syncInterval: number;
+  lastSync?: Date | null;
+  // Days of VM metric history kept at each resolution; unset uses DEFAULT_METRIC_RETENTION
+  metricsRawRetentionDays?: number | null;
+  metricsFiveMinuteRetentionDays?: number | null;
+  metricsHourlyRetentionDays?: number | null;
+  updatedAt?: Date | null;
+}
 
 // Mock database for in-memory storage demonstration
 const mockDb = {
@@ -56,8 +82,16 @@ export interface IStorage {
   updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined>;
   deleteUser(id: number): Promise<boolean>;
 
+  // Role operations
+  getRoles(): Promise<Role[]>;
+  getRole(id: number): Promise<Role | undefined>;
+  createRole(role: InsertRole): Promise<Role>;
+  updateRole(id: number, role: Partial<InsertRole>): Promise<Role | undefined>;
+  deleteRole(id: number): Promise<boolean>;
+
   // Asset operations
   getAssets(): Promise<Asset[]>;
+  getAssetsPage(query: ListQuery): Promise<PaginatedResult<Asset>>;
   getAsset(id: number): Promise<Asset | undefined>;
   getAssetByTag(assetTag: string): Promise<Asset | undefined>;
   createAsset(asset: InsertAsset): Promise<Asset>;
@@ -102,13 +136,21 @@ export interface IStorage {
 
   // Activity operations
   getActivities(): Promise<Activity[]>;
+  getActivitiesPage(query: ListQuery): Promise<PaginatedResult<Activity>>;
   getActivitiesByUser(userId: number): Promise<Activity[]>;
   getActivitiesByAsset(assetId: number): Promise<Activity[]>;
   createActivity(activity: InsertActivity): Promise<Activity>;
 
   // Zabbix settings operations
-  getZabbixSettings(): Promise<ZabbixSettings | undefined>;
-  saveZabbixSettings(settings: InsertZabbixSettings): Promise<ZabbixSettings>;
+  getZabbixSettings(): Promise<StoredZabbixSettings | undefined>;
+  saveZabbixSettings(settings: StoredZabbixSettings): Promise<StoredZabbixSettings>;
+  // Records a completed sync without logging a settings change
+  setZabbixLastSync(at: Date): Promise<void>;
+
+  // Zabbix sync run history
+  getZabbixSyncRuns(limit?: number): Promise<ZabbixSyncRun[]>;
+  createZabbixSyncRun(run: InsertZabbixSyncRun): Promise<ZabbixSyncRun>;
+  updateZabbixSyncRun(id: number, run: Partial<InsertZabbixSyncRun>): Promise<ZabbixSyncRun | undefined>;
 
   // Zabbix subnet operations
   getZabbixSubnets(): Promise<ZabbixSubnet[]>;
@@ -137,9 +179,13 @@ export interface IStorage {
   createBitlockerKey(key: InsertBitlockerKey): Promise<BitlockerKey>;
   updateBitlockerKey(id: number, key: Partial<InsertBitlockerKey>): Promise<BitlockerKey | undefined>;
   deleteBitlockerKey(id: number): Promise<boolean>;
+  // Reveal audit trail; append-only, so there is no update or delete
+  createBitlockerAccessLog(entry: InsertBitlockerKeyAccessLog): Promise<BitlockerKeyAccessLog>;
+  getBitlockerAccessLogs(keyId?: number): Promise<BitlockerKeyAccessLog[]>;
 
   // VM Inventory operations
   getVmInventory(): Promise<VmInventory[]>;
+  getVmInventoryPage(query: ListQuery): Promise<PaginatedResult<VmInventory>>;
   getVmInventoryItem(id: number): Promise<VmInventory | undefined>;
   createVmInventoryItem(vm: InsertVmInventory): Promise<VmInventory>;
   updateVmInventoryItem(id: number, vm: Partial<InsertVmInventory>): Promise<VmInventory | undefined>;
@@ -147,6 +193,7 @@ export interface IStorage {
 
   // Stats and summaries
   getAssetStats(): Promise<AssetStats>;
+  getUserAssignedItems(userId: number): Promise<UserAssignedItems>;
 
     // VM operations
     getVMs(): Promise<any[]>;
@@ -166,27 +213,70 @@ export interface IStorage {
     getSystemSettings(): Promise<any>;
     updateSystemSettings(id: number, data: any): Promise<any>;
 
+    // Backup run history
+    getBackupRuns(limit?: number): Promise<BackupRun[]>;
+    createBackupRun(run: InsertBackupRun): Promise<BackupRun>;
+    updateBackupRun(id: number, run: Partial<InsertBackupRun>): Promise<BackupRun | undefined>;
+
   // JIRA Integration
   getJiraSettings(): Promise<any>;
   saveJiraSettings(settings: any): Promise<void>;
 
   // Issues
-  createIssue(issue: any): Promise<any>;
-  getIssues(): Promise<any[]>;
+  createIssue(issue: any): Promise<Issue>;
+  getIssues(): Promise<Issue[]>;
+  getIssue(id: number): Promise<Issue | undefined>;
+  updateIssue(id: number, updates: Partial<Issue>): Promise<Issue | undefined>;
+
+  // IAM accounts
+  getIamAccountsPage(query: ListQuery): Promise<PaginatedResult<IamAccount>>;
 
   // VM Approval History operations
   getVmApprovalHistory(vmId: number): Promise<VmApprovalHistory[]>;
   createVmApprovalHistory(insertHistory: InsertVmApprovalHistory): Promise<VmApprovalHistory>;
+
+  // Raw rows for JSON export/import (data-transfer.ts); null when this storage does not keep the table
+  getPortableRows(table: PortableTableName): Promise<PortableRow[] | null>;
+  writePortableRows<T>(write: (writer: PortableRowWriter) => Promise<T>): Promise<T>;
 }
 
-export interface AssetStats {
-  total: number;
-  checkedOut: number;
-  available: number;
-  pending: number;
-  overdue: number;
-  archived: number;
-  reserved: number;
+// Licenses expiring within this many days count as expiring soon
+export const LICENSE_EXPIRY_WARNING_DAYS = 30;
+
+// Blank values are grouped under this key
+const UNSPECIFIED = 'Unspecified';
+
+export function countBy<T>(rows: T[], key: (row: T) => unknown, weight: (row: T) => number = () => 1): CountBreakdown {
+  const counts: CountBreakdown = {};
+  for (const row of rows) {
+    const value = key(row);
+    const name = value === null || value === undefined || value === '' ? UNSPECIFIED : String(value);
+    counts[name] = (counts[name] || 0) + weight(row);
+  }
+  return counts;
+}
+
+// The headline asset numbers, read from the status breakdown
+export function assetStatusTotals(byStatus: CountBreakdown) {
+  return {
+    checkedOut: byStatus[AssetStatus.DEPLOYED] || 0,
+    available: byStatus[AssetStatus.AVAILABLE] || 0,
+    pending: byStatus[AssetStatus.PENDING] || 0,
+    overdue: byStatus[AssetStatus.OVERDUE] || 0,
+    archived: byStatus.archived || 0,
+    reserved: byStatus[AssetStatus.RESERVED] || 0,
+  };
+}
+
+// Assignment tables keep the assignee as typed text; these are the spellings that count as the user
+export function assigneeNames(user: { username: string; firstName: string; lastName: string; email: string }): string[] {
+  return [user.username, `${user.firstName} ${user.lastName}`, user.email]
+    .map(name => (name || '').trim().toLowerCase())
+    .filter(Boolean);
+}
+
+export function seatUtilization(assignedSeats: number, totalSeats: number): number {
+  return totalSeats > 0 ? Math.round((assignedSeats / totalSeats) * 100) : 0;
 }
 
 // Mock memory database structure
@@ -207,6 +297,7 @@ interface MemoryDb {
 
 class MemStorage implements IStorage {
   private usersData: Map<number, User>;
+  private rolesData: Map<number, Role>;
   private assetsData: Map<number, Asset>;
   private licensesData: Map<number, License>;
   private licenseAssignmentsData: Map<number, LicenseAssignment>;
@@ -214,7 +305,7 @@ class MemStorage implements IStorage {
   private accessoriesData: Map<number, Accessory>;
   private componentsData: Map<number, Component>;
   private consumablesData: Map<number, Consumable>;
-  private zabbixSettingsData: ZabbixSettings | undefined;
+  private zabbixSettingsData: StoredZabbixSettings | undefined;
   private zabbixSubnetsData: Map<number, ZabbixSubnet>;
   private vmMonitoringData: Map<number, VMMonitoring>;
   private discoveredHostsData: Map<number, DiscoveredHost>;
@@ -224,13 +315,25 @@ class MemStorage implements IStorage {
   private zabbixSubnets = new Map<number, any>();
   private consumableAssignments: any[] = [];
   private jiraSettings: any = null;
-  private issues: any[] = [];
+  private issues: Issue[] = [];
+  private issueCurrentId = 1;
+  private bitlockerAccessLogs: BitlockerKeyAccessLog[] = [];
+  private bitlockerAccessLogCurrentId = 1;
 
   // VM Approval History
   private vmApprovalHistoryData: Map<number, VmApprovalHistory>;
   private vmApprovalHistoryCurrentId: number;
 
+  // Backup run history
+  private backupRunsData: Map<number, BackupRun> = new Map();
+  private backupRunCurrentId = 1;
+
+  // Zabbix sync run history
+  private zabbixSyncRunsData: Map<number, ZabbixSyncRun> = new Map();
+  private zabbixSyncRunCurrentId = 1;
+
   private userCurrentId: number;
+  private roleCurrentId: number;
   private assetCurrentId: number;
   private licenseCurrentId: number;
   private licenseAssignmentCurrentId: number;
@@ -272,6 +375,7 @@ class MemStorage implements IStorage {
     this.isMemoryStorage = !db || db === mockDb; // Determine if using mock DB for memory storage simulation
 
     this.usersData = new Map();
+    this.rolesData = new Map();
     this.assetsData = new Map();
     this.licensesData = new Map();
     this.licenseAssignmentsData = new Map();
@@ -293,6 +397,7 @@ class MemStorage implements IStorage {
     this.vmApprovalHistoryCurrentId = 1;
 
     this.userCurrentId = 1;
+    this.roleCurrentId = 1;
     this.assetCurrentId = 1;
     this.licenseCurrentId = 1;
     this.licenseAssignmentCurrentId = 1;
@@ -306,6 +411,8 @@ class MemStorage implements IStorage {
     this.bitlockerKeyCurrentId = 1;
     this.vmInventoryCurrentId = 1;
 
+    // Seed built-in roles before any user can reference them
+    this.initializeBuiltInRoles();
     // Initialize with sample admin user
     this.initializeDefaultAdmin();
     // Initialize database tables
@@ -618,6 +725,20 @@ class MemStorage implements IStorage {
     }
   }
 
+  private initializeBuiltInRoles() {
+    for (const builtIn of builtInRoles) {
+      const now = new Date();
+      this.rolesData.set(builtIn.id, {
+        ...builtIn,
+        description: builtIn.description ?? "",
+        isSystem: true,
+        createdAt: now,
+        updatedAt: now,
+      });
+      this.roleCurrentId = Math.max(this.roleCurrentId, builtIn.id + 1);
+    }
+  }
+
   private async initializeDefaultAdmin() {
     try {
       // Check if admin user already exists
@@ -828,6 +949,57 @@ class MemStorage implements IStorage {
     }
   }
 
+  // Role operations
+  async getRoles(): Promise<Role[]> {
+    return Array.from(this.rolesData.values()).sort((a, b) => a.id - b.id);
+  }
+
+  async getRole(id: number): Promise<Role | undefined> {
+    return this.rolesData.get(id);
+  }
+
+  async createRole(insertRole: InsertRole): Promise<Role> {
+    const existing = Array.from(this.rolesData.values()).find(r => r.name.toLowerCase() === insertRole.name.toLowerCase());
+    if (existing) {
+      throw new Error(`Role "${insertRole.name}" already exists`);
+    }
+
+    const id = this.roleCurrentId++;
+    const role: Role = {
+      ...insertRole,
+      id,
+      description: insertRole.description ?? "",
+      isSystem: insertRole.isSystem ?? false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.rolesData.set(id, role);
+    return role;
+  }
+
+  async updateRole(id: number, updateData: Partial<InsertRole>): Promise<Role | undefined> {
+    const role = this.rolesData.get(id);
+    if (!role) return undefined;
+
+    const updatedRole: Role = { ...role, ...updateData, updatedAt: new Date() };
+    this.rolesData.set(id, updatedRole);
+    return updatedRole;
+  }
+
+  async deleteRole(id: number): Promise<boolean> {
+    const role = this.rolesData.get(id);
+    if (!role || role.isSystem) return false;
+
+    // Mirror ON DELETE SET NULL on users.role_id
+    this.memoryDb.users.forEach(user => {
+      if (user.roleId === id) {
+        user.roleId = null;
+      }
+    });
+
+    return this.rolesData.delete(id);
+  }
+
   // Asset operations
   async getAssets(): Promise<Asset[]> {
     if (this.isMemoryStorage) {
@@ -848,6 +1020,10 @@ class MemStorage implements IStorage {
     }
   }
 
+  async getAssetsPage(query: ListQuery): Promise<PaginatedResult<Asset>> {
+    return paginateArray(await this.getAssets(), query, SEARCH_FIELDS.assets);
+  }
+
   async getAsset(id: number): Promise<Asset | undefined> {
     if (this.isMemoryStorage) {
       return this.memoryDb.assets.find((asset: Asset) => asset.id === id);
@@ -1274,16 +1450,6 @@ class MemStorage implements IStorage {
       };
       this.memoryDb.accessories.push(accessory);
 
-      // Create activity record
-      this.createActivity({
-        action: "create",
-        itemType: "accessory",
-        itemId: id,
-        userId: null,
-        timestamp: new Date().toISOString(),
-        notes: `Accessory "${accessory.name}" created`,
-      });
-
       return accessory;
     }
     try {
@@ -1296,16 +1462,6 @@ class MemStorage implements IStorage {
       const newAccessory: Accessory = { ...insertAccessory, id, createdAt: new Date().toISOString(), updatedAt: new Date().toISOString() };
       this.accessoriesData.set(id, newAccessory);
 
-      // Create activity record
-      await this.createActivity({
-        action: "create",
-        itemType: "accessory",
-        itemId: id,
-        userId: null,
-        timestamp: new Date().toISOString(),
-        notes: `Accessory "${newAccessory.name}" created`,
-      });
-
       return newAccessory;
     } catch (error) {
       console.error('Error creating accessory:', error);
@@ -1313,14 +1469,6 @@ class MemStorage implements IStorage {
       const id = this.accessoryCurrentId++;
       const accessory: Accessory = { ...insertAccessory, id, createdAt: new Date().toISOString(), updatedAt: new Date().toISOString() };
       this.memoryDb.accessories.push(accessory);
-      await this.createActivity({
-        action: "create",
-        itemType: "accessory",
-        itemId: id,
-        userId: null,
-        timestamp: new Date().toISOString(),
-        notes: `Accessory "${accessory.name}" created (memory storage fallback)`,
-      });
       return accessory;
     }
   }
@@ -1365,16 +1513,6 @@ class MemStorage implements IStorage {
       const updatedAccessory = { ...existingAccessory, ...updateData, updatedAt: new Date().toISOString() };
       this.accessoriesData.set(id, updatedAccessory);
 
-      // Create activity record
-      await this.createActivity({
-        action: "update",
-        itemType: "accessory",
-        itemId: id,
-        userId: null,
-        timestamp: new Date().toISOString(),
-        notes: `Accessory "${updatedAccessory.name}" updated`,
-      });
-
       return updatedAccessory;
     } catch (error) {
       console.error(`Error updating accessory with id ${id}:`, error);
@@ -1394,17 +1532,6 @@ class MemStorage implements IStorage {
 
       const result = await this.db.run('DELETE FROM accessories WHERE id = ?', [id]);
 
-      if (result.changes > 0) {
-        // Create activity record
-        await this.createActivity({
-          action: "delete",
-          itemType: "accessory",
-          itemId: id,
-          userId: null,
-          timestamp: new Date().toISOString(),
-          notes: `Accessory "${accessory.name}" deleted`,
-        });
-      }
       this.accessoriesData.delete(id);
       return result.changes > 0;
     } catch (error) {
@@ -1459,16 +1586,6 @@ class MemStorage implements IStorage {
       };
       this.memoryDb.consumables.push(consumable);
 
-      // Create activity record
-      this.createActivity({
-        action: "create",
-        itemType: "consumable",
-        itemId: id,
-        userId: null,
-        timestamp: new Date().toISOString(),
-        notes: `Consumable "${consumable.name}" created`,
-      });
-
       return consumable;
     }
     try {
@@ -1481,16 +1598,6 @@ class MemStorage implements IStorage {
       const newConsumable: Consumable = { ...insertConsumable, id, createdAt: new Date().toISOString(), updatedAt: new Date().toISOString(), quantity: insertConsumable.quantity || 1 };
       this.consumablesData.set(id, newConsumable);
 
-      // Create activity record
-      await this.createActivity({
-        action: "create",
-        itemType: "consumable",
-        itemId: id,
-        userId: null,
-        timestamp: new Date().toISOString(),
-        notes: `Consumable "${newConsumable.name}" created`,
-      });
-
       return newConsumable;
     } catch (error) {
       console.error('Error creating consumable:', error);
@@ -1498,14 +1605,6 @@ class MemStorage implements IStorage {
       const id = this.consumableCurrentId++;
       const consumable: Consumable = { ...insertConsumable, id, createdAt: new Date().toISOString(), updatedAt: new Date().toISOString(), quantity: insertConsumable.quantity || 1 };
       this.memoryDb.consumables.push(consumable);
-      await this.createActivity({
-        action: "create",
-        itemType: "consumable",
-        itemId: id,
-        userId: null,
-        timestamp: new Date().toISOString(),
-        notes: `Consumable "${consumable.name}" created (memory storage fallback)`,
-      });
       return consumable;
     }
   }
@@ -1545,16 +1644,6 @@ class MemStorage implements IStorage {
       const updatedConsumable = { ...existingConsumable, ...updateData, updatedAt: new Date().toISOString() };
       this.consumablesData.set(id, updatedConsumable);
 
-      // Create activity record
-      await this.createActivity({
-        action: "update",
-        itemType: "consumable",
-        itemId: id,
-        userId: null,
-        timestamp: new Date().toISOString(),
-        notes: `Consumable "${updatedConsumable.name}" updated`,
-      });
-
       return updatedConsumable;
     } catch (error) {
       console.error(`Error updating consumable with id ${id}:`, error);
@@ -1574,17 +1663,6 @@ class MemStorage implements IStorage {
 
       const result = await this.db.run('DELETE FROM consumables WHERE id = ?', [id]);
 
-      if (result.changes > 0) {
-        // Create activity record
-        await this.createActivity({
-          action: "delete",
-          itemType: "consumable",
-          itemId: id,
-          userId: null,
-          timestamp: new Date().toISOString(),
-          notes: `Consumable "${consumable.name}" deleted`,
-        });
-      }
       this.consumablesData.delete(id);
       return result.changes > 0;
     } catch (error) {
@@ -1638,7 +1716,7 @@ class MemStorage implements IStorage {
 
   async updateSystemSettings(id: number, data: any): Promise<any> {
     if (this.isMemoryStorage) {
-      this.memoryDb.systemSettings = { ...data, id, updatedAt: new Date().toISOString() };
+      this.memoryDb.systemSettings = { ...this.memoryDb.systemSettings, ...data, id, updatedAt: new Date().toISOString() };
       return this.memoryDb.systemSettings;
     }
     try {
@@ -1684,6 +1762,40 @@ class MemStorage implements IStorage {
     }
   }
 
+  // Backup run history
+  async getBackupRuns(limit: number = 50): Promise<BackupRun[]> {
+    return Array.from(this.backupRunsData.values())
+      .sort((a, b) => new Date(b.startedAt!).getTime() - new Date(a.startedAt!).getTime())
+      .slice(0, limit);
+  }
+
+  async createBackupRun(insertRun: InsertBackupRun): Promise<BackupRun> {
+    const id = this.backupRunCurrentId++;
+    const run: BackupRun = {
+      id,
+      trigger: insertRun.trigger ?? "scheduled",
+      status: insertRun.status ?? "running",
+      filename: insertRun.filename ?? null,
+      sizeBytes: insertRun.sizeBytes ?? null,
+      durationMs: insertRun.durationMs ?? null,
+      prunedCount: insertRun.prunedCount ?? 0,
+      error: insertRun.error ?? null,
+      startedAt: insertRun.startedAt ?? new Date(),
+      completedAt: insertRun.completedAt ?? null,
+    };
+    this.backupRunsData.set(id, run);
+    return run;
+  }
+
+  async updateBackupRun(id: number, updateData: Partial<InsertBackupRun>): Promise<BackupRun | undefined> {
+    const run = this.backupRunsData.get(id);
+    if (!run) return undefined;
+
+    const updatedRun: BackupRun = { ...run, ...updateData };
+    this.backupRunsData.set(id, updatedRun);
+    return updatedRun;
+  }
+
   // License operations
   async getLicenses(): Promise<License[]> {
     if (this.isMemoryStorage) {
@@ -1982,7 +2094,7 @@ class MemStorage implements IStorage {
     if (!asset) return undefined;
 
     // Cannot checkin an asset that is not checked out
-    if (asset.status !== AssetStatus.DEPLOYED) return undefined;
+    if (asset.status !== AssetStatus.DEPLOYED && asset.status !== AssetStatus.OVERDUE) return undefined;
 
     const userId = asset.assignedTo;
 
@@ -2028,6 +2140,10 @@ class MemStorage implements IStorage {
     }
   }
 
+  async getActivitiesPage(query: ListQuery): Promise<PaginatedResult<Activity>> {
+    return paginateArray(await this.getActivities(), query, SEARCH_FIELDS.activities);
+  }
+
   async getActivitiesByUser(userId: number): Promise<Activity[]> {
     if (this.isMemoryStorage) {
       return this.memoryDb.activities.filter(activity => activity.userId === userId);
@@ -2276,10 +2392,29 @@ class MemStorage implements IStorage {
     }
   }
 
+  async createBitlockerAccessLog(entry: InsertBitlockerKeyAccessLog): Promise<BitlockerKeyAccessLog> {
+    const newEntry: BitlockerKeyAccessLog = {
+      identifier: null,
+      userId: null,
+      ipAddress: null,
+      ...entry,
+      id: this.bitlockerAccessLogCurrentId++,
+      revealedAt: new Date(),
+    };
+    this.bitlockerAccessLogs.push(Object.freeze(newEntry));
+    return newEntry;
+  }
+
+  async getBitlockerAccessLogs(keyId?: number): Promise<BitlockerKeyAccessLog[]> {
+    return this.bitlockerAccessLogs
+      .filter(entry => keyId === undefined || entry.keyId === keyId)
+      .reverse();
+  }
+
   // VM Inventory operations
   async getVmInventory(): Promise<VmInventory[]> {
     if (this.isMemoryStorage) {
-      return this.memoryDb.vmInventory;
+      return Array.from(this.vmInventoryData.values());
     }
     try {
       const rows = await this.db.all('SELECT * FROM vm_inventory');
@@ -2290,13 +2425,17 @@ class MemStorage implements IStorage {
       }));
     } catch (error) {
       console.error('Error fetching VM inventory:', error);
-      return this.memoryDb.vmInventory; // Fallback
+      return Array.from(this.vmInventoryData.values()); // Fallback
     }
   }
 
+  async getVmInventoryPage(query: ListQuery): Promise<PaginatedResult<VmInventory>> {
+    return paginateArray(await this.getVmInventory(), query, SEARCH_FIELDS.vmInventory);
+  }
+
   async getVmInventoryItem(id: number): Promise<VmInventory | undefined> {
     if (this.isMemoryStorage) {
-      return this.memoryDb.vmInventory.find(vm => vm.id === id);
+      return this.vmInventoryData.get(id);
     }
     try {
       const row = await this.db.get('SELECT * FROM vm_inventory WHERE id = ?', [id]);
@@ -2630,20 +2769,91 @@ class MemStorage implements IStorage {
 
   // Stats operations
   async getAssetStats(): Promise<AssetStats> {
-    const assets = await this.getAssets();
+    const [assets, licenses, consumables, vms] = await Promise.all([
+      this.getAssets(), this.getLicenses(), this.getConsumables(), this.getVmInventory(),
+    ]);
+    const byStatus = countBy(assets, asset => asset.status);
+
+    const countedSeats = licenses.filter(license => /^\d+$/.test(license.seats || ''));
+    const totalSeats = countedSeats.reduce((sum, license) => sum + Number(license.seats), 0);
+    const assignedSeats = countedSeats.reduce((sum, license) => sum + (license.assignedSeats || 0), 0);
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const warnUntil = new Date(today.getTime() + LICENSE_EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000);
+    const expiringSoon = licenses.filter(license => {
+      if (!license.expirationDate) return false;
+      const expires = new Date(license.expirationDate);
+      return expires >= today && expires <= warnUntil;
+    }).length;
+
     return {
       total: assets.length,
-      checkedOut: assets.filter(asset => asset.status === AssetStatus.DEPLOYED).length,
-      available: assets.filter(asset => asset.status === AssetStatus.AVAILABLE).length,
-      pending: assets.filter(asset => asset.status === AssetStatus.PENDING).length,
-      overdue: assets.filter(asset => asset.status === AssetStatus.OVERDUE).length,
-      archived: assets.filter(asset => asset.status === AssetStatus.ARCHIVED).length,
-      reserved: assets.filter(asset => asset.status === AssetStatus.RESERVED).length,
+      ...assetStatusTotals(byStatus),
+      byStatus,
+      byCategory: countBy(assets, asset => asset.category),
+      byDepartment: countBy(assets, asset => asset.department),
+      byCondition: countBy(assets, asset => asset.condition),
+      licenses: {
+        total: licenses.length,
+        totalSeats,
+        assignedSeats,
+        seatUtilization: seatUtilization(assignedSeats, totalSeats),
+        expiringSoon,
+        byStatus: countBy(licenses, license => license.status),
+      },
+      consumables: {
+        total: consumables.length,
+        totalQuantity: consumables.reduce((sum, consumable) => sum + (consumable.quantity || 0), 0),
+        outOfStock: consumables.filter(consumable => (consumable.quantity || 0) <= 0).length,
+        byStatus: countBy(consumables, consumable => consumable.status),
+        quantityByCategory: countBy(consumables, consumable => consumable.category, consumable => consumable.quantity || 0),
+      },
+      vmInventory: { total: vms.length, byStatus: countBy(vms, vm => vm.vmStatus) },
+      // IAM accounts are only kept in PostgreSQL
+      iamAccounts: { total: 0, byStatus: {} },
+      generatedAt: new Date().toISOString(),
     };
   }
 
+  async getUserAssignedItems(userId: number): Promise<UserAssignedItems> {
+    const user = await this.getUser(userId);
+    if (!user) {
+      return { assets: [], licenses: [], consumables: [], itEquipment: [] };
+    }
+    const names = assigneeNames(user);
+    const isAssignee = (assignedTo: string | null | undefined) => names.includes((assignedTo || '').trim().toLowerCase());
+
+    const [assets, licenses, consumables, equipment] = await Promise.all([
+      this.getAssets(), this.getLicenses(), this.getConsumables(), this.getITEquipment(),
+    ]);
+
+    const assignedLicenses: UserAssignedItems['licenses'] = [];
+    for (const license of licenses) {
+      if (license.assignedTo === userId) {
+        assignedLicenses.push({ license, assignment: null });
+      }
+      for (const assignment of await this.getLicenseAssignments(license.id)) {
+        if (isAssignee(assignment.assignedTo)) assignedLicenses.push({ license, assignment });
+      }
+    }
+
+    return {
+      assets: assets.filter(asset => asset.assignedTo === userId),
+      licenses: assignedLicenses,
+      consumables: this.consumableAssignments
+        .filter(assignment => assignment.status === 'assigned' && isAssignee(assignment.assignedTo))
+        .map(assignment => ({ consumable: consumables.find(consumable => consumable.id === assignment.consumableId), assignment }))
+        .filter(item => item.consumable),
+      itEquipment: this.itEquipmentAssignments
+        .filter(assignment => assignment.status === 'assigned' && isAssignee(assignment.assignedTo))
+        .map(assignment => ({ equipment: equipment.find(item => item.id === assignment.equipmentId), assignment }))
+        .filter(item => item.equipment),
+    };
+  }
+
+
   // Zabbix settings operations
-  async getZabbixSettings(): Promise<ZabbixSettings | undefined> {
+  async getZabbixSettings(): Promise<StoredZabbixSettings | undefined> {
     if (this.isMemoryStorage) {
       return this.zabbixSettingsData;
     }
@@ -2660,9 +2870,9 @@ class MemStorage implements IStorage {
     }
   }
 
-  async saveZabbixSettings(settings: InsertZabbixSettings): Promise<ZabbixSettings> {
+  async saveZabbixSettings(settings: StoredZabbixSettings): Promise<StoredZabbixSettings> {
     if (this.isMemoryStorage) {
-      this.zabbixSettingsData = { ...settings, id: 1, createdAt: new Date().toISOString(), updatedAt: new Date().toISOString() };
+      this.zabbixSettingsData = { ...settings, id: 1, updatedAt: new Date() };
       // Create activity record
       await this.createActivity({
         action: "update",
@@ -2675,10 +2885,10 @@ class MemStorage implements IStorage {
       return this.zabbixSettingsData;
     }
     try {
-      const zabbixSettings: ZabbixSettings = {
+      const zabbixSettings: StoredZabbixSettings = {
         ...settings,
         id: 1, // Only one row for settings
-        updatedAt: new Date().toISOString()
+        updatedAt: new Date()
       };
       await this.db.run(
         `INSERT INTO zabbix_settings (id, zabbixUrl, zabbixUser, zabbixPassword, updatedAt) 
@@ -2688,7 +2898,7 @@ class MemStorage implements IStorage {
            zabbixUser = excluded.zabbixUser, 
            zabbixPassword = excluded.zabbixPassword, 
            updatedAt = excluded.updatedAt`,
-        [zabbixSettings.id, zabbixSettings.zabbixUrl, zabbixSettings.zabbixUser, zabbixSettings.zabbixPassword, zabbixSettings.updatedAt]
+        [zabbixSettings.id, zabbixSettings.url, zabbixSettings.username, zabbixSettings.password, zabbixSettings.updatedAt!.toISOString()]
       );
 
       // Create activity record
@@ -2705,7 +2915,7 @@ class MemStorage implements IStorage {
     } catch (error) {
       console.error('Error saving Zabbix settings:', error);
       // Fallback to memory store
-      this.zabbixSettingsData = { ...settings, id: 1, createdAt: new Date().toISOString(), updatedAt: new Date().toISOString() };
+      this.zabbixSettingsData = { ...settings, id: 1, updatedAt: new Date() };
       await this.createActivity({
         action: "update",
         itemType: "settings",
@@ -2718,6 +2928,46 @@ class MemStorage implements IStorage {
     }
   }
 
+  async setZabbixLastSync(at: Date): Promise<void> {
+    if (this.zabbixSettingsData) {
+      this.zabbixSettingsData.lastSync = at;
+    }
+  }
+
+  async getZabbixSyncRuns(limit: number = 50): Promise<ZabbixSyncRun[]> {
+    return Array.from(this.zabbixSyncRunsData.values())
+      .sort((a, b) => new Date(b.startedAt!).getTime() - new Date(a.startedAt!).getTime())
+      .slice(0, limit);
+  }
+
+  async createZabbixSyncRun(insertRun: InsertZabbixSyncRun): Promise<ZabbixSyncRun> {
+    const id = this.zabbixSyncRunCurrentId++;
+    const run: ZabbixSyncRun = {
+      id,
+      trigger: insertRun.trigger ?? "scheduled",
+      status: insertRun.status ?? "running",
+      hostsSeen: insertRun.hostsSeen ?? 0,
+      hostsUpdated: insertRun.hostsUpdated ?? 0,
+      hostsUnchanged: insertRun.hostsUnchanged ?? 0,
+      errors: insertRun.errors ?? [],
+      highWaterClock: insertRun.highWaterClock ?? null,
+      durationMs: insertRun.durationMs ?? null,
+      startedAt: insertRun.startedAt ?? new Date(),
+      completedAt: insertRun.completedAt ?? null,
+    };
+    this.zabbixSyncRunsData.set(id, run);
+    return run;
+  }
+
+  async updateZabbixSyncRun(id: number, updateData: Partial<InsertZabbixSyncRun>): Promise<ZabbixSyncRun | undefined> {
+    const run = this.zabbixSyncRunsData.get(id);
+    if (!run) return undefined;
+
+    const updatedRun: ZabbixSyncRun = { ...run, ...updateData };
+    this.zabbixSyncRunsData.set(id, updatedRun);
+    return updatedRun;
+  }
+
   // Zabbix subnet operations
   async getZabbixSubnets(): Promise<ZabbixSubnet[]> {
     if (this.isMemoryStorage) {
@@ -3109,16 +3359,50 @@ class MemStorage implements IStorage {
   }
 
   // Issues
-  async createIssue(issue: any): Promise<any> {
-    this.issues.push(issue);
-    return issue;
+  async createIssue(issue: any): Promise<Issue> {
+    const now = new Date();
+    const newIssue: Issue = {
+      priority: 'Medium',
+      issueType: 'Incident',
+      status: 'open',
+      userEmail: null,
+      submittedBy: null,
+      reportedBy: null,
+      jiraKey: null,
+      jiraStatus: null,
+      jiraError: null,
+      lastSyncedAt: null,
+      ...issue,
+      id: this.issueCurrentId++,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.issues.push(newIssue);
+    return newIssue;
   }
 
-  async getIssues(): Promise<any[]> {
-    return this.issues;
+  async getIssues(): Promise<Issue[]> {
+    return [...this.issues].reverse();
+  }
+
+  async getIssue(id: number): Promise<Issue | undefined> {
+    return this.issues.find(issue => issue.id === id);
+  }
+
+  async updateIssue(id: number, updates: Partial<Issue>): Promise<Issue | undefined> {
+    const index = this.issues.findIndex(issue => issue.id === id);
+    if (index === -1) return undefined;
+    const { id: _id, createdAt: _createdAt, ...changes } = updates;
+    this.issues[index] = { ...this.issues[index], ...changes, updatedAt: new Date() };
+    return this.issues[index];
   }
 
   // VM Approval History operations
+  // IAM accounts only exist in PostgreSQL; the in-memory store has none
+  async getIamAccountsPage(query: ListQuery): Promise<PaginatedResult<IamAccount>> {
+    return paginateArray<IamAccount>([], query, SEARCH_FIELDS.iamAccounts);
+  }
+
   async getVmApprovalHistory(vmId: number): Promise<VmApprovalHistory[]> {
     if (this.isMemoryStorage) {
       const history = Array.from(this.vmApprovalHistoryData.values())
@@ -3181,6 +3465,90 @@ class MemStorage implements IStorage {
     }
   }
 
+  // Where each exportable table lives in memory; tables that only exist in PostgreSQL are absent
+  private portableCollections(): Partial<Record<PortableTableName, { rows: () => PortableRow[]; insert: (row: PortableRow) => number }>> {
+    const nextId = (rows: PortableRow[]) => rows.reduce((max, row) => Math.max(max, row.id || 0), 0) + 1;
+    const inArray = (list: PortableRow[], newId: () => number = () => nextId(list)) => ({
+      rows: () => list,
+      insert: (row: PortableRow) => {
+        const id = newId();
+        list.push({ ...row, id });
+        return id;
+      },
+    });
+    const inMap = (map: Map<number, any>, newId: () => number = () => nextId(Array.from(map.values()))) => ({
+      rows: () => Array.from(map.values()),
+      insert: (row: PortableRow) => {
+        const id = newId();
+        map.set(id, { ...row, id });
+        return id;
+      },
+    });
+
+    return {
+      roles: inMap(this.rolesData, () => this.roleCurrentId++),
+      users: inArray(this.memoryDb.users, () => this.userCurrentId++),
+      assets: inArray(this.memoryDb.assets, () => this.assetCurrentId++),
+      components: inArray(this.memoryDb.components, () => this.componentCurrentId++),
+      accessories: inArray(this.memoryDb.accessories, () => this.accessoryCurrentId++),
+      consumables: inArray(this.memoryDb.consumables, () => this.consumableCurrentId++),
+      consumable_assignments: inArray(this.consumableAssignments),
+      licenses: inArray(this.memoryDb.licenses, () => this.licenseCurrentId++),
+      // Assignments are kept on their license
+      license_assignments: {
+        rows: () => this.memoryDb.licenses.flatMap((license: any) => license.assignments || []),
+        insert: (row: PortableRow) => {
+          const id = this.licenseAssignmentCurrentId++;
+          const license: any = this.memoryDb.licenses.find(l => l.id === row.licenseId);
+          if (license) license.assignments = [...(license.assignments || []), { ...row, id }];
+          return id;
+        },
+      },
+      it_equipment: inArray(this.itEquipment),
+      it_equipment_assignments: inArray(this.itEquipmentAssignments),
+      vm_inventory: inMap(this.vmInventoryData, () => this.vmInventoryCurrentId++),
+      vm_approval_history: inMap(this.vmApprovalHistoryData, () => this.vmApprovalHistoryCurrentId++),
+      vms: inArray(this.vms),
+      bitlocker_keys: inArray(this.memoryDb.bitlockerKeys, () => this.bitlockerKeyCurrentId++),
+      bitlocker_key_access_log: inArray(this.bitlockerAccessLogs, () => this.bitlockerAccessLogCurrentId++),
+      issues: inArray(this.issues, () => this.issueCurrentId++),
+      zabbix_subnets: inMap(this.zabbixSubnets, () => this.zabbixSubnetCurrentId++),
+      discovered_hosts: inMap(this.discoveredHostsData, () => this.discoveredHostCurrentId++),
+      vm_monitoring: inMap(this.vmMonitoringData, () => this.vmMonitoringCurrentId++),
+      activities: inArray(this.memoryDb.activities, () => this.activityCurrentId++),
+      system_settings: {
+        rows: () => this.memoryDb.systemSettings ? [this.memoryDb.systemSettings] : [],
+        insert: (row: PortableRow) => {
+          this.memoryDb.systemSettings = { ...row, id: 1 };
+          return 1;
+        },
+      },
+      zabbix_settings: {
+        rows: () => this.zabbixSettingsData ? [this.zabbixSettingsData] : [],
+        insert: (row: PortableRow) => {
+          this.zabbixSettingsData = { ...row, id: 1 } as StoredZabbixSettings;
+          return 1;
+        },
+      },
+    };
+  }
+
+  async getPortableRows(table: PortableTableName): Promise<PortableRow[] | null> {
+    const collection = this.portableCollections()[table];
+    return collection ? collection.rows() : null;
+  }
+
+  // Memory has no transactions: rows written before a failure stay
+  async writePortableRows<T>(write: (writer: PortableRowWriter) => Promise<T>): Promise<T> {
+    const collections = this.portableCollections();
+    return write({
+      insert: async (table, row) => collections[table]?.insert(row) ?? null,
+      update: async (table, id, row) => {
+        const current = collections[table]?.rows().find(existing => existing.id === id);
+        if (current) Object.assign(current, row);
+      },
+    });
+  }
 }
 
 // Use the MemStorage for persistence (with better data handling)
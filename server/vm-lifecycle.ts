@@ -0,0 +1,260 @@
+import { storage } from "./storage";
+import { sendMail, isMailConfigured, resolveRecipientEmail } from "./mailer";
+import { broadcast } from "./realtime";
+import { VmStatus, vmInventory, users } from "@shared/schema";
+import { startIntervalJob, stopIntervalJob } from "./job-scheduler";
+
+type VmInventoryItem = typeof vmInventory.$inferSelect;
+type User = typeof users.$inferSelect;
+
+export interface VmLifecycleChange {
+  vmId: number;
+  vmName: string;
+  from: string;
+  to: string;
+  owner: string | null;
+  endDate: string | null;
+}
+
+export interface VmLifecycleSweepResult {
+  checked: number;
+  markedOverdue: number;
+  reactivated: number;
+  noticesSent: number;
+  changes: VmLifecycleChange[];
+  notificationErrors: string[];
+  digestSent: boolean;
+  ranAt: string;
+}
+
+// The sweep is cheap, so run it hourly; the reminder cadence is enforced per VM via lastNotifiedAt
+const SWEEP_JOB = 'VM lifecycle sweep';
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+const DEFAULT_REMINDER_INTERVAL_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let sweepRunning = false;
+let lastSweep: VmLifecycleSweepResult | null = null;
+
+export function getLastVmLifecycleSweep(): VmLifecycleSweepResult | null {
+  return lastSweep;
+}
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+function parseEndDate(vm: VmInventoryItem): Date | null {
+  if (!vm.endDate) return null;
+  const end = new Date(vm.endDate);
+  return isNaN(end.getTime()) ? null : startOfDay(end);
+}
+
+// A VM expires the day after its endDate
+export function isVmExpired(vm: VmInventoryItem, now: Date = new Date()): boolean {
+  const end = parseEndDate(vm);
+  return !!end && end < startOfDay(now);
+}
+
+function isOverdueStatus(status: string | null): boolean {
+  return status === VmStatus.OVERDUE_NOT_NOTIFIED || status === VmStatus.OVERDUE_NOTIFIED;
+}
+
+// Not-notified VMs are always due; notified ones get a reminder every intervalDays
+export function isReminderDue(vm: VmInventoryItem, intervalDays: number, now: Date = new Date()): boolean {
+  if (vm.vmStatus === VmStatus.OVERDUE_NOT_NOTIFIED || !vm.lastNotifiedAt) return true;
+  if (intervalDays <= 0) return false;
+  const last = new Date(vm.lastNotifiedAt);
+  return isNaN(last.getTime()) || now.getTime() - last.getTime() >= intervalDays * DAY_MS;
+}
+
+function ownerName(vm: VmInventoryItem): string | null {
+  return vm.requestor || vm.knoxId || vm.user || null;
+}
+
+function describeVm(vm: VmInventoryItem): string {
+  return vm.vmIp ? `${vm.vmName} (${vm.vmIp})` : vm.vmName;
+}
+
+async function logVmActivity(vm: VmInventoryItem, action: string, notes: string) {
+  await storage.createActivity({
+    action,
+    itemType: "vm",
+    itemId: vm.id,
+    userId: null,
+    timestamp: new Date().toISOString(),
+    notes,
+  });
+}
+
+async function setVmStatus(vm: VmInventoryItem, updates: Record<string, any>, result: VmLifecycleSweepResult): Promise<VmInventoryItem | undefined> {
+  const updated = await storage.updateVmInventoryItem(vm.id, updates);
+  if (updated && updates.vmStatus && updates.vmStatus !== vm.vmStatus) {
+    result.changes.push({
+      vmId: vm.id,
+      vmName: vm.vmName,
+      from: vm.vmStatus,
+      to: updates.vmStatus,
+      owner: ownerName(vm),
+      endDate: vm.endDate,
+    });
+  }
+  return updated;
+}
+
+async function sendExpiryNotice(vm: VmInventoryItem, to: string, reminder: number, settings: any) {
+  const siteName = settings.siteName || 'SRPH-MIS';
+  await sendMail({
+    to,
+    subject: reminder > 1
+      ? `Reminder #${reminder}: VM ${describeVm(vm)} has expired`
+      : `VM ${describeVm(vm)} has expired`,
+    text: `Hello ${ownerName(vm) || ''},\n\n` +
+      `The virtual machine ${describeVm(vm)} requested by you reached its end date on ${vm.endDate}.\n` +
+      `Please request an extension${vm.jiraNumber ? ` (original request ${vm.jiraNumber})` : ''} ` +
+      `or confirm that it can be decommissioned.\n\n${siteName}`,
+  });
+}
+
+async function sendAdminDigest(result: VmLifecycleSweepResult, admins: User[], settings: any): Promise<boolean> {
+  const adminEmails = admins.map(admin => admin.email).filter(Boolean);
+  if (adminEmails.length === 0 || result.changes.length === 0) return false;
+
+  const lines = result.changes.map(change =>
+    `- ${change.vmName}: ${change.from} → ${change.to}` +
+    ` (owner: ${change.owner || 'unknown'}, end date: ${change.endDate || 'none'})`);
+  const errors = result.notificationErrors.length > 0
+    ? `\n\nNotices that could not be sent:\n${result.notificationErrors.map(error => `- ${error}`).join('\n')}`
+    : '';
+
+  await sendMail({
+    to: adminEmails,
+    subject: `[VM Lifecycle] ${result.markedOverdue} newly overdue, ${result.noticesSent} notices sent`,
+    text: `VM lifecycle sweep at ${result.ranAt}:\n\n${lines.join('\n')}${errors}\n\n${settings.siteName || 'SRPH-MIS'}`,
+  });
+  return true;
+}
+
+// Flag VMs past their endDate as overdue, email their owners on the configured cadence
+// and move them to "Overdue - Notified"; VMs whose endDate was extended go back to Active
+export async function runVmLifecycleSweep(now: Date = new Date()): Promise<VmLifecycleSweepResult> {
+  if (sweepRunning) {
+    throw new Error("A VM lifecycle sweep is already running");
+  }
+  sweepRunning = true;
+
+  const result: VmLifecycleSweepResult = {
+    checked: 0,
+    markedOverdue: 0,
+    reactivated: 0,
+    noticesSent: 0,
+    changes: [],
+    notificationErrors: [],
+    digestSent: false,
+    ranAt: now.toISOString(),
+  };
+
+  try {
+    const settings = await storage.getSystemSettings() || {};
+    const reminderInterval = typeof settings.vmReminderIntervalDays === 'number'
+      ? settings.vmReminderIntervalDays
+      : DEFAULT_REMINDER_INTERVAL_DAYS;
+
+    const vms = (await storage.getVmInventory() as VmInventoryItem[])
+      .filter(vm => vm.vmStatus !== VmStatus.DECOMMISSIONED);
+    result.checked = vms.length;
+
+    const allUsers = await storage.getUsers();
+    const shouldNotify = settings.notifyOnOverdue !== false && await isMailConfigured();
+
+    for (const vm of vms) {
+      try {
+        if (!isVmExpired(vm, now)) {
+          if (isOverdueStatus(vm.vmStatus) && parseEndDate(vm)) {
+            await setVmStatus(vm, { vmStatus: VmStatus.ACTIVE, lastNotifiedAt: null, notificationCount: 0 }, result);
+            await logVmActivity(vm, "reactivated", `VM ${describeVm(vm)} is active again (end date extended to ${vm.endDate})`);
+            result.reactivated++;
+          }
+          continue;
+        }
+
+        let current = vm;
+        if (!isOverdueStatus(vm.vmStatus)) {
+          const updated = await setVmStatus(vm, { vmStatus: VmStatus.OVERDUE_NOT_NOTIFIED }, result);
+          if (!updated) continue;
+          current = updated;
+          result.markedOverdue++;
+          await logVmActivity(vm, "overdue", `VM ${describeVm(vm)} is overdue (end date ${vm.endDate}) - was ${vm.vmStatus}`);
+        }
+
+        if (!shouldNotify || settings.enableUserNotifications === false) continue;
+        if (!isReminderDue(current, reminderInterval, now)) continue;
+
+        const ownerEmail = resolveRecipientEmail([current.requestor, current.user], allUsers, current.knoxId, settings.vmOwnerEmailDomain);
+        if (!ownerEmail) {
+          result.notificationErrors.push(`${vm.vmName}: no email address found for owner ${ownerName(vm) || '(none)'}`);
+          continue;
+        }
+
+        const reminder = (current.notificationCount || 0) + 1;
+        try {
+          await sendExpiryNotice(current, ownerEmail, reminder, settings);
+        } catch (error: any) {
+          result.notificationErrors.push(`${vm.vmName}: ${error.message}`);
+          continue;
+        }
+        result.noticesSent++;
+
+        await setVmStatus(current, {
+          vmStatus: VmStatus.OVERDUE_NOTIFIED,
+          lastNotifiedAt: now.toISOString(),
+          notificationCount: reminder,
+        }, result);
+        await logVmActivity(vm, "notify",
+          `${reminder > 1 ? `Reminder #${reminder}` : 'Expiry notice'} for VM ${describeVm(vm)} sent to ${ownerEmail}`);
+      } catch (error: any) {
+        result.notificationErrors.push(`${vm.vmName}: ${error.message}`);
+      }
+    }
+
+    if (shouldNotify && settings.enableAdminNotifications !== false) {
+      try {
+        result.digestSent = await sendAdminDigest(result, allUsers.filter(user => user.isAdmin), settings);
+      } catch (error: any) {
+        result.notificationErrors.push(`Admin digest: ${error.message}`);
+      }
+    }
+
+    if (result.changes.length > 0) {
+      broadcast('vm-inventory:lifecycle', {
+        markedOverdue: result.markedOverdue,
+        reactivated: result.reactivated,
+        noticesSent: result.noticesSent,
+        ranAt: result.ranAt,
+      });
+    }
+
+    console.log(`🖥️ VM lifecycle sweep: ${result.markedOverdue} of ${result.checked} VMs marked overdue, ` +
+      `${result.noticesSent} notices sent, ${result.reactivated} reactivated`);
+    if (result.notificationErrors.length > 0) {
+      console.warn(`⚠️ VM lifecycle notices failed for ${result.notificationErrors.length} VM(s):`, result.notificationErrors);
+    }
+
+    lastSweep = result;
+    return result;
+  } finally {
+    sweepRunning = false;
+  }
+}
+
+export function startVmLifecycleScheduler() {
+  if (startIntervalJob({ name: SWEEP_JOB, intervalMs: SWEEP_INTERVAL_MS, run: () => runVmLifecycleSweep() })) {
+    console.log('🖥️ VM lifecycle scheduler started (hourly)');
+  }
+}
+
+export function stopVmLifecycleScheduler() {
+  stopIntervalJob(SWEEP_JOB);
+}
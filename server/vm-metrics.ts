@@ -0,0 +1,260 @@
+import { and, asc, eq, gte, lte, sql } from "drizzle-orm";
+import { db } from "./db";
+import * as schema from "@shared/schema";
+import { storage } from "./storage";
+import { startIntervalJob, stopIntervalJob } from "./job-scheduler";
+
+type VMMetricSample = typeof schema.vmMetricSamples.$inferSelect;
+export type MetricResolution = 'raw' | '5m' | '1h';
+export type MetricName = 'cpuUsage' | 'memoryUsage' | 'diskUsage';
+
+export const METRIC_RESOLUTIONS: MetricResolution[] = ['raw', '5m', '1h'];
+const METRIC_NAMES: MetricName[] = ['cpuUsage', 'memoryUsage', 'diskUsage'];
+
+// Days of history kept at each resolution
+export type MetricRetention = Record<MetricResolution, number>;
+
+export const DEFAULT_METRIC_RETENTION: MetricRetention = { raw: 2, '5m': 30, '1h': 365 };
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Each run recomputes recent buckets from the next finer resolution, so that data has to
+// outlive the lookback; retention settings are clamped to these minimums
+const ROLLUP_LOOKBACK_MS: Record<Exclude<MetricResolution, 'raw'>, number> = { '5m': 6 * HOUR_MS, '1h': 2 * DAY_MS };
+const MIN_RETENTION_DAYS: MetricRetention = { raw: 1, '5m': 3, '1h': 7 };
+
+// Longest range served from each resolution before a coarser one is used
+const MAX_SPAN_MS: MetricRetention = { raw: 12 * HOUR_MS, '5m': 14 * DAY_MS, '1h': Infinity };
+
+const ROLLUP_JOB = 'VM metrics rollup';
+const ROLLUP_INTERVAL_MS = 5 * 60 * 1000;
+
+// Usage metrics are percentages; forecasts report when the trend reaches this
+export const CAPACITY_LIMIT_PERCENT = 100;
+
+export interface MetricPoint {
+  timestamp: string;
+  cpuUsage: number | null;
+  memoryUsage: number | null;
+  diskUsage: number | null;
+  cpuMax: number | null;
+  memoryMax: number | null;
+  diskMax: number | null;
+  sampleCount: number;
+}
+
+export interface CapacityForecast {
+  metric: MetricName;
+  // Fitted value at the end of the range
+  current: number | null;
+  slopePerDay: number | null;
+  // Null when the trend is flat or falling, or there are too few points to fit
+  reachesLimitAt: string | null;
+  daysUntilLimit: number | null;
+}
+
+export interface MetricSeries {
+  vmId: number;
+  resolution: MetricResolution;
+  from: string;
+  to: string;
+  points: MetricPoint[];
+  forecasts: CapacityForecast[];
+}
+
+function finiteOrNull(value: number | null | undefined): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+export async function getMetricRetention(): Promise<MetricRetention> {
+  const settings = await storage.getZabbixSettings();
+  const days = (value: number | null | undefined, resolution: MetricResolution) =>
+    Math.max(MIN_RETENTION_DAYS[resolution], value != null && Number.isInteger(value) ? value : DEFAULT_METRIC_RETENTION[resolution]);
+  return {
+    raw: days(settings?.metricsRawRetentionDays, 'raw'),
+    '5m': days(settings?.metricsFiveMinuteRetentionDays, '5m'),
+    '1h': days(settings?.metricsHourlyRetentionDays, '1h'),
+  };
+}
+
+// One raw sample per host per sync; history is kept in PostgreSQL only, memory storage drops it
+export async function recordVmMetricSample(
+  vmId: number,
+  values: { cpuUsage?: number | null; memoryUsage?: number | null; diskUsage?: number | null },
+  at: Date = new Date()
+) {
+  if (!db) return;
+
+  const cpuUsage = finiteOrNull(values.cpuUsage);
+  const memoryUsage = finiteOrNull(values.memoryUsage);
+  const diskUsage = finiteOrNull(values.diskUsage);
+  await db.insert(schema.vmMetricSamples).values({
+    vmId,
+    resolution: 'raw',
+    bucketStart: at,
+    cpuUsage,
+    memoryUsage,
+    diskUsage,
+    cpuMax: cpuUsage,
+    memoryMax: memoryUsage,
+    diskMax: diskUsage,
+    sampleCount: 1,
+  }).onConflictDoNothing();
+}
+
+// Recompute the 5-minute buckets from raw samples, or the hourly ones from 5-minute buckets.
+// Averages are weighted by sample count so an hour of sparse syncs is not skewed.
+async function rollUp(resolution: Exclude<MetricResolution, 'raw'>, now: Date) {
+  if (!db) return;
+
+  const source = resolution === '5m' ? 'raw' : '5m';
+  const bucket = resolution === '5m'
+    ? sql`date_trunc('hour', bucket_start) + floor(date_part('minute', bucket_start) / 5) * interval '5 minutes'`
+    : sql`date_trunc('hour', bucket_start)`;
+
+  // Start on an hour boundary so the first bucket is never rebuilt from partial data
+  const since = new Date(now.getTime() - ROLLUP_LOOKBACK_MS[resolution]);
+  since.setUTCMinutes(0, 0, 0);
+
+  const weighted = (column: string) =>
+    sql`SUM(${sql.raw(column)} * sample_count) / NULLIF(SUM(sample_count) FILTER (WHERE ${sql.raw(column)} IS NOT NULL), 0)`;
+
+  await db.execute(sql`
+    INSERT INTO vm_metric_samples
+      (vm_id, resolution, bucket_start, cpu_usage, memory_usage, disk_usage, cpu_max, memory_max, disk_max, sample_count)
+    SELECT vm_id, ${resolution}::text, ${bucket} AS bucket,
+      ${weighted('cpu_usage')}, ${weighted('memory_usage')}, ${weighted('disk_usage')},
+      MAX(cpu_max), MAX(memory_max), MAX(disk_max), SUM(sample_count)
+    FROM vm_metric_samples
+    WHERE resolution = ${source} AND bucket_start >= ${since.toISOString()}::timestamp
+    GROUP BY vm_id, bucket
+    ON CONFLICT (vm_id, resolution, bucket_start) DO UPDATE SET
+      cpu_usage = EXCLUDED.cpu_usage,
+      memory_usage = EXCLUDED.memory_usage,
+      disk_usage = EXCLUDED.disk_usage,
+      cpu_max = EXCLUDED.cpu_max,
+      memory_max = EXCLUDED.memory_max,
+      disk_max = EXCLUDED.disk_max,
+      sample_count = EXCLUDED.sample_count
+  `);
+}
+
+async function pruneSamples(retention: MetricRetention, now: Date): Promise<number> {
+  if (!db) return 0;
+
+  let pruned = 0;
+  for (const resolution of METRIC_RESOLUTIONS) {
+    const cutoff = new Date(now.getTime() - retention[resolution] * DAY_MS);
+    const result = await db.execute(sql`
+      DELETE FROM vm_metric_samples
+      WHERE resolution = ${resolution} AND bucket_start < ${cutoff.toISOString()}::timestamp
+    `);
+    pruned += result.rowCount || 0;
+  }
+  return pruned;
+}
+
+export async function runVmMetricsMaintenance(now: Date = new Date()) {
+  if (!db) return;
+
+  await rollUp('5m', now);
+  await rollUp('1h', now);
+  const pruned = await pruneSamples(await getMetricRetention(), now);
+  if (pruned > 0) {
+    console.log(`🧹 Pruned ${pruned} VM metric samples past retention`);
+  }
+}
+
+export function startVmMetricsRollup() {
+  if (!db) return;
+
+  if (startIntervalJob({ name: ROLLUP_JOB, intervalMs: ROLLUP_INTERVAL_MS, run: () => runVmMetricsMaintenance() })) {
+    console.log(`📈 VM metrics rollup started (every ${ROLLUP_INTERVAL_MS / 60000} minutes)`);
+  }
+}
+
+export function stopVmMetricsRollup() {
+  stopIntervalJob(ROLLUP_JOB);
+}
+
+// Finest resolution that still holds data for the whole range without returning too many points
+export function pickResolution(from: Date, to: Date, retention: MetricRetention, now: Date = new Date()): MetricResolution {
+  const span = to.getTime() - from.getTime();
+  for (const resolution of METRIC_RESOLUTIONS) {
+    const oldest = now.getTime() - retention[resolution] * DAY_MS;
+    if (span <= MAX_SPAN_MS[resolution] && from.getTime() >= oldest) {
+      return resolution;
+    }
+  }
+  return '1h';
+}
+
+// Least-squares line through the series; extrapolated to when it crosses the capacity limit
+export function forecastCapacity(points: MetricPoint[], metric: MetricName, limit: number = CAPACITY_LIMIT_PERCENT): CapacityForecast {
+  const samples = points
+    .filter(point => point[metric] !== null)
+    .map(point => ({ x: new Date(point.timestamp).getTime() / DAY_MS, y: point[metric] as number }));
+  const empty: CapacityForecast = { metric, current: null, slopePerDay: null, reachesLimitAt: null, daysUntilLimit: null };
+  if (samples.length < 3) return empty;
+
+  const meanX = samples.reduce((sum, s) => sum + s.x, 0) / samples.length;
+  const meanY = samples.reduce((sum, s) => sum + s.y, 0) / samples.length;
+  const varianceX = samples.reduce((sum, s) => sum + (s.x - meanX) ** 2, 0);
+  if (varianceX === 0) return empty;
+
+  const slopePerDay = samples.reduce((sum, s) => sum + (s.x - meanX) * (s.y - meanY), 0) / varianceX;
+  const lastX = samples[samples.length - 1].x;
+  const current = meanY + slopePerDay * (lastX - meanX);
+
+  let daysUntilLimit: number | null = null;
+  if (current >= limit) {
+    daysUntilLimit = 0;
+  } else if (slopePerDay > 0) {
+    daysUntilLimit = (limit - current) / slopePerDay;
+  }
+
+  return {
+    metric,
+    current,
+    slopePerDay,
+    reachesLimitAt: daysUntilLimit === null ? null : new Date((lastX + daysUntilLimit) * DAY_MS).toISOString(),
+    daysUntilLimit,
+  };
+}
+
+function toPoint(row: VMMetricSample): MetricPoint {
+  return {
+    timestamp: row.bucketStart.toISOString(),
+    cpuUsage: row.cpuUsage,
+    memoryUsage: row.memoryUsage,
+    diskUsage: row.diskUsage,
+    cpuMax: row.cpuMax,
+    memoryMax: row.memoryMax,
+    diskMax: row.diskMax,
+    sampleCount: row.sampleCount,
+  };
+}
+
+export async function getVmMetricSeries(vmId: number, from: Date, to: Date, resolution?: MetricResolution): Promise<MetricSeries> {
+  const chosen = resolution || pickResolution(from, to, await getMetricRetention());
+  // Memory storage keeps no history, so the series is empty rather than an error
+  const rows = !db ? [] : await db.select().from(schema.vmMetricSamples)
+    .where(and(
+      eq(schema.vmMetricSamples.vmId, vmId),
+      eq(schema.vmMetricSamples.resolution, chosen),
+      gte(schema.vmMetricSamples.bucketStart, from),
+      lte(schema.vmMetricSamples.bucketStart, to)
+    ))
+    .orderBy(asc(schema.vmMetricSamples.bucketStart));
+
+  const points = rows.map(toPoint);
+  return {
+    vmId,
+    resolution: chosen,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    points,
+    forecasts: METRIC_NAMES.map(metric => forecastCapacity(points, metric)),
+  };
+}
@@ -0,0 +1,146 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import type { AddressInfo } from "net";
+import { storage } from "./storage";
+import { backoffDelay, getZabbixSyncStatus, runZabbixSync, ZabbixSyncError } from "./zabbix-sync";
+
+// Stand-in for the Zabbix JSON-RPC API: hands out numbered session tokens and serves two hosts
+const fake = {
+  logins: 0,
+  calls: [] as string[],
+  // hostids of each item.get that asked for values
+  valueRequests: [] as string[][],
+  expireNextCall: false,
+  clock: 1000,
+};
+
+const server = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => body += chunk);
+  req.on('end', () => {
+    const { method, params, auth } = JSON.parse(body);
+    fake.calls.push(method);
+    const reply = (payload: object) => res.end(JSON.stringify({ jsonrpc: '2.0', id: 1, ...payload }));
+
+    if (method === 'user.login') {
+      fake.logins++;
+      return reply({ result: `token-${fake.logins}` });
+    }
+    if (fake.expireNextCall) {
+      fake.expireNextCall = false;
+      return reply({ error: { code: -32602, message: 'Invalid params.', data: 'Session terminated, re-login, please.' } });
+    }
+    if (auth !== `token-${fake.logins}`) {
+      return reply({ error: { code: -32602, message: 'Invalid params.', data: 'Not authorised.' } });
+    }
+    if (method === 'host.get') {
+      return reply({ result: [
+        { hostid: '10101', host: 'web01', name: 'Web 01', status: '0', interfaces: [{ ip: '10.0.0.1', main: '1', available: '1' }] },
+        { hostid: '10102', host: 'db01', name: 'DB 01', status: '0', available: '2', interfaces: [{ ip: '10.0.0.2', main: '1' }] },
+      ] });
+    }
+    if (method === 'item.get') {
+      const items = [
+        { itemid: '1', hostid: '10101', key_: 'system.cpu.util', lastvalue: '42.5', lastclock: String(fake.clock) },
+        { itemid: '2', hostid: '10101', key_: 'vfs.fs.size[/,pfree]', lastvalue: '70', lastclock: String(fake.clock) },
+        { itemid: '3', hostid: '10102', key_: 'vm.memory.util', lastvalue: '81', lastclock: '900' },
+      ];
+      if (params.output.includes('lastvalue')) fake.valueRequests.push(params.hostids);
+      return reply({ result: items
+        .filter(item => params.hostids.includes(item.hostid))
+        .map(item => Object.fromEntries(params.output.map((field: string) => [field, item[field as keyof typeof item]]))) });
+    }
+    reply({ error: { code: -32601, message: 'Method not found.' } });
+  });
+});
+
+before(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  await storage.saveZabbixSettings({
+    url: `http://127.0.0.1:${port}`,
+    username: 'api',
+    password: 'secret',
+    autoSync: false,
+    syncInterval: 30,
+  } as any);
+});
+
+after(() => {
+  if (server.listening) server.close();
+});
+
+test('first sync writes every host and records the newest item clock', async () => {
+  const run = await runZabbixSync('manual');
+
+  assert.equal(run.status, 'success');
+  assert.equal(run.hostsSeen, 2);
+  assert.equal(run.hostsUpdated, 2);
+  assert.equal(run.highWaterClock, 1000);
+  assert.equal(fake.logins, 1);
+
+  const web = await storage.getVMMonitoringByVMId(10101);
+  assert.equal(web?.status, 'running');
+  assert.equal(web?.cpuUsage, 42.5);
+  assert.equal(web?.diskUsage, 30);
+  const db = await storage.getVMMonitoringByVMId(10102);
+  assert.equal(db?.status, 'stopped');
+  assert.equal(db?.memoryUsage, 81);
+  assert.equal(db?.lastClock, 900);
+});
+
+test('later syncs reuse the session token and skip hosts without new values', async () => {
+  fake.valueRequests = [];
+  const run = await runZabbixSync('scheduled');
+
+  assert.equal(run.status, 'success');
+  assert.equal(run.hostsUpdated, 0);
+  assert.equal(run.hostsUnchanged, 2);
+  assert.equal(fake.logins, 1);
+  assert.deepEqual(fake.valueRequests, []);
+});
+
+test('an expired session is replaced by a fresh login and the call retried', async () => {
+  fake.clock = 2000;
+  fake.expireNextCall = true;
+  fake.calls = [];
+  fake.valueRequests = [];
+
+  const run = await runZabbixSync('scheduled');
+
+  assert.equal(run.status, 'success');
+  assert.equal(run.hostsUpdated, 1);
+  assert.equal(run.hostsUnchanged, 1);
+  assert.equal(run.highWaterClock, 2000);
+  assert.equal(fake.logins, 2);
+  assert.deepEqual(fake.calls, ['host.get', 'user.login', 'host.get', 'item.get', 'item.get']);
+  // Only the host whose items moved past its own mark is fetched with values
+  assert.deepEqual(fake.valueRequests, [['10101']]);
+  assert.equal((await storage.getVMMonitoringByVMId(10101))?.lastClock, 2000);
+  assert.equal((await storage.getVMMonitoringByVMId(10102))?.lastClock, 900);
+});
+
+test('only one sync runs at a time', async () => {
+  const first = runZabbixSync('scheduled');
+  await assert.rejects(runZabbixSync('manual'), (error: unknown) =>
+    error instanceof ZabbixSyncError && error.status === 409);
+  await first;
+});
+
+test('an unreachable server fails the run and counts towards backoff', async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+
+  await assert.rejects(runZabbixSync('scheduled'));
+
+  const status = await getZabbixSyncStatus();
+  assert.equal(status.running, false);
+  assert.equal(status.consecutiveFailures, 1);
+  assert.equal(status.lastRun?.status, 'failed');
+});
+
+test('backoff doubles from the interval and stops at a day', () => {
+  const interval = 30 * 60 * 1000;
+  assert.deepEqual([0, 1, 2, 3, 10].map(failures => backoffDelay(interval, failures) / 60000), [30, 60, 120, 240, 1440]);
+});
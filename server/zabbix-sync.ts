@@ -0,0 +1,399 @@
+import { storage } from "./storage";
+import { openSecret } from "./secrets";
+import { recordVmMetricSample } from "./vm-metrics";
+import type { VMMonitoring, ZabbixSyncRun } from "@shared/schema";
+
+export type ZabbixSyncTrigger = 'scheduled' | 'manual';
+
+export interface ZabbixSyncStatus {
+  running: boolean;
+  autoSync: boolean;
+  intervalMinutes: number | null;
+  nextSyncAt: string | null;
+  consecutiveFailures: number;
+  lastRun: ZabbixSyncRun | null;
+  runs: ZabbixSyncRun[];
+}
+
+interface ZabbixConnection {
+  url: string;
+  username: string;
+  password: string;
+  apiToken: string;
+}
+
+// Failed runs back off exponentially from the sync interval up to this ceiling
+const MAX_BACKOFF_MS = 24 * 60 * 60 * 1000;
+// setTimeout cannot wait longer than ~24.8 days, so long waits are re-armed
+const MAX_TIMER_DELAY_MS = 24 * 60 * 60 * 1000;
+
+// Item keys the sync reads; everything else on the host is never fetched
+const ITEM_KEY_PATTERNS = ['system.cpu.util', 'cpu.usage', 'memory.util', 'vfs.fs.size', 'system.uptime'];
+
+let syncTimer: NodeJS.Timeout | null = null;
+let syncRunning = false;
+let nextSyncAt: Date | null = null;
+let consecutiveFailures = 0;
+
+// Session tokens from user.login, reused until Zabbix rejects one
+const sessionTokens = new Map<string, string>();
+
+export class ZabbixSyncError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'ZabbixSyncError';
+  }
+}
+
+class ZabbixRpcError extends Error {
+  constructor(public readonly method: string, message: string) {
+    super(`Zabbix ${method} failed: ${message}`);
+    this.name = 'ZabbixRpcError';
+  }
+}
+
+function apiUrl(url: string): string {
+  return url.endsWith('api_jsonrpc.php') ? url : `${url.replace(/\/+$/, '')}/api_jsonrpc.php`;
+}
+
+async function rpc(connection: ZabbixConnection, method: string, params: any, auth?: string): Promise<any> {
+  const response = await fetch(apiUrl(connection.url), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json-rpc' },
+    body: JSON.stringify({ jsonrpc: '2.0', method, params, ...(auth && { auth }), id: 1 }),
+    signal: AbortSignal.timeout(30 * 1000),
+  });
+  if (!response.ok) {
+    throw new ZabbixRpcError(method, `HTTP ${response.status}`);
+  }
+
+  const body = await response.json();
+  if (body.error) {
+    throw new ZabbixRpcError(method, body.error.data || body.error.message);
+  }
+  return body.result;
+}
+
+async function login(connection: ZabbixConnection): Promise<string> {
+  if (connection.apiToken) return connection.apiToken;
+
+  const key = `${connection.url}|${connection.username}`;
+  const cached = sessionTokens.get(key);
+  if (cached) return cached;
+
+  let token: string;
+  try {
+    token = await rpc(connection, 'user.login', { username: connection.username, password: connection.password });
+  } catch {
+    // Zabbix before 5.4 names the parameter "user"
+    token = await rpc(connection, 'user.login', { user: connection.username, password: connection.password });
+  }
+  sessionTokens.set(key, token);
+  return token;
+}
+
+// Authenticated call; an expired session is dropped and the call retried once with a fresh login
+async function call(connection: ZabbixConnection, method: string, params: any): Promise<any> {
+  const auth = await login(connection);
+  try {
+    return await rpc(connection, method, params, auth);
+  } catch (error) {
+    const key = `${connection.url}|${connection.username}`;
+    const expired = error instanceof ZabbixRpcError && /session|re-login|not authori[sz]ed/i.test(error.message);
+    if (!expired || connection.apiToken || sessionTokens.get(key) !== auth) throw error;
+
+    sessionTokens.delete(key);
+    return await rpc(connection, method, params, await login(connection));
+  }
+}
+
+async function getConnection(): Promise<ZabbixConnection | null> {
+  const settings = await storage.getZabbixSettings();
+  if (!settings?.url) return null;
+
+  const connection = {
+    url: settings.url,
+    username: settings.username || '',
+    password: openSecret(settings.password) || '',
+    apiToken: openSecret(settings.apiToken) || '',
+  };
+  return connection.apiToken || (connection.username && connection.password) ? connection : null;
+}
+
+// Zabbix availability (host before 5.4, main interface after) to the vm_monitoring status
+export function getVMStatusFromZabbix(available: string | number | undefined): string {
+  const statusMap: { [key: string]: string } = {
+    '0': 'unknown',
+    '1': 'running',
+    '2': 'stopped'
+  };
+  return statusMap[String(available)] || 'unknown';
+}
+
+function hostStatus(host: any) {
+  const available = host.available ?? host.interfaces?.find((iface: any) => iface.main === '1')?.available ?? host.interfaces?.[0]?.available;
+
+  return {
+    vmId: parseInt(host.hostid),
+    hostname: host.name,
+    ipAddress: host.interfaces?.[0]?.ip || host.host,
+    status: getVMStatusFromZabbix(available),
+    networkStatus: String(available) === '1' ? 'up' : 'down',
+  };
+}
+
+function itemValues(items: any[]) {
+  const cpuItem = items.find(item => item.key_.includes('system.cpu.util') || item.key_.includes('cpu.usage'));
+  const memoryItem = items.find(item => item.key_.includes('memory.util') || item.key_.includes('vm.memory.util'));
+  const diskItem = items.find(item => item.key_.includes('vfs.fs.size') && item.key_.includes('pfree'));
+  const uptimeItem = items.find(item => item.key_.includes('system.uptime'));
+
+  return {
+    cpuUsage: cpuItem ? parseFloat(cpuItem.lastvalue) : null,
+    memoryUsage: memoryItem ? parseFloat(memoryItem.lastvalue) : null,
+    diskUsage: diskItem ? (100 - parseFloat(diskItem.lastvalue)) : null,
+    uptime: uptimeItem ? parseInt(uptimeItem.lastvalue) : null,
+  };
+}
+
+function groupByHost(items: any[]): Map<string, any[]> {
+  const itemsByHost = new Map<string, any[]>();
+  for (const item of items) {
+    if (!itemsByHost.has(item.hostid)) itemsByHost.set(item.hostid, []);
+    itemsByHost.get(item.hostid)!.push(item);
+  }
+  return itemsByHost;
+}
+
+// Fetch enabled hosts and their usage items, then write the hosts whose status changed or whose
+// items have values newer than the host's last_clock. Each host with new values also gets a metric sample.
+export async function runZabbixSync(
+  trigger: ZabbixSyncTrigger,
+  options: { userId?: number | null } = {}
+): Promise<ZabbixSyncRun> {
+  if (syncRunning) {
+    throw new ZabbixSyncError("A Zabbix sync is already running", 409);
+  }
+  // Claimed before the first await so a manual and a scheduled run cannot both get past the check
+  syncRunning = true;
+  try {
+    return await syncHosts(trigger, options);
+  } finally {
+    syncRunning = false;
+  }
+}
+
+async function syncHosts(trigger: ZabbixSyncTrigger, options: { userId?: number | null }): Promise<ZabbixSyncRun> {
+  const connection = await getConnection();
+  if (!connection) {
+    throw new ZabbixSyncError("Zabbix connection not configured");
+  }
+
+  const startedAt = new Date();
+  const run = await storage.createZabbixSyncRun({ trigger, status: 'running', startedAt });
+
+  const errors: string[] = [];
+  let hostsSeen = 0;
+  let hostsUpdated = 0;
+  let hostsUnchanged = 0;
+  let highWaterClock = 0;
+
+  try {
+    const hosts = await call(connection, 'host.get', {
+      output: ['hostid', 'host', 'name', 'status', 'available'],
+      selectInterfaces: ['ip', 'main', 'available'],
+      filter: { status: 0 }, // Only enabled hosts
+    });
+    // item.get cannot filter on lastclock, so the first call lists only ids and clocks;
+    // values are then fetched just for the hosts with items newer than their last_clock
+    const itemParams = {
+      search: { key_: ITEM_KEY_PATTERNS },
+      searchByAny: true,
+      monitored: true,
+    };
+    const clocks = hosts.length > 0 ? await call(connection, 'item.get', {
+      ...itemParams,
+      output: ['itemid', 'hostid', 'lastclock'],
+      hostids: hosts.map((host: any) => host.hostid),
+    }) : [];
+
+    const newestClocks = new Map<string, number>();
+    for (const item of clocks) {
+      newestClocks.set(item.hostid, Math.max(newestClocks.get(item.hostid) || 0, parseInt(item.lastclock) || 0));
+    }
+
+    const existingRows = new Map<string, VMMonitoring | undefined>();
+    for (const host of hosts) {
+      existingRows.set(host.hostid, await storage.getVMMonitoringByVMId(parseInt(host.hostid)));
+    }
+
+    const changedHostIds = hosts
+      .map((host: any) => host.hostid)
+      .filter((hostid: string) => (newestClocks.get(hostid) || 0) > (existingRows.get(hostid)?.lastClock ?? 0));
+    const itemsByHost = groupByHost(changedHostIds.length > 0 ? await call(connection, 'item.get', {
+      ...itemParams,
+      output: ['hostid', 'key_', 'lastvalue', 'lastclock'],
+      hostids: changedHostIds,
+    }) : []);
+
+    for (const host of hosts) {
+      hostsSeen++;
+      try {
+        const newestClock = newestClocks.get(host.hostid) || 0;
+        highWaterClock = Math.max(highWaterClock, newestClock);
+
+        const status = hostStatus(host);
+        const existing = existingRows.get(host.hostid);
+        const hasNewValues = itemsByHost.has(host.hostid);
+        if (existing && !hasNewValues && existing.status === status.status && existing.hostname === status.hostname) {
+          hostsUnchanged++;
+          continue;
+        }
+
+        const usage = hasNewValues ? itemValues(itemsByHost.get(host.hostid)!) : null;
+        // Stamped with the Zabbix clock, so a host retried after a failed write cannot add a second sample
+        if (usage) {
+          await recordVmMetricSample(status.vmId, usage, new Date(newestClock * 1000));
+        }
+        const values = usage ? { ...status, ...usage, lastClock: newestClock } : status;
+
+        // last_clock only moves once the row is written; a host that fails is fetched again next run
+        const now = new Date().toISOString();
+        if (existing) {
+          await storage.updateVMMonitoring(existing.id, { ...values, updatedAt: now });
+        } else {
+          await storage.createVMMonitoring({ ...values, createdAt: now, updatedAt: now });
+        }
+        hostsUpdated++;
+      } catch (hostError: any) {
+        errors.push(`${host.name}: ${hostError.message}`);
+      }
+    }
+
+    const status = errors.length === 0 ? 'success' : hostsUpdated + hostsUnchanged > 0 ? 'partial' : 'failed';
+    const completedRun = await storage.updateZabbixSyncRun(run.id, {
+      status,
+      hostsSeen,
+      hostsUpdated,
+      hostsUnchanged,
+      errors,
+      highWaterClock,
+      durationMs: Date.now() - startedAt.getTime(),
+      completedAt: new Date(),
+    });
+    await storage.setZabbixLastSync(startedAt);
+    consecutiveFailures = status === 'failed' ? consecutiveFailures + 1 : 0;
+
+    if (trigger === 'manual') {
+      await storage.createActivity({
+        action: "sync",
+        itemType: "vm-monitoring",
+        itemId: 1,
+        userId: options.userId ?? null,
+        timestamp: new Date().toISOString(),
+        notes: `Synchronized ${hostsUpdated} of ${hostsSeen} VMs from Zabbix` +
+          (errors.length > 0 ? ` (${errors.length} failed)` : ''),
+      });
+    }
+
+    console.log(`🔄 Zabbix ${trigger} sync: ${hostsUpdated} updated, ${hostsUnchanged} unchanged of ${hostsSeen} hosts` +
+      (errors.length > 0 ? `, ${errors.length} errors` : ''));
+    return completedRun || run;
+  } catch (error: any) {
+    consecutiveFailures++;
+    console.error(`❌ Zabbix ${trigger} sync failed:`, error.message);
+    await storage.updateZabbixSyncRun(run.id, {
+      status: 'failed',
+      hostsSeen,
+      hostsUpdated,
+      hostsUnchanged,
+      errors: [...errors, error.message],
+      durationMs: Date.now() - startedAt.getTime(),
+      completedAt: new Date(),
+    });
+    throw error;
+  }
+}
+
+export function backoffDelay(intervalMs: number, failures: number): number {
+  return Math.min(intervalMs * 2 ** Math.min(failures, 10), Math.max(intervalMs, MAX_BACKOFF_MS));
+}
+
+function armTimer() {
+  if (!nextSyncAt) return;
+
+  const delay = Math.max(0, nextSyncAt.getTime() - Date.now());
+  syncTimer = setTimeout(async () => {
+    syncTimer = null;
+
+    if (nextSyncAt && Date.now() >= nextSyncAt.getTime()) {
+      try {
+        await runZabbixSync('scheduled');
+      } catch {
+        // Already recorded as a failed run
+      }
+      await rescheduleZabbixSync();
+    } else {
+      armTimer();
+    }
+  }, Math.min(delay, MAX_TIMER_DELAY_MS));
+  syncTimer.unref();
+}
+
+// Re-read zabbixSettings and arm the timer: syncInterval after the last run, longer after failures
+export async function rescheduleZabbixSync(): Promise<Date | null> {
+  if (syncTimer) {
+    clearTimeout(syncTimer);
+    syncTimer = null;
+  }
+
+  try {
+    const settings = await storage.getZabbixSettings();
+    if (!settings?.autoSync || !(await getConnection())) {
+      nextSyncAt = null;
+      return null;
+    }
+
+    const intervalMs = Math.max(1, settings.syncInterval || 30) * 60 * 1000;
+    const wait = consecutiveFailures > 0 ? backoffDelay(intervalMs, consecutiveFailures) : intervalMs;
+    // Never synced: run now
+    const lastRun = (await storage.getZabbixSyncRuns(1))[0];
+    const from = lastRun?.startedAt ? new Date(lastRun.startedAt).getTime() : 0;
+    nextSyncAt = new Date(Math.max(from + wait, Date.now()));
+  } catch (error) {
+    console.error('❌ Failed to schedule Zabbix sync:', error);
+    nextSyncAt = null;
+  }
+
+  armTimer();
+  return nextSyncAt;
+}
+
+export async function getZabbixSyncStatus(): Promise<ZabbixSyncStatus> {
+  const settings = await storage.getZabbixSettings();
+  const runs = await storage.getZabbixSyncRuns(20);
+  return {
+    running: syncRunning,
+    autoSync: !!settings?.autoSync,
+    intervalMinutes: settings?.syncInterval ?? null,
+    nextSyncAt: nextSyncAt ? nextSyncAt.toISOString() : null,
+    consecutiveFailures,
+    lastRun: runs[0] || null,
+    runs,
+  };
+}
+
+export async function startZabbixSyncWorker() {
+  const next = await rescheduleZabbixSync();
+  if (next) {
+    console.log(`🔄 Zabbix sync scheduled, next run at ${next.toISOString()}`);
+  }
+}
+
+export function stopZabbixSyncWorker() {
+  if (syncTimer) {
+    clearTimeout(syncTimer);
+    syncTimer = null;
+  }
+  nextSyncAt = null;
+}
@@ -3,6 +3,17 @@ import { sql } from "drizzle-orm";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Roles schema
+export const roles = pgTable("roles", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  description: text("description").default(""),
+  permissions: json("permissions").$type<RolePermissions>().notNull(),
+  isSystem: boolean("is_system").default(false), // built-in roles cannot be deleted
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // User schema
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -13,19 +24,26 @@ export const users = pgTable("users", {
   email: text("email").notNull(),
   department: text("department"),
   isAdmin: boolean("is_admin").default(false),
-  roleId: integer("role_id"),
+  roleId: integer("role_id").references(() => roles.id, { onDelete: "set null" }),
+  // Drives forced rotation after systemSettings.passwordExpiryDays
+  passwordChangedAt: text("password_changed_at"),
   permissions: json("permissions").$type<UserPermissions>().default({
-    assets: { view: true, edit: false, add: false },
-    components: { view: true, edit: false, add: false },
-    accessories: { view: true, edit: false, add: false },
-    consumables: { view: true, edit: false, add: false },
-    licenses: { view: true, edit: false, add: false },
-    users: { view: false, edit: false, add: false },
-    reports: { view: true, edit: false, add: false },
-    vmMonitoring: { view: true, edit: false, add: false },
-    networkDiscovery: { view: true, edit: false, add: false },
-    bitlockerKeys: { view: false, edit: false, add: false },
-    admin: { view: false, edit: false, add: false }
+    assets: { view: true, edit: false, add: false, delete: false },
+    components: { view: true, edit: false, add: false, delete: false },
+    accessories: { view: true, edit: false, add: false, delete: false },
+    consumables: { view: true, edit: false, add: false, delete: false },
+    licenses: { view: true, edit: false, add: false, delete: false },
+    users: { view: false, edit: false, add: false, delete: false },
+    reports: { view: true, edit: false, add: false, delete: false },
+    vmMonitoring: { view: true, edit: false, add: false, delete: false },
+    networkDiscovery: { view: true, edit: false, add: false, delete: false },
+    bitlockerKeys: { view: false, edit: false, add: false, delete: false },
+    vmInventory: { view: true, edit: false, add: false, delete: false },
+    iamAccounts: { view: false, edit: false, add: false, delete: false },
+    itEquipment: { view: true, edit: false, add: false, delete: false },
+    monitorInventory: { view: true, edit: false, add: false, delete: false },
+    database: { view: false, edit: false, add: false, delete: false },
+    admin: { view: false, edit: false, add: false, delete: false }
   }),
 });
 
@@ -34,6 +52,7 @@ export type PagePermission = {
   view: boolean;
   edit: boolean;
   add: boolean;
+  delete: boolean;
 };
 
 export type UserPermissions = {
@@ -47,9 +66,19 @@ export type UserPermissions = {
   vmMonitoring: PagePermission;
   networkDiscovery: PagePermission;
   bitlockerKeys: PagePermission;
+  vmInventory: PagePermission;
+  iamAccounts: PagePermission;
+  itEquipment: PagePermission;
+  monitorInventory: PagePermission;
+  database: PagePermission;
   admin: PagePermission;
 };
 
+// Roles stored before delete was modelled may lack it; a missing flag means no delete
+export type RolePermissions = {
+  [resource: string]: PagePermission;
+};
+
 // Asset schema
 export const assets = pgTable("assets", {
   id: serial("id").primaryKey(),
@@ -250,6 +279,10 @@ export const vmInventory = pgTable("vm_inventory", {
   createdDate: text("created_date"),
   lastModified: text("last_modified"),
   notes: text("notes"),
+
+  // Expiry notices sent by the lifecycle scheduler
+  lastNotifiedAt: text("last_notified_at"),
+  notificationCount: integer("notification_count").default(0),
 });
 
 // VM Table - for proper VM management and assignments
@@ -277,8 +310,8 @@ export const vms = pgTable("vms", {
   purchaseCost: text("purchase_cost"),
   department: text("department"),
   description: text("description"),
-  createdDate: text("created_date").default(new Date().toISOString()),
-  lastModified: text("last_modified").default(new Date().toISOString()),
+  createdDate: text("created_date").default(sql`CURRENT_TIMESTAMP`),
+  lastModified: text("last_modified").default(sql`CURRENT_TIMESTAMP`),
   notes: text("notes"),
 });
 
@@ -291,6 +324,16 @@ export const AssetStatus = {
   PENDING: "pending",
   ON_HAND: "On-Hand",
   RESERVED: "Reserved",
+  // Set by the overdue sweep when a checkout passes its expected check-in date
+  OVERDUE: "overdue",
+} as const;
+
+export const VmStatus = {
+  ACTIVE: "Active",
+  // Past endDate, owner not yet emailed
+  OVERDUE_NOT_NOTIFIED: "Overdue - Not Notified",
+  OVERDUE_NOTIFIED: "Overdue - Notified",
+  DECOMMISSIONED: "Decommissioned",
 } as const;
 
 export const AccessoryStatus = {
@@ -377,7 +420,23 @@ export const itEquipmentAssignments = pgTable("it_equipment_assignments", {
 });
 
 // Insert schemas
+export const insertRoleSchema = createInsertSchema(roles, {
+  name: z.string().min(1, "Role name is required"),
+  permissions: z.record(z.object({
+    view: z.boolean(),
+    edit: z.boolean(),
+    add: z.boolean(),
+    delete: z.boolean().default(false),
+  })),
+}).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertUserSchema = createInsertSchema(users).omit({ id: true });
+// Fields users may change on their own profile (PATCH /api/profile)
+export const updateProfileSchema = z.object({
+  firstName: z.string().trim().min(1, "First name is required"),
+  lastName: z.string().trim().min(1, "Last name is required"),
+  email: z.string().trim().email("Enter a valid email address"),
+  department: z.string().trim().nullable(),
+}).partial();
 export const insertAssetSchema = z.object({
   assetTag: z.string().min(1),
   name: z.string().min(1),
@@ -435,6 +494,8 @@ export type VmApprovalHistory = typeof vmApprovalHistory.$inferSelect;
 export type InsertVmApprovalHistory = typeof insertVmApprovalHistorySchema._type;
 export type ConsumableAssignment = typeof consumableAssignments.$inferSelect;
 
+export type Role = typeof roles.$inferSelect;
+export type InsertRole = z.infer<typeof insertRoleSchema>;
 export type InsertAsset = z.infer<typeof insertAssetSchema>;
 export type InsertComponent = z.infer<typeof insertComponentSchema>;
 export type InsertAccessory = z.infer<typeof insertAccessorySchema>;
@@ -506,6 +567,8 @@ export const systemSettings = pgTable("system_settings", {
   requireUppercase: boolean("require_uppercase").default(true),
   requireNumber: boolean("require_number").default(true),
   passwordExpiryDays: integer("password_expiry_days").default(90),
+  // Ask for the user's password again before a BitLocker recovery key is revealed
+  requirePasswordForKeyReveal: boolean("require_password_for_key_reveal").default(false),
 
   // Notification Settings
   enableAdminNotifications: boolean("enable_admin_notifications").default(true),
@@ -513,6 +576,11 @@ export const systemSettings = pgTable("system_settings", {
   notifyOnCheckout: boolean("notify_on_checkout").default(true),
   notifyOnCheckin: boolean("notify_on_checkin").default(true),
   notifyOnOverdue: boolean("notify_on_overdue").default(true),
+  vmReminderIntervalDays: integer("vm_reminder_interval_days").default(7),
+  vmOwnerEmailDomain: text("vm_owner_email_domain").default(""),
+  // IAM expiry notice template; {{placeholders}} are filled from the account
+  iamNoticeSubject: text("iam_notice_subject"),
+  iamNoticeTemplate: text("iam_notice_template"),
 
   // Maintenance Settings
   automaticBackups: boolean("automatic_backups").default(false),
@@ -528,6 +596,25 @@ export const insertSystemSettingsSchema = createInsertSchema(systemSettings);
 export type SystemSettings = typeof systemSettings.$inferSelect;
 export type InsertSystemSettings = z.infer<typeof insertSystemSettingsSchema>;
 
+// Backup run history schema
+export const backupRuns = pgTable("backup_runs", {
+  id: serial("id").primaryKey(),
+  trigger: text("trigger").notNull().default("scheduled"), // scheduled, manual
+  status: text("status").notNull().default("running"), // running, success, failed
+  filename: text("filename"),
+  sizeBytes: integer("size_bytes"),
+  durationMs: integer("duration_ms"),
+  prunedCount: integer("pruned_count").default(0),
+  error: text("error"),
+  startedAt: timestamp("started_at").defaultNow(),
+  completedAt: timestamp("completed_at")
+});
+
+export const insertBackupRunSchema = createInsertSchema(backupRuns).omit({ id: true });
+
+export type BackupRun = typeof backupRuns.$inferSelect;
+export type InsertBackupRun = z.infer<typeof insertBackupRunSchema>;
+
 // Zabbix Settings schema
 export const zabbixSettings = pgTable("zabbix_settings", {
   id: serial("id").primaryKey(),
@@ -538,9 +625,34 @@ export const zabbixSettings = pgTable("zabbix_settings", {
   lastSync: timestamp("last_sync"),
   syncInterval: integer("sync_interval").default(30), // in minutes
   enabled: boolean("enabled").default(false),
+  // How long VM metric history is kept at each resolution
+  metricsRawRetentionDays: integer("metrics_raw_retention_days").default(2),
+  metricsFiveMinuteRetentionDays: integer("metrics_five_minute_retention_days").default(30),
+  metricsHourlyRetentionDays: integer("metrics_hourly_retention_days").default(365),
   updatedAt: timestamp("updated_at").defaultNow()
 });
 
+// One row per Zabbix sync, scheduled or manual
+export const zabbixSyncRuns = pgTable("zabbix_sync_runs", {
+  id: serial("id").primaryKey(),
+  trigger: text("trigger").notNull().default("scheduled"), // scheduled, manual
+  status: text("status").notNull().default("running"), // running, success, partial, failed
+  hostsSeen: integer("hosts_seen").default(0),
+  hostsUpdated: integer("hosts_updated").default(0),
+  hostsUnchanged: integer("hosts_unchanged").default(0),
+  errors: text("errors").array().default([]),
+  // Newest item lastclock (Zabbix server time) seen across all hosts
+  highWaterClock: integer("high_water_clock"),
+  durationMs: integer("duration_ms"),
+  startedAt: timestamp("started_at").defaultNow(),
+  completedAt: timestamp("completed_at")
+});
+
+export const insertZabbixSyncRunSchema = createInsertSchema(zabbixSyncRuns).omit({ id: true });
+
+export type ZabbixSyncRun = typeof zabbixSyncRuns.$inferSelect;
+export type InsertZabbixSyncRun = z.infer<typeof insertZabbixSyncRunSchema>;
+
 // Zabbix Subnet schema for monitoring ranges
 export const zabbixSubnets = pgTable("zabbix_subnets", {
   id: serial("id").primaryKey(),
@@ -582,10 +694,28 @@ export const vmMonitoring = pgTable("vm_monitoring", {
   cpuCores: integer("cpu_cores"),
   totalMemory: bigint("total_memory", { mode: "number" }),
   totalDisk: bigint("total_disk", { mode: "number" }),
+  // Newest Zabbix item lastclock written for this host; the sync only fetches items newer than this
+  lastClock: integer("last_clock"),
   createdAt: text("created_at").notNull(),
   updatedAt: text("updated_at").notNull(),
 });
 
+// VM metric history: every sync adds a raw sample per host, which is rolled up into
+// 5-minute and hourly buckets (average and peak) so longer ranges stay cheap to chart
+export const vmMetricSamples = pgTable("vm_metric_samples", {
+  id: serial("id").primaryKey(),
+  vmId: integer("vm_id").notNull(), // vm_monitoring.vm_id (Zabbix host id)
+  resolution: text("resolution").notNull(), // raw, 5m, 1h
+  bucketStart: timestamp("bucket_start").notNull(),
+  cpuUsage: real("cpu_usage"),
+  memoryUsage: real("memory_usage"),
+  diskUsage: real("disk_usage"),
+  cpuMax: real("cpu_max"),
+  memoryMax: real("memory_max"),
+  diskMax: real("disk_max"),
+  sampleCount: integer("sample_count").notNull().default(1),
+});
+
 // Monitoring Platform Tables
 export const monitoringDashboards = pgTable("monitoring_dashboards", {
   id: serial("id").primaryKey(),
@@ -678,6 +808,11 @@ export const monitoringAlerts = pgTable("monitoring_alerts", {
   state: text("state").default("normal"), // normal, pending, firing
   lastEvaluation: text("last_evaluation"),
   error: text("error"),
+  // One row per firing of an alert rule, copied from the rule and closed when it resolves
+  ruleId: integer("rule_id").references(() => monitoringAlertRules.id, { onDelete: "set null" }),
+  value: real("value"),
+  firedAt: text("fired_at"),
+  resolvedAt: text("resolved_at"),
   createdAt: text("created_at").notNull(),
   updatedAt: text("updated_at").notNull(),
 });
@@ -688,9 +823,14 @@ export const monitoringNotifications = pgTable("monitoring_notifications", {
   type: text("type").notNull(), // email, webhook, slack, etc.
   recipient: text("recipient").notNull(),
   message: text("message").notNull(),
-  status: text("status").default("pending"), // pending, sent, failed
+  status: text("status").default("pending"), // pending, retrying, sent, failed
   sentAt: text("sent_at"),
   error: text("error"),
+  attempts: integer("attempts").default(0),
+  lastAttemptAt: text("last_attempt_at"),
+  // When a retrying row is due again; server/notifier.ts polls for these, so retries survive a restart
+  nextAttemptAt: text("next_attempt_at"),
+  payload: text("payload"), // JSON NotificationMessage, needed to redeliver
   createdAt: text("created_at").notNull(),
 });
 
@@ -722,18 +862,37 @@ export const bitlockerKeys = pgTable("bitlocker_keys", {
 
 export const insertBitlockerKeySchema = createInsertSchema(bitlockerKeys).omit({ id: true });
 
+// One row per recovery key reveal; append-only (server/migrations.ts blocks UPDATE, DELETE and TRUNCATE).
+// keyId has no foreign key and serialNumber is copied so entries outlive deleted keys
+export const bitlockerKeyAccessLog = pgTable("bitlocker_key_access_log", {
+  id: serial("id").primaryKey(),
+  keyId: integer("key_id").notNull(),
+  serialNumber: text("serial_number").notNull(),
+  identifier: text("identifier"),
+  userId: integer("user_id"),
+  username: text("username").notNull(),
+  reason: text("reason").notNull(),
+  ipAddress: text("ip_address"),
+  revealedAt: timestamp("revealed_at").defaultNow().notNull(),
+});
+
+export const insertBitlockerKeyAccessLogSchema = createInsertSchema(bitlockerKeyAccessLog).omit({ id: true, revealedAt: true });
+
 // Types for new schemas
 export type ZabbixSettings = typeof zabbixSettings.$inferSelect;
 export type ZabbixSubnet = typeof zabbixSubnets.$inferSelect;
 export type DiscoveredHost = typeof discoveredHosts.$inferSelect;
 export type VMMonitoring = typeof vmMonitoring.$inferSelect;
+export type VMMetricSample = typeof vmMetricSamples.$inferSelect;
 export type BitlockerKey = typeof bitlockerKeys.$inferSelect;
+export type BitlockerKeyAccessLog = typeof bitlockerKeyAccessLog.$inferSelect;
 
 export type InsertZabbixSettings = z.infer<typeof insertZabbixSettingsSchema>;
 export type InsertZabbixSubnet = z.infer<typeof insertZabbixSubnetSchema>;
 export type InsertDiscoveredHost = z.infer<typeof insertDiscoveredHostSchema>;
 export type InsertVMMonitoring = z.infer<typeof insertVMMonitoringSchema>;
 export type InsertBitlockerKey = z.infer<typeof insertBitlockerKeySchema>;
+export type InsertBitlockerKeyAccessLog = z.infer<typeof insertBitlockerKeyAccessLogSchema>;
 
 // Approval Number History schema
 export const approvalNumberHistory = pgTable("approval_number_history", {
@@ -760,10 +919,58 @@ export const iamAccounts = pgTable('iam_accounts', {
   approvalId: text('approval_id'),
   remarks: text('remarks'),
   status: text('status').default('active'),
+  // Expiry notice sent by the lifecycle engine
+  lastNotifiedAt: text('last_notified_at'),
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow()
 });
 
+export const IamAccountStatus = {
+  ACTIVE: "active",
+  EXPIRED_NOT_NOTIFIED: "expired_not_notified",
+  EXPIRED_NOTIFIED: "expired_notified",
+  EXTENDED: "extended",
+  ACCESS_REMOVED: "access_removed",
+} as const;
+
+// Every extension granted to an IAM account, with the approval that covered it
+export const iamAccountExtensions = pgTable('iam_account_extensions', {
+  id: serial('id').primaryKey(),
+  iamAccountId: integer('iam_account_id').notNull().references(() => iamAccounts.id, { onDelete: "cascade" }),
+  oldApprovalId: text('old_approval_id'),
+  newApprovalId: text('new_approval_id').notNull(),
+  oldEndDate: text('old_end_date'),
+  newEndDate: text('new_end_date').notNull(),
+  reason: text('reason'),
+  requestedBy: integer('requested_by').references(() => users.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Issues reported through report-issue.tsx; jiraKey/jiraStatus track the linked JIRA ticket
+export const issues = pgTable('issues', {
+  id: serial('id').primaryKey(),
+  title: text('title').notNull(),
+  description: text('description').notNull(),
+  priority: text('priority').notNull().default('Medium'),
+  issueType: text('issue_type').notNull().default('Incident'),
+  status: text('status').notNull().default('open'),
+  userEmail: text('user_email'),
+  submittedBy: text('submitted_by'),
+  reportedBy: integer('reported_by').references(() => users.id),
+  jiraKey: text('jira_key'),
+  jiraStatus: text('jira_status'),
+  jiraError: text('jira_error'),
+  lastSyncedAt: text('last_synced_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export const IssueStatus = {
+  OPEN: "open",
+  IN_PROGRESS: "in_progress",
+  RESOLVED: "resolved",
+} as const;
+
 export const insertApprovalNumberHistorySchema = createInsertSchema(approvalNumberHistory).omit({ id: true });
 
 export const insertIamAccountSchema = createInsertSchema(iamAccounts, {
@@ -781,4 +988,63 @@ export const insertIamAccountSchema = createInsertSchema(iamAccounts, {
 export type ApprovalNumberHistory = typeof approvalNumberHistory.$inferSelect;
 export type InsertApprovalNumberHistory = z.infer<typeof insertApprovalNumberHistorySchema>;
 export type IamAccount = typeof iamAccounts.$inferSelect;
-export type InsertIamAccount = z.infer<typeof insertIamAccountSchema>;
\ No newline at end of file
+export type InsertIamAccount = z.infer<typeof insertIamAccountSchema>;
+export type IamAccountExtension = typeof iamAccountExtensions.$inferSelect;
+export type Issue = typeof issues.$inferSelect;
+// Paged list responses (see server/pagination.ts for the query-param contract)
+export interface PaginatedResult<T> {
+  data: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+// Counts keyed by the stored value (status, category, ...); values that never occur are absent
+export type CountBreakdown = Record<string, number>;
+
+// Dashboard counts served by GET /api/stats
+export interface AssetStats {
+  total: number;
+  checkedOut: number;
+  available: number;
+  pending: number;
+  overdue: number;
+  archived: number;
+  reserved: number;
+  byStatus: CountBreakdown;
+  byCategory: CountBreakdown;
+  byDepartment: CountBreakdown;
+  byCondition: CountBreakdown;
+  licenses: {
+    total: number;
+    // Seat figures leave out licenses without a numeric seat count (e.g. unlimited)
+    totalSeats: number;
+    assignedSeats: number;
+    seatUtilization: number;
+    expiringSoon: number;
+    byStatus: CountBreakdown;
+  };
+  consumables: {
+    total: number;
+    totalQuantity: number;
+    outOfStock: number;
+    byStatus: CountBreakdown;
+    quantityByCategory: CountBreakdown;
+  };
+  vmInventory: { total: number; byStatus: CountBreakdown };
+  iamAccounts: { total: number; byStatus: CountBreakdown };
+  generatedAt: string;
+}
+
+// Everything checked out to one user, served with GET /api/profile
+export interface UserAssignedItems {
+  assets: (typeof assets.$inferSelect)[];
+  // Licenses assigned directly have no seat assignment
+  licenses: { license: typeof licenses.$inferSelect; assignment: typeof licenseAssignments.$inferSelect | null }[];
+  consumables: { consumable: typeof consumables.$inferSelect; assignment: ConsumableAssignment }[];
+  itEquipment: { equipment: typeof itEquipment.$inferSelect; assignment: ITEquipmentAssignment }[];
+}
+
+// Sent by the API in place of a stored credential; posting it back leaves the credential unchanged
+export const SECRET_SET_MARKER = "********";